@@ -0,0 +1,8 @@
+import type React from "react"
+import { RequireRole } from "@/components/require-role"
+
+// proxy.ts turns non-admins away on the server; this repeats the check against the
+// live claims, which may have changed since the session cookie was written
+export default function AdminLayout({ children }: { children: React.ReactNode }) {
+  return <RequireRole role="admin">{children}</RequireRole>
+}
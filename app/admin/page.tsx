@@ -1,27 +1,17 @@
 "use client"
 
-import { useEffect, useState } from "react"
+import { useCallback, useEffect, useState } from "react"
 import { useRouter } from "next/navigation"
-import { useAuth } from "@/contexts/auth-context"
+import Link from "next/link"
 import { SidebarLayout } from "@/components/sidebar-layout"
-import { Search, Users, FileText, Trash2, Eye, Globe, RefreshCw, Filter } from "lucide-react"
-import { API_BASE, ADMIN_UIDS } from "@/lib/constants"
-
-interface Analysis {
-  id: string
-  dance_type: string
-  dancers: string
-  user_id: string
-  user_email: string
-  user_displayName: string
-  user_country: string
-  user_credits: string
-  timestamp: string
-  processed: boolean
-  total_score?: string
-  analysis_type?: string
-  video_url?: string
-}
+import { Search, Users, FileText, Trash2, Eye, Globe, RefreshCw, Filter, ShieldCheck } from "lucide-react"
+import { useApi } from "@/hooks/use-api"
+import { useConfirm } from "@/contexts/confirm-context"
+import { notify, undoable } from "@/lib/notify"
+import type { AdminAnalysis as Analysis } from "@/lib/models"
+import { formatScore } from "@/lib/scores"
+import { ADMIN_EXPORT_COLUMNS, downloadExport } from "@/lib/export"
+import { ExportMenu } from "@/components/export-menu"
 
 interface User {
   id: string
@@ -46,116 +36,82 @@ export default function AdminPage() {
   const [showFilterPanel, setShowFilterPanel] = useState(false)
   const [filterAnalysisType, setFilterAnalysisType] = useState("all")
 
-  const { currentUser, getIdToken } = useAuth()
+  const api = useApi()
+  const confirm = useConfirm()
   const router = useRouter()
 
-  // Check if user is admin
-  useEffect(() => {
-    const checkAdmin = async () => {
-      if (!currentUser || !ADMIN_UIDS.includes(currentUser.uid)) {
-        router.push("/")
-      }
-    }
-
-    checkAdmin()
-  }, [currentUser, router])
+  // Also reloads after a rerun; the spinner is the caller's to show
+  const fetchAllAnalyses = useCallback(
+    () =>
+      api.admin
+        .analyses()
+        .then((data) => {
+          setAllAnalyses(data)
+
+          // Group users and extract countries
+          const usersMap: Record<string, User> = {}
+          const uniqueCountries = new Set<string>()
+
+          data.forEach((analysis: Analysis) => {
+            if (analysis.user_id) {
+              if (!usersMap[analysis.user_id]) {
+                usersMap[analysis.user_id] = {
+                  id: analysis.user_id,
+                  email: analysis.user_email || "Unknown",
+                  displayName: analysis.user_displayName || "Unknown User",
+                  country: analysis.user_country || "Unknown",
+                  credits: analysis.user_credits || "0",
+                  analysisCount: 0,
+                }
+
+                if (analysis.user_country) {
+                  uniqueCountries.add(analysis.user_country)
+                }
+              }
+              usersMap[analysis.user_id].analysisCount++
+            }
+          })
+
+          setUsers(usersMap)
+          setCountries(Array.from(uniqueCountries).sort())
+          setError(null)
+        })
+        .catch((error) => {
+          console.error("Error fetching analyses:", error)
+          setError("Failed to load analyses: " + (error as Error).message)
+        })
+        .finally(() => setLoading(false)),
+    [api],
+  )
 
   useEffect(() => {
     fetchAllAnalyses()
-  }, [])
-
-  const fetchAllAnalyses = async () => {
-    try {
-      setLoading(true)
-
-      const token = await getIdToken()
-
-      if (!token) {
-        throw new Error("Authentication required")
-      }
-
-      const response = await fetch(`${API_BASE}/admin/analyses`, {
-        headers: {
-          Authorization: `Bearer ${token}`,
-          "Content-Type": "application/json",
-        },
-      })
+  }, [fetchAllAnalyses])
 
-      if (!response.ok) {
-        throw new Error(`HTTP error! status: ${response.status}`)
-      }
-
-      const data = await response.json()
-      setAllAnalyses(data)
-
-      // Group users and extract countries
-      const usersMap: Record<string, User> = {}
-      const uniqueCountries = new Set<string>()
-
-      data.forEach((analysis: Analysis) => {
-        if (analysis.user_id) {
-          if (!usersMap[analysis.user_id]) {
-            usersMap[analysis.user_id] = {
-              id: analysis.user_id,
-              email: analysis.user_email || "Unknown",
-              displayName: analysis.user_displayName || "Unknown User",
-              country: analysis.user_country || "Unknown",
-              credits: analysis.user_credits || "0",
-              analysisCount: 0,
-            }
-
-            if (analysis.user_country) {
-              uniqueCountries.add(analysis.user_country)
-            }
-          }
-          usersMap[analysis.user_id].analysisCount++
-        }
-      })
-
-      setUsers(usersMap)
-      setCountries(Array.from(uniqueCountries).sort())
-      setError(null)
-    } catch (error) {
-      console.error("Error fetching analyses:", error)
-      setError("Failed to load analyses: " + (error as Error).message)
-    } finally {
-      setLoading(false)
-    }
+  const adjustAnalysisCount = (userId: string | undefined, delta: number) => {
+    if (!userId) return
+    setUsers((current) =>
+      current[userId] ? { ...current, [userId]: { ...current[userId], analysisCount: current[userId].analysisCount + delta } } : current,
+    )
   }
 
-  const handleDeleteAnalysis = async (id: string) => {
-    if (!window.confirm("Are you sure you want to delete this analysis?")) {
-      return
-    }
-
-    try {
-      const token = await getIdToken()
-
-      const response = await fetch(`${API_BASE}/analyses/${id}`, {
-        method: "DELETE",
-        headers: {
-          Authorization: `Bearer ${token}`,
-          "Content-Type": "application/json",
-        },
-      })
-
-      if (!response.ok) {
-        throw new Error(`HTTP error! status: ${response.status}`)
-      }
-
-      setAllAnalyses(allAnalyses.filter((analysis) => analysis.id !== id))
-
-      const updatedUsers = { ...users }
-      const analysisToDelete = allAnalyses.find((a) => a.id === id)
-
-      if (analysisToDelete && analysisToDelete.user_id && updatedUsers[analysisToDelete.user_id]) {
-        updatedUsers[analysisToDelete.user_id].analysisCount--
-        setUsers(updatedUsers)
-      }
-    } catch (error) {
-      console.error("Error deleting analysis:", error)
-      setError("Failed to delete analysis: " + (error as Error).message)
-    }
+  // Hidden right away; the DELETE (a move to the trash) goes out once the undo window has passed
+  const handleDeleteAnalysis = (id: string) => {
+    const analysisToDelete = allAnalyses.find((a) => a.id === id)
+    if (!analysisToDelete) return
+
+    setAllAnalyses((current) => current.filter((analysis) => analysis.id !== id))
+    adjustAnalysisCount(analysisToDelete.user_id, -1)
+
+    undoable({
+      message: "Analysis moved to trash",
+      commit: ({ keepalive }) => api.analyses.remove(id, { keepalive }),
+      revert: () => {
+        setAllAnalyses((current) => [...current, analysisToDelete])
+        adjustAnalysisCount(analysisToDelete.user_id, 1)
+      },
+      errorMessage: "Failed to delete analysis",
+    })
   }
 
   const handleViewAnalysis = (analysis: Analysis) => {
@@ -173,38 +129,28 @@ export default function AdminPage() {
       const hour = timestamp.substring(8, 10)
       const minute = timestamp.substring(10, 12)
       return `${year}/${month}/${day} ${hour}:${minute}`
-    } catch (e) {
+    } catch {
       return timestamp
     }
   }
 
   const handleRerunAnalysis = async (analysisId: string) => {
-    if (!window.confirm("Are you sure you want to rerun this analysis?")) {
-      return
-    }
+    const confirmed = await confirm({
+      title: "Rerun this analysis?",
+      description: "The video is analyzed again from scratch. This may take several minutes.",
+      confirmLabel: "Rerun",
+    })
+    if (!confirmed) return
 
     try {
       setLoading(true)
-      const token = await getIdToken()
-
-      const response = await fetch(`${API_BASE}/analyses/${analysisId}/rerun`, {
-        method: "POST",
-        headers: {
-          Authorization: `Bearer ${token}`,
-          "Content-Type": "application/json",
-        },
-      })
+      await api.analyses.rerun(analysisId)
 
-      if (!response.ok) {
-        const errorData = await response.json()
-        throw new Error(errorData.error || "Failed to rerun analysis")
-      }
-
-      alert("Analysis rerun started successfully")
+      notify.success("Analysis rerun started")
       await fetchAllAnalyses()
     } catch (error) {
       console.error("Error rerunning analysis:", error)
-      setError("Failed to rerun analysis: " + (error as Error).message)
+      notify.error("Failed to rerun analysis", (error as Error).message)
     } finally {
       setLoading(false)
     }
@@ -287,7 +233,25 @@ export default function AdminPage() {
   return (
     <SidebarLayout>
       <div className="h-full">
-        <h1 className="text-3xl font-bold text-blue-800 mb-6">Admin Dashboard</h1>
+        <div className="flex items-center justify-between mb-6">
+          <h1 className="text-3xl font-bold text-blue-800">Admin Dashboard</h1>
+          <div className="flex items-center gap-2">
+            <Link
+              href="/admin/roles"
+              className="flex items-center px-3 py-1.5 text-sm border rounded-lg bg-white hover:bg-gray-50 text-gray-700"
+            >
+              <ShieldCheck className="w-4 h-4 mr-1" />
+              Roles
+            </Link>
+            <Link
+              href="/trash"
+              className="flex items-center px-3 py-1.5 text-sm border rounded-lg bg-white hover:bg-gray-50 text-gray-700"
+            >
+              <Trash2 className="w-4 h-4 mr-1" />
+              Trash
+            </Link>
+          </div>
+        </div>
 
         {error && <div className="bg-red-100 border border-red-400 text-red-700 px-4 py-3 rounded mb-6">{error}</div>}
 
@@ -505,6 +469,12 @@ export default function AdminPage() {
                       <option value="country-asc">Country (A-Z)</option>
                       <option value="country-desc">Country (Z-A)</option>
                     </select>
+                    <ExportMenu
+                      count={getFilteredAnalyses().length}
+                      onExport={(format) =>
+                        downloadExport(getFilteredAnalyses(), format, "admin-analyses", ADMIN_EXPORT_COLUMNS)
+                      }
+                    />
                   </div>
                 </div>
 
@@ -602,9 +572,9 @@ export default function AdminPage() {
                         </div>
 
                         <div className="text-sm">
-                          {analysis.total_score ? (
+                          {analysis.scores.total !== undefined ? (
                             <span className="px-2 py-1 bg-green-100 text-green-800 rounded-full text-sm font-semibold">
-                              {analysis.total_score}
+                              {formatScore(analysis.scores.total, analysis.scores.maxTotal)}
                             </span>
                           ) : (
                             <span className="text-gray-400">N/A</span>
@@ -634,7 +604,7 @@ export default function AdminPage() {
                           <button
                             onClick={() => handleDeleteAnalysis(analysis.id)}
                             className="p-1 text-red-600 hover:text-red-800"
-                            title="Delete Analysis"
+                            title="Move to Trash"
                           >
                             <Trash2 size={18} />
                           </button>
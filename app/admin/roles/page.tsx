@@ -0,0 +1,230 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import Link from "next/link"
+import { ArrowLeft, Search, Loader2, AlertCircle, ShieldCheck } from "lucide-react"
+import { useAuth } from "@/contexts/auth-context"
+import { useConfirm } from "@/contexts/confirm-context"
+import { SidebarLayout } from "@/components/sidebar-layout"
+import { useApi } from "@/hooks/use-api"
+import { notify } from "@/lib/notify"
+import { ROLES, ROLE_LABELS, type Role } from "@/lib/roles"
+import type { UserRoles, UserSearchResult } from "@/lib/models"
+import { errorMessage } from "@/lib/api"
+
+// Everyone is a dancer, so that one isn't granted or revoked here
+const GRANTABLE_ROLES = ROLES.filter((role) => role !== "dancer")
+
+export default function AdminRolesPage() {
+  const { currentUser, refreshRoles } = useAuth()
+  const api = useApi()
+  const confirm = useConfirm()
+
+  const [users, setUsers] = useState<UserRoles[]>([])
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+  // User ids with a role change in flight
+  const [savingIds, setSavingIds] = useState<string[]>([])
+
+  const [searchTerm, setSearchTerm] = useState("")
+  const [searchResults, setSearchResults] = useState<UserSearchResult[]>([])
+  const [searching, setSearching] = useState(false)
+
+  useEffect(() => {
+    let cancelled = false
+    const fetchRoles = async () => {
+      try {
+        const data = await api.admin.roles.list()
+        if (cancelled) return
+        setUsers(data.sort((a, b) => a.email.localeCompare(b.email)))
+        setError(null)
+      } catch (err) {
+        console.error("Failed to fetch roles:", err)
+        if (!cancelled) setError(errorMessage(err) || "Failed to load roles")
+      } finally {
+        if (!cancelled) setLoading(false)
+      }
+    }
+
+    fetchRoles()
+    return () => {
+      cancelled = true
+    }
+  }, [api])
+
+  useEffect(() => {
+    const searchUsers = async () => {
+      try {
+        setSearching(true)
+        setSearchResults(await api.user.search(searchTerm))
+      } catch (err) {
+        console.error("User search error:", err)
+        notify.error("User search failed", errorMessage(err))
+      } finally {
+        setSearching(false)
+      }
+    }
+
+    const delaySearch = setTimeout(() => {
+      if (searchTerm.length >= 3) {
+        searchUsers()
+      } else {
+        setSearchResults([])
+      }
+    }, 500)
+
+    return () => clearTimeout(delaySearch)
+  }, [api, searchTerm])
+
+  // Search results join the table with no roles until one is granted
+  const addUser = (user: UserSearchResult) => {
+    setUsers((current) => (current.some((existing) => existing.id === user.id) ? current : [...current, { ...user, roles: [] }]))
+    setSearchTerm("")
+    setSearchResults([])
+  }
+
+  const toggleRole = async (user: UserRoles, role: Role) => {
+    const granting = !user.roles.includes(role)
+    const isSelf = user.id === currentUser?.uid
+
+    if (!granting && isSelf && role === "admin") {
+      const confirmed = await confirm({
+        title: "Remove your own admin role?",
+        description: "You will lose access to the admin panel as soon as your session picks up the change.",
+        confirmLabel: "Remove",
+        destructive: true,
+      })
+      if (!confirmed) return
+    }
+
+    const roles = granting ? [...user.roles, role] : user.roles.filter((existing) => existing !== role)
+
+    setSavingIds((ids) => [...ids, user.id])
+    try {
+      const saved = await api.admin.roles.set(user.id, roles)
+      setUsers((current) => current.map((existing) => (existing.id === saved.id ? saved : existing)))
+      notify.success(
+        granting ? `${ROLE_LABELS[role]} role granted` : `${ROLE_LABELS[role]} role revoked`,
+        isSelf ? undefined : `${user.email} gets the change the next time they sign in or their session refreshes.`,
+      )
+      if (isSelf) await refreshRoles()
+    } catch (err) {
+      console.error("Failed to update roles:", err)
+      notify.error("Failed to update roles", errorMessage(err))
+    } finally {
+      setSavingIds((ids) => ids.filter((id) => id !== user.id))
+    }
+  }
+
+  return (
+    <SidebarLayout>
+      <div className="h-full">
+        <Link href="/admin" className="flex items-center text-blue-600 hover:text-blue-800 mb-4 w-fit">
+          <ArrowLeft className="w-5 h-5 mr-2" />
+          Back to Admin Dashboard
+        </Link>
+
+        <h1 className="text-3xl font-bold text-blue-800 mb-2">Roles</h1>
+        <p className="text-sm text-gray-500 mb-6">
+          Grant organizer, coach, judge and admin access. Every signed-in user is a dancer.
+        </p>
+
+        {error && (
+          <div className="bg-red-100 border border-red-400 text-red-700 px-4 py-3 rounded mb-6 flex items-start">
+            <AlertCircle className="w-5 h-5 mr-2 mt-0.5 flex-shrink-0" />
+            <div>{error}</div>
+          </div>
+        )}
+
+        <div className="bg-white rounded-lg shadow p-4 mb-6">
+          <label className="block text-sm font-medium text-gray-700 mb-2">Add a user</label>
+          <div className="relative">
+            <input
+              type="email"
+              placeholder="Search by email..."
+              className="w-full p-2 pl-10 border rounded-lg"
+              value={searchTerm}
+              onChange={(e) => setSearchTerm(e.target.value)}
+            />
+            <Search className="absolute left-3 top-2.5 w-5 h-5 text-gray-400" />
+            {searching && <Loader2 className="absolute right-3 top-2.5 w-5 h-5 text-gray-400 animate-spin" />}
+          </div>
+
+          {searchResults.length > 0 && (
+            <div className="mt-2 border rounded-lg divide-y max-h-60 overflow-y-auto">
+              {searchResults.map((user) => (
+                <button
+                  key={user.id}
+                  onClick={() => addUser(user)}
+                  className="w-full text-left px-3 py-2 hover:bg-gray-50"
+                >
+                  <div className="font-medium text-sm">{user.email}</div>
+                  {user.displayName && <div className="text-xs text-gray-500">{user.displayName}</div>}
+                </button>
+              ))}
+            </div>
+          )}
+        </div>
+
+        {loading ? (
+          <div className="flex justify-center items-center h-64">
+            <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
+            <span className="ml-2 text-gray-600">Loading...</span>
+          </div>
+        ) : (
+          <div className="bg-white rounded-lg shadow overflow-x-auto">
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="border-b bg-gray-50 text-left">
+                  <th className="p-4 font-semibold">User</th>
+                  {GRANTABLE_ROLES.map((role) => (
+                    <th key={role} className="p-4 font-semibold text-center">
+                      {ROLE_LABELS[role]}
+                    </th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody>
+                {users.length > 0 ? (
+                  users.map((user) => {
+                    const saving = savingIds.includes(user.id)
+                    return (
+                      <tr key={user.id} className="border-b hover:bg-gray-50">
+                        <td className="p-4">
+                          <div className="font-medium flex items-center">
+                            {user.email}
+                            {user.id === currentUser?.uid && <span className="ml-2 text-xs text-gray-500">(you)</span>}
+                            {saving && <Loader2 className="w-4 h-4 ml-2 animate-spin text-gray-400" />}
+                          </div>
+                          {user.displayName && <div className="text-xs text-gray-500">{user.displayName}</div>}
+                        </td>
+                        {GRANTABLE_ROLES.map((role) => (
+                          <td key={role} className="p-4 text-center">
+                            <input
+                              type="checkbox"
+                              checked={user.roles.includes(role)}
+                              disabled={saving}
+                              onChange={() => toggleRole(user, role)}
+                              aria-label={`${ROLE_LABELS[role]} role for ${user.email}`}
+                            />
+                          </td>
+                        ))}
+                      </tr>
+                    )
+                  })
+                ) : (
+                  <tr>
+                    <td colSpan={GRANTABLE_ROLES.length + 1} className="p-8 text-center text-gray-500">
+                      <ShieldCheck className="w-8 h-8 text-gray-300 mx-auto mb-2" />
+                      No one has a role beyond dancer yet. Search for a user above to grant one.
+                    </td>
+                  </tr>
+                )}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+    </SidebarLayout>
+  )
+}
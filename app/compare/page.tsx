@@ -0,0 +1,280 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import { useRouter, useSearchParams } from "next/navigation"
+import { ArrowLeft, AlertCircle, Columns2, Crosshair, Link2, Pause, Play, RotateCcw } from "lucide-react"
+import { useAuth } from "@/contexts/auth-context"
+import { SidebarLayout } from "@/components/sidebar-layout"
+import { VideoPlayer, formatVideoTime } from "@/components/video-player"
+import { useApi } from "@/hooks/use-api"
+import { ApiError, errorMessage } from "@/lib/api"
+import { useSyncedVideos } from "@/hooks/use-synced-videos"
+import { compareCriteria, compareTotals, type ComparisonRow } from "@/lib/compare"
+import { MAX_COMPARE, MIN_COMPARE } from "@/lib/constants"
+import type { Analysis } from "@/lib/models"
+import { analysisDate } from "@/lib/progress"
+import { formatScore } from "@/lib/scores"
+
+const splitIds = (value: string | null) => (value ? value.split(",").filter(Boolean) : [])
+
+const GRID_COLUMNS: Record<number, string> = {
+  2: "md:grid-cols-2",
+  3: "md:grid-cols-3",
+  4: "md:grid-cols-2 xl:grid-cols-4",
+}
+
+export default function ComparePage() {
+  const { currentUser, loading: authLoading } = useAuth()
+  const api = useApi()
+  const router = useRouter()
+  const searchParams = useSearchParams()
+  const sync = useSyncedVideos()
+
+  const [analyses, setAnalyses] = useState<Analysis[]>([])
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+
+  // Own analyses by id, analyses shared with the user by share id
+  const ids = searchParams.get("ids") || ""
+  const sharedIds = searchParams.get("shared") || ""
+
+  const requested = splitIds(ids).length + splitIds(sharedIds).length
+  const selectionError =
+    requested < MIN_COMPARE || requested > MAX_COMPARE
+      ? `Pick between ${MIN_COMPARE} and ${MAX_COMPARE} analyses to compare.`
+      : null
+
+  useEffect(() => {
+    if (!currentUser || selectionError) return
+    let cancelled = false
+
+    const fetchAnalyses = async () => {
+      const ownIds = splitIds(ids)
+      const shareIds = splitIds(sharedIds)
+
+      try {
+        const [own, shared] = await Promise.all([
+          ownIds.length > 0 ? api.analyses.listAll({ user_id: currentUser.uid }) : Promise.resolve([]),
+          // Shares whose analysis the owner has since deleted are left out
+          Promise.all(
+            shareIds.map((shareId) =>
+              api.sharedAnalyses.get(shareId).catch((err) => {
+                if (err instanceof ApiError && err.isRemoved) return null
+                throw err
+              }),
+            ),
+          ),
+        ])
+        if (cancelled) return
+        const picked = [
+          ...ownIds.map((id) => own.find((analysis) => analysis.id === id)),
+          ...shared,
+        ].filter((analysis): analysis is Analysis => Boolean(analysis))
+
+        // Oldest first, so deltas read as progress over time
+        setAnalyses(picked.sort((a, b) => a.timestamp.localeCompare(b.timestamp)))
+        setError(picked.length < ownIds.length + shareIds.length ? "Some of the selected analyses could not be found." : null)
+      } catch (err) {
+        console.error("Failed to load analyses for comparison:", err)
+        if (!cancelled) setError(errorMessage(err) || "Failed to load analyses")
+      } finally {
+        if (!cancelled) setLoading(false)
+      }
+    }
+
+    fetchAnalyses()
+    return () => {
+      cancelled = true
+    }
+  }, [api, currentUser, ids, sharedIds, selectionError])
+
+  const cards = analyses.map((analysis) => analysis.scores)
+  const criteriaRows = compareCriteria(cards)
+  const totalRow = compareTotals(cards)
+  // Only analyses with a video take part in synced playback; the first one leads
+  const withVideo = analyses.filter((analysis) => analysis.video_url)
+
+  const renderRow = (row: ComparisonRow, emphasize = false) => (
+    <tr key={row.key} className={`border-b ${emphasize ? "font-semibold bg-gray-50" : ""}`}>
+      <td className="py-2 pr-4">{row.label}</td>
+      {row.scores.map((score, index) => {
+        const delta = row.deltas[index]
+        return (
+          <td key={index} className={`py-2 text-right ${row.best === index ? "text-blue-700 font-semibold" : ""}`}>
+            {score !== undefined
+              ? formatScore(score, row.key === "total" ? cards[index].maxTotal : undefined)
+              : "–"}
+            {delta !== undefined && delta !== 0 && (
+              <span
+                className={`ml-2 inline-block px-1.5 py-0.5 rounded text-xs font-medium ${
+                  delta > 0 ? "bg-green-100 text-green-700" : "bg-red-100 text-red-700"
+                }`}
+              >
+                {delta > 0 ? "+" : "−"}
+                {formatScore(Math.abs(delta))}
+              </span>
+            )}
+          </td>
+        )
+      })}
+    </tr>
+  )
+
+  if (authLoading) {
+    return (
+      <div className="flex items-center justify-center min-h-screen">
+        <div className="text-center">
+          <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600 mx-auto mb-2"></div>
+          <p className="text-gray-600">Loading...</p>
+        </div>
+      </div>
+    )
+  }
+
+  if (!currentUser) {
+    return null
+  }
+
+  return (
+    <SidebarLayout>
+      <div className="max-w-7xl mx-auto">
+        <button
+          onClick={() => router.back()}
+          className="flex items-center text-blue-600 hover:text-blue-800 transition-colors mb-4"
+        >
+          <ArrowLeft className="w-5 h-5 mr-2" />
+          Back
+        </button>
+
+        <div className="mb-6">
+          <h1 className="text-3xl font-bold text-gray-900 mb-2 flex items-center">
+            <Columns2 className="w-8 h-8 mr-3 text-blue-600" />
+            Compare Analyses
+          </h1>
+          <p className="text-gray-600">Side by side, oldest first. Differences are measured against the first analysis.</p>
+        </div>
+
+        {(selectionError || error) && (
+          <div className="bg-red-100 border border-red-400 text-red-700 px-4 py-3 rounded mb-6 flex items-center">
+            <AlertCircle className="w-5 h-5 mr-2 flex-shrink-0" />
+            {selectionError || error}
+          </div>
+        )}
+
+        {loading && !selectionError ? (
+          <div className="flex justify-center items-center h-64">
+            <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
+            <span className="ml-2 text-gray-600">Loading analyses...</span>
+          </div>
+        ) : analyses.length >= MIN_COMPARE ? (
+          <>
+            {withVideo.length > 1 && (
+              <div className="bg-white rounded-lg shadow p-4 mb-4 flex flex-col md:flex-row md:items-center gap-4">
+                <button
+                  onClick={sync.playing ? sync.pause : sync.play}
+                  className="flex items-center justify-center px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700"
+                >
+                  {sync.playing ? <Pause className="w-4 h-4 mr-2" /> : <Play className="w-4 h-4 mr-2" />}
+                  {sync.playing ? "Pause all" : "Play all"}
+                </button>
+                <div className="flex-1 flex items-center gap-3">
+                  <span className="text-sm text-gray-600 tabular-nums">{formatVideoTime(sync.currentTime)}</span>
+                  <input
+                    type="range"
+                    min={0}
+                    max={sync.duration || 0}
+                    step={0.1}
+                    value={Math.min(sync.currentTime, sync.duration || 0)}
+                    onChange={(e) => sync.seek(Number(e.target.value))}
+                    className="flex-1"
+                    aria-label="Shared timeline"
+                  />
+                  <span className="text-sm text-gray-600 tabular-nums">{formatVideoTime(sync.duration)}</span>
+                </div>
+                <div className="flex flex-wrap items-center gap-3 text-sm">
+                  <label className="flex items-center gap-2 text-gray-700">
+                    <input type="checkbox" checked={sync.synced} onChange={(e) => sync.setSynced(e.target.checked)} />
+                    <Link2 className="w-4 h-4" />
+                    Sync playback
+                  </label>
+                  <button
+                    onClick={sync.alignHere}
+                    className="flex items-center px-3 py-1.5 border rounded-lg hover:bg-gray-50"
+                    title="Treat the videos' current positions as the same moment"
+                  >
+                    <Crosshair className="w-4 h-4 mr-1" />
+                    Align here
+                  </button>
+                  {sync.aligned && (
+                    <button
+                      onClick={sync.resetAlignment}
+                      className="flex items-center px-3 py-1.5 border rounded-lg hover:bg-gray-50"
+                    >
+                      <RotateCcw className="w-4 h-4 mr-1" />
+                      Reset alignment
+                    </button>
+                  )}
+                </div>
+              </div>
+            )}
+
+            <div className={`grid grid-cols-1 ${GRID_COLUMNS[analyses.length]} gap-4 mb-6`}>
+              {analyses.map((analysis) => (
+                <div key={analysis.id} className="bg-white rounded-lg shadow overflow-hidden">
+                  {analysis.video_url ? (
+                    <VideoPlayer
+                      ref={sync.register(withVideo.indexOf(analysis))}
+                      videoUrl={analysis.video_url}
+                      className="rounded-none"
+                    />
+                  ) : (
+                    <div className="aspect-video bg-gray-100 flex items-center justify-center text-sm text-gray-500">
+                      No video
+                    </div>
+                  )}
+                  <div className="p-4">
+                    <p className="font-medium text-gray-900">{analysis.dancers || "Unknown dancers"}</p>
+                    <p className="text-sm text-gray-600">{analysis.dance_type}</p>
+                    <p className="text-xs text-gray-500 mt-1">{analysisDate(analysis.timestamp).toLocaleDateString()}</p>
+                    {analysis.scores.total !== undefined && (
+                      <p className="mt-2 font-semibold text-green-600">
+                        {formatScore(analysis.scores.total, analysis.scores.maxTotal)}
+                      </p>
+                    )}
+                  </div>
+                </div>
+              ))}
+            </div>
+
+            <div className="bg-white rounded-lg shadow p-4 md:p-6 overflow-x-auto">
+              <h2 className="text-xl font-bold text-gray-800 mb-4">Scores</h2>
+              {criteriaRows.length === 0 && totalRow.scores.every((score) => score === undefined) ? (
+                <p className="text-gray-500">None of these analyses have scores yet.</p>
+              ) : (
+                <table className="w-full text-sm">
+                  <thead>
+                    <tr className="text-left text-gray-500 border-b">
+                      <th className="py-2 pr-4">Criterion</th>
+                      {analyses.map((analysis) => (
+                        <th key={analysis.id} className="py-2 text-right font-medium">
+                          <div>{analysis.dancers}</div>
+                          <div className="text-xs font-normal">
+                            {analysisDate(analysis.timestamp).toLocaleDateString()}
+                          </div>
+                        </th>
+                      ))}
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {criteriaRows.map((row) => renderRow(row))}
+                    {renderRow(totalRow, true)}
+                  </tbody>
+                </table>
+              )}
+            </div>
+          </>
+        ) : null}
+      </div>
+    </SidebarLayout>
+  )
+}
@@ -1,10 +1,11 @@
 "use client"
 
-import { useEffect, useState } from "react"
-import { useRouter } from "next/navigation"
+import { useState } from "react"
 import { useAuth } from "@/contexts/auth-context"
 import { useCredits } from "@/contexts/credits-context"
 import { SidebarLayout } from "@/components/sidebar-layout"
+import { notify } from "@/lib/notify"
+import { errorMessage } from "@/lib/api"
 import { Coins, CreditCard, Check, Loader2 } from "lucide-react"
 
 const CREDIT_PACKAGES = [
@@ -43,17 +44,12 @@ const CREDIT_PACKAGES = [
 
 export default function CreditsPage() {
   const { currentUser, getIdToken, loading: authLoading } = useAuth()
-  const { credits, fetchUserCredits } = useCredits()
-  const router = useRouter()
+  const { credits, pool } = useCredits()
+  // Members of a pooled studio can't buy into it; only the owner tops it up
+  const canBuy = !pool || pool.role === "owner"
   const [loading, setLoading] = useState<string | null>(null)
   const [error, setError] = useState<string | null>(null)
 
-  useEffect(() => {
-    if (!authLoading && !currentUser) {
-      router.push("/login")
-    }
-  }, [currentUser, authLoading, router])
-
   const handlePurchase = async (packageId: string) => {
     try {
       setLoading(packageId)
@@ -71,16 +67,17 @@ export default function CreditsPage() {
 
       // In a real implementation, this would integrate with a payment provider like Stripe
       // For now, we'll show a placeholder message
-      alert(
-        `Payment integration required.\n\nYou selected: ${selectedPackage.name}\nCredits: ${selectedPackage.credits}\nPrice: $${selectedPackage.price}\n\nPlease contact support to complete your purchase.`,
+      notify.info(
+        "Payment integration required",
+        `${selectedPackage.name}: ${selectedPackage.credits} credits for $${selectedPackage.price}. Please contact support to complete your purchase.`,
       )
 
       // Simulate successful purchase for demo purposes
       // In production, this would be handled by a webhook from the payment provider
       // await fetchUserCredits()
-    } catch (err: any) {
+    } catch (err) {
       console.error("Purchase error:", err)
-      setError(err.message || "Failed to process purchase")
+      setError(errorMessage(err) || "Failed to process purchase")
     } finally {
       setLoading(null)
     }
@@ -116,8 +113,16 @@ export default function CreditsPage() {
             <div className="flex items-center">
               <Coins className="w-8 h-8 text-blue-600 mr-3" />
               <div>
-                <h2 className="text-xl font-semibold text-gray-900">Current Balance</h2>
-                <p className="text-gray-600">Available credits for analysis</p>
+                <h2 className="text-xl font-semibold text-gray-900">
+                  {pool ? `${pool.name} Credit Pool` : "Current Balance"}
+                </h2>
+                <p className="text-gray-600">
+                  {pool
+                    ? canBuy
+                      ? "Shared by every member of your studio. Packages bought here go to the pool."
+                      : "Your analyses are paid from your studio's shared pool. Ask the studio owner to top it up."
+                    : "Available credits for analysis"}
+                </p>
               </div>
             </div>
             <div className="text-4xl font-bold text-blue-600">{credits}</div>
@@ -160,7 +165,7 @@ export default function CreditsPage() {
 
               <button
                 onClick={() => handlePurchase(pkg.id)}
-                disabled={loading !== null}
+                disabled={loading !== null || !canBuy}
                 className={`w-full py-3 rounded-lg font-semibold transition flex items-center justify-center ${
                   pkg.popular
                     ? "bg-blue-600 text-white hover:bg-blue-700"
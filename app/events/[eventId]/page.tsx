@@ -1,6 +1,6 @@
 "use client"
 
-import { useState, useEffect } from "react"
+import { useState, useEffect, useCallback } from "react"
 import { useRouter, useParams } from "next/navigation"
 import {
   Trophy,
@@ -16,7 +16,11 @@ import {
 } from "lucide-react"
 import { useAuth } from "@/contexts/auth-context"
 import { SidebarLayout } from "@/components/sidebar-layout"
-import { API_BASE } from "@/lib/constants"
+import { useApi } from "@/hooks/use-api"
+import type { EventEntry } from "@/lib/models"
+import { formatScore } from "@/lib/scores"
+import { notify } from "@/lib/notify"
+import { errorMessage } from "@/lib/api"
 
 interface EventDetail {
   id: string
@@ -36,25 +40,11 @@ interface EventDetail {
   status: string
 }
 
-interface EventEntry {
-  id: string
-  user_id: string
-  event_id: string
-  entered_at: string
-  user_email: string
-  user_country?: string
-  analysis_id?: string
-  dance_type?: string
-  dancers?: string
-  total_score?: number
-  rank?: number
-  video_url?: string
-}
-
 export default function EventDetailPage() {
   const router = useRouter()
   const params = useParams()
-  const { currentUser, getIdToken } = useAuth()
+  const { currentUser } = useAuth()
+  const api = useApi()
   const [event, setEvent] = useState<EventDetail | null>(null)
   const [entries, setEntries] = useState<EventEntry[]>([])
   const [loading, setLoading] = useState(true)
@@ -64,97 +54,83 @@ export default function EventDetailPage() {
 
   const eventId = params.eventId as string
 
-  useEffect(() => {
-    if (eventId) {
-      fetchEventDetails()
-      fetchEventEntries()
-    }
-  }, [eventId])
-
-  const fetchEventDetails = async () => {
-    try {
-      setLoading(true)
-      setError(null)
-
-      console.log(`Fetching events list to find event: ${eventId}`)
-
-      // Fetch all events and find the specific one
-      const response = await fetch(`${API_BASE}/events`)
-
-      if (!response.ok) {
-        throw new Error(`Failed to fetch events: ${response.statusText}`)
-      }
-
-      const events = await response.json()
-      console.log("Events received:", events)
-
-      // Find the specific event by ID
-      const eventDetail = events.find((event: any) => event.id === eventId)
-
-      if (!eventDetail) {
-        throw new Error("Event not found")
-      }
-
-      console.log("Event details found:", eventDetail)
-
-      // Convert the event data to match our interface
-      const formattedEvent: EventDetail = {
-        id: eventDetail.id,
-        name: eventDetail.name,
-        description: eventDetail.description,
-        start_date: eventDetail.start_date,
-        end_date: eventDetail.end_date,
-        entries_count: eventDetail.entries_count || 0,
-        country_restriction: eventDetail.country_restriction || false,
-        allowed_countries: eventDetail.allowed_countries || [],
-        entry_fee: eventDetail.entry_fee || 2,
-        status: eventDetail.status || 'active',
-        max_participants: eventDetail.max_entries || undefined,
-        organizer: eventDetail.created_by || undefined,
-        categories: eventDetail.dance_type ? [eventDetail.dance_type] : [],
-        rules: `Analysis Type: ${eventDetail.analysis_type}\nDance Type: ${eventDetail.dance_type || 'All'}`
-      }
-
-      setEvent(formattedEvent)
-    } catch (err: any) {
-      console.error("Error fetching event details:", err)
-      setError(err.message || "Failed to load event details")
-    } finally {
-      setLoading(false)
-    }
-  }
-
-  const fetchEventEntries = async () => {
-    try {
-      if (!currentUser) return
-
-      const token = await getIdToken()
-      if (!token) return
-
-      const response = await fetch(`${API_BASE}/events/${eventId}/entries`, {
-        headers: {
-          Authorization: `Bearer ${token}`,
-          "Content-Type": "application/json",
-        },
+  const fetchEventDetails = useCallback(() => {
+    console.log(`Fetching events list to find event: ${eventId}`)
+
+    // Fetch all events and find the specific one
+    return api.events
+      .list()
+      .then((events) => {
+        console.log("Events received:", events)
+
+        // Find the specific event by ID
+        const eventDetail = events.find((event) => event.id === eventId)
+
+        if (!eventDetail) {
+          throw new Error("Event not found")
+        }
+
+        console.log("Event details found:", eventDetail)
+
+        // Convert the event data to match our interface
+        const formattedEvent: EventDetail = {
+          id: eventDetail.id,
+          name: eventDetail.name,
+          description: eventDetail.description,
+          start_date: eventDetail.start_date,
+          end_date: eventDetail.end_date,
+          entries_count: eventDetail.entries_count || 0,
+          country_restriction: eventDetail.country_restriction || false,
+          allowed_countries: eventDetail.allowed_countries || [],
+          entry_fee: eventDetail.entry_fee || 2,
+          status: eventDetail.status || 'active',
+          max_participants: eventDetail.max_entries || undefined,
+          organizer: eventDetail.created_by || undefined,
+          categories: eventDetail.dance_type ? [eventDetail.dance_type] : [],
+          rules: `Analysis Type: ${eventDetail.analysis_type}\nDance Type: ${eventDetail.dance_type || 'All'}`
+        }
+
+        setEvent(formattedEvent)
+        setError(null)
+      })
+      .catch((err) => {
+        console.error("Error fetching event details:", err)
+        setError(errorMessage(err) || "Failed to load event details")
       })
+      .finally(() => setLoading(false))
+  }, [api, eventId])
 
-      if (response.ok) {
-        const data = await response.json()
-        console.log("Event entries response:", data)
+  const fetchEventEntries = useCallback(() => {
+    if (!currentUser) return Promise.resolve()
 
-        // The API returns an object with 'entries' array, not a direct array
-        const entriesArray = Array.isArray(data) ? data : (data.entries || [])
+    return api.events
+      .entries(eventId)
+      .then((entriesArray) => {
+        console.log("Event entries response:", entriesArray)
         setEntries(entriesArray)
 
         // Check if current user is already registered
-        const userEntry = entriesArray.find((entry: EventEntry) => entry.user_id === currentUser.uid)
+        const userEntry = entriesArray.find((entry) => entry.user_id === currentUser.uid)
         setUserEntry(userEntry || null)
 
         console.log("User registration status:", userEntry ? "Registered" : "Not registered")
-      }
-    } catch (err) {
-      console.error("Error fetching event entries:", err)
-    }
+      })
+      .catch((err) => {
+        console.error("Error fetching event entries:", err)
+      })
+  }, [api, eventId, currentUser])
+
+  useEffect(() => {
+    if (eventId) fetchEventDetails()
+  }, [eventId, fetchEventDetails])
+
+  useEffect(() => {
+    if (eventId) fetchEventEntries()
+  }, [eventId, fetchEventEntries])
+
+  const retryEventDetails = () => {
+    setLoading(true)
+    fetchEventDetails()
   }
 
   const handleRegistration = async () => {
@@ -164,48 +140,19 @@ export default function EventDetailPage() {
       setIsRegistering(true)
       setError(null)
 
-      const token = await getIdToken()
-      if (!token) {
-        throw new Error("Authentication required")
-      }
-
       console.log(`Registering for event: ${eventId}`)
-      console.log("Registration payload:", { event_id: eventId, user_id: currentUser.uid })
-
-      const response = await fetch(`${API_BASE}/events/${eventId}/entries`, {
-        method: "POST",
-        headers: {
-          Authorization: `Bearer ${token}`,
-          "Content-Type": "application/json",
-        },
-        body: JSON.stringify({
-          event_id: eventId,
-          user_id: currentUser.uid
-        })
-      })
-
-      console.log(`Registration response status: ${response.status}`)
 
-      if (!response.ok) {
-        const errorData = await response.json().catch(() => ({}))
-        console.error("Registration failed:", errorData)
-        throw new Error(errorData.error || errorData.message || `Registration failed: ${response.statusText}`)
-      }
-
-      const registrationResponse = await response.json()
-      console.log("Registration response:", registrationResponse)
-
-      // Handle the response - it might be the entry directly or wrapped in an object
-      const newEntry = registrationResponse.entry || registrationResponse
+      const newEntry = await api.events.register(eventId, currentUser.uid)
+      console.log("Registration response:", newEntry)
       setUserEntry(newEntry)
 
       // Refresh entries list
       await fetchEventEntries()
 
-      alert("Successfully registered for the event!")
-    } catch (err: any) {
+      notify.success("Registered for the event")
+    } catch (err) {
       console.error("Registration error:", err)
-      setError(err.message || "Failed to register for event")
+      setError(errorMessage(err) || "Failed to register for event")
     } finally {
       setIsRegistering(false)
     }
@@ -256,6 +203,11 @@ export default function EventDetailPage() {
     }
   }
 
+  // Scored entries, best first; the backend rank wins when it sends one
+  const rankedEntries = entries
+    .filter((entry) => entry.total_score !== undefined)
+    .sort((a, b) => (a.rank ?? Infinity) - (b.rank ?? Infinity) || (b.total_score ?? 0) - (a.total_score ?? 0))
+
   if (loading) {
     return (
       <SidebarLayout>
@@ -287,7 +239,7 @@ export default function EventDetailPage() {
               <p>{error}</p>
               <div className="mt-4">
                 <button
-                  onClick={fetchEventDetails}
+                  onClick={retryEventDetails}
                   className="bg-red-600 text-white px-4 py-2 rounded hover:bg-red-700 transition-colors mr-3"
                 >
                   Try Again
@@ -319,7 +271,7 @@ export default function EventDetailPage() {
 
           <div className="bg-yellow-100 border border-yellow-400 text-yellow-700 px-6 py-4 rounded-lg">
             <h3 className="font-semibold mb-2">Event Not Found</h3>
-            <p>The event you're looking for could not be found.</p>
+            <p>The event you&apos;re looking for could not be found.</p>
             <div className="mt-4">
               <button
                 onClick={handleBack}
@@ -454,7 +406,7 @@ export default function EventDetailPage() {
                             <Award className="w-5 h-5 text-green-600" />
                           </div>
                           <div>
-                            <p className="font-medium text-green-800">You're registered!</p>
+                            <p className="font-medium text-green-800">You&apos;re registered!</p>
                             <p className="text-green-600 text-sm">
                               Registered on {new Date(userEntry.entered_at).toLocaleDateString()}
                             </p>
@@ -522,6 +474,41 @@ export default function EventDetailPage() {
                 )}
               </div>
             )}
+
+            {/* Leaderboard */}
+            {rankedEntries.length > 0 && (
+              <div className="border-t pt-8 mt-8">
+                <h3 className="text-xl font-semibold mb-3 flex items-center">
+                  <Trophy className="w-5 h-5 mr-2" />
+                  Leaderboard
+                </h3>
+                <table className="w-full text-sm">
+                  <thead>
+                    <tr className="text-left text-gray-500 border-b">
+                      <th className="py-2 w-16">Rank</th>
+                      <th className="py-2">Dancers</th>
+                      <th className="py-2">Dance</th>
+                      <th className="py-2 text-right">Score</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {rankedEntries.map((entry, index) => (
+                      <tr
+                        key={entry.id}
+                        className={`border-b ${entry.user_id === currentUser?.uid ? 'bg-blue-50' : ''}`}
+                      >
+                        <td className="py-2 font-medium">{entry.rank ?? index + 1}</td>
+                        <td className="py-2">{entry.dancers || entry.user_email}</td>
+                        <td className="py-2 text-gray-600">{entry.dance_type || '-'}</td>
+                        <td className="py-2 text-right font-medium">
+                          {entry.total_score !== undefined ? formatScore(entry.total_score) : '-'}
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            )}
           </div>
         </div>
       </div>
@@ -3,49 +3,35 @@
 import { useState, useEffect } from "react"
 import { useRouter } from "next/navigation"
 import { Trophy, Calendar, Users, ChevronRight, Loader2, AlertCircle } from "lucide-react"
-import { useAuth } from "@/contexts/auth-context"
 import { SidebarLayout } from "@/components/sidebar-layout"
-import { API_BASE } from "@/lib/constants"
-
-interface Event {
-  id: string
-  name: string
-  description: string
-  start_date: string
-  end_date: string
-  entries_count: number
-  country_restriction: boolean
-  allowed_countries?: string[]
-}
+import { useApi } from "@/hooks/use-api"
+import type { EventSummary as Event } from "@/lib/models"
 
 export default function EventsPage() {
   const [events, setEvents] = useState<Event[]>([])
   const [loading, setLoading] = useState(true)
   const [error, setError] = useState<string | null>(null)
   const router = useRouter()
-  const { currentUser } = useAuth()
+  const api = useApi()
 
   useEffect(() => {
-    fetchEvents()
-  }, [])
-
-  const fetchEvents = async () => {
-    try {
-      setLoading(true)
-      const response = await fetch(`${API_BASE}/events`)
-
-      if (!response.ok) {
-        throw new Error("Failed to fetch events")
+    let cancelled = false
+    const fetchEvents = async () => {
+      try {
+        const data = await api.events.list()
+        if (!cancelled) setEvents(data)
+      } catch (err) {
+        if (!cancelled) setError((err as Error).message)
+      } finally {
+        if (!cancelled) setLoading(false)
       }
+    }
 
-      const data = await response.json()
-      setEvents(data)
-    } catch (err) {
-      setError((err as Error).message)
-    } finally {
-      setLoading(false)
+    fetchEvents()
+    return () => {
+      cancelled = true
     }
-  }
+  }, [api])
 
   const formatDate = (dateString: string) => {
     return new Date(dateString).toLocaleDateString("en-US", {
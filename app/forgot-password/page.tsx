@@ -8,6 +8,7 @@ import { useAuth } from "@/contexts/auth-context"
 import { Alert, AlertDescription } from "@/components/ui/alert"
 import { Button } from "@/components/ui/button"
 import Image from "next/image"
+import { errorMessage } from "@/lib/api"
 
 export default function ForgotPasswordPage() {
   const emailRef = useRef<HTMLInputElement>(null)
@@ -25,8 +26,8 @@ export default function ForgotPasswordPage() {
       setLoading(true)
       await resetPassword(emailRef.current!.value)
       setMessage("Check your email inbox for password reset instructions")
-    } catch (error: any) {
-      setError("Failed to reset password: " + error.message)
+    } catch (error) {
+      setError("Failed to reset password: " + errorMessage(error))
     }
 
     setLoading(false)
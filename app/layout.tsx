@@ -1,10 +1,17 @@
 import type React from "react"
-import type { Metadata } from "next"
+import type { Metadata, Viewport } from "next"
 import { Geist, Geist_Mono } from "next/font/google"
 import { Analytics } from "@vercel/analytics/next"
 import "./globals.css"
 import { AuthProvider } from "@/contexts/auth-context"
 import { CreditsProvider } from "@/contexts/credits-context"
+import { RosterProvider } from "@/contexts/roster-context"
+import { OfflineQueueProvider } from "@/contexts/offline-queue-context"
+import { ConnectivityProvider } from "@/contexts/connectivity-context"
+import { StudioProvider } from "@/contexts/studio-context"
+import { ConfirmProvider } from "@/contexts/confirm-context"
+import { Toaster } from "@/components/ui/sonner"
+import { SessionGuard } from "@/components/session-guard"
 
 const _geist = Geist({ subsets: ["latin"] })
 const _geistMono = Geist_Mono({ subsets: ["latin"] })
@@ -13,6 +20,15 @@ export const metadata: Metadata = {
   title: "Flokraft - Dance Analysis Platform",
   description: "Professional dance analysis powered by AI",
   generator: "v0.app",
+  appleWebApp: {
+    capable: true,
+    title: "Flokraft",
+    statusBarStyle: "default",
+  },
+}
+
+export const viewport: Viewport = {
+  themeColor: "#1e40af",
 }
 
 export default function RootLayout({
@@ -24,8 +40,21 @@ export default function RootLayout({
     <html lang="en">
       <body className={`font-sans antialiased`}>
         <AuthProvider>
-          <CreditsProvider>{children}</CreditsProvider>
+          <ConnectivityProvider>
+            <StudioProvider>
+              <CreditsProvider>
+                <OfflineQueueProvider>
+                  <RosterProvider>
+                    <ConfirmProvider>
+                      <SessionGuard>{children}</SessionGuard>
+                    </ConfirmProvider>
+                  </RosterProvider>
+                </OfflineQueueProvider>
+              </CreditsProvider>
+            </StudioProvider>
+          </ConnectivityProvider>
         </AuthProvider>
+        <Toaster />
         <Analytics />
       </body>
     </html>
@@ -2,22 +2,41 @@
 
 import type React from "react"
 
-import { useState, useRef } from "react"
+import { useState, useRef, useEffect } from "react"
 import Link from "next/link"
-import { useRouter } from "next/navigation"
+import { useRouter, useSearchParams } from "next/navigation"
 import { useAuth } from "@/contexts/auth-context"
 import { Alert, AlertDescription } from "@/components/ui/alert"
 import { Button } from "@/components/ui/button"
-import { API_BASE } from "@/lib/constants"
+import { useApi } from "@/hooks/use-api"
+import { ApiError, errorMessage } from "@/lib/api"
+import { safeReturnUrl } from "@/lib/session"
 import Image from "next/image"
 
 export default function LoginPage() {
   const emailRef = useRef<HTMLInputElement>(null)
   const passwordRef = useRef<HTMLInputElement>(null)
-  const { login, signInWithGoogle, logout } = useAuth()
+  const { currentUser, loading: authLoading, login, signInWithGoogle, logout } = useAuth()
+  const api = useApi()
   const [error, setError] = useState("")
   const [loading, setLoading] = useState(false)
   const router = useRouter()
+  const searchParams = useSearchParams()
+  // Where the user was headed before being sent here
+  const next = searchParams.get("next")
+  const returnTo = safeReturnUrl(next)
+
+  // An expired session cookie brings users here while Firebase still has them
+  // signed in; send them straight back. Checked once, when auth has loaded:
+  // sign-ins from this page navigate themselves, after verifying the account.
+  const sessionCheckedRef = useRef(false)
+  useEffect(() => {
+    if (authLoading || sessionCheckedRef.current) return
+    sessionCheckedRef.current = true
+    if (currentUser) {
+      router.replace(returnTo)
+    }
+  }, [authLoading, currentUser, router, returnTo])
 
   async function handleSubmit(e: React.FormEvent) {
     e.preventDefault()
@@ -26,12 +45,12 @@ export default function LoginPage() {
       setError("")
       setLoading(true)
       await login(emailRef.current!.value, passwordRef.current!.value)
-      router.push("/")
-    } catch (error: any) {
-      if (error.message === "Firebase: Error (auth/invalid-credential).") {
+      router.push(returnTo)
+    } catch (error) {
+      if (errorMessage(error) === "Firebase: Error (auth/invalid-credential).") {
         setError("User not found!")
       } else {
-        setError("Failed to sign in: " + error.message)
+        setError("Failed to sign in: " + errorMessage(error))
       }
     } finally {
       setLoading(false)
@@ -46,31 +65,20 @@ export default function LoginPage() {
       const userCredential = await signInWithGoogle()
       const token = await userCredential.user.getIdToken()
 
-      const response = await fetch(`${API_BASE}/auth/verify-token`, {
-        method: "POST",
-        headers: {
-          "Content-Type": "application/json",
-        },
-        body: JSON.stringify({
-          idToken: token,
-          sourcePage: "login",
-        }),
-      })
-
-      const data = await response.json()
-
-      if (!response.ok) {
-        if (data.error === "account_not_found") {
+      try {
+        await api.auth.verifyToken({ idToken: token, sourcePage: "login" })
+      } catch (verifyError) {
+        if (verifyError instanceof ApiError && verifyError.message === "account_not_found") {
           await logout()
           throw new Error("Account not found. Please sign up first to create an account.")
         }
-        throw new Error(data.error || "Authentication failed")
+        throw verifyError
       }
 
-      router.push("/")
-    } catch (error: any) {
+      router.push(returnTo)
+    } catch (error) {
       console.error("Google sign-in error:", error)
-      setError(error.message || "Failed to sign in with Google")
+      setError(errorMessage(error) || "Failed to sign in with Google")
 
       try {
         await logout()
@@ -185,7 +193,10 @@ export default function LoginPage() {
         <div className="text-center">
           <p className="text-sm text-gray-600">
             Need an account?{" "}
-            <Link href="/signup" className="font-medium text-blue-600 hover:text-blue-500">
+            <Link
+              href={next ? `/signup?next=${encodeURIComponent(next)}` : "/signup"}
+              className="font-medium text-blue-600 hover:text-blue-500"
+            >
               Sign up
             </Link>
           </p>
@@ -0,0 +1,18 @@
+import type { MetadataRoute } from "next"
+
+export default function manifest(): MetadataRoute.Manifest {
+  return {
+    name: "Flokraft - Dance Analysis Platform",
+    short_name: "Flokraft",
+    description: "Professional dance analysis powered by AI",
+    start_url: "/",
+    display: "standalone",
+    background_color: "#f3f4f6",
+    theme_color: "#1e40af",
+    icons: [
+      { src: "/logo192.png", sizes: "192x192", type: "image/png" },
+      { src: "/logo512.png", sizes: "512x512", type: "image/png" },
+      { src: "/logo512.png", sizes: "512x512", type: "image/png", purpose: "maskable" },
+    ],
+  }
+}
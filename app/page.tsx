@@ -1,36 +1,10 @@
 "use client"
 
-import { useEffect } from "react"
-import { useRouter } from "next/navigation"
-import { useAuth } from "@/contexts/auth-context"
 import { SidebarLayout } from "@/components/sidebar-layout"
 import { DashboardContent } from "@/components/dashboard-content"
 
+// Signed-out visitors never get here: see proxy.ts and SessionGuard
 export default function HomePage() {
-  const { currentUser, loading } = useAuth()
-  const router = useRouter()
-
-  useEffect(() => {
-    if (!loading && !currentUser) {
-      router.push("/login")
-    }
-  }, [currentUser, loading, router])
-
-  if (loading) {
-    return (
-      <div className="flex items-center justify-center min-h-screen">
-        <div className="text-center">
-          <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600 mx-auto mb-2"></div>
-          <p className="text-gray-600">Loading...</p>
-        </div>
-      </div>
-    )
-  }
-
-  if (!currentUser) {
-    return null
-  }
-
   return (
     <SidebarLayout>
       <DashboardContent />
@@ -3,19 +3,25 @@
 import type React from "react"
 
 import { useEffect, useState } from "react"
-import { useRouter } from "next/navigation"
+import Image from "next/image"
 import { useAuth } from "@/contexts/auth-context"
 import { SidebarLayout } from "@/components/sidebar-layout"
 import { User, Calendar, Shield, Loader2, AlertCircle, CheckCircle } from "lucide-react"
-import { ADMIN_UIDS } from "@/lib/constants"
+import { useApi } from "@/hooks/use-api"
+import { useRole } from "@/hooks/use-role"
+import { ROLE_LABELS } from "@/lib/roles"
+import type { Branding } from "@/lib/models"
+import { errorMessage } from "@/lib/api"
+
+// Logos are stored inline with the branding, so keep them small
+const MAX_LOGO_BYTES = 200 * 1024
 
 export default function ProfilePage() {
   const { currentUser, updateUserProfile, updateUserEmail, updateUserPassword, loading: authLoading } = useAuth()
-  const router = useRouter()
+  const api = useApi()
 
   const [displayName, setDisplayName] = useState("")
   const [email, setEmail] = useState("")
-  const [currentPassword, setCurrentPassword] = useState("")
   const [newPassword, setNewPassword] = useState("")
   const [confirmPassword, setConfirmPassword] = useState("")
 
@@ -23,16 +29,61 @@ export default function ProfilePage() {
   const [error, setError] = useState<string | null>(null)
   const [success, setSuccess] = useState<string | null>(null)
 
-  const isAdmin = currentUser && ADMIN_UIDS.includes(currentUser.uid)
+  const [branding, setBranding] = useState<Branding>({})
+  const [savingBranding, setSavingBranding] = useState(false)
+
+  const { roles } = useRole()
+
+  // The form starts from the account, filled in while rendering once it has loaded
+  const [formUser, setFormUser] = useState<typeof currentUser>(null)
+  if (currentUser && currentUser !== formUser) {
+    setFormUser(currentUser)
+    setDisplayName(currentUser.displayName || "")
+    setEmail(currentUser.email || "")
+  }
 
   useEffect(() => {
-    if (!authLoading && !currentUser) {
-      router.push("/login")
-    } else if (currentUser) {
-      setDisplayName(currentUser.displayName || "")
-      setEmail(currentUser.email || "")
+    if (!currentUser) return
+    api.user
+      .branding()
+      .then(setBranding)
+      .catch((err) => console.error("Error fetching report branding:", err))
+  }, [api, currentUser])
+
+  const handleLogoFile = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0]
+    e.target.value = ""
+    if (!file) return
+
+    if (!file.type.startsWith("image/")) {
+      setError("The logo must be an image file")
+      return
+    }
+    if (file.size > MAX_LOGO_BYTES) {
+      setError("The logo must be smaller than 200 KB")
+      return
+    }
+
+    const reader = new FileReader()
+    reader.onload = () => setBranding((current) => ({ ...current, logo_url: reader.result as string }))
+    reader.readAsDataURL(file)
+  }
+
+  const handleUpdateBranding = async (e: React.FormEvent) => {
+    e.preventDefault()
+    setSavingBranding(true)
+    setError(null)
+    setSuccess(null)
+
+    try {
+      setBranding(await api.user.updateBranding(branding))
+      setSuccess("Report branding saved!")
+    } catch (err) {
+      setError(errorMessage(err) || "Failed to save report branding")
+    } finally {
+      setSavingBranding(false)
     }
-  }, [currentUser, authLoading, router])
+  }
 
   const handleUpdateProfile = async (e: React.FormEvent) => {
     e.preventDefault()
@@ -45,8 +96,8 @@ export default function ProfilePage() {
         await updateUserProfile({ displayName })
         setSuccess("Profile updated successfully!")
       }
-    } catch (err: any) {
-      setError(err.message || "Failed to update profile")
+    } catch (err) {
+      setError(errorMessage(err) || "Failed to update profile")
     } finally {
       setLoading(false)
     }
@@ -63,8 +114,8 @@ export default function ProfilePage() {
         await updateUserEmail(email)
         setSuccess("Email updated successfully! Please verify your new email address.")
       }
-    } catch (err: any) {
-      setError(err.message || "Failed to update email")
+    } catch (err) {
+      setError(errorMessage(err) || "Failed to update email")
     } finally {
       setLoading(false)
     }
@@ -91,11 +142,10 @@ export default function ProfilePage() {
     try {
       await updateUserPassword(newPassword)
       setSuccess("Password updated successfully!")
-      setCurrentPassword("")
       setNewPassword("")
       setConfirmPassword("")
-    } catch (err: any) {
-      setError(err.message || "Failed to update password")
+    } catch (err) {
+      setError(errorMessage(err) || "Failed to update password")
     } finally {
       setLoading(false)
     }
@@ -146,12 +196,17 @@ export default function ProfilePage() {
             <div>
               <h2 className="text-xl font-bold text-gray-900">{currentUser.displayName || "User"}</h2>
               <p className="text-gray-600">{currentUser.email}</p>
-              {isAdmin && (
-                <div className="flex items-center mt-1">
-                  <Shield className="w-4 h-4 text-purple-600 mr-1" />
-                  <span className="text-sm text-purple-600 font-semibold">Administrator</span>
-                </div>
-              )}
+              <div className="flex flex-wrap items-center gap-x-3 mt-1">
+                {roles.map((role) => (
+                  <span
+                    key={role}
+                    className={`flex items-center text-sm font-semibold ${role === "admin" ? "text-purple-600" : "text-gray-500"}`}
+                  >
+                    {role === "admin" && <Shield className="w-4 h-4 mr-1" />}
+                    {ROLE_LABELS[role]}
+                  </span>
+                ))}
+              </div>
             </div>
           </div>
 
@@ -238,6 +293,106 @@ export default function ProfilePage() {
           </form>
         </div>
 
+        <div className="bg-white rounded-lg shadow p-6 mb-6">
+          <h2 className="text-xl font-bold text-gray-900 mb-1">Report Branding</h2>
+          <p className="text-sm text-gray-500 mb-4">Shown on printed and exported reports, including ones you share</p>
+          <form onSubmit={handleUpdateBranding}>
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4 mb-4">
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">Studio Name</label>
+                <input
+                  type="text"
+                  value={branding.studio_name || ""}
+                  onChange={(e) => setBranding({ ...branding, studio_name: e.target.value })}
+                  className="w-full p-2 border rounded-lg"
+                  placeholder="e.g. Starlight Dance Studio"
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">Accent Color</label>
+                <div className="flex items-center gap-2">
+                  <input
+                    type="color"
+                    value={branding.accent_color || "#1e40af"}
+                    onChange={(e) => setBranding({ ...branding, accent_color: e.target.value })}
+                    className="h-10 w-14 border rounded-lg cursor-pointer"
+                  />
+                  {branding.accent_color && (
+                    <button
+                      type="button"
+                      onClick={() => setBranding({ ...branding, accent_color: undefined })}
+                      className="text-sm text-gray-500 hover:text-gray-700"
+                    >
+                      Reset
+                    </button>
+                  )}
+                </div>
+              </div>
+            </div>
+
+            <div className="mb-4">
+              <label className="block text-sm font-medium text-gray-700 mb-2">Logo</label>
+              <div className="flex items-center gap-3">
+                {branding.logo_url && (
+                  <Image
+                    src={branding.logo_url}
+                    alt="Logo preview"
+                    width={120}
+                    height={48}
+                    className="h-12 w-auto max-w-[120px] object-contain border rounded p-1"
+                  />
+                )}
+                <input
+                  type="url"
+                  value={branding.logo_url?.startsWith("data:") ? "" : branding.logo_url || ""}
+                  onChange={(e) => setBranding({ ...branding, logo_url: e.target.value || undefined })}
+                  className="flex-1 p-2 border rounded-lg"
+                  placeholder={branding.logo_url?.startsWith("data:") ? "Uploaded image" : "https://example.com/logo.png"}
+                />
+                <label className="px-3 py-2 border rounded-lg text-sm text-gray-700 hover:bg-gray-50 cursor-pointer">
+                  Upload
+                  <input type="file" accept="image/*" onChange={handleLogoFile} className="hidden" />
+                </label>
+                {branding.logo_url && (
+                  <button
+                    type="button"
+                    onClick={() => setBranding({ ...branding, logo_url: undefined })}
+                    className="text-sm text-gray-500 hover:text-gray-700"
+                  >
+                    Remove
+                  </button>
+                )}
+              </div>
+            </div>
+
+            <div className="mb-4">
+              <label className="block text-sm font-medium text-gray-700 mb-2">Footer Text</label>
+              <input
+                type="text"
+                value={branding.footer_text || ""}
+                onChange={(e) => setBranding({ ...branding, footer_text: e.target.value })}
+                className="w-full p-2 border rounded-lg"
+                placeholder="e.g. Coaching enquiries: coach@example.com"
+              />
+            </div>
+
+            <button
+              type="submit"
+              disabled={savingBranding}
+              className="px-6 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition disabled:bg-gray-400 disabled:cursor-not-allowed flex items-center"
+            >
+              {savingBranding ? (
+                <>
+                  <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+                  Saving...
+                </>
+              ) : (
+                "Save Branding"
+              )}
+            </button>
+          </form>
+        </div>
+
         <div className="bg-white rounded-lg shadow p-6">
           <h2 className="text-xl font-bold text-gray-900 mb-4">Change Password</h2>
           <form onSubmit={handleUpdatePassword}>
@@ -0,0 +1,330 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import { TrendingUp, TrendingDown, Loader2, AlertCircle, Award } from "lucide-react"
+import { CartesianGrid, Legend, Line, LineChart, ResponsiveContainer, Tooltip, XAxis, YAxis } from "recharts"
+import { useAuth } from "@/contexts/auth-context"
+import { SidebarLayout } from "@/components/sidebar-layout"
+import { useApi } from "@/hooks/use-api"
+import type { Analysis } from "@/lib/models"
+import { progressPoints, progressSubjects, summarizeCriteria } from "@/lib/progress"
+import { criterionLabel } from "@/lib/scores"
+import { errorMessage } from "@/lib/api"
+
+const RANGE_PRESETS = [
+  { label: "30 days", days: 30 },
+  { label: "90 days", days: 90 },
+  { label: "1 year", days: 365 },
+  { label: "All time", days: 0 },
+]
+
+const LINE_COLORS = ["#2563eb", "#16a34a", "#dc2626", "#9333ea", "#ea580c", "#0891b2", "#ca8a04", "#db2777"]
+
+const toInputDate = (date: Date) => date.toISOString().substring(0, 10)
+
+const formatShortDate = (date: Date) => date.toLocaleDateString("en-US", { month: "short", day: "numeric", year: "2-digit" })
+
+export default function ProgressPage() {
+  const { currentUser, loading: authLoading } = useAuth()
+  const api = useApi()
+
+  const [analyses, setAnalyses] = useState<Analysis[]>([])
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+
+  const [subjectKey, setSubjectKey] = useState("")
+  const [danceType, setDanceType] = useState("")
+  const [fromDate, setFromDate] = useState("")
+  const [toDate, setToDate] = useState("")
+
+  useEffect(() => {
+    if (!currentUser) return
+    let cancelled = false
+
+    const fetchAnalyses = async () => {
+      try {
+        const data = await api.analyses.listAll({ user_id: currentUser.uid })
+        if (cancelled) return
+        setAnalyses(data)
+        setError(null)
+      } catch (err) {
+        console.error("Failed to load analyses:", err)
+        if (!cancelled) setError(errorMessage(err) || "Failed to load analyses")
+      } finally {
+        if (!cancelled) setLoading(false)
+      }
+    }
+
+    fetchAnalyses()
+    return () => {
+      cancelled = true
+    }
+  }, [api, currentUser])
+
+  const applyPreset = (days: number) => {
+    if (days === 0) {
+      setFromDate("")
+      setToDate("")
+      return
+    }
+    const from = new Date()
+    from.setDate(from.getDate() - days)
+    setFromDate(toInputDate(from))
+    setToDate("")
+  }
+
+  const subjects = progressSubjects(analyses)
+  const subject = subjects.find((candidate) => candidate.key === subjectKey)
+  const subjectAnalyses = subject ? analyses.filter((analysis) => subject.matches(analysis.roster)) : analyses
+  const danceTypes = Array.from(new Set(subjectAnalyses.map((analysis) => analysis.dance_type).filter(Boolean))).sort()
+
+  const points = progressPoints(analyses, {
+    subject,
+    danceType: danceType || undefined,
+    from: fromDate ? new Date(`${fromDate}T00:00:00`) : undefined,
+    to: toDate ? new Date(`${toDate}T23:59:59`) : undefined,
+  })
+  const criteria = summarizeCriteria(points)
+  const best = criteria[0]
+  const worst = criteria.length > 1 ? criteria[criteria.length - 1] : undefined
+
+  const chartData = points.map((point) => ({
+    date: formatShortDate(point.date),
+    danceType: point.danceType,
+    total: point.total,
+    ...point.scores,
+  }))
+
+  if (authLoading) {
+    return (
+      <div className="flex items-center justify-center min-h-screen">
+        <div className="text-center">
+          <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600 mx-auto mb-2"></div>
+          <p className="text-gray-600">Loading...</p>
+        </div>
+      </div>
+    )
+  }
+
+  if (!currentUser) {
+    return null
+  }
+
+  return (
+    <SidebarLayout>
+      <div className="max-w-6xl mx-auto">
+        <div className="mb-8">
+          <h1 className="text-3xl font-bold text-gray-900 mb-2 flex items-center">
+            <TrendingUp className="w-8 h-8 mr-3 text-blue-600" />
+            Progress
+          </h1>
+          <p className="text-gray-600">Score trends for a dancer, couple or team across their analyses.</p>
+        </div>
+
+        {error && (
+          <div className="bg-red-100 border border-red-400 text-red-700 px-4 py-3 rounded mb-6 flex items-center">
+            <AlertCircle className="w-5 h-5 mr-2 flex-shrink-0" />
+            {error}
+          </div>
+        )}
+
+        <div className="bg-white rounded-lg shadow p-4 md:p-6 mb-6">
+          <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+            <div>
+              <label className="block mb-2 text-sm font-medium text-gray-700">Dancer, Couple or Team</label>
+              <select
+                value={subjectKey}
+                onChange={(e) => {
+                  setSubjectKey(e.target.value)
+                  setDanceType("")
+                }}
+                className="w-full p-2 border rounded-lg bg-white"
+              >
+                <option value="">Everyone</option>
+                {subjects.map((candidate) => (
+                  <option key={candidate.key} value={candidate.key}>
+                    {candidate.label}
+                  </option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <label className="block mb-2 text-sm font-medium text-gray-700">Dance Type</label>
+              <select
+                value={danceType}
+                onChange={(e) => setDanceType(e.target.value)}
+                className="w-full p-2 border rounded-lg bg-white"
+              >
+                <option value="">All dance types</option>
+                {danceTypes.map((type) => (
+                  <option key={type} value={type}>
+                    {type}
+                  </option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <label className="block mb-2 text-sm font-medium text-gray-700">From</label>
+              <input
+                type="date"
+                value={fromDate}
+                onChange={(e) => setFromDate(e.target.value)}
+                className="w-full p-2 border rounded-lg"
+              />
+            </div>
+            <div>
+              <label className="block mb-2 text-sm font-medium text-gray-700">To</label>
+              <input
+                type="date"
+                value={toDate}
+                onChange={(e) => setToDate(e.target.value)}
+                className="w-full p-2 border rounded-lg"
+              />
+            </div>
+          </div>
+          <div className="flex flex-wrap gap-2 mt-3">
+            {RANGE_PRESETS.map((preset) => (
+              <button
+                key={preset.label}
+                onClick={() => applyPreset(preset.days)}
+                className="px-3 py-1 text-sm border rounded-full hover:bg-gray-50"
+              >
+                {preset.label}
+              </button>
+            ))}
+          </div>
+        </div>
+
+        {loading ? (
+          <div className="flex justify-center items-center h-64">
+            <Loader2 className="w-8 h-8 animate-spin text-blue-600" />
+          </div>
+        ) : points.length === 0 ? (
+          <div className="bg-white rounded-lg shadow p-8 text-center text-gray-500">
+            No scored analyses match these filters.
+          </div>
+        ) : (
+          <>
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-4 mb-6">
+              <div className="bg-white rounded-lg shadow p-4">
+                <p className="text-sm text-gray-500">Analyses</p>
+                <p className="text-2xl font-bold text-gray-900">{points.length}</p>
+                <p className="text-xs text-gray-500">
+                  {formatShortDate(points[0].date)} – {formatShortDate(points[points.length - 1].date)}
+                </p>
+              </div>
+              <div className="bg-white rounded-lg shadow p-4 border-l-4 border-green-500">
+                <p className="text-sm text-gray-500 flex items-center">
+                  <Award className="w-4 h-4 mr-1 text-green-600" />
+                  Strongest criterion
+                </p>
+                {best ? (
+                  <>
+                    <p className="text-lg font-bold text-gray-900">{criterionLabel(best.criterion)}</p>
+                    <p className="text-xs text-gray-500">Average {best.average.toFixed(1)}</p>
+                  </>
+                ) : (
+                  <p className="text-sm text-gray-500">No per-criterion scores yet</p>
+                )}
+              </div>
+              <div className="bg-white rounded-lg shadow p-4 border-l-4 border-orange-500">
+                <p className="text-sm text-gray-500 flex items-center">
+                  <TrendingDown className="w-4 h-4 mr-1 text-orange-600" />
+                  Needs most work
+                </p>
+                {worst ? (
+                  <>
+                    <p className="text-lg font-bold text-gray-900">{criterionLabel(worst.criterion)}</p>
+                    <p className="text-xs text-gray-500">Average {worst.average.toFixed(1)}</p>
+                  </>
+                ) : (
+                  <p className="text-sm text-gray-500">Needs at least two criteria</p>
+                )}
+              </div>
+            </div>
+
+            <div className="bg-white rounded-lg shadow p-4 md:p-6 mb-6">
+              <h2 className="text-xl font-bold text-gray-800 mb-4">Total Score</h2>
+              <div className="h-72">
+                <ResponsiveContainer width="100%" height="100%">
+                  <LineChart data={chartData}>
+                    <CartesianGrid strokeDasharray="3 3" />
+                    <XAxis dataKey="date" />
+                    <YAxis domain={["auto", "auto"]} />
+                    <Tooltip
+                      labelFormatter={(label, payload) =>
+                        payload?.[0]?.payload?.danceType ? `${label} · ${payload[0].payload.danceType}` : label
+                      }
+                    />
+                    <Line type="monotone" dataKey="total" name="Total" stroke={LINE_COLORS[0]} strokeWidth={2} connectNulls />
+                  </LineChart>
+                </ResponsiveContainer>
+              </div>
+            </div>
+
+            {criteria.length > 0 && (
+              <div className="bg-white rounded-lg shadow p-4 md:p-6 mb-6">
+                <h2 className="text-xl font-bold text-gray-800 mb-4">Criteria</h2>
+                <div className="h-80">
+                  <ResponsiveContainer width="100%" height="100%">
+                    <LineChart data={chartData}>
+                      <CartesianGrid strokeDasharray="3 3" />
+                      <XAxis dataKey="date" />
+                      <YAxis domain={["auto", "auto"]} />
+                      <Tooltip />
+                      <Legend />
+                      {criteria.map((criterion, index) => (
+                        <Line
+                          key={criterion.criterion}
+                          type="monotone"
+                          dataKey={criterion.criterion}
+                          name={criterionLabel(criterion.criterion)}
+                          stroke={LINE_COLORS[index % LINE_COLORS.length]}
+                          strokeWidth={criterion === best || criterion === worst ? 3 : 1.5}
+                          connectNulls
+                        />
+                      ))}
+                    </LineChart>
+                  </ResponsiveContainer>
+                </div>
+
+                <table className="w-full mt-6 text-sm">
+                  <thead>
+                    <tr className="text-left text-gray-500 border-b">
+                      <th className="py-2">Criterion</th>
+                      <th className="py-2 text-right">Average</th>
+                      <th className="py-2 text-right">Change</th>
+                      <th className="py-2 text-right">Analyses</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {criteria.map((criterion) => (
+                      <tr
+                        key={criterion.criterion}
+                        className={`border-b ${
+                          criterion === best ? "bg-green-50" : criterion === worst ? "bg-orange-50" : ""
+                        }`}
+                      >
+                        <td className="py-2">{criterionLabel(criterion.criterion)}</td>
+                        <td className="py-2 text-right">{criterion.average.toFixed(1)}</td>
+                        <td
+                          className={`py-2 text-right ${
+                            criterion.change > 0 ? "text-green-600" : criterion.change < 0 ? "text-red-600" : "text-gray-500"
+                          }`}
+                        >
+                          {criterion.change > 0 ? "+" : ""}
+                          {criterion.change.toFixed(1)}
+                        </td>
+                        <td className="py-2 text-right">{criterion.count}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            )}
+          </>
+        )}
+      </div>
+    </SidebarLayout>
+  )
+}
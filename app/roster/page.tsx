@@ -0,0 +1,398 @@
+"use client"
+
+import type React from "react"
+
+import { useState } from "react"
+import { Users, UserPlus, Pencil, Trash2, Loader2, AlertCircle } from "lucide-react"
+import { useAuth } from "@/contexts/auth-context"
+import { useRoster } from "@/contexts/roster-context"
+import { useConfirm } from "@/contexts/confirm-context"
+import { SidebarLayout } from "@/components/sidebar-layout"
+import type { Dancer, DancerRef, DancerRole, Team, TeamType } from "@/lib/models"
+import { notify } from "@/lib/notify"
+import { errorMessage } from "@/lib/api"
+
+const TEAM_TYPE_LABELS: Record<TeamType, string> = {
+  couple: "Couple",
+  duo: "Duo",
+  formation: "Formation",
+}
+
+const toRef = (dancer: Dancer): DancerRef => ({ id: dancer.id, name: dancer.name })
+
+export default function RosterPage() {
+  const { currentUser, loading: authLoading } = useAuth()
+  const { dancers, teams, loading, error: rosterError, saveDancer, removeDancer, saveTeam, removeTeam } = useRoster()
+  const confirm = useConfirm()
+
+  const [dancerName, setDancerName] = useState("")
+  const [dancerNotes, setDancerNotes] = useState("")
+  const [editingDancerId, setEditingDancerId] = useState<string | null>(null)
+
+  const [teamName, setTeamName] = useState("")
+  const [teamType, setTeamType] = useState<TeamType>("couple")
+  // Couples: [man, lady]; duos and formations: every selected dancer
+  const [teamMemberIds, setTeamMemberIds] = useState<string[]>([])
+  const [editingTeamId, setEditingTeamId] = useState<string | null>(null)
+
+  const [saving, setSaving] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const resetDancerForm = () => {
+    setDancerName("")
+    setDancerNotes("")
+    setEditingDancerId(null)
+  }
+
+  const resetTeamForm = () => {
+    setTeamName("")
+    setTeamType("couple")
+    setTeamMemberIds([])
+    setEditingTeamId(null)
+  }
+
+  const handleSaveDancer = async (e: React.FormEvent) => {
+    e.preventDefault()
+    if (!dancerName.trim()) {
+      setError("Please enter the dancer's name")
+      return
+    }
+
+    setSaving(true)
+    setError(null)
+    try {
+      await saveDancer({ name: dancerName.trim(), notes: dancerNotes.trim() || undefined }, editingDancerId || undefined)
+      resetDancerForm()
+    } catch (err) {
+      setError(errorMessage(err) || "Failed to save dancer")
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const handleEditDancer = (dancer: Dancer) => {
+    setEditingDancerId(dancer.id)
+    setDancerName(dancer.name)
+    setDancerNotes(dancer.notes || "")
+  }
+
+  const handleDeleteDancer = async (dancer: Dancer) => {
+    const confirmed = await confirm({
+      title: `Remove ${dancer.name} from your roster?`,
+      description: "Existing analyses keep their dancer names.",
+      confirmLabel: "Remove",
+      destructive: true,
+    })
+    if (!confirmed) return
+
+    try {
+      await removeDancer(dancer.id)
+      if (editingDancerId === dancer.id) resetDancerForm()
+      notify.success(`${dancer.name} removed`)
+    } catch (err) {
+      notify.error("Failed to remove dancer", errorMessage(err))
+    }
+  }
+
+  const teamMembers = (): DancerRef[] => {
+    const dancerById = (id: string) => dancers.find((dancer) => dancer.id === id)
+
+    if (teamType === "couple") {
+      const roles: DancerRole[] = ["man", "lady"]
+      return roles.flatMap((role, index) => {
+        const dancer = dancerById(teamMemberIds[index])
+        return dancer ? [{ ...toRef(dancer), role }] : []
+      })
+    }
+    return teamMemberIds.map(dancerById).filter((dancer): dancer is Dancer => !!dancer).map(toRef)
+  }
+
+  const handleSaveTeam = async (e: React.FormEvent) => {
+    e.preventDefault()
+    const members = teamMembers()
+
+    if (!teamName.trim()) {
+      setError("Please enter a team name")
+      return
+    }
+    if (teamType === "couple" ? members.length !== 2 : members.length < 2) {
+      setError(teamType === "couple" ? "Please choose both dancers of the couple" : "Please choose at least two members")
+      return
+    }
+
+    setSaving(true)
+    setError(null)
+    try {
+      await saveTeam({ name: teamName.trim(), type: teamType, members }, editingTeamId || undefined)
+      resetTeamForm()
+    } catch (err) {
+      setError(errorMessage(err) || "Failed to save team")
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const handleEditTeam = (team: Team) => {
+    setEditingTeamId(team.id)
+    setTeamName(team.name)
+    setTeamType(team.type)
+    if (team.type === "couple") {
+      const roles: DancerRole[] = ["man", "lady"]
+      setTeamMemberIds(roles.map((role) => team.members.find((member) => member.role === role)?.id || ""))
+    } else {
+      setTeamMemberIds(team.members.map((member) => member.id || "").filter(Boolean))
+    }
+  }
+
+  const handleDeleteTeam = async (team: Team) => {
+    const confirmed = await confirm({
+      title: `Remove ${team.name}?`,
+      description: "Existing analyses keep their dancer names.",
+      confirmLabel: "Remove",
+      destructive: true,
+    })
+    if (!confirmed) return
+
+    try {
+      await removeTeam(team.id)
+      if (editingTeamId === team.id) resetTeamForm()
+      notify.success(`${team.name} removed`)
+    } catch (err) {
+      notify.error("Failed to remove team", errorMessage(err))
+    }
+  }
+
+  const setCouplePartner = (index: number, id: string) => {
+    const next = [teamMemberIds[0] || "", teamMemberIds[1] || ""]
+    next[index] = id
+    setTeamMemberIds(next)
+  }
+
+  const toggleMember = (id: string) => {
+    setTeamMemberIds((prev) => (prev.includes(id) ? prev.filter((memberId) => memberId !== id) : [...prev, id]))
+  }
+
+  if (authLoading) {
+    return (
+      <div className="flex items-center justify-center min-h-screen">
+        <div className="text-center">
+          <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600 mx-auto mb-2"></div>
+          <p className="text-gray-600">Loading...</p>
+        </div>
+      </div>
+    )
+  }
+
+  if (!currentUser) {
+    return null
+  }
+
+  return (
+    <SidebarLayout>
+      <div className="max-w-6xl mx-auto">
+        <div className="mb-8">
+          <h1 className="text-3xl font-bold text-gray-900 mb-2 flex items-center">
+            <Users className="w-8 h-8 mr-3 text-blue-600" />
+            Dancers & Teams
+          </h1>
+          <p className="text-gray-600">
+            Save the dancers you analyze regularly and group them into couples, duos and formations. They are suggested
+            in the upload form and keep analyses linked to the same dancer.
+          </p>
+        </div>
+
+        {(error || rosterError) && (
+          <div className="bg-red-100 border border-red-400 text-red-700 px-4 py-3 rounded mb-6 flex items-center">
+            <AlertCircle className="w-5 h-5 mr-2 flex-shrink-0" />
+            {error || rosterError}
+          </div>
+        )}
+
+        {loading ? (
+          <div className="flex justify-center items-center h-64">
+            <Loader2 className="w-8 h-8 animate-spin text-blue-600" />
+          </div>
+        ) : (
+          <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+            <div className="bg-white rounded-lg shadow p-6">
+              <h2 className="text-xl font-bold text-gray-900 mb-4">Dancers</h2>
+
+              <form onSubmit={handleSaveDancer} className="mb-6 space-y-3">
+                <input
+                  type="text"
+                  value={dancerName}
+                  onChange={(e) => setDancerName(e.target.value)}
+                  className="w-full p-2 border rounded-lg"
+                  placeholder="Dancer name"
+                  disabled={saving}
+                />
+                <input
+                  type="text"
+                  value={dancerNotes}
+                  onChange={(e) => setDancerNotes(e.target.value)}
+                  className="w-full p-2 border rounded-lg"
+                  placeholder="Notes, e.g. club or age group (optional)"
+                  disabled={saving}
+                />
+                <div className="flex gap-2">
+                  <button
+                    type="submit"
+                    className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition disabled:bg-gray-400 flex items-center"
+                    disabled={saving}
+                  >
+                    <UserPlus className="w-4 h-4 mr-2" />
+                    {editingDancerId ? "Save Dancer" : "Add Dancer"}
+                  </button>
+                  {editingDancerId && (
+                    <button type="button" onClick={resetDancerForm} className="px-4 py-2 border rounded-lg hover:bg-gray-50">
+                      Cancel
+                    </button>
+                  )}
+                </div>
+              </form>
+
+              {dancers.length === 0 ? (
+                <p className="text-sm text-gray-500">No dancers saved yet.</p>
+              ) : (
+                <ul className="divide-y">
+                  {dancers.map((dancer) => (
+                    <li key={dancer.id} className="py-2 flex items-center justify-between">
+                      <div className="min-w-0">
+                        <p className="font-medium text-gray-800 truncate">{dancer.name}</p>
+                        {dancer.notes && <p className="text-xs text-gray-500 truncate">{dancer.notes}</p>}
+                      </div>
+                      <div className="flex gap-1 ml-4">
+                        <button onClick={() => handleEditDancer(dancer)} className="p-1 hover:bg-gray-100 rounded">
+                          <Pencil className="w-4 h-4 text-gray-600" />
+                        </button>
+                        <button onClick={() => handleDeleteDancer(dancer)} className="p-1 hover:bg-red-50 rounded">
+                          <Trash2 className="w-4 h-4 text-red-500" />
+                        </button>
+                      </div>
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </div>
+
+            <div className="bg-white rounded-lg shadow p-6">
+              <h2 className="text-xl font-bold text-gray-900 mb-4">Couples, Duos & Formations</h2>
+
+              <form onSubmit={handleSaveTeam} className="mb-6 space-y-3">
+                <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+                  <input
+                    type="text"
+                    value={teamName}
+                    onChange={(e) => setTeamName(e.target.value)}
+                    className="w-full p-2 border rounded-lg"
+                    placeholder="Team name"
+                    disabled={saving}
+                  />
+                  <select
+                    value={teamType}
+                    onChange={(e) => {
+                      setTeamType(e.target.value as TeamType)
+                      setTeamMemberIds([])
+                    }}
+                    className="w-full p-2 border rounded-lg bg-white"
+                    disabled={saving}
+                  >
+                    {(Object.keys(TEAM_TYPE_LABELS) as TeamType[]).map((type) => (
+                      <option key={type} value={type}>
+                        {TEAM_TYPE_LABELS[type]}
+                      </option>
+                    ))}
+                  </select>
+                </div>
+
+                {dancers.length === 0 ? (
+                  <p className="text-sm text-gray-500">Add dancers first to build a team from them.</p>
+                ) : teamType === "couple" ? (
+                  <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+                    {["Male dancer", "Female dancer"].map((label, index) => (
+                      <select
+                        key={label}
+                        value={teamMemberIds[index] || ""}
+                        onChange={(e) => setCouplePartner(index, e.target.value)}
+                        className="w-full p-2 border rounded-lg bg-white"
+                        disabled={saving}
+                      >
+                        <option value="">{label}</option>
+                        {dancers.map((dancer) => (
+                          <option key={dancer.id} value={dancer.id}>
+                            {dancer.name}
+                          </option>
+                        ))}
+                      </select>
+                    ))}
+                  </div>
+                ) : (
+                  <div className="max-h-48 overflow-y-auto border rounded-lg p-2 grid grid-cols-1 sm:grid-cols-2 gap-1">
+                    {dancers.map((dancer) => (
+                      <label key={dancer.id} className="flex items-center text-sm text-gray-700">
+                        <input
+                          type="checkbox"
+                          checked={teamMemberIds.includes(dancer.id)}
+                          onChange={() => toggleMember(dancer.id)}
+                          className="mr-2"
+                          disabled={saving}
+                        />
+                        {dancer.name}
+                      </label>
+                    ))}
+                  </div>
+                )}
+
+                <div className="flex gap-2">
+                  <button
+                    type="submit"
+                    className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition disabled:bg-gray-400 flex items-center"
+                    disabled={saving || dancers.length === 0}
+                  >
+                    <Users className="w-4 h-4 mr-2" />
+                    {editingTeamId ? "Save Team" : "Add Team"}
+                  </button>
+                  {editingTeamId && (
+                    <button type="button" onClick={resetTeamForm} className="px-4 py-2 border rounded-lg hover:bg-gray-50">
+                      Cancel
+                    </button>
+                  )}
+                </div>
+              </form>
+
+              {teams.length === 0 ? (
+                <p className="text-sm text-gray-500">No teams saved yet.</p>
+              ) : (
+                <ul className="divide-y">
+                  {teams.map((team) => (
+                    <li key={team.id} className="py-2 flex items-center justify-between">
+                      <div className="min-w-0">
+                        <p className="font-medium text-gray-800 truncate">
+                          {team.name}
+                          <span className="ml-2 text-xs font-normal px-2 py-0.5 rounded-full bg-blue-50 text-blue-700">
+                            {TEAM_TYPE_LABELS[team.type]}
+                          </span>
+                        </p>
+                        <p className="text-xs text-gray-500 truncate">
+                          {team.members.map((member) => member.name).join(", ") || "No members"}
+                        </p>
+                      </div>
+                      <div className="flex gap-1 ml-4">
+                        <button onClick={() => handleEditTeam(team)} className="p-1 hover:bg-gray-100 rounded">
+                          <Pencil className="w-4 h-4 text-gray-600" />
+                        </button>
+                        <button onClick={() => handleDeleteTeam(team)} className="p-1 hover:bg-red-50 rounded">
+                          <Trash2 className="w-4 h-4 text-red-500" />
+                        </button>
+                      </div>
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </div>
+          </div>
+        )}
+      </div>
+    </SidebarLayout>
+  )
+}
@@ -0,0 +1,198 @@
+"use client"
+
+import type React from "react"
+import { useState, useEffect, useCallback } from "react"
+import { useParams } from "next/navigation"
+import Image from "next/image"
+import Link from "next/link"
+import { AlertCircle, Clock, Lock, Loader2, Trash2 } from "lucide-react"
+import { AnalysisDetail } from "@/components/analysis-detail"
+import { useAuth } from "@/contexts/auth-context"
+import { useApi } from "@/hooks/use-api"
+import { ApiError, errorMessage } from "@/lib/api"
+import type { SharedAnalysis } from "@/lib/models"
+
+// Why the link can't be opened (yet)
+type LinkState = "loading" | "password" | "expired" | "removed" | "not-found" | "error" | "ready"
+
+// Public view of an analysis through a share link. Anyone with the URL can
+// open it without an account, after entering the password if the link has one.
+export default function PublicLinkPage() {
+  const params = useParams()
+  const { currentUser } = useAuth()
+  const api = useApi()
+  const token = params.token as string
+
+  const [state, setState] = useState<LinkState>("loading")
+  const [analysis, setAnalysis] = useState<SharedAnalysis | null>(null)
+  const [error, setError] = useState<string | null>(null)
+  const [password, setPassword] = useState("")
+  // The password that unlocked the link, sent again for the annotations
+  const [unlockedWith, setUnlockedWith] = useState<string | undefined>(undefined)
+  const [wrongPassword, setWrongPassword] = useState(false)
+  const [unlocking, setUnlocking] = useState(false)
+
+  const openLink = useCallback(
+    (withPassword?: string) =>
+      api.publicLinks
+        .open({ token, password: withPassword })
+        .then((data) => {
+          setError(null)
+          setAnalysis(data)
+          setUnlockedWith(withPassword)
+          setState("ready")
+        })
+        .catch((err) => {
+          console.error("Error opening share link:", err)
+
+          if (err instanceof ApiError && (err.isPasswordRequired || err.isWrongPassword)) {
+            setWrongPassword(err.isWrongPassword)
+            setState("password")
+          } else if (err instanceof ApiError && err.isLinkExpired) {
+            setState("expired")
+          } else if (err instanceof ApiError && err.isRemoved) {
+            setState("removed")
+          } else if (err instanceof ApiError && err.status === 404) {
+            setState("not-found")
+          } else {
+            setError(errorMessage(err) || "Failed to open the link")
+            setState("error")
+          }
+        }),
+    [api, token],
+  )
+
+  useEffect(() => {
+    if (token) openLink()
+  }, [token, openLink])
+
+  const handleUnlock = async (e: React.FormEvent) => {
+    e.preventDefault()
+    if (!password) return
+
+    setUnlocking(true)
+    await openLink(password)
+    setUnlocking(false)
+  }
+
+  const notice = (icon: React.ReactNode, title: string, body: React.ReactNode) => (
+    <div className="bg-white rounded-lg shadow p-8 max-w-md mx-auto text-center">
+      <div className="flex justify-center mb-3">{icon}</div>
+      <h2 className="text-lg font-semibold text-gray-800 mb-2">{title}</h2>
+      <div className="text-sm text-gray-600">{body}</div>
+    </div>
+  )
+
+  let content: React.ReactNode
+  if (state === "loading") {
+    content = (
+      <div className="flex justify-center items-center h-64">
+        <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
+        <span className="ml-2 text-gray-600">Opening shared analysis...</span>
+      </div>
+    )
+  } else if (state === "password") {
+    content = (
+      <form onSubmit={handleUnlock} className="bg-white rounded-lg shadow p-8 max-w-md mx-auto">
+        <div className="flex justify-center mb-3">
+          <Lock className="w-10 h-10 text-gray-400" />
+        </div>
+        <h2 className="text-lg font-semibold text-gray-800 text-center mb-2">This analysis is password protected</h2>
+        <p className="text-sm text-gray-600 text-center mb-4">Enter the password you were given with the link.</p>
+        {wrongPassword && (
+          <div className="bg-red-100 border border-red-400 text-red-700 px-4 py-2 rounded mb-4 text-sm">
+            That password isn&apos;t right. Please try again.
+          </div>
+        )}
+        <input
+          type="password"
+          autoFocus
+          required
+          value={password}
+          onChange={(e) => setPassword(e.target.value)}
+          placeholder="Password"
+          className="w-full p-2 border rounded-lg mb-4"
+        />
+        <button
+          type="submit"
+          disabled={unlocking || !password}
+          className="w-full flex items-center justify-center px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:bg-gray-400"
+        >
+          {unlocking && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+          View analysis
+        </button>
+      </form>
+    )
+  } else if (state === "expired") {
+    content = notice(
+      <Clock className="w-10 h-10 text-gray-400" />,
+      "This link has expired",
+      "Ask the person who shared it for a new link.",
+    )
+  } else if (state === "removed") {
+    content = notice(
+      <Trash2 className="w-10 h-10 text-gray-400" />,
+      "Removed by owner",
+      "The owner deleted this analysis, so it can no longer be viewed.",
+    )
+  } else if (state === "not-found") {
+    content = notice(
+      <AlertCircle className="w-10 h-10 text-gray-400" />,
+      "Link not found",
+      "This link doesn't exist or was revoked by its owner.",
+    )
+  } else if (state === "error") {
+    content = notice(
+      <AlertCircle className="w-10 h-10 text-red-500" />,
+      "Couldn't open the link",
+      <>
+        <p className="mb-4">{error}</p>
+        <button
+          onClick={() => openLink(password || undefined)}
+          className="bg-blue-600 text-white px-4 py-2 rounded hover:bg-blue-700 transition-colors"
+        >
+          Try Again
+        </button>
+      </>,
+    )
+  } else if (analysis) {
+    content = (
+      <>
+        <div className="mb-4 p-4 bg-blue-50 border border-blue-200 rounded-lg">
+          <p className="text-sm text-blue-600 font-medium">Shared Analysis</p>
+          <p className="text-xs text-blue-500">
+            {analysis.owner_email && `Shared by ${analysis.owner_email}`}
+            {analysis.shared_at && ` on ${new Date(analysis.shared_at).toLocaleDateString()}`}
+          </p>
+        </div>
+
+        <AnalysisDetail
+          analysis={analysis}
+          isSharedView={true}
+          linkAccess={{ token, password: unlockedWith }}
+          allowExport={analysis.allow_export}
+          ownerBranding={analysis.branding}
+        />
+      </>
+    )
+  }
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <header className="bg-white border-b">
+        <div className="max-w-6xl mx-auto px-4 py-3 flex items-center justify-between">
+          <Link href="/" className="flex items-center">
+            <Image src="/logo192.png" alt="Flokraft Logo" width={32} height={32} className="h-8 w-auto mr-2" />
+            <span className="font-semibold text-gray-800">AI Match Analysis</span>
+          </Link>
+          {!currentUser && (
+            <Link href="/signup" className="text-sm text-blue-600 hover:text-blue-800">
+              Analyze your own dancing
+            </Link>
+          )}
+        </div>
+      </header>
+      <main className="max-w-6xl mx-auto p-4 md:p-8">{content}</main>
+    </div>
+  )
+}
@@ -17,25 +17,23 @@ import {
   SortAsc,
   SortDesc,
   AlertCircle,
+  Columns2,
 } from "lucide-react"
-import { API_BASE } from "@/lib/constants"
-
-interface SharedAnalysis {
-  share_id: string
-  dance_type: string
-  dancers: string
-  owner_email: string
-  analysis_type?: string
-  shared_at: any
-}
+import Link from "next/link"
+import { useApi } from "@/hooks/use-api"
+import { undoable } from "@/lib/notify"
+import { MAX_COMPARE, MIN_COMPARE } from "@/lib/constants"
+import { SHARE_PERMISSION_SHORT_LABELS, type SharedAnalysisSummary as SharedAnalysis } from "@/lib/models"
 
 export default function SharedAnalysesPage() {
-  const { currentUser, getIdToken } = useAuth()
+  const { currentUser } = useAuth()
+  const api = useApi()
   const router = useRouter()
   const [sharedAnalyses, setSharedAnalyses] = useState<SharedAnalysis[]>([])
   const [loading, setLoading] = useState(true)
   const [error, setError] = useState<string | null>(null)
-  const [isDeleting, setIsDeleting] = useState(false)
+  // Share ids ticked for the side-by-side comparison
+  const [compareIds, setCompareIds] = useState<string[]>([])
 
   const [searchTerm, setSearchTerm] = useState("")
   const [showFilters, setShowFilters] = useState(false)
@@ -43,105 +41,60 @@ export default function SharedAnalysesPage() {
   const [filterOwner, setFilterOwner] = useState("")
   const [filterType, setFilterType] = useState("all")
 
-  const [uniqueOwners, setUniqueOwners] = useState<string[]>([])
+  const uniqueOwners = [...new Set(sharedAnalyses.map((analysis) => analysis.owner_email))]
 
   useEffect(() => {
-    fetchSharedAnalyses()
-  }, [currentUser])
-
-  useEffect(() => {
-    if (sharedAnalyses.length > 0) {
-      const owners = [...new Set(sharedAnalyses.map((analysis) => analysis.owner_email))]
-      setUniqueOwners(owners)
-    }
-  }, [sharedAnalyses])
-
-  const fetchSharedAnalyses = async () => {
-    try {
-      setLoading(true)
-
-      const token = await getIdToken()
-      if (!token) {
-        throw new Error("Authentication required")
-      }
-
-      const response = await fetch(`${API_BASE}/shared-analyses`, {
-        headers: {
-          Authorization: `Bearer ${token}`,
-          "Content-Type": "application/json",
-        },
-      })
-
-      if (!response.ok) {
-        throw new Error(`HTTP error! status: ${response.status}`)
+    let cancelled = false
+    const fetchSharedAnalyses = async () => {
+      try {
+        const data = await api.sharedAnalyses.list()
+        if (cancelled) return
+        setSharedAnalyses(data)
+        setError(null)
+      } catch (error) {
+        console.error("Failed to fetch shared analyses:", error)
+        if (!cancelled) setError("Failed to load shared analyses")
+      } finally {
+        if (!cancelled) setLoading(false)
       }
+    }
 
-      const data = await response.json()
-      setSharedAnalyses(data)
-      setError(null)
-    } catch (error) {
-      console.error("Failed to fetch shared analyses:", error)
-      setError("Failed to load shared analyses")
-    } finally {
-      setLoading(false)
+    fetchSharedAnalyses()
+    return () => {
+      cancelled = true
     }
-  }
+  }, [api, currentUser])
 
-  const formatDate = (timestamp: any) => {
+  const formatDate = (timestamp?: string) => {
     if (!timestamp) return "Unknown"
 
-    if (timestamp.seconds) {
-      const date = new Date(timestamp.seconds * 1000)
-      return date.toLocaleDateString() + " " + date.toLocaleTimeString()
-    }
-
-    return new Date(timestamp).toLocaleDateString()
+    const date = new Date(timestamp)
+    return date.toLocaleDateString() + " " + date.toLocaleTimeString()
   }
 
   const handleViewAnalysis = (analysis: SharedAnalysis) => {
     router.push(`/shared/${analysis.share_id}`)
   }
 
-  const handleDeleteShared = async (analysis: SharedAnalysis, event: React.MouseEvent) => {
-    if (event) {
-      event.stopPropagation()
-    }
-
-    if (
-      !window.confirm(
-        `Are you sure you want to remove "${analysis.dance_type}" shared by ${analysis.owner_email} from your shared list?`,
-      )
-    ) {
-      return
-    }
+  // Hidden right away; the removal goes out once the undo window has passed
+  const handleDeleteShared = (analysis: SharedAnalysis, event: React.MouseEvent) => {
+    event.stopPropagation()
 
-    try {
-      setIsDeleting(true)
+    setSharedAnalyses((prevAnalyses) => prevAnalyses.filter((a) => a.share_id !== analysis.share_id))
+    setCompareIds((ids) => ids.filter((id) => id !== analysis.share_id))
 
-      const token = await getIdToken()
-      if (!token) {
-        throw new Error("Authentication required")
-      }
-
-      const response = await fetch(`${API_BASE}/shared-analyses/${analysis.share_id}`, {
-        method: "DELETE",
-        headers: {
-          Authorization: `Bearer ${token}`,
-          "Content-Type": "application/json",
-        },
-      })
-
-      if (!response.ok) {
-        throw new Error(`Failed to remove shared analysis: ${response.statusText}`)
-      }
+    undoable({
+      message: `Removed "${analysis.dance_type}" from your shared list`,
+      commit: ({ keepalive }) => api.sharedAnalyses.remove(analysis.share_id, { keepalive }),
+      revert: () => setSharedAnalyses((prevAnalyses) => [...prevAnalyses, analysis]),
+      errorMessage: "Failed to remove shared analysis",
+    })
+  }
 
-      setSharedAnalyses((prevAnalyses) => prevAnalyses.filter((a) => a.share_id !== analysis.share_id))
-    } catch (error) {
-      console.error("Error removing shared analysis:", error)
-      setError(`Failed to remove shared analysis: ${(error as Error).message}`)
-    } finally {
-      setIsDeleting(false)
-    }
+  const toggleCompare = (shareId: string) => {
+    setCompareIds((ids) =>
+      ids.includes(shareId) ? ids.filter((id) => id !== shareId) : ids.length < MAX_COMPARE ? [...ids, shareId] : ids,
+    )
   }
 
   const resetFilters = () => {
@@ -168,12 +121,6 @@ export default function SharedAnalysesPage() {
       })
       .sort((a, b) => {
         if (a.shared_at && b.shared_at) {
-          if (a.shared_at.seconds && b.shared_at.seconds) {
-            return sortOrder === "desc"
-              ? b.shared_at.seconds - a.shared_at.seconds
-              : a.shared_at.seconds - b.shared_at.seconds
-          }
-
           const dateA = new Date(a.shared_at)
           const dateB = new Date(b.shared_at)
           return sortOrder === "desc" ? dateB.getTime() - dateA.getTime() : dateA.getTime() - dateB.getTime()
@@ -321,6 +268,33 @@ export default function SharedAnalysesPage() {
               </div>
             </div>
 
+            {compareIds.length > 0 && (
+              <div className="bg-blue-50 border border-blue-200 rounded-lg p-3 mb-4 flex flex-wrap items-center justify-between gap-2">
+                <span className="text-sm text-blue-800">
+                  {compareIds.length} of up to {MAX_COMPARE} analyses selected for comparison
+                </span>
+                <div className="flex items-center gap-2">
+                  <button
+                    onClick={() => setCompareIds([])}
+                    className="px-3 py-1 text-sm text-gray-600 hover:text-gray-800"
+                  >
+                    Clear
+                  </button>
+                  {compareIds.length >= MIN_COMPARE ? (
+                    <Link
+                      href={`/compare?shared=${compareIds.map(encodeURIComponent).join(",")}`}
+                      className="flex items-center px-3 py-1.5 text-sm bg-blue-600 text-white rounded-lg hover:bg-blue-700"
+                    >
+                      <Columns2 className="w-4 h-4 mr-1" />
+                      Compare
+                    </Link>
+                  ) : (
+                    <span className="text-sm text-gray-500">Select at least {MIN_COMPARE}</span>
+                  )}
+                </div>
+              </div>
+            )}
+
             {/* Analyses List */}
             <div className="bg-white rounded-lg shadow">
               <div className="grid grid-cols-4 p-4 font-semibold border-b">
@@ -335,10 +309,22 @@ export default function SharedAnalysesPage() {
                   {filteredAnalyses.map((analysis) => (
                     <div
                       key={analysis.share_id}
-                      className="grid grid-cols-4 p-4 hover:bg-gray-50 cursor-pointer"
+                      className={`grid grid-cols-4 p-4 hover:bg-gray-50 cursor-pointer ${analysis.removed ? "opacity-60" : ""}`}
                       onClick={() => handleViewAnalysis(analysis)}
                     >
                       <div className="flex items-start">
+                        <input
+                          type="checkbox"
+                          className="mt-1 mr-3"
+                          checked={compareIds.includes(analysis.share_id)}
+                          disabled={
+                            analysis.removed || (!compareIds.includes(analysis.share_id) && compareIds.length >= MAX_COMPARE)
+                          }
+                          onClick={(e) => e.stopPropagation()}
+                          onChange={() => toggleCompare(analysis.share_id)}
+                          title="Select for comparison"
+                          aria-label="Select for comparison"
+                        />
                         <div className="flex-1">
                           <div className="font-medium">{analysis.dance_type || "Unknown"}</div>
                           <div className="text-sm text-gray-600">{analysis.dancers || "Unknown dancers"}</div>
@@ -346,6 +332,25 @@ export default function SharedAnalysesPage() {
                             <span className="inline-block px-2 py-0.5 bg-blue-100 text-blue-800 rounded-full">
                               {getAnalysisTypeLabel(analysis.analysis_type || "couple")}
                             </span>
+                            {analysis.removed && (
+                              <span className="inline-block ml-1 px-2 py-0.5 bg-gray-200 text-gray-600 rounded-full">
+                                Removed by owner
+                              </span>
+                            )}
+                            {!analysis.removed && analysis.permissions.length === 0 && (
+                              <span className="inline-block ml-1 px-2 py-0.5 bg-gray-100 text-gray-600 rounded-full">
+                                View only
+                              </span>
+                            )}
+                            {!analysis.removed &&
+                              analysis.permissions.map((permission) => (
+                                <span
+                                  key={permission}
+                                  className="inline-block ml-1 px-2 py-0.5 bg-green-100 text-green-800 rounded-full"
+                                >
+                                  {SHARE_PERMISSION_SHORT_LABELS[permission]}
+                                </span>
+                              ))}
                           </div>
                         </div>
                       </div>
@@ -373,7 +378,6 @@ export default function SharedAnalysesPage() {
                           onClick={(e) => handleDeleteShared(analysis, e)}
                           className="p-2 text-red-600 hover:text-red-800 hover:bg-red-50 rounded transition-colors"
                           title="Remove from Shared"
-                          disabled={isDeleting}
                         >
                           <Trash2 className="w-5 h-5" />
                         </button>
@@ -1,94 +1,67 @@
 "use client"
 
-import { useState, useEffect } from "react"
+import { useState, useEffect, useCallback } from "react"
 import { useRouter, useParams } from "next/navigation"
 import { useAuth } from "@/contexts/auth-context"
 import { SidebarLayout } from "@/components/sidebar-layout"
 import { AnalysisDetail } from "@/components/analysis-detail"
-import { ArrowLeft, AlertCircle } from "lucide-react"
-import { API_BASE } from "@/lib/constants"
-
-interface SharedAnalysisData {
-  id: string
-  timestamp: string
-  dance_type: string
-  dancers: string
-  analysis_type: string
-  processed: boolean
-  status?: string
-  text?: string
-  video_url?: string
-  user_id?: string
-  total_score?: string
-  owner_email?: string
-  shared_at?: any
-}
+import { ArrowLeft, AlertCircle, Trash2 } from "lucide-react"
+import { useApi } from "@/hooks/use-api"
+import { ApiError, errorMessage } from "@/lib/api"
+import type { SharedAnalysis as SharedAnalysisData } from "@/lib/models"
 
 export default function SharedAnalysisViewPage() {
   const router = useRouter()
   const params = useParams()
-  const { currentUser, getIdToken } = useAuth()
+  const { currentUser } = useAuth()
+  const api = useApi()
   const [analysis, setAnalysis] = useState<SharedAnalysisData | null>(null)
   const [loading, setLoading] = useState(true)
   const [error, setError] = useState<string | null>(null)
+  // The owner moved the analysis to the trash
+  const [removed, setRemoved] = useState(false)
 
   const shareId = params.shareId as string
 
-  useEffect(() => {
-    if (shareId && currentUser) {
-      fetchSharedAnalysis()
-    }
-  }, [shareId, currentUser])
-
-  const fetchSharedAnalysis = async () => {
-    try {
-      setLoading(true)
-      setError(null)
-
-      const token = await getIdToken()
-      if (!token) {
-        throw new Error("Authentication required")
-      }
-
-      console.log(`Fetching shared analysis from: ${API_BASE}/shared-analyses/${shareId}`)
-      console.log(`Using token: ${token ? 'Token present' : 'No token'}`)
-
-      const response = await fetch(`${API_BASE}/shared-analyses/${shareId}`, {
-        headers: {
-          Authorization: `Bearer ${token}`,
-          "Content-Type": "application/json",
-        },
-        mode: "cors",
-      })
+  const fetchSharedAnalysis = useCallback(() => {
+    console.log(`Fetching shared analysis: ${shareId}`)
 
-      console.log(`Response status: ${response.status}`)
-      console.log(`Response headers:`, Object.fromEntries(response.headers.entries()))
-
-      if (!response.ok) {
-        const errorText = await response.text()
-        console.log(`Error response body:`, errorText)
-
-        if (response.status === 404) {
-          throw new Error("Shared analysis not found or access denied")
-        } else if (response.status === 401) {
-          throw new Error("Authentication failed. Please try logging out and back in.")
-        } else if (response.status === 403) {
-          throw new Error("You don't have permission to view this shared analysis")
+    return api.sharedAnalyses
+      .get(shareId)
+      .then((data) => {
+        console.log("Received data:", data)
+        setAnalysis(data)
+        setError(null)
+        setRemoved(false)
+      })
+      .catch((err) => {
+        console.error("Error fetching shared analysis:", err)
+
+        if (err instanceof ApiError && err.isRemoved) {
+          setRemoved(true)
+        } else if (err instanceof ApiError && err.status === 404) {
+          setError("Shared analysis not found or access denied")
+        } else if (err instanceof ApiError && err.status === 401) {
+          setError("Authentication failed. Please try logging out and back in.")
+        } else if (err instanceof ApiError && err.status === 403) {
+          setError("You don't have permission to view this shared analysis")
         } else {
-          throw new Error(`Failed to fetch shared analysis: ${response.status} ${response.statusText}. Error: ${errorText}`)
+          setError(errorMessage(err) || "Failed to load shared analysis")
         }
-      }
-
-      const data = await response.json()
-      console.log("Received data:", data)
-      setAnalysis(data)
-    } catch (err: any) {
-      console.error("Error fetching shared analysis:", err)
+      })
+      .finally(() => setLoading(false))
+  }, [api, shareId])
 
-      setError(err.message || "Failed to load shared analysis")
-    } finally {
-      setLoading(false)
+  useEffect(() => {
+    if (shareId && currentUser) {
+      fetchSharedAnalysis()
     }
+  }, [shareId, currentUser, fetchSharedAnalysis])
+
+  const retrySharedAnalysis = () => {
+    setLoading(true)
+    setError(null)
+    fetchSharedAnalysis()
   }
 
   const handleBack = () => {
@@ -108,6 +81,40 @@ export default function SharedAnalysisViewPage() {
     )
   }
 
+  if (removed) {
+    return (
+      <SidebarLayout>
+        <div className="h-full">
+          <div className="flex justify-between items-center mb-6">
+            <button onClick={handleBack} className="flex items-center text-blue-600 hover:text-blue-800 transition-colors">
+              <ArrowLeft className="w-5 h-5 mr-2" />
+              Back to Shared Analyses
+            </button>
+          </div>
+
+          <div className="bg-gray-50 border border-gray-300 text-gray-700 px-6 py-4 rounded-lg flex items-start">
+            <Trash2 className="w-6 h-6 mr-3 mt-0.5 flex-shrink-0 text-gray-500" />
+            <div>
+              <h3 className="font-semibold mb-2">Removed by owner</h3>
+              <p>
+                The owner deleted this analysis, so it can no longer be viewed. If they restore it from their trash, this
+                link will work again.
+              </p>
+              <div className="mt-4">
+                <button
+                  onClick={handleBack}
+                  className="bg-gray-600 text-white px-4 py-2 rounded hover:bg-gray-700 transition-colors"
+                >
+                  Go Back
+                </button>
+              </div>
+            </div>
+          </div>
+        </div>
+      </SidebarLayout>
+    )
+  }
+
   if (error) {
     return (
       <SidebarLayout>
@@ -126,7 +133,7 @@ export default function SharedAnalysisViewPage() {
               <p>{error}</p>
               <div className="mt-4">
                 <button
-                  onClick={fetchSharedAnalysis}
+                  onClick={retrySharedAnalysis}
                   className="bg-red-600 text-white px-4 py-2 rounded hover:bg-red-700 transition-colors mr-3"
                 >
                   Try Again
@@ -158,7 +165,7 @@ export default function SharedAnalysisViewPage() {
 
           <div className="bg-yellow-100 border border-yellow-400 text-yellow-700 px-6 py-4 rounded-lg">
             <h3 className="font-semibold mb-2">Analysis Not Found</h3>
-            <p>The shared analysis you're looking for could not be found or you don't have access to view it.</p>
+            <p>The shared analysis you&apos;re looking for could not be found or you don&apos;t have access to view it.</p>
             <div className="mt-4">
               <button
                 onClick={handleBack}
@@ -183,7 +190,7 @@ export default function SharedAnalysisViewPage() {
               <p className="text-sm text-blue-600 font-medium">Shared Analysis</p>
               <p className="text-xs text-blue-500">
                 {analysis.owner_email && `Shared by ${analysis.owner_email}`}
-                {analysis.shared_at && ` on ${new Date(analysis.shared_at.seconds ? analysis.shared_at.seconds * 1000 : analysis.shared_at).toLocaleDateString()}`}
+                {analysis.shared_at && ` on ${new Date(analysis.shared_at).toLocaleDateString()}`}
               </p>
             </div>
           </div>
@@ -197,6 +204,9 @@ export default function SharedAnalysisViewPage() {
           onDelete={undefined}
           isSharedView={true}
           shareId={shareId}
+          permissions={analysis.permissions}
+          allowExport={analysis.allow_export}
+          ownerBranding={analysis.branding}
         />
       </div>
     </SidebarLayout>
@@ -18,24 +18,17 @@ import {
   SortDesc,
   AlertCircle,
 } from "lucide-react"
-import { API_BASE } from "@/lib/constants"
-
-interface SharedAnalysis {
-  share_id: string
-  dance_type: string
-  dancers: string
-  owner_email: string
-  analysis_type?: string
-  shared_at: any
-}
+import { useApi } from "@/hooks/use-api"
+import { undoable } from "@/lib/notify"
+import { SHARE_PERMISSION_SHORT_LABELS, type SharedAnalysisSummary as SharedAnalysis } from "@/lib/models"
 
 export default function SharedAnalysesPage() {
-  const { currentUser, getIdToken } = useAuth()
+  const { currentUser } = useAuth()
+  const api = useApi()
   const router = useRouter()
   const [sharedAnalyses, setSharedAnalyses] = useState<SharedAnalysis[]>([])
   const [loading, setLoading] = useState(true)
   const [error, setError] = useState<string | null>(null)
-  const [isDeleting, setIsDeleting] = useState(false)
 
   const [searchTerm, setSearchTerm] = useState("")
   const [showFilters, setShowFilters] = useState(false)
@@ -43,105 +36,53 @@ export default function SharedAnalysesPage() {
   const [filterOwner, setFilterOwner] = useState("")
   const [filterType, setFilterType] = useState("all")
 
-  const [uniqueOwners, setUniqueOwners] = useState<string[]>([])
-
-  useEffect(() => {
-    fetchSharedAnalyses()
-  }, [currentUser])
+  const uniqueOwners = [...new Set(sharedAnalyses.map((analysis) => analysis.owner_email))]
 
   useEffect(() => {
-    if (sharedAnalyses.length > 0) {
-      const owners = [...new Set(sharedAnalyses.map((analysis) => analysis.owner_email))]
-      setUniqueOwners(owners)
-    }
-  }, [sharedAnalyses])
-
-  const fetchSharedAnalyses = async () => {
-    try {
-      setLoading(true)
-
-      const token = await getIdToken()
-      if (!token) {
-        throw new Error("Authentication required")
-      }
-
-      const response = await fetch(`${API_BASE}/shared-analyses`, {
-        headers: {
-          Authorization: `Bearer ${token}`,
-          "Content-Type": "application/json",
-        },
-      })
-
-      if (!response.ok) {
-        throw new Error(`HTTP error! status: ${response.status}`)
+    let cancelled = false
+    const fetchSharedAnalyses = async () => {
+      try {
+        const data = await api.sharedAnalyses.list()
+        if (cancelled) return
+        setSharedAnalyses(data)
+        setError(null)
+      } catch (error) {
+        console.error("Failed to fetch shared analyses:", error)
+        if (!cancelled) setError("Failed to load shared analyses")
+      } finally {
+        if (!cancelled) setLoading(false)
       }
+    }
 
-      const data = await response.json()
-      setSharedAnalyses(data)
-      setError(null)
-    } catch (error) {
-      console.error("Failed to fetch shared analyses:", error)
-      setError("Failed to load shared analyses")
-    } finally {
-      setLoading(false)
+    fetchSharedAnalyses()
+    return () => {
+      cancelled = true
     }
-  }
+  }, [api, currentUser])
 
-  const formatDate = (timestamp: any) => {
+  const formatDate = (timestamp?: string) => {
     if (!timestamp) return "Unknown"
 
-    if (timestamp.seconds) {
-      const date = new Date(timestamp.seconds * 1000)
-      return date.toLocaleDateString() + " " + date.toLocaleTimeString()
-    }
-
-    return new Date(timestamp).toLocaleDateString()
+    const date = new Date(timestamp)
+    return date.toLocaleDateString() + " " + date.toLocaleTimeString()
   }
 
   const handleViewAnalysis = (analysis: SharedAnalysis) => {
     router.push(`/shared/${analysis.share_id}`)
   }
 
-  const handleDeleteShared = async (analysis: SharedAnalysis, event: React.MouseEvent) => {
-    if (event) {
-      event.stopPropagation()
-    }
+  // Hidden right away; the removal goes out once the undo window has passed
+  const handleDeleteShared = (analysis: SharedAnalysis, event: React.MouseEvent) => {
+    event.stopPropagation()
 
-    if (
-      !window.confirm(
-        `Are you sure you want to remove "${analysis.dance_type}" shared by ${analysis.owner_email} from your shared list?`,
-      )
-    ) {
-      return
-    }
-
-    try {
-      setIsDeleting(true)
-
-      const token = await getIdToken()
-      if (!token) {
-        throw new Error("Authentication required")
-      }
+    setSharedAnalyses((prevAnalyses) => prevAnalyses.filter((a) => a.share_id !== analysis.share_id))
 
-      const response = await fetch(`${API_BASE}/shared-analyses/${analysis.share_id}`, {
-        method: "DELETE",
-        headers: {
-          Authorization: `Bearer ${token}`,
-          "Content-Type": "application/json",
-        },
-      })
-
-      if (!response.ok) {
-        throw new Error(`Failed to remove shared analysis: ${response.statusText}`)
-      }
-
-      setSharedAnalyses((prevAnalyses) => prevAnalyses.filter((a) => a.share_id !== analysis.share_id))
-    } catch (error) {
-      console.error("Error removing shared analysis:", error)
-      setError(`Failed to remove shared analysis: ${(error as Error).message}`)
-    } finally {
-      setIsDeleting(false)
-    }
+    undoable({
+      message: `Removed "${analysis.dance_type}" from your shared list`,
+      commit: ({ keepalive }) => api.sharedAnalyses.remove(analysis.share_id, { keepalive }),
+      revert: () => setSharedAnalyses((prevAnalyses) => [...prevAnalyses, analysis]),
+      errorMessage: "Failed to remove shared analysis",
+    })
   }
 
   const resetFilters = () => {
@@ -168,12 +109,6 @@ export default function SharedAnalysesPage() {
       })
       .sort((a, b) => {
         if (a.shared_at && b.shared_at) {
-          if (a.shared_at.seconds && b.shared_at.seconds) {
-            return sortOrder === "desc"
-              ? b.shared_at.seconds - a.shared_at.seconds
-              : a.shared_at.seconds - b.shared_at.seconds
-          }
-
           const dateA = new Date(a.shared_at)
           const dateB = new Date(b.shared_at)
           return sortOrder === "desc" ? dateB.getTime() - dateA.getTime() : dateA.getTime() - dateB.getTime()
@@ -335,7 +270,7 @@ export default function SharedAnalysesPage() {
                   {filteredAnalyses.map((analysis) => (
                     <div
                       key={analysis.share_id}
-                      className="grid grid-cols-4 p-4 hover:bg-gray-50 cursor-pointer"
+                      className={`grid grid-cols-4 p-4 hover:bg-gray-50 cursor-pointer ${analysis.removed ? "opacity-60" : ""}`}
                       onClick={() => handleViewAnalysis(analysis)}
                     >
                       <div className="flex items-start">
@@ -346,6 +281,25 @@ export default function SharedAnalysesPage() {
                             <span className="inline-block px-2 py-0.5 bg-blue-100 text-blue-800 rounded-full">
                               {getAnalysisTypeLabel(analysis.analysis_type || "couple")}
                             </span>
+                            {analysis.removed && (
+                              <span className="inline-block ml-1 px-2 py-0.5 bg-gray-200 text-gray-600 rounded-full">
+                                Removed by owner
+                              </span>
+                            )}
+                            {!analysis.removed && analysis.permissions.length === 0 && (
+                              <span className="inline-block ml-1 px-2 py-0.5 bg-gray-100 text-gray-600 rounded-full">
+                                View only
+                              </span>
+                            )}
+                            {!analysis.removed &&
+                              analysis.permissions.map((permission) => (
+                                <span
+                                  key={permission}
+                                  className="inline-block ml-1 px-2 py-0.5 bg-green-100 text-green-800 rounded-full"
+                                >
+                                  {SHARE_PERMISSION_SHORT_LABELS[permission]}
+                                </span>
+                              ))}
                           </div>
                         </div>
                       </div>
@@ -373,7 +327,6 @@ export default function SharedAnalysesPage() {
                           onClick={(e) => handleDeleteShared(analysis, e)}
                           className="p-2 text-red-600 hover:text-red-800 hover:bg-red-50 rounded transition-colors"
                           title="Remove from Shared"
-                          disabled={isDeleting}
                         >
                           <Trash2 className="w-5 h-5" />
                         </button>
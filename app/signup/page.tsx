@@ -4,12 +4,15 @@ import type React from "react"
 
 import { useState, useRef } from "react"
 import Link from "next/link"
-import { useRouter } from "next/navigation"
+import { FirebaseError } from "firebase/app"
+import { useRouter, useSearchParams } from "next/navigation"
 import { useAuth } from "@/contexts/auth-context"
 import { Alert, AlertDescription } from "@/components/ui/alert"
 import { Button } from "@/components/ui/button"
 import { CountrySelector } from "@/components/country-selector"
-import { API_BASE } from "@/lib/constants"
+import { useApi } from "@/hooks/use-api"
+import { loginUrl, safeReturnUrl } from "@/lib/session"
+import { errorMessage } from "@/lib/api"
 import Image from "next/image"
 
 export default function SignupPage() {
@@ -21,10 +24,14 @@ export default function SignupPage() {
   const [country, setCountry] = useState("")
 
   const { signup, signInWithGoogle, logout } = useAuth()
+  const api = useApi()
 
   const [error, setError] = useState("")
   const [loading, setLoading] = useState(false)
   const router = useRouter()
+  // Carried over from /login when the user was sent there from a protected page
+  const next = useSearchParams().get("next")
+  const returnTo = safeReturnUrl(next)
 
   async function handleSubmit(e: React.FormEvent) {
     e.preventDefault()
@@ -44,34 +51,24 @@ export default function SignupPage() {
       const userCredential = await signup(emailRef.current!.value, passwordRef.current!.value)
       const token = await userCredential.user.getIdToken()
 
-      const backendResponse = await fetch(`${API_BASE}/auth/register`, {
-        method: "POST",
-        headers: {
-          "Content-Type": "application/json",
-          Authorization: `Bearer ${token}`,
-        },
-        body: JSON.stringify({
+      await api.auth.register(
+        {
           email: emailRef.current!.value,
           displayName: displayNameRef.current!.value,
           password: passwordRef.current!.value,
           country: country,
           initialCredits: 5,
-        }),
-      })
-
-      const responseData = await backendResponse.json()
-      if (!backendResponse.ok) {
-        console.error("Backend registration error", responseData)
-        throw new Error(responseData.error || "Failed to register with backend")
-      }
+        },
+        token,
+      )
 
-      router.push("/")
-    } catch (error: any) {
+      router.push(returnTo)
+    } catch (error) {
       console.error("Registration error:", error)
-      if (error.code === "auth/email-already-in-use") {
+      if (error instanceof FirebaseError && error.code === "auth/email-already-in-use") {
         setError("Account already exists! Please login")
       } else {
-        setError("Failed to create an account: " + (error.message || error))
+        setError("Failed to create an account: " + (errorMessage(error) || String(error)))
       }
     } finally {
       setLoading(false)
@@ -93,49 +90,24 @@ export default function SignupPage() {
       const user = userCredential.user
       const token = await user.getIdToken()
 
-      const verifyResponse = await fetch(`${API_BASE}/auth/verify-token`, {
-        method: "POST",
-        headers: {
-          "Content-Type": "application/json",
-        },
-        body: JSON.stringify({
-          idToken: token,
-          sourcePage: "signup",
-          country: country,
-        }),
-      })
-
-      if (!verifyResponse.ok) {
-        const errorData = await verifyResponse.json()
-        throw new Error(errorData.error || "Failed to verify user")
-      }
+      await api.auth.verifyToken({ idToken: token, sourcePage: "signup", country: country })
 
-      const backendResponse = await fetch(`${API_BASE}/auth/create-user-doc`, {
-        method: "POST",
-        headers: {
-          "Content-Type": "application/json",
-          Authorization: `Bearer ${token}`,
-        },
-        body: JSON.stringify({
+      await api.auth.createUserDoc(
+        {
           email: user.email,
           displayName: user.displayName || "",
           provider: "google",
           user_id: user.uid,
           country: country,
           initialCredits: 5,
-        }),
-      })
-
-      if (!backendResponse.ok) {
-        const responseData = await backendResponse.json()
-        console.error("Failed to register Google user in backend", responseData)
-        throw new Error(responseData.error || "Failed to create user document")
-      }
+        },
+        token,
+      )
 
-      router.push("/")
-    } catch (error: any) {
+      router.push(returnTo)
+    } catch (error) {
       console.error("Google sign-in error:", error)
-      setError("Failed to sign in with Google: " + error.message)
+      setError("Failed to sign in with Google: " + errorMessage(error))
 
       try {
         await logout()
@@ -285,7 +257,7 @@ export default function SignupPage() {
         <div className="text-center">
           <p className="text-sm text-gray-600">
             Already have an account?{" "}
-            <Link href="/login" className="font-medium text-blue-600 hover:text-blue-500">
+            <Link href={loginUrl(next ?? undefined)} className="font-medium text-blue-600 hover:text-blue-500">
               Sign in
             </Link>
           </p>
@@ -0,0 +1,290 @@
+"use client"
+
+import type React from "react"
+import { useState } from "react"
+import { Building2, Plus, Check, X, LogOut, AlertCircle, Loader2, Coins } from "lucide-react"
+import { useConfirm } from "@/contexts/confirm-context"
+import { useConnectivity } from "@/contexts/connectivity-context"
+import { useStudio } from "@/contexts/studio-context"
+import { SidebarLayout } from "@/components/sidebar-layout"
+import { StudioLibrary } from "@/components/studio-library"
+import { StudioMembers } from "@/components/studio-members"
+import { notify } from "@/lib/notify"
+import { STUDIO_ROLE_LABELS, type Studio } from "@/lib/models"
+import { errorMessage } from "@/lib/api"
+
+export default function StudioPage() {
+  const { isOffline } = useConnectivity()
+  const confirm = useConfirm()
+  const {
+    studios,
+    activeStudio,
+    setActiveStudioId,
+    invites,
+    loading,
+    error,
+    fetchStudios,
+    createStudio,
+    updateStudio,
+    acceptInvite,
+    declineInvite,
+    leaveStudio,
+  } = useStudio()
+
+  const [newName, setNewName] = useState("")
+  const [working, setWorking] = useState(false)
+
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault()
+    const name = newName.trim()
+    if (!name) return
+
+    try {
+      setWorking(true)
+      await createStudio({ name })
+      setNewName("")
+      notify.success(`Created ${name}`, "Invite your coaches and dancers to get started.")
+    } catch (err) {
+      console.error("Failed to create studio:", err)
+      notify.error("Failed to create the studio", errorMessage(err))
+    } finally {
+      setWorking(false)
+    }
+  }
+
+  const handleAccept = async (inviteId: string) => {
+    try {
+      setWorking(true)
+      const studio = await acceptInvite(inviteId)
+      notify.success(`Joined ${studio.name}`)
+    } catch (err) {
+      console.error("Failed to accept invite:", err)
+      notify.error("Failed to accept the invite", errorMessage(err))
+    } finally {
+      setWorking(false)
+    }
+  }
+
+  const handleDecline = async (inviteId: string) => {
+    try {
+      await declineInvite(inviteId)
+    } catch (err) {
+      console.error("Failed to decline invite:", err)
+      notify.error("Failed to decline the invite", errorMessage(err))
+    }
+  }
+
+  const handleTogglePool = async (studio: Studio) => {
+    try {
+      setWorking(true)
+      const updated = await updateStudio(studio.id, { credit_pool: !studio.credit_pool })
+      notify.success(updated.credit_pool ? "Credit pool turned on" : "Credit pool turned off")
+    } catch (err) {
+      console.error("Failed to update studio:", err)
+      notify.error("Failed to update the studio", errorMessage(err))
+    } finally {
+      setWorking(false)
+    }
+  }
+
+  const handleLeave = async (studio: Studio) => {
+    const confirmed = await confirm({
+      title: `Leave ${studio.name}?`,
+      description: "Coaches will no longer see your uploads. You'll need a new invite to rejoin.",
+      confirmLabel: "Leave studio",
+      destructive: true,
+    })
+    if (!confirmed) return
+
+    try {
+      await leaveStudio(studio.id)
+      notify.success(`You left ${studio.name}`)
+    } catch (err) {
+      console.error("Failed to leave studio:", err)
+      notify.error("Failed to leave the studio", errorMessage(err))
+    }
+  }
+
+  const disabled = working || isOffline
+
+  return (
+    <SidebarLayout>
+      <div className="h-full">
+        <div className="mb-6">
+          <h2 className="text-2xl font-bold text-gray-800">{activeStudio ? activeStudio.name : "Studios"}</h2>
+          <p className="text-sm text-gray-500">
+            {activeStudio
+              ? `${STUDIO_ROLE_LABELS[activeStudio.role]} · ${activeStudio.member_count} ${activeStudio.member_count === 1 ? "member" : "members"}`
+              : "Work together with your coaches and dancers in a shared studio."}
+          </p>
+        </div>
+
+        {error && (
+          <div className="bg-red-100 border border-red-400 text-red-700 px-4 py-3 rounded mb-6 flex items-start">
+            <AlertCircle className="w-5 h-5 mr-2 mt-0.5 flex-shrink-0" />
+            <div>
+              {error}
+              <button onClick={fetchStudios} className="ml-2 underline">
+                Try again
+              </button>
+            </div>
+          </div>
+        )}
+
+        {loading ? (
+          <div className="flex justify-center items-center h-64">
+            <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
+            <span className="ml-2 text-gray-600">Loading studios...</span>
+          </div>
+        ) : activeStudio ? (
+          <div className="space-y-6">
+            <div className="bg-white rounded-lg shadow p-4 md:p-6 flex flex-col sm:flex-row sm:items-center justify-between gap-4">
+              <div className="flex items-start">
+                <Coins className="w-5 h-5 mr-2 mt-0.5 text-gray-500" />
+                <div>
+                  <div className="font-medium text-gray-800">Shared credit pool</div>
+                  <div className="text-sm text-gray-500">
+                    {activeStudio.credit_pool
+                      ? "Uploads made while working in this studio use the studio's credits."
+                      : "Members pay for their uploads with their own credits."}
+                  </div>
+                </div>
+              </div>
+              <div className="flex items-center gap-2 self-start sm:self-center">
+                {activeStudio.role === "owner" ? (
+                  <button
+                    onClick={() => handleTogglePool(activeStudio)}
+                    disabled={disabled}
+                    className="px-3 py-1.5 text-sm border rounded-lg hover:bg-gray-50 disabled:opacity-50 disabled:cursor-not-allowed"
+                  >
+                    {activeStudio.credit_pool ? "Turn off" : "Turn on"}
+                  </button>
+                ) : (
+                  <button
+                    onClick={() => handleLeave(activeStudio)}
+                    disabled={disabled}
+                    className="flex items-center px-3 py-1.5 text-sm border border-red-200 text-red-600 rounded-lg hover:bg-red-50 disabled:opacity-50 disabled:cursor-not-allowed"
+                  >
+                    <LogOut className="w-4 h-4 mr-1" />
+                    Leave studio
+                  </button>
+                )}
+                <button
+                  onClick={() => setActiveStudioId(null)}
+                  className="px-3 py-1.5 text-sm border rounded-lg hover:bg-gray-50"
+                >
+                  All studios
+                </button>
+              </div>
+            </div>
+
+            <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+              <div className="lg:col-span-2">
+                {activeStudio.role === "dancer" ? (
+                  <div className="bg-white rounded-lg shadow p-8 text-center text-gray-500">
+                    Analyses you upload while working in {activeStudio.name} are visible to its coaches.
+                  </div>
+                ) : (
+                  <StudioLibrary key={activeStudio.id} studio={activeStudio} />
+                )}
+              </div>
+              <StudioMembers key={activeStudio.id} studio={activeStudio} onMembersChanged={fetchStudios} />
+            </div>
+          </div>
+        ) : (
+          <div className="space-y-6">
+            {invites.length > 0 && (
+              <div className="bg-white rounded-lg shadow p-4 md:p-6">
+                <h3 className="text-lg font-semibold text-gray-800 mb-4">Invites</h3>
+                <div className="divide-y border rounded-lg">
+                  {invites.map((invite) => (
+                    <div key={invite.id} className="flex items-center justify-between gap-2 p-3 text-sm">
+                      <div className="min-w-0">
+                        <div className="font-medium truncate">{invite.studio_name}</div>
+                        <div className="text-xs text-gray-500">
+                          Join as {STUDIO_ROLE_LABELS[invite.role].toLowerCase()}
+                          {invite.invited_by && ` · invited by ${invite.invited_by}`}
+                        </div>
+                      </div>
+                      <div className="flex items-center gap-1">
+                        <button
+                          onClick={() => handleAccept(invite.id)}
+                          disabled={disabled}
+                          className="flex items-center px-3 py-1.5 bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed"
+                        >
+                          <Check className="w-4 h-4 mr-1" />
+                          Accept
+                        </button>
+                        <button
+                          onClick={() => handleDecline(invite.id)}
+                          disabled={disabled}
+                          className="p-2 text-gray-500 hover:text-red-600 hover:bg-red-50 rounded disabled:opacity-50"
+                          title="Decline"
+                        >
+                          <X className="w-4 h-4" />
+                        </button>
+                      </div>
+                    </div>
+                  ))}
+                </div>
+              </div>
+            )}
+
+            <div className="bg-white rounded-lg shadow p-4 md:p-6">
+              <h3 className="text-lg font-semibold text-gray-800 mb-4">Your studios</h3>
+              {studios.length === 0 ? (
+                <div className="p-6 text-center text-gray-500">
+                  <Building2 className="w-10 h-10 text-gray-300 mx-auto mb-3" />
+                  You&apos;re not in a studio yet. Create one below or ask your coach for an invite.
+                </div>
+              ) : (
+                <div className="divide-y border rounded-lg">
+                  {studios.map((studio) => (
+                    <div key={studio.id} className="flex items-center justify-between gap-2 p-3 text-sm">
+                      <div className="min-w-0">
+                        <div className="font-medium truncate">{studio.name}</div>
+                        <div className="text-xs text-gray-500">
+                          {STUDIO_ROLE_LABELS[studio.role]} · {studio.member_count}{" "}
+                          {studio.member_count === 1 ? "member" : "members"}
+                          {studio.credit_pool && " · shared credits"}
+                        </div>
+                      </div>
+                      <button
+                        onClick={() => setActiveStudioId(studio.id)}
+                        className="px-3 py-1.5 border rounded-lg hover:bg-gray-50"
+                      >
+                        Open
+                      </button>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </div>
+
+            <form onSubmit={handleCreate} className="bg-white rounded-lg shadow p-4 md:p-6">
+              <h3 className="text-lg font-semibold text-gray-800 mb-4">Create a studio</h3>
+              <div className="flex flex-col sm:flex-row gap-2">
+                <input
+                  type="text"
+                  required
+                  placeholder="Studio name"
+                  className="flex-1 p-2 border rounded-lg"
+                  value={newName}
+                  onChange={(e) => setNewName(e.target.value)}
+                />
+                <button
+                  type="submit"
+                  disabled={disabled}
+                  className="flex items-center justify-center px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                  {working ? <Loader2 className="w-4 h-4 mr-1 animate-spin" /> : <Plus className="w-4 h-4 mr-1" />}
+                  Create
+                </button>
+              </div>
+            </form>
+          </div>
+        )}
+      </div>
+    </SidebarLayout>
+  )
+}
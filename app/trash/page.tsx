@@ -0,0 +1,282 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import { Trash2, RotateCcw, AlertCircle, Loader2, Clock } from "lucide-react"
+import { useAuth } from "@/contexts/auth-context"
+import { useConfirm } from "@/contexts/confirm-context"
+import { useConnectivity } from "@/contexts/connectivity-context"
+import { SidebarLayout } from "@/components/sidebar-layout"
+import { useApi } from "@/hooks/use-api"
+import { notify } from "@/lib/notify"
+import { TRASH_RETENTION_DAYS } from "@/lib/constants"
+import { useRole } from "@/hooks/use-role"
+import type { TrashedAnalysis } from "@/lib/models"
+import { errorMessage } from "@/lib/api"
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+const daysLeft = (analysis: TrashedAnalysis) =>
+  Math.max(0, Math.ceil((new Date(analysis.purge_at).getTime() - Date.now()) / DAY_MS))
+
+const plural = (count: number, noun: string) => `${count} ${noun}${count === 1 ? "" : "s"}`
+
+export default function TrashPage() {
+  const { currentUser } = useAuth()
+  const { isOffline } = useConnectivity()
+  const api = useApi()
+  const confirm = useConfirm()
+
+  const [items, setItems] = useState<TrashedAnalysis[]>([])
+  const [selectedIds, setSelectedIds] = useState<string[]>([])
+  const [loading, setLoading] = useState(true)
+  const [working, setWorking] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  // Admins can switch to every user's trash
+  const [scope, setScope] = useState<"mine" | "all">("mine")
+
+  const { isAdmin } = useRole()
+  const showOwner = scope === "all"
+
+  useEffect(() => {
+    if (!currentUser) return
+    let cancelled = false
+
+    const fetchTrash = async () => {
+      try {
+        const data = scope === "all" ? await api.admin.trash() : await api.analyses.trash.list()
+        if (cancelled) return
+        setItems(data.sort((a, b) => b.deleted_at.localeCompare(a.deleted_at)))
+        setSelectedIds([])
+        setError(null)
+      } catch (err) {
+        console.error("Failed to fetch trash:", err)
+        if (!cancelled) setError(errorMessage(err) || "Failed to load the trash")
+      } finally {
+        if (!cancelled) setLoading(false)
+      }
+    }
+
+    fetchTrash()
+    return () => {
+      cancelled = true
+    }
+  }, [api, currentUser, scope])
+
+  const changeScope = (next: "mine" | "all") => {
+    if (next === scope) return
+    setLoading(true)
+    setScope(next)
+  }
+
+  const dropItems = (ids: string[]) => {
+    setItems((current) => current.filter((item) => !ids.includes(item.id)))
+    setSelectedIds((current) => current.filter((id) => !ids.includes(id)))
+  }
+
+  const toggleSelected = (id: string) => {
+    setSelectedIds((current) => (current.includes(id) ? current.filter((existing) => existing !== id) : [...current, id]))
+  }
+
+  const toggleAll = () => {
+    setSelectedIds((current) => (current.length === items.length ? [] : items.map((item) => item.id)))
+  }
+
+  const handleRestore = async (ids: string[]) => {
+    try {
+      setWorking(true)
+      await api.analyses.trash.restore(ids)
+      dropItems(ids)
+      notify.success(ids.length === 1 ? "Analysis restored" : `${ids.length} analyses restored`)
+    } catch (err) {
+      console.error("Failed to restore analyses:", err)
+      notify.error("Failed to restore", errorMessage(err))
+    } finally {
+      setWorking(false)
+    }
+  }
+
+  const handlePurge = async (ids: string[]) => {
+    const confirmed = await confirm({
+      title: ids.length === 1 ? "Delete this analysis forever?" : `Delete ${ids.length} analyses forever?`,
+      description: "The report, scores and video are removed permanently. This can't be undone.",
+      confirmLabel: "Delete forever",
+      destructive: true,
+    })
+    if (!confirmed) return
+
+    try {
+      setWorking(true)
+      await api.analyses.trash.purge(ids)
+      dropItems(ids)
+      notify.success(ids.length === 1 ? "Analysis deleted forever" : `${ids.length} analyses deleted forever`)
+    } catch (err) {
+      console.error("Failed to purge analyses:", err)
+      notify.error("Failed to delete", errorMessage(err))
+    } finally {
+      setWorking(false)
+    }
+  }
+
+  const handleEmptyTrash = async () => {
+    const confirmed = await confirm({
+      title: showOwner ? "Empty the trash for every user?" : "Empty the trash?",
+      description: `All ${items.length} analyses in the trash are removed permanently. This can't be undone.`,
+      confirmLabel: "Empty trash",
+      destructive: true,
+    })
+    if (!confirmed) return
+
+    try {
+      setWorking(true)
+      await (showOwner ? api.admin.emptyTrash() : api.analyses.trash.empty())
+      setItems([])
+      setSelectedIds([])
+      notify.success("Trash emptied")
+    } catch (err) {
+      console.error("Failed to empty trash:", err)
+      notify.error("Failed to empty the trash", errorMessage(err))
+    } finally {
+      setWorking(false)
+    }
+  }
+
+  const formatDate = (iso: string) => new Date(iso).toLocaleDateString()
+
+  const disabled = working || isOffline
+
+  return (
+    <SidebarLayout>
+      <div className="h-full">
+        <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-4 mb-6">
+          <div>
+            <h2 className="text-2xl font-bold text-gray-800">Trash</h2>
+            <p className="text-sm text-gray-500">
+              Deleted analyses are kept for {TRASH_RETENTION_DAYS} days, then removed permanently.
+            </p>
+          </div>
+
+          {isAdmin && (
+            <div className="flex rounded-lg border overflow-hidden text-sm self-start">
+              {(["mine", "all"] as const).map((option) => (
+                <button
+                  key={option}
+                  onClick={() => changeScope(option)}
+                  className={`px-3 py-1.5 ${scope === option ? "bg-blue-600 text-white" : "bg-white hover:bg-gray-50"}`}
+                >
+                  {option === "mine" ? "My trash" : "All users"}
+                </button>
+              ))}
+            </div>
+          )}
+        </div>
+
+        {error && (
+          <div className="bg-red-100 border border-red-400 text-red-700 px-4 py-3 rounded mb-6 flex items-start">
+            <AlertCircle className="w-5 h-5 mr-2 mt-0.5 flex-shrink-0" />
+            <div>{error}</div>
+          </div>
+        )}
+
+        {loading ? (
+          <div className="flex justify-center items-center h-64">
+            <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
+            <span className="ml-2 text-gray-600">Loading trash...</span>
+          </div>
+        ) : items.length === 0 ? (
+          <div className="bg-white rounded-lg shadow p-8 text-center">
+            <Trash2 className="w-10 h-10 text-gray-300 mx-auto mb-3" />
+            <div className="text-gray-500">The trash is empty.</div>
+          </div>
+        ) : (
+          <>
+            <div className="bg-white rounded-lg shadow p-3 mb-4 flex flex-wrap items-center justify-between gap-2">
+              <label className="flex items-center text-sm text-gray-700">
+                <input
+                  type="checkbox"
+                  className="mr-2"
+                  checked={selectedIds.length === items.length}
+                  onChange={toggleAll}
+                />
+                {selectedIds.length > 0 ? `${selectedIds.length} selected` : "Select all"}
+              </label>
+
+              <div className="flex items-center gap-2">
+                {working && <Loader2 className="w-4 h-4 animate-spin text-gray-500" />}
+                <button
+                  onClick={() => handleRestore(selectedIds)}
+                  disabled={disabled || selectedIds.length === 0}
+                  className="flex items-center px-3 py-1.5 text-sm border rounded-lg hover:bg-gray-50 disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                  <RotateCcw className="w-4 h-4 mr-1" />
+                  Restore
+                </button>
+                <button
+                  onClick={() => handlePurge(selectedIds)}
+                  disabled={disabled || selectedIds.length === 0}
+                  className="flex items-center px-3 py-1.5 text-sm border border-red-200 text-red-600 rounded-lg hover:bg-red-50 disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                  <Trash2 className="w-4 h-4 mr-1" />
+                  Delete forever
+                </button>
+                <button
+                  onClick={handleEmptyTrash}
+                  disabled={disabled}
+                  className="flex items-center px-3 py-1.5 text-sm bg-red-600 text-white rounded-lg hover:bg-red-700 disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                  Empty trash
+                </button>
+              </div>
+            </div>
+
+            <div className="bg-white rounded-lg shadow divide-y">
+              {items.map((item) => {
+                const remaining = daysLeft(item)
+                return (
+                  <div key={item.id} className="p-4 flex items-start gap-3 hover:bg-gray-50">
+                    <input
+                      type="checkbox"
+                      className="mt-1"
+                      checked={selectedIds.includes(item.id)}
+                      onChange={() => toggleSelected(item.id)}
+                      aria-label="Select analysis"
+                    />
+                    <div className="flex-1 min-w-0">
+                      <div className="font-medium">{item.dance_type || "Unknown"}</div>
+                      <div className="text-sm text-gray-600 truncate">{item.dancers || "Unknown dancers"}</div>
+                      {showOwner && <div className="text-xs text-gray-500">{item.user_email || "Unknown user"}</div>}
+                      <div className="text-xs text-gray-500 mt-1 flex items-center">
+                        <Clock className="w-3 h-3 mr-1" />
+                        Deleted {formatDate(item.deleted_at)} ·{" "}
+                        <span className={remaining <= 3 ? "text-red-600 ml-1" : "ml-1"}>
+                          {remaining === 0 ? "removed permanently today" : `removed permanently in ${plural(remaining, "day")}`}
+                        </span>
+                      </div>
+                    </div>
+                    <div className="flex items-center gap-1">
+                      <button
+                        onClick={() => handleRestore([item.id])}
+                        disabled={disabled}
+                        className="p-2 text-blue-600 hover:text-blue-800 hover:bg-blue-50 rounded disabled:opacity-50 disabled:cursor-not-allowed"
+                        title="Restore"
+                      >
+                        <RotateCcw className="w-5 h-5" />
+                      </button>
+                      <button
+                        onClick={() => handlePurge([item.id])}
+                        disabled={disabled}
+                        className="p-2 text-red-600 hover:text-red-800 hover:bg-red-50 rounded disabled:opacity-50 disabled:cursor-not-allowed"
+                        title="Delete forever"
+                      >
+                        <Trash2 className="w-5 h-5" />
+                      </button>
+                    </div>
+                  </div>
+                )
+              })}
+            </div>
+          </>
+        )}
+      </div>
+    </SidebarLayout>
+  )
+}
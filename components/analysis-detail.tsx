@@ -1,69 +1,90 @@
 "use client"
 
-import { useState, useEffect } from "react"
-import { ArrowLeft, Download, Share2, Trash2, RefreshCw, AlertCircle } from 'lucide-react'
-import { VideoPlayer } from "./video-player"
+import type React from "react"
+import { useState, useEffect, useMemo, useRef } from "react"
+import { ArrowLeft, Download, Printer, Share2, Trash2, RefreshCw, AlertCircle, Users, Video } from 'lucide-react'
+import { VideoAnnotations } from "./video-annotations"
+import { VideoChapters } from "./video-chapters"
 import { ShareAnalysisDialog } from "./share-analysis-dialog"
+import { ManageShares } from "./manage-shares"
+import { PrintableReport } from "./printable-report"
+import { ScoreBreakdown } from "./score-breakdown"
 import { useAuth } from "@/contexts/auth-context"
-import { API_BASE } from "@/lib/constants"
-
-interface Analysis {
-  id: string
-  timestamp: string
-  dance_type: string
-  dancers: string
-  analysis_type: string
-  processed: boolean
-  status?: string
-  text?: string
-  video_url?: string
-  user_id?: string
-  total_score?: string
-}
+import { useConnectivity } from "@/contexts/connectivity-context"
+import { useConfirm } from "@/contexts/confirm-context"
+import { useApi } from "@/hooks/use-api"
+import { useIsClient } from "@/hooks/use-is-client"
+import { ApiError, errorMessage, type ShareLinkAccess } from "@/lib/api"
+import type { Analysis, Branding, SharePermission } from "@/lib/models"
+import { formatScore } from "@/lib/scores"
+import { renderReportHtml } from "@/lib/report-html"
+import { notify } from "@/lib/notify"
 
 interface AnalysisDetailProps {
   analysis: Analysis
-  onBack: () => void
+  // Without it there is no back button, e.g. for visitors of a public link
+  onBack?: () => void
   onDelete?: (id: string) => void
   isSharedView?: boolean
   shareId?: string
+  // Set when opened through a public link; implies a shared view
+  linkAccess?: ShareLinkAccess
+  // Shared views: what the owner lets the recipient do beyond viewing
+  permissions?: SharePermission[]
+  // Shared views: whether the owner lets the recipient print the report, and with which branding
+  allowExport?: boolean
+  ownerBranding?: Branding
 }
 
-export function AnalysisDetail({ analysis, onBack, onDelete, isSharedView = false, shareId }: AnalysisDetailProps) {
+export function AnalysisDetail({
+  analysis,
+  onBack,
+  onDelete,
+  isSharedView = false,
+  shareId,
+  linkAccess,
+  permissions = [],
+  allowExport = false,
+  ownerBranding,
+}: AnalysisDetailProps) {
   const [showShareDialog, setShowShareDialog] = useState(false)
+  const [showManageShares, setShowManageShares] = useState(false)
+  // Bumped after sharing so the Manage shares panel reloads
+  const [sharesVersion, setSharesVersion] = useState(0)
+  const [showPrintable, setShowPrintable] = useState(false)
   const [loading, setLoading] = useState(false)
   const [error, setError] = useState<string | null>(null)
   const [formattedAnalysis, setFormattedAnalysis] = useState<string | null>(null)
-  const { currentUser, getIdToken } = useAuth()
-
-  useEffect(() => {
-    if (analysis && analysis.id) {
-      fetchFormattedAnalysis()
-    }
-  }, [analysis])
+  const { currentUser } = useAuth()
+  const { isOffline } = useConnectivity()
+  const confirm = useConfirm()
+  const api = useApi()
+  const videoRef = useRef<HTMLVideoElement>(null)
+  const videoSectionRef = useRef<HTMLDivElement>(null)
+  const isClient = useIsClient()
 
-  const fetchFormattedAnalysis = async () => {
-    try {
-      const token = await getIdToken()
+  // The formatted report needs a signed-in viewer; public links show the plain text
+  const viaPublicLink = Boolean(linkAccess)
 
-      const response = await fetch(`${API_BASE}/analyses/${analysis.id}/formatted`, {
-        headers: {
-          Authorization: `Bearer ${token}`,
-          "Content-Type": "application/json",
-        },
-      })
+  useEffect(() => {
+    if (!analysis.id || viaPublicLink) return
+    let cancelled = false
 
-      if (!response.ok) {
-        throw new Error(`Failed to fetch formatted analysis: ${response.statusText}`)
+    const fetchFormattedAnalysis = async () => {
+      try {
+        const data = await api.analyses.formatted(analysis.id)
+        if (!cancelled) setFormattedAnalysis(data.html || analysis.text || "")
+      } catch (err) {
+        console.error("Error fetching formatted analysis:", err)
+        if (!cancelled) setFormattedAnalysis(analysis.text || "")
       }
+    }
 
-      const data = await response.json()
-      setFormattedAnalysis(data.html || analysis.text || "")
-    } catch (err) {
-      console.error("Error fetching formatted analysis:", err)
-      setFormattedAnalysis(analysis.text || "")
+    fetchFormattedAnalysis()
+    return () => {
+      cancelled = true
     }
-  }
+  }, [api, analysis.id, analysis.processed, analysis.text, viaPublicLink])
 
   const formatDate = (timestamp: string) => {
     if (!timestamp) return "Unknown"
@@ -75,7 +96,7 @@ export function AnalysisDetail({ analysis, onBack, onDelete, isSharedView = fals
       const hour = timestamp.substring(8, 10)
       const minute = timestamp.substring(10, 12)
       return `${year}/${month}/${day} ${hour}:${minute}`
-    } catch (e) {
+    } catch {
       return timestamp
     }
   }
@@ -85,29 +106,16 @@ export function AnalysisDetail({ analysis, onBack, onDelete, isSharedView = fals
       setLoading(true)
       setError(null)
 
-      const token = await getIdToken()
-      if (!token) throw new Error("Authentication required")
-
-      // For shared analyses, we might not have permission to download via regular endpoint
-      // Try the regular endpoint first, and provide helpful error if it fails
-      const response = await fetch(`${API_BASE}/analyses/${analysis.id}/pdf`, {
-        headers: {
-          Authorization: `Bearer ${token}`,
-        },
-      })
-
-      if (!response.ok) {
-        const errorData = await response.json().catch(() => ({}))
-
-        // If this is a shared analysis and we get permission denied, show helpful message
-        if (isSharedView && (response.status === 403 || response.status === 404)) {
-          throw new Error("PDF download is not available for shared analyses. Please ask the owner to share the PDF with you.")
+      let blob: Blob
+      try {
+        blob = isSharedView && shareId ? await api.sharedAnalyses.pdf(shareId) : await api.analyses.pdf(analysis.id)
+      } catch (pdfError) {
+        // The owner may have taken the permission back since the page loaded
+        if (isSharedView && pdfError instanceof ApiError && pdfError.status === 403) {
+          throw new Error("The owner no longer allows downloads of this analysis.")
         }
-
-        throw new Error(errorData.error || `Failed to generate PDF: ${response.statusText}`)
+        throw pdfError
       }
-
-      const blob = await response.blob()
       const url = window.URL.createObjectURL(blob)
 
       const link = document.createElement("a")
@@ -120,81 +128,95 @@ export function AnalysisDetail({ analysis, onBack, onDelete, isSharedView = fals
 
       window.URL.revokeObjectURL(url)
       setLoading(false)
-    } catch (err: any) {
+    } catch (err) {
       console.error("Error downloading PDF:", err)
-      setError(`Failed to download PDF: ${err.message}`)
+      setError(`Failed to download PDF: ${errorMessage(err)}`)
       setLoading(false)
     }
   }
 
   const handleRerunAnalysis = async () => {
-    if (!window.confirm("Are you sure you want to rerun this analysis? This may take several minutes.")) {
-      return
-    }
+    const confirmed = await confirm({
+      title: "Rerun this analysis?",
+      description: "The video is analyzed again from scratch. This may take several minutes.",
+      confirmLabel: "Rerun",
+    })
+    if (!confirmed) return
 
     try {
       setLoading(true)
       setError(null)
 
-      const token = await getIdToken()
-
-      // Create an AbortController with 10 second timeout
-      const controller = new AbortController()
-      const timeoutId = setTimeout(() => controller.abort(), 10000)
-
       try {
-        const response = await fetch(`${API_BASE}/analyses/${analysis.id}/rerun`, {
-          method: "POST",
-          headers: {
-            Authorization: `Bearer ${token}`,
-            "Content-Type": "application/json",
-          },
-          signal: controller.signal,
-        })
-
-        clearTimeout(timeoutId)
-
-        if (!response.ok) {
-          const errorData = await response.json()
-          throw new Error(errorData.error || "Failed to rerun analysis")
+        if (isSharedView && shareId) {
+          await api.sharedAnalyses.rerun(shareId, { timeoutMs: 10000 })
+        } else {
+          await api.analyses.rerun(analysis.id, { timeoutMs: 10000 })
         }
 
-        alert("Analysis rerun started successfully! The analysis will be processed in the background and may take several minutes.")
+        notify.success("Analysis rerun started", "It is processed in the background and may take several minutes.")
 
         if (onBack) {
           onBack()
         }
-      } catch (fetchError: any) {
-        clearTimeout(timeoutId)
-
-        if (fetchError.name === 'AbortError') {
+      } catch (rerunError) {
+        if (rerunError instanceof ApiError && rerunError.isTimeout) {
           // Request timed out - this is actually OK for rerun since it should be async
-          console.log("Rerun request timed out, but the analysis may still be processing in the background")
-          alert("Analysis rerun has been initiated. It may take several minutes to complete. Please check the dashboard for updates.")
+          notify.info("Analysis rerun initiated", "It may take several minutes to complete. Check the dashboard for updates.")
 
           if (onBack) {
             onBack()
           }
         } else {
-          throw fetchError
+          throw rerunError
         }
       }
-    } catch (err: any) {
+    } catch (err) {
       console.error("Error rerunning analysis:", err)
 
-      if (err.message.includes('Failed to fetch') || err.message.includes('NetworkError')) {
-        setError(`Failed to rerun analysis: Server connection lost. The backend may have crashed. Please check server logs and restart the backend.`)
+      if (err instanceof ApiError && err.isNetworkError) {
+        notify.error("Failed to rerun analysis", "The server connection was lost. Please try again shortly.")
       } else {
-        setError(`Failed to rerun analysis: ${err.message}`)
+        notify.error("Failed to rerun analysis", errorMessage(err))
       }
     } finally {
       setLoading(false)
     }
   }
 
+  const seekVideo = (time: number) => {
+    if (!videoRef.current) return
+    videoRef.current.currentTime = time
+    videoSectionRef.current?.scrollIntoView({ behavior: "smooth", block: "start" })
+  }
+
+  // Timestamp links in the report carry their time in data-seek
+  const handleReportClick = (e: React.MouseEvent) => {
+    const link = (e.target as HTMLElement).closest("[data-seek]")
+    if (!link) return
+    e.preventDefault()
+    seekVideo(Number(link.getAttribute("data-seek")))
+  }
+
+  // Sanitizing needs the browser's DOM, so the report is only rendered on the client. Memoized because
+  // the video player re-renders this component several times a second while it plays.
+  const reportSource = formattedAnalysis || analysis.text || "No analysis content available."
+  const reportHtml = useMemo(() => (isClient ? renderReportHtml(reportSource) : ""), [isClient, reportSource])
+  // The printable report gets the copy without seek links
+  const linkedReportHtml = useMemo(
+    () => (isClient && analysis.video_url ? renderReportHtml(reportSource, { linkTimestamps: true }) : reportHtml),
+    [isClient, analysis.video_url, reportSource, reportHtml],
+  )
+
   const isOwner = currentUser && analysis.user_id === currentUser.uid
   const isProcessing = !analysis.processed
 
+  // Shares grant these per recipient; public links never do
+  const sharePermits = (permission: SharePermission) => !!shareId && !linkAccess && permissions.includes(permission)
+  const canDownload = isSharedView ? sharePermits("download") : true
+  const canComment = isSharedView ? sharePermits("comment") : true
+  const canRerun = isSharedView ? sharePermits("rerun") : isProcessing || isOwner
+
   return (
     <div className="h-full">
       {error && (
@@ -205,25 +227,40 @@ export function AnalysisDetail({ analysis, onBack, onDelete, isSharedView = fals
       )}
 
       <div className="flex justify-between items-center mb-6">
-        <button onClick={onBack} className="flex items-center text-blue-600 hover:text-blue-800 transition-colors">
-          <ArrowLeft className="w-5 h-5 mr-2" />
-          Back to Analyses
-        </button>
+        {onBack ? (
+          <button onClick={onBack} className="flex items-center text-blue-600 hover:text-blue-800 transition-colors">
+            <ArrowLeft className="w-5 h-5 mr-2" />
+            Back to Analyses
+          </button>
+        ) : (
+          <div />
+        )}
 
         <div className="flex gap-2">
           {isOwner && (
             <button
               onClick={() => setShowShareDialog(true)}
-              className="flex items-center px-3 py-1.5 text-sm border rounded-lg hover:bg-gray-50"
+              className="flex items-center px-3 py-1.5 text-sm border rounded-lg hover:bg-gray-50 disabled:opacity-50"
               title="Share with others"
-              disabled={loading}
+              disabled={loading || isOffline}
             >
               <Share2 className="w-4 h-4 mr-1" />
               Share
             </button>
           )}
 
-          {!isSharedView && (
+          {isOwner && !isSharedView && (
+            <button
+              onClick={() => setShowManageShares((current) => !current)}
+              className={`flex items-center px-3 py-1.5 text-sm border rounded-lg hover:bg-gray-50 ${showManageShares ? "bg-gray-100" : ""}`}
+              title="See and revoke who has access"
+            >
+              <Users className="w-4 h-4 mr-1" />
+              Manage shares
+            </button>
+          )}
+
+          {canDownload && (
             <button
               onClick={handleDownloadPDF}
               className="flex items-center px-3 py-1.5 text-sm border rounded-lg hover:bg-gray-50"
@@ -235,12 +272,38 @@ export function AnalysisDetail({ analysis, onBack, onDelete, isSharedView = fals
             </button>
           )}
 
-          {(isProcessing || isOwner) && (
+          {canDownload && analysis.video_url && (
+            <a
+              href={analysis.video_url}
+              download
+              target="_blank"
+              rel="noopener noreferrer"
+              className="flex items-center px-3 py-1.5 text-sm border rounded-lg hover:bg-gray-50"
+              title="Download video"
+            >
+              <Video className="w-4 h-4 mr-1" />
+              Download Video
+            </a>
+          )}
+
+          {!isProcessing && (!isSharedView || allowExport) && (
             <button
-              onClick={handleRerunAnalysis}
+              onClick={() => setShowPrintable(true)}
               className="flex items-center px-3 py-1.5 text-sm border rounded-lg hover:bg-gray-50"
-              title="Rerun Analysis"
+              title="Print or save the report as PDF"
               disabled={loading}
+            >
+              <Printer className="w-4 h-4 mr-1" />
+              Print Report
+            </button>
+          )}
+
+          {canRerun && (
+            <button
+              onClick={handleRerunAnalysis}
+              className="flex items-center px-3 py-1.5 text-sm border rounded-lg hover:bg-gray-50 disabled:opacity-50"
+              title="Rerun Analysis"
+              disabled={loading || isOffline}
             >
               <RefreshCw className="w-4 h-4 mr-1" />
               Rerun
@@ -250,9 +313,9 @@ export function AnalysisDetail({ analysis, onBack, onDelete, isSharedView = fals
           {isOwner && onDelete && (
             <button
               onClick={() => onDelete(analysis.id)}
-              className="flex items-center px-3 py-1.5 text-sm border border-red-200 text-red-600 rounded-lg hover:bg-red-50"
-              title="Delete analysis"
-              disabled={loading}
+              className="flex items-center px-3 py-1.5 text-sm border border-red-200 text-red-600 rounded-lg hover:bg-red-50 disabled:opacity-50"
+              title="Move to trash"
+              disabled={loading || isOffline}
             >
               <Trash2 className="w-4 h-4 mr-1" />
               Delete
@@ -261,6 +324,8 @@ export function AnalysisDetail({ analysis, onBack, onDelete, isSharedView = fals
         </div>
       </div>
 
+      {showManageShares && <ManageShares analysisId={analysis.id} refreshKey={sharesVersion} />}
+
       <div className="bg-white rounded-lg shadow-lg overflow-hidden">
         <div className="bg-blue-800 text-white p-6">
           <h1 className="text-2xl font-bold mb-2">Dance Analysis Report</h1>
@@ -294,21 +359,36 @@ export function AnalysisDetail({ analysis, onBack, onDelete, isSharedView = fals
               </p>
             </div>
 
-            {analysis.total_score && (
+            {analysis.scores.total !== undefined && (
               <div>
                 <p className="opacity-75 mb-1">Total Score:</p>
-                <p className="font-medium text-yellow-300 text-xl">{analysis.total_score}</p>
+                <p className="font-medium text-yellow-300 text-xl">
+                  {formatScore(analysis.scores.total, analysis.scores.maxTotal)}
+                </p>
               </div>
             )}
           </div>
         </div>
 
         {analysis.video_url && (
-          <div className="p-6 border-b">
+          <div ref={videoSectionRef} className="p-6 border-b">
             <h2 className="text-lg font-semibold mb-4 text-gray-700">Performance Video</h2>
-            <div className="aspect-video">
-              <VideoPlayer videoUrl={analysis.video_url} className="w-full h-full rounded-lg shadow" />
-            </div>
+            <VideoAnnotations
+              analysisId={analysis.id}
+              videoUrl={analysis.video_url}
+              shareId={shareId}
+              linkAccess={linkAccess}
+              readOnly={!canComment}
+              videoRef={videoRef}
+            />
+            <VideoChapters segments={analysis.segments} videoRef={videoRef} onSeek={seekVideo} />
+          </div>
+        )}
+
+        {!isProcessing && analysis.scores.criteria.length > 0 && (
+          <div className="p-6 border-b">
+            <h2 className="text-lg font-semibold mb-4 text-gray-700">Scores</h2>
+            <ScoreBreakdown scores={analysis.scores} />
           </div>
         )}
 
@@ -324,22 +404,37 @@ export function AnalysisDetail({ analysis, onBack, onDelete, isSharedView = fals
           ) : (
             <div
               className="prose max-w-none"
+              onClick={handleReportClick}
               dangerouslySetInnerHTML={{
-                __html: formattedAnalysis || analysis.text || "No analysis content available.",
+                __html: linkedReportHtml,
               }}
             />
           )}
         </div>
       </div>
 
+      {showPrintable && (
+        <PrintableReport
+          analysis={analysis}
+          reportHtml={reportHtml}
+          date={formatDate(analysis.timestamp)}
+          shareId={isSharedView ? shareId : undefined}
+          linkAccess={linkAccess}
+          ownerBranding={ownerBranding}
+          onClose={() => setShowPrintable(false)}
+        />
+      )}
+
       {showShareDialog && (
         <ShareAnalysisDialog
           analysisId={analysis.id}
           onClose={() => setShowShareDialog(false)}
           onSuccess={() => {
             setShowShareDialog(false)
-            alert("Analysis shared successfully!")
+            setSharesVersion((version) => version + 1)
+            notify.success("Analysis shared")
           }}
+          onLinkCreated={() => setSharesVersion((version) => version + 1)}
         />
       )}
     </div>
@@ -0,0 +1,80 @@
+"use client"
+
+import type React from "react"
+import { useRef, useState } from "react"
+import type { DrawingPoint, DrawingStroke } from "@/lib/models"
+
+export const DRAWING_COLORS = ["#ef4444", "#facc15", "#3b82f6", "#ffffff"]
+
+interface AnnotationDrawingProps {
+  strokes: DrawingStroke[]
+  // Without it the drawing is display-only and lets clicks through to the video
+  onStrokesChange?: (strokes: DrawingStroke[]) => void
+  color?: string
+}
+
+const toPoints = (points: DrawingPoint[]) => points.map(([x, y]) => `${x},${y}`).join(" ")
+
+export function AnnotationDrawing({ strokes, onStrokesChange, color = DRAWING_COLORS[0] }: AnnotationDrawingProps) {
+  const svgRef = useRef<SVGSVGElement>(null)
+  const [current, setCurrent] = useState<DrawingStroke | null>(null)
+
+  // Through the SVG's own transform, so drawing on a mirrored frame lands where the pointer is
+  const pointFor = (e: React.PointerEvent): DrawingPoint | null => {
+    const svg = svgRef.current
+    const matrix = svg?.getScreenCTM()
+    if (!svg || !matrix) return null
+    const point = new DOMPoint(e.clientX, e.clientY).matrixTransform(matrix.inverse())
+    const clamp = (value: number) => Math.round(Math.max(0, Math.min(1, value)) * 1000) / 1000
+    return [clamp(point.x), clamp(point.y)]
+  }
+
+  const handlePointerDown = (e: React.PointerEvent<SVGSVGElement>) => {
+    const point = pointFor(e)
+    if (!onStrokesChange || !point) return
+    e.stopPropagation()
+    e.currentTarget.setPointerCapture(e.pointerId)
+    setCurrent({ color, points: [point] })
+  }
+
+  const handlePointerMove = (e: React.PointerEvent) => {
+    const point = pointFor(e)
+    if (!current || !point) return
+    setCurrent({ ...current, points: [...current.points, point] })
+  }
+
+  const handlePointerUp = () => {
+    if (!current || !onStrokesChange) return
+    // A single click becomes a dot
+    const points = current.points.length === 1 ? [current.points[0], current.points[0]] : current.points
+    onStrokesChange([...strokes, { ...current, points }])
+    setCurrent(null)
+  }
+
+  return (
+    <svg
+      ref={svgRef}
+      viewBox="0 0 1 1"
+      preserveAspectRatio="none"
+      className={`w-full h-full ${onStrokesChange ? "cursor-crosshair touch-none" : "pointer-events-none"}`}
+      onPointerDown={handlePointerDown}
+      onPointerMove={handlePointerMove}
+      onPointerUp={handlePointerUp}
+      onPointerCancel={() => setCurrent(null)}
+      onClick={(e) => e.stopPropagation()}
+    >
+      {[...strokes, ...(current ? [current] : [])].map((stroke, index) => (
+        <polyline
+          key={index}
+          points={toPoints(stroke.points)}
+          fill="none"
+          stroke={stroke.color}
+          strokeWidth={4}
+          strokeLinecap="round"
+          strokeLinejoin="round"
+          vectorEffect="non-scaling-stroke"
+        />
+      ))}
+    </svg>
+  )
+}
@@ -0,0 +1,276 @@
+"use client"
+
+import { useState } from "react"
+import Link from "next/link"
+import { Upload, Loader2, RotateCcw, X, CheckCircle, AlertCircle } from "lucide-react"
+import { useCredits } from "@/contexts/credits-context"
+import { useUploadQueue, queueItemProblem, type QueueItem } from "@/hooks/use-upload-queue"
+import { getDanceTypesByAnalysisType, ANALYSIS_CREDIT_COST } from "@/lib/constants"
+import { ANALYSIS_TYPES, type AnalysisType } from "@/lib/models"
+import { formatBytes } from "@/lib/video-preprocess"
+import { emptyDancers } from "@/lib/dancers"
+import { DancersFields } from "@/components/dancers-fields"
+
+interface BatchUploadQueueProps {
+  defaultAnalysisType: AnalysisType
+  onItemUploaded: () => void
+}
+
+const ANALYSIS_TYPE_LABELS: Record<AnalysisType, string> = {
+  couple: "Couple",
+  solo: "Solo",
+  duo: "Duo",
+  formation: "Formation",
+}
+
+export function BatchUploadQueue({ defaultAnalysisType, onItemUploaded }: BatchUploadQueueProps) {
+  const { credits, pool } = useCredits()
+  const queue = useUploadQueue({ onItemUploaded, studioId: pool?.id })
+  const [defaultType, setDefaultType] = useState<AnalysisType>(defaultAnalysisType)
+  const [defaultDanceType, setDefaultDanceType] = useState("")
+  const [error, setError] = useState<string | null>(null)
+
+  // Follows the dashboard's analysis type; reset while rendering so the old one never shows
+  const [followedType, setFollowedType] = useState(defaultAnalysisType)
+  if (followedType !== defaultAnalysisType) {
+    setFollowedType(defaultAnalysisType)
+    setDefaultType(defaultAnalysisType)
+    setDefaultDanceType("")
+  }
+
+  const handleFiles = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(event.target.files || [])
+    event.target.value = ""
+    const rejected = queue.addFiles(files, { analysisType: defaultType, danceType: defaultDanceType })
+    setError(rejected.length > 0 ? `Skipped files larger than 2GB: ${rejected.join(", ")}` : null)
+  }
+
+  const changeItemType = (item: QueueItem, analysisType: AnalysisType) => {
+    // Dance types differ per analysis type, so the previous choice may not apply
+    const danceType = getDanceTypesByAnalysisType(analysisType).includes(item.danceType) ? item.danceType : ""
+    queue.editItem(item.id, { analysisType, danceType, dancers: emptyDancers(analysisType) })
+  }
+
+  const remaining = queue.items.filter((item) => item.status === "queued" || item.status === "failed")
+  const incomplete = remaining.filter((item) => queueItemProblem(item) !== null)
+  const cost = remaining.length * ANALYSIS_CREDIT_COST
+  const affordable = cost <= credits
+  const completedCount = queue.items.filter((item) => item.status === "completed").length
+
+  const statusLabel = (item: QueueItem) => {
+    switch (item.status) {
+      case "uploading":
+        return `${item.progress}%`
+      case "completing":
+        return "Starting analysis..."
+      case "completed":
+        return "Uploaded"
+      case "failed":
+        return item.error || "Failed"
+      default:
+        return queueItemProblem(item) || "Waiting"
+    }
+  }
+
+  return (
+    <div className="bg-white rounded-lg shadow p-4 md:p-6 mb-6 md:mb-8">
+      <h2 className="text-xl font-bold text-gray-800 mb-1">Batch Upload</h2>
+      <p className="text-sm text-gray-600 mb-4">
+        Queue several heats at once. New videos take the defaults below; each one can then be adjusted.
+      </p>
+
+      {error && <div className="bg-red-100 border border-red-400 text-red-700 px-4 py-2 rounded mb-4 text-sm">{error}</div>}
+
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+        <div>
+          <label className="block mb-2 text-sm font-medium text-gray-700">Default Analysis Type</label>
+          <select
+            value={defaultType}
+            onChange={(e) => {
+              setDefaultType(e.target.value as AnalysisType)
+              setDefaultDanceType("")
+            }}
+            className="w-full p-2 border rounded-lg bg-white"
+          >
+            {ANALYSIS_TYPES.map((type) => (
+              <option key={type} value={type}>
+                {ANALYSIS_TYPE_LABELS[type]}
+              </option>
+            ))}
+          </select>
+        </div>
+        <div>
+          <label className="block mb-2 text-sm font-medium text-gray-700">Default Dance Type</label>
+          <select
+            value={defaultDanceType}
+            onChange={(e) => setDefaultDanceType(e.target.value)}
+            className="w-full p-2 border rounded-lg bg-white"
+          >
+            <option value="">Select Dance Type</option>
+            {getDanceTypesByAnalysisType(defaultType).map((dance) => (
+              <option key={dance} value={dance}>
+                {dance}
+              </option>
+            ))}
+          </select>
+        </div>
+        <div className="flex items-end">
+          <button
+            onClick={() => queue.applyDefaults({ analysisType: defaultType, danceType: defaultDanceType })}
+            className="w-full px-4 py-2 border rounded-lg hover:bg-gray-50 disabled:opacity-50"
+            disabled={remaining.length === 0}
+          >
+            Apply to all waiting videos
+          </button>
+        </div>
+      </div>
+
+      <label className="mt-4 flex items-center justify-center w-full p-4 border-2 border-dashed rounded-lg cursor-pointer hover:border-blue-500">
+        <input type="file" className="hidden" accept="video/mp4,video/quicktime" multiple onChange={handleFiles} />
+        <div className="text-center">
+          <Upload className="w-6 h-6 mb-1 mx-auto text-gray-500" />
+          <span className="text-gray-600 text-sm">Click to add videos</span>
+          <p className="text-xs text-gray-500 mt-1">MP4 or MOV, max 2GB each</p>
+        </div>
+      </label>
+
+      {queue.items.length > 0 && (
+        <ul className="mt-4 divide-y border rounded-lg">
+          {queue.items.map((item) => {
+            const editable = item.status === "queued" || item.status === "failed"
+            return (
+              <li key={item.id} className="p-3">
+                <div className="flex items-center justify-between mb-2">
+                  <span className="text-sm font-medium text-gray-800 truncate">
+                    {item.file.name}
+                    <span className="ml-2 text-gray-500 font-normal">{formatBytes(item.file.size)}</span>
+                  </span>
+                  <div className="flex items-center gap-2 ml-4 shrink-0">
+                    <span
+                      className={`text-xs flex items-center gap-1 ${
+                        item.status === "failed"
+                          ? "text-red-600"
+                          : item.status === "completed"
+                            ? "text-green-600"
+                            : queueItemProblem(item) && item.status === "queued"
+                              ? "text-yellow-700"
+                              : "text-gray-600"
+                      }`}
+                    >
+                      {item.status === "completed" && <CheckCircle className="w-4 h-4" />}
+                      {item.status === "failed" && <AlertCircle className="w-4 h-4" />}
+                      {(item.status === "uploading" || item.status === "completing") && (
+                        <Loader2 className="w-4 h-4 animate-spin" />
+                      )}
+                      {statusLabel(item)}
+                    </span>
+                    {item.status === "failed" && (
+                      <button
+                        onClick={() => queue.retry(item.id)}
+                        className="p-1 hover:bg-gray-100 rounded"
+                        title="Retry"
+                        disabled={!!queueItemProblem(item)}
+                      >
+                        <RotateCcw className="w-4 h-4 text-blue-600" />
+                      </button>
+                    )}
+                    {item.status !== "completed" && item.status !== "completing" && (
+                      <button onClick={() => queue.removeItem(item.id)} className="p-1 hover:bg-gray-100 rounded" title="Remove">
+                        <X className="w-4 h-4 text-gray-500" />
+                      </button>
+                    )}
+                  </div>
+                </div>
+
+                {(item.status === "uploading" || item.status === "completing") && (
+                  <div className="w-full bg-gray-200 rounded-full h-1.5 mb-2">
+                    <div className="bg-blue-600 h-1.5 rounded-full" style={{ width: `${item.progress}%` }}></div>
+                  </div>
+                )}
+
+                {editable && (
+                  <div className="grid grid-cols-1 md:grid-cols-4 gap-2">
+                    <select
+                      value={item.analysisType}
+                      onChange={(e) => changeItemType(item, e.target.value as AnalysisType)}
+                      className="p-1.5 text-sm border rounded-lg bg-white"
+                    >
+                      {ANALYSIS_TYPES.map((type) => (
+                        <option key={type} value={type}>
+                          {ANALYSIS_TYPE_LABELS[type]}
+                        </option>
+                      ))}
+                    </select>
+                    <DancersFields
+                      analysisType={item.analysisType}
+                      value={item.dancers}
+                      onChange={(dancers) => queue.editItem(item.id, { dancers })}
+                      compact
+                    />
+                    {item.analysisType !== "couple" && <div className="hidden md:block" />}
+                    <select
+                      value={item.danceType}
+                      onChange={(e) => queue.editItem(item.id, { danceType: e.target.value })}
+                      className="p-1.5 text-sm border rounded-lg bg-white"
+                    >
+                      <option value="">Dance Type</option>
+                      {getDanceTypesByAnalysisType(item.analysisType).map((dance) => (
+                        <option key={dance} value={dance}>
+                          {dance}
+                        </option>
+                      ))}
+                    </select>
+                  </div>
+                )}
+              </li>
+            )
+          })}
+        </ul>
+      )}
+
+      {queue.items.length > 0 && (
+        <div className="mt-4 flex flex-col sm:flex-row items-center justify-between gap-3">
+          <div className="text-sm text-gray-700">
+            {remaining.length} video{remaining.length === 1 ? "" : "s"} to upload &middot; {cost} credits
+            <span className="text-gray-500"> (you have {credits})</span>
+            {!affordable && (
+              <span className="block text-red-600">
+                Not enough credits for the whole batch.{" "}
+                <Link href="/credits" className="underline">
+                  Purchase credits
+                </Link>{" "}
+                or remove some videos.
+              </span>
+            )}
+            {incomplete.length > 0 && (
+              <span className="block text-yellow-700">
+                {incomplete.length} video{incomplete.length === 1 ? " is" : "s are"} missing dancers or a dance type.
+              </span>
+            )}
+          </div>
+          <div className="flex gap-2">
+            {completedCount > 0 && (
+              <button onClick={queue.clearCompleted} className="px-4 py-2 border rounded-lg hover:bg-gray-50 text-sm">
+                Clear uploaded
+              </button>
+            )}
+            <button
+              onClick={queue.start}
+              className="px-6 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition flex items-center disabled:bg-gray-400"
+              disabled={queue.running || remaining.length === 0 || incomplete.length > 0 || !affordable}
+            >
+              {queue.running ? (
+                <>
+                  <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                  Uploading...
+                </>
+              ) : (
+                `Upload ${remaining.length} video${remaining.length === 1 ? "" : "s"}`
+              )}
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  )
+}
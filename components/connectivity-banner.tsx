@@ -0,0 +1,31 @@
+"use client"
+import { WifiOff, AlertTriangle, RefreshCw } from "lucide-react"
+import { useConnectivity } from "@/contexts/connectivity-context"
+
+export function ConnectivityBanner() {
+  const { status, checkNow } = useConnectivity()
+
+  if (status === "online") return null
+
+  const offline = status === "offline"
+
+  return (
+    <div
+      role="status"
+      className={`flex items-center px-4 lg:px-6 py-2 text-sm border-b ${
+        offline ? "bg-orange-100 border-orange-300 text-orange-800" : "bg-yellow-50 border-yellow-300 text-yellow-800"
+      }`}
+    >
+      {offline ? <WifiOff className="w-4 h-4 mr-2 flex-shrink-0" /> : <AlertTriangle className="w-4 h-4 mr-2 flex-shrink-0" />}
+      <span className="flex-1">
+        {offline
+          ? "Can't reach the server. You can keep browsing saved analyses; changes are paused until the connection is back."
+          : "The server is responding slowly. Some actions may take longer than usual."}
+      </span>
+      <button onClick={checkNow} className="ml-3 flex items-center font-medium hover:underline whitespace-nowrap">
+        <RefreshCw className="w-3.5 h-3.5 mr-1" />
+        Retry now
+      </button>
+    </div>
+  )
+}
@@ -4,7 +4,9 @@ import { useCredits } from "@/contexts/credits-context"
 import Link from "next/link"
 
 export function CreditStatus() {
-  const { credits, loading, error } = useCredits()
+  const { credits, pool, loading, error } = useCredits()
+  // Only the owner tops up a studio pool
+  const canBuy = !pool || pool.role === "owner"
 
   if (loading) {
     return (
@@ -29,7 +31,7 @@ export function CreditStatus() {
       <div className="flex items-center justify-between p-3 bg-blue-50 rounded-lg mb-2">
         <div className="flex items-center">
           <Coins className="w-5 h-5 text-blue-600 mr-2" />
-          <span className="font-medium">Credits</span>
+          <span className="font-medium">{pool ? "Studio credits" : "Credits"}</span>
         </div>
         <div className="text-lg font-bold text-blue-700">{credits}</div>
       </div>
@@ -41,12 +43,16 @@ export function CreditStatus() {
         </div>
       )}
 
-      <Link
-        href="/credits"
-        className="text-center px-3 py-1.5 bg-blue-600 text-white text-sm rounded hover:bg-blue-700 transition"
-      >
-        {credits < 1 ? "Buy Credits" : "Add More Credits"}
-      </Link>
+      {canBuy ? (
+        <Link
+          href="/credits"
+          className="text-center px-3 py-1.5 bg-blue-600 text-white text-sm rounded hover:bg-blue-700 transition"
+        >
+          {credits < 1 ? "Buy Credits" : "Add More Credits"}
+        </Link>
+      ) : (
+        <p className="text-xs text-gray-500">Paid from {pool.name}&apos;s shared pool</p>
+      )}
     </div>
   )
 }
@@ -0,0 +1,154 @@
+"use client"
+
+import { useRoster } from "@/contexts/roster-context"
+import { RosterAutocomplete, type RosterOption } from "@/components/roster-autocomplete"
+import { teamDancers } from "@/lib/dancers"
+import type { AnalysisDancers, AnalysisType, DancerRef, DancerRole } from "@/lib/models"
+
+interface DancersFieldsProps {
+  analysisType: AnalysisType
+  value: AnalysisDancers
+  onChange: (value: AnalysisDancers) => void
+  disabled?: boolean
+  // Inline inputs without labels, for the batch queue rows
+  compact?: boolean
+}
+
+const memberNames = (members: DancerRef[]) => members.map((member) => member.name).join(", ")
+
+export function DancersFields({ analysisType, value, onChange, disabled = false, compact = false }: DancersFieldsProps) {
+  const { dancers, teams } = useRoster()
+
+  const dancerOptions: RosterOption[] = dancers.map((dancer) => ({ id: dancer.id, name: dancer.name, hint: dancer.notes }))
+  const teamsOfType = teams.filter((team) => team.type === analysisType)
+  const teamOptions: RosterOption[] = teamsOfType.map((team) => ({
+    id: team.id,
+    name: team.name,
+    hint: memberNames(team.members),
+  }))
+
+  const inputClass = compact ? "p-1.5 text-sm" : ""
+
+  const field = (label: string, input: React.ReactNode) =>
+    compact ? (
+      <div>{input}</div>
+    ) : (
+      <div>
+        <label className="block mb-2 text-sm font-medium text-gray-700">{label} *</label>
+        {input}
+      </div>
+    )
+
+  if (analysisType === "couple") {
+    const memberAt = (role: DancerRole, index: number) =>
+      value.members.find((member) => member.role === role) ?? value.members[index] ?? { name: "", role }
+
+    const man = memberAt("man", 0)
+    const lady = memberAt("lady", 1)
+
+    const setMember = (role: DancerRole, name: string, option?: RosterOption) => {
+      const next = { name, role, id: option?.id }
+      onChange({
+        members: role === "man" ? [next, { ...lady, role: "lady" }] : [{ ...man, role: "man" }, next],
+      })
+    }
+
+    const savedCouple = teamsOfType.find((team) => team.id === value.team_id)
+
+    return (
+      <div className={compact ? "contents" : "mt-4"}>
+        {teamsOfType.length > 0 && !compact && (
+          <div className="mb-4">
+            <label className="block mb-2 text-sm font-medium text-gray-700">Saved Couple</label>
+            <select
+              value={savedCouple?.id ?? ""}
+              onChange={(e) => {
+                const team = teamsOfType.find((candidate) => candidate.id === e.target.value)
+                onChange(team ? teamDancers(team) : { members: [man, lady] })
+              }}
+              className="w-full p-2 border rounded-lg bg-white"
+              disabled={disabled}
+            >
+              <option value="">Choose a couple or enter the dancers below</option>
+              {teamsOfType.map((team) => (
+                <option key={team.id} value={team.id}>
+                  {team.name} ({memberNames(team.members)})
+                </option>
+              ))}
+            </select>
+          </div>
+        )}
+        <div className={compact ? "contents" : "grid grid-cols-1 md:grid-cols-2 gap-4"}>
+          {field(
+            "Male Dancer Name",
+            <RosterAutocomplete
+              value={man.name}
+              selectedId={man.id}
+              options={dancerOptions}
+              onChange={(name, option) => setMember("man", name, option)}
+              placeholder={compact ? "Male dancer" : "Enter male dancer's name"}
+              disabled={disabled}
+              className={inputClass}
+            />,
+          )}
+          {field(
+            "Female Dancer Name",
+            <RosterAutocomplete
+              value={lady.name}
+              selectedId={lady.id}
+              options={dancerOptions}
+              onChange={(name, option) => setMember("lady", name, option)}
+              placeholder={compact ? "Female dancer" : "Enter female dancer's name"}
+              disabled={disabled}
+              className={inputClass}
+            />,
+          )}
+        </div>
+      </div>
+    )
+  }
+
+  if (analysisType === "solo") {
+    const dancer = value.members[0] ?? { name: "" }
+    return (
+      <div className={compact ? "contents" : "mt-4"}>
+        {field(
+          "Dancer Name",
+          <RosterAutocomplete
+            value={dancer.name}
+            selectedId={dancer.id}
+            options={dancerOptions}
+            onChange={(name, option) => onChange({ members: [{ name, id: option?.id }] })}
+            placeholder={compact ? "Dancer name" : "Enter dancer's name"}
+            disabled={disabled}
+            className={inputClass}
+          />,
+        )}
+      </div>
+    )
+  }
+
+  const label = analysisType === "formation" ? "Formation Name" : "Duo Name"
+  return (
+    <div className={compact ? "contents" : "mt-4"}>
+      {field(
+        label,
+        <RosterAutocomplete
+          value={value.team_name ?? ""}
+          selectedId={value.team_id}
+          options={teamOptions}
+          onChange={(name, option) => {
+            const team = option && teamsOfType.find((candidate) => candidate.id === option.id)
+            onChange(team ? teamDancers(team) : { team_name: name, members: [] })
+          }}
+          placeholder={compact ? label : `Enter ${label.toLowerCase()}`}
+          disabled={disabled}
+          className={inputClass}
+        />,
+      )}
+      {!compact && value.members.length > 0 && (
+        <p className="text-xs text-gray-500 mt-1">Members: {memberNames(value.members)}</p>
+      )}
+    </div>
+  )
+}
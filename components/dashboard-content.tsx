@@ -1,281 +1,361 @@
 "use client"
 
-import { useState, useEffect } from "react"
-import { Search, Upload, ChevronDown, ChevronUp, Trash2, Loader2, RefreshCw, LinkIcon } from 'lucide-react'
+import { useState, useEffect, useRef, useCallback } from "react"
+import { Search, Upload, ChevronDown, ChevronUp, Trash2, Loader2, RefreshCw, LinkIcon, Pause, Play, X, Columns2 } from 'lucide-react'
 import { useAuth } from "@/contexts/auth-context"
 import { useCredits } from "@/contexts/credits-context"
-import { API_BASE, getDanceTypesByAnalysisType, ADMIN_UIDS } from "@/lib/constants"
+import { useOfflineQueue } from "@/contexts/offline-queue-context"
+import { useConnectivity } from "@/contexts/connectivity-context"
+import { useConfirm } from "@/contexts/confirm-context"
+import {
+  getDanceTypesByAnalysisType,
+  MAX_UPLOAD_BYTES,
+  ANALYSIS_CREDIT_COST,
+  MAX_COMPARE,
+  MIN_COMPARE,
+} from "@/lib/constants"
+import { ApiError, errorMessage } from "@/lib/api"
+import type { Analysis, AnalysisDancers, AnalysisType } from "@/lib/models"
+import { formatScore } from "@/lib/scores"
+import { downloadExport } from "@/lib/export"
+import { notify, undoable } from "@/lib/notify"
+import {
+  cleanDancers,
+  collectDancers,
+  dancerKey,
+  dancersProblem,
+  emptyDancers,
+  formatDancers,
+  includesDancer,
+} from "@/lib/dancers"
+import { useApi } from "@/hooks/use-api"
+import { useRole } from "@/hooks/use-role"
+import { useAnalysisStatus } from "@/hooks/use-analysis-status"
+import { applyStatusEvent, type AnalysisStatusEvent } from "@/lib/analysis-status"
+import {
+  createChunkedUpload,
+  fileFingerprint,
+  forgetPendingUpload,
+  listPendingUploads,
+  type ChunkedUpload,
+  type ChunkedUploadStatus,
+  type PendingUpload,
+  type UploadMetadata,
+} from "@/lib/chunked-upload"
 import { AnalysisDetail } from "@/components/analysis-detail"
+import { VideoPreprocessor } from "@/components/video-preprocessor"
+import { BatchUploadQueue } from "@/components/batch-upload-queue"
+import { DancersFields } from "@/components/dancers-fields"
+import { ExportMenu } from "@/components/export-menu"
 import Link from "next/link"
 
-interface Analysis {
-  id: string
-  timestamp: string
-  dance_type: string
-  dancers: string
-  analysis_type: string
-  processed: boolean
-  status?: string
-  text?: string
-  video_url?: string
-  user_id?: string
-  total_score?: string
-  scores?: any
-}
-
 export function DashboardContent() {
   const { currentUser, getIdToken } = useAuth()
-  const { credits, fetchUserCredits } = useCredits()
+  const { fetchUserCredits, pool } = useCredits()
+  const offlineQueue = useOfflineQueue()
+  const confirm = useConfirm()
+  const connectivity = useConnectivity()
+  const api = useApi()
+  const { isAdmin } = useRole()
 
-  const [isAdmin, setIsAdmin] = useState(false)
   const [analyses, setAnalyses] = useState<Analysis[]>([])
   const [searchTerm, setSearchTerm] = useState("")
+  const [dancerFilter, setDancerFilter] = useState("")
   const [sortOrder, setSortOrder] = useState<"desc" | "asc">("desc")
   const [loading, setLoading] = useState(false)
   const [uploadProgress, setUploadProgress] = useState(0)
   const [error, setError] = useState<string | null>(null)
-  const [selectedAnalysis, setSelectedAnalysis] = useState<Analysis | null>(null)
+  const [selectedAnalysisId, setSelectedAnalysisId] = useState<string | null>(null)
+  // Analyses ticked for the side-by-side comparison
+  const [compareIds, setCompareIds] = useState<string[]>([])
   const [insufficientCredits, setInsufficientCredits] = useState(false)
+  const [queuedNotice, setQueuedNotice] = useState<string | null>(null)
+  // Deleted in the UI but still on the server until their undo window passes
+  const pendingDeletesRef = useRef(new Set<string>())
 
-  const [maleDancerName, setMaleDancerName] = useState("")
-  const [femaleDancerName, setFemaleDancerName] = useState("")
+  const [dancers, setDancers] = useState<AnalysisDancers>(emptyDancers("couple"))
   const [selectedDanceType, setSelectedDanceType] = useState("")
   const [selectedFile, setSelectedFile] = useState<File | null>(null)
+  // Trimmed/downscaled copy of selectedFile; uploaded instead of it when set
+  const [processedFile, setProcessedFile] = useState<File | null>(null)
+
+  const [uploadStatus, setUploadStatus] = useState<ChunkedUploadStatus>("idle")
+  const [pendingUploads, setPendingUploads] = useState<PendingUpload[]>([])
+  const uploadRef = useRef<ChunkedUpload | null>(null)
+  // What the running upload sends, so a dropped connection can queue it for later
+  const uploadSourceRef = useRef<{ file: File; metadata: UploadMetadata } | null>(null)
 
   const [youtubeLink, setYoutubeLink] = useState("")
   const [uploadMethod, setUploadMethod] = useState<"file" | "youtube">("file")
 
-  const [analysisType, setAnalysisType] = useState("couple")
-  const [serverConnected, setServerConnected] = useState(true)
-  const [consecutiveFailures, setConsecutiveFailures] = useState(0)
+  const [analysisType, setAnalysisType] = useState<AnalysisType>("couple")
 
-  useEffect(() => {
+  // Dance types and dancers differ per analysis type, so the form starts over
+  const changeAnalysisType = (type: AnalysisType) => {
+    setAnalysisType(type)
     setSelectedDanceType("")
-  }, [analysisType])
-
-  useEffect(() => {
-    fetchAnalyses()
-    ensureUserDocument()
-    const interval = setInterval(fetchAnalyses, 3000)
-    return () => clearInterval(interval)
-  }, [analysisType])
-
-  useEffect(() => {
-    const checkAdmin = () => {
-      if (currentUser) {
-        setIsAdmin(ADMIN_UIDS.includes(currentUser.uid))
-      } else {
-        setIsAdmin(false)
-      }
-    }
-
-    checkAdmin()
-  }, [currentUser])
-
-  const ensureUserDocument = async () => {
-    if (!currentUser) return
+    setDancers(emptyDancers(type))
+    setDancerFilter("")
+  }
 
-    try {
-      const token = await getIdToken()
-      if (!token) return
-
-      const response = await fetch(`${API_BASE}/auth/verify-token`, {
-        method: "POST",
-        headers: {
-          "Content-Type": "application/json",
-        },
-        body: JSON.stringify({
-          idToken: token,
-        }),
-      })
+  // Derived from the list so the detail view picks up status changes as they arrive
+  const selectedAnalysis = analyses.find((analysis) => analysis.id === selectedAnalysisId) || null
+  const uploadInProgress = uploadStatus === "uploading" || uploadStatus === "paused" || uploadStatus === "completing"
 
-      if (!response.ok) {
-        console.error("Failed to verify token and ensure user document")
-      }
-    } catch (error) {
-      console.error("Error ensuring user document:", error)
-    }
-  }
 
   const handleRerunAnalysis = async (analysisId: string) => {
-    console.log(`[RERUN] Starting rerun for analysis ID: ${analysisId}`)
+    const confirmed = await confirm({
+      title: "Rerun this analysis?",
+      description: "The video is analyzed again from scratch. This may take several minutes.",
+      confirmLabel: "Rerun",
+    })
+    if (!confirmed) return
 
     try {
       setLoading(true)
-      setError(null)
-
-      const token = await getIdToken()
-      console.log(`[RERUN] Got auth token: ${token ? 'yes' : 'no'}`)
-
-      if (!token) {
-        throw new Error("Authentication required")
-      }
-
-      // Create an AbortController with 10 second timeout
-      const controller = new AbortController()
-      const timeoutId = setTimeout(() => controller.abort(), 10000)
-
-      console.log(`[RERUN] Sending POST request to: ${API_BASE}/analyses/${analysisId}/rerun`)
 
       try {
-        const response = await fetch(`${API_BASE}/analyses/${analysisId}/rerun`, {
-          method: "POST",
-          headers: {
-            Authorization: `Bearer ${token}`,
-            "Content-Type": "application/json",
-          },
-          signal: controller.signal,
-        })
-
-        clearTimeout(timeoutId)
-        console.log(`[RERUN] Response status: ${response.status}`)
-
-        const data = await response.json()
-        console.log(`[RERUN] Response data:`, data)
-
-        if (!response.ok) {
-          throw new Error(data.error || "Failed to rerun analysis")
-        }
+        // 10 second timeout: the backend processes reruns in the background
+        await api.analyses.rerun(analysisId, { timeoutMs: 10000 })
 
         await fetchAnalyses()
 
-        alert("Analysis rerun started successfully! The analysis will be processed in the background and may take several minutes.")
-      } catch (fetchError: any) {
-        clearTimeout(timeoutId)
-
-        if (fetchError.name === 'AbortError') {
+        notify.success("Analysis rerun started", "It is processed in the background and may take several minutes.")
+      } catch (rerunError) {
+        if (rerunError instanceof ApiError && rerunError.isTimeout) {
           // Request timed out - this is actually OK for rerun since it should be async
-          console.log("[RERUN] Request timed out after 10 seconds (this may be normal if processing in background)")
           await fetchAnalyses()
-          alert("Analysis rerun has been initiated. It may take several minutes to complete. Please refresh if you don't see updates.")
+          notify.info("Analysis rerun initiated", "It may take several minutes to complete.")
         } else {
-          console.error("[RERUN] Fetch error:", fetchError)
-          throw fetchError
+          throw rerunError
         }
       }
-    } catch (error: any) {
+    } catch (error) {
       console.error("[RERUN] Error:", error)
 
-      if (error.message.includes('Failed to fetch') || error.message.includes('NetworkError')) {
-        setError(`Failed to rerun analysis: Server connection lost. The backend may have crashed. Please check server logs and restart the backend.`)
+      if (error instanceof ApiError && error.isNetworkError) {
+        notify.error("Failed to rerun analysis", "The server connection was lost. Please try again shortly.")
       } else {
-        setError(`Failed to rerun analysis: ${error.message}`)
+        notify.error("Failed to rerun analysis", errorMessage(error))
       }
     } finally {
       setLoading(false)
-      console.log("[RERUN] Finished rerun handler")
     }
   }
 
 
-  const fetchAnalyses = async () => {
-    try {
-      let headers: any = {
-        Accept: "application/json",
-        "Content-Type": "application/json",
-      }
+  const { reportError } = connectivity
+  const fetchAnalyses = useCallback(
+    () =>
+      api.analyses
+        .list({
+          analysis_type: analysisType,
+          user_id: currentUser?.uid,
+        })
+        .then((data) => {
+          const filteredData = data.filter(
+            (analysis: Analysis) =>
+              (analysis.analysis_type === analysisType || (analysisType === "couple" && !analysis.analysis_type)) &&
+              !pendingDeletesRef.current.has(analysis.id)
+          )
+
+          setAnalyses(filteredData)
+          setError(null)
+        })
+        .catch((error) => {
+          console.error("Fetch error:", error)
+          reportError(error)
+
+          // Connection trouble is reported by the banner in SidebarLayout
+          if (error instanceof ApiError && (error.isNetworkError || error.isTimeout)) return
+          setError(errorMessage(error) || "Failed to load analyses")
+        }),
+    [api, analysisType, currentUser, reportError],
+  )
+
+  useEffect(() => {
+    fetchAnalyses()
+  }, [fetchAnalyses])
 
-      if (currentUser) {
+  useEffect(() => {
+    if (!currentUser) return
+
+    const ensureUserDocument = async () => {
+      try {
         const token = await getIdToken()
-        if (token) {
-          headers["Authorization"] = `Bearer ${token}`
-          console.log("Using auth token:", token.substring(0, 20) + "...")
-        } else {
-          console.warn("No auth token available")
-        }
+        if (!token) return
+
+        await api.auth.verifyToken({ idToken: token })
+      } catch (error) {
+        console.error("Error ensuring user document:", error)
       }
+    }
 
-      let url = `${API_BASE}/analyses?analysis_type=${analysisType}`
+    ensureUserDocument()
+  }, [api, currentUser, getIdToken])
 
-      if (currentUser) {
-        url += `&user_id=${currentUser.uid}`
-      }
+  // Submissions queued offline show up once the queue has sent them
+  const sentCountRef = useRef(offlineQueue.sentCount)
+  useEffect(() => {
+    if (offlineQueue.sentCount > sentCountRef.current) fetchAnalyses()
+    sentCountRef.current = offlineQueue.sentCount
+  }, [offlineQueue.sentCount, fetchAnalyses])
 
-      console.log("Fetching analyses from:", url)
-      console.log("Request headers:", headers)
+  const handleStatusEvent = (event: AnalysisStatusEvent) => {
+    const known = analyses.some((analysis) => analysis.id === event.id)
+    setAnalyses((prev) => prev.map((analysis) => applyStatusEvent(analysis, event)))
 
-      const response = await fetch(url, {
-        headers: headers,
-        mode: "cors",
-      })
+    // Finished jobs carry text and scores we don't have yet; unknown ids were started elsewhere
+    if (!known || event.status !== "processing") {
+      fetchAnalyses()
+    }
+  }
 
-      console.log("Response status:", response.status)
-      console.log("Response headers:", Object.fromEntries(response.headers.entries()))
+  // No polling against a backend that isn't there; catch up once it is back
+  useAnalysisStatus({
+    analyses,
+    onStatusEvent: handleStatusEvent,
+    refresh: () => fetchAnalyses(),
+    enabled: !connectivity.isOffline,
+  })
 
-      if (!response.ok) throw new Error(`HTTP error! status: ${response.status}`)
-      const data = await response.json()
+  const wasOfflineRef = useRef(false)
+  useEffect(() => {
+    if (wasOfflineRef.current && !connectivity.isOffline) fetchAnalyses()
+    wasOfflineRef.current = connectivity.isOffline
+  }, [connectivity.isOffline, fetchAnalyses])
 
-      const filteredData = data.filter(
-        (analysis: Analysis) => analysis.analysis_type === analysisType || (analysisType === "couple" && !analysis.analysis_type)
-      )
+  const handleFileUpload = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0]
+    if (file && file.size > MAX_UPLOAD_BYTES) {
+      setError("File size must be less than 2GB")
+      setSelectedFile(null)
+      event.target.value = ""
+      return
+    }
 
-      setAnalyses(filteredData)
-      setError(null)
-      setServerConnected(true)
-      setConsecutiveFailures(0)
-    } catch (error: any) {
-      console.error("Fetch error:", error)
+    setError(null)
+    setSelectedFile(file || null)
+    setProcessedFile(null)
+  }
 
-      setConsecutiveFailures(prev => prev + 1)
+  // Resume records are kept per user
+  const listPendingUploadsForUser = () => (currentUser ? listPendingUploads(currentUser.uid) : [])
 
-      // Mark server as disconnected after 3 consecutive failures
-      if (consecutiveFailures >= 2) {
-        setServerConnected(false)
-      }
+  // Read again while rendering whenever the user changes; auth only loads in the browser
+  const [pendingUploadsUid, setPendingUploadsUid] = useState<string | undefined>(undefined)
+  if (currentUser?.uid !== pendingUploadsUid) {
+    setPendingUploadsUid(currentUser?.uid)
+    setPendingUploads(listPendingUploadsForUser())
+  }
 
-      let errorMessage = "Failed to load analyses"
-
-      if (error.name === 'AbortError') {
-        errorMessage = "Request timed out after 30 seconds. The server might be slow - please try again."
-      } else if (error.name === 'TypeError' && error.message.includes('Failed to fetch')) {
-        errorMessage = "Backend server is currently unavailable. Please check if the server is running or try again later."
-      } else if (error.message.includes('Failed to fetch')) {
-        errorMessage = "Unable to connect to the backend server. Please check your connection or try again later."
-      } else if (error.message.includes('CORS')) {
-        errorMessage = "Server access issue. Please try refreshing the page."
-      } else if (error.message.includes('NetworkError')) {
-        errorMessage = "Network connection failed. Please check if the backend server is accessible."
-      } else if (error.message) {
-        errorMessage = `${error.message}`
-      }
+  // An unfinished upload of the selected file, left over from a previous page load
+  const resumableUpload =
+    uploadMethod === "file" && selectedFile
+      ? pendingUploads.find((pending) => pending.fingerprint === fileFingerprint(selectedFile))
+      : undefined
+
+  // Keeps the video for later instead of failing while there is no connection
+  const queueForLater = async (file: File, metadata: UploadMetadata, message: string) => {
+    await offlineQueue.enqueue(file, metadata)
+    uploadRef.current = null
+    resetForm()
+    setQueuedNotice(message)
+    setLoading(false)
+  }
+
+  const runUpload = async (upload: ChunkedUpload) => {
+    try {
+      const result = await upload.start()
+      if (!result) return // paused
 
-      // Only show error if server is disconnected
-      if (!serverConnected) {
-        setError(errorMessage)
+      uploadRef.current = null
+      setPendingUploads(listPendingUploadsForUser())
+      resetForm()
+      await fetchAnalyses()
+      setLoading(false)
+    } catch (error) {
+      uploadRef.current = null
+      setPendingUploads(listPendingUploadsForUser())
+      if (error instanceof ApiError && error.isInsufficientCredits) {
+        setInsufficientCredits(true)
+      } else if (error instanceof ApiError && error.isNetworkError && offlineQueue.supported && uploadSourceRef.current) {
+        const { file, metadata } = uploadSourceRef.current
+        try {
+          await queueForLater(
+            file,
+            metadata,
+            "The connection dropped. Your video was saved and will finish uploading when you're back online.",
+          )
+          return
+        } catch {
+          setError("Upload failed")
+        }
+      } else {
+        setError(error instanceof ApiError && error.status === 400 ? error.message : "Upload failed")
       }
+      setLoading(false)
     }
   }
 
-  const handleFileUpload = (event: React.ChangeEvent<HTMLInputElement>) => {
-    const file = event.target.files?.[0]
-    const maxSize = 100 * 1024 * 1024
+  const handlePauseUpload = () => {
+    uploadRef.current?.pause()
+  }
 
-    if (file && file.size > maxSize) {
-      setError("File size must be less than 100MB")
-      setSelectedFile(null)
-      event.target.value = ""
-      return
+  const handleResumeUpload = () => {
+    if (uploadRef.current) {
+      setError(null)
+      runUpload(uploadRef.current)
     }
+  }
 
-    setError(null)
-    setSelectedFile(file || null)
+  const handleCancelUpload = async () => {
+    if (uploadRef.current) {
+      await uploadRef.current.cancel()
+      uploadRef.current = null
+    }
+    setPendingUploads(listPendingUploadsForUser())
+    setUploadProgress(0)
+    setLoading(false)
+  }
+
+  const handleDiscardPendingUpload = (pending: PendingUpload) => {
+    if (currentUser) forgetPendingUpload(currentUser.uid, pending.fingerprint)
+    api.uploads.cancel(pending.uploadId).catch(() => {})
+    setPendingUploads(listPendingUploadsForUser())
+  }
+
+  const submittedDancers = () => {
+    const cleaned = cleanDancers(dancers)
+    return { dancers: cleaned, dancers_label: formatDancers(analysisType, cleaned) }
   }
 
   const submitAnalysis = async () => {
-    if (analysisType === "couple") {
-      if (!maleDancerName.trim()) {
-        setError("Please enter the male dancer's name")
-        return
-      }
-      if (!femaleDancerName.trim()) {
-        setError("Please enter the female dancer's name")
-        return
-      }
-    } else {
-      if (!maleDancerName.trim()) {
-        setError("Please enter the dancer's name")
-        return
-      }
+    if (!currentUser) return
+
+    if (resumableUpload && selectedFile) {
+      setLoading(true)
+      setError(null)
+      setInsufficientCredits(false)
+      // The server session already holds the dancers and dance type chosen before the reload
+      const upload = createChunkedUpload({
+        api,
+        userId: currentUser.uid,
+        file: selectedFile,
+        metadata: resumableUpload.metadata,
+        onProgress: setUploadProgress,
+        onStatusChange: setUploadStatus,
+      })
+      uploadRef.current = upload
+      uploadSourceRef.current = { file: selectedFile, metadata: resumableUpload.metadata }
+      await runUpload(upload)
+      return
+    }
+
+    const dancersError = dancersProblem(analysisType, dancers)
+    if (dancersError) {
+      setError(dancersError)
+      return
     }
 
     if (!selectedDanceType) {
@@ -287,14 +367,7 @@ export function DashboardContent() {
       setLoading(true)
       setUploadProgress(0)
       setInsufficientCredits(false)
-
-      let headers: any = {}
-      if (currentUser) {
-        const token = await getIdToken()
-        if (token) {
-          headers["Authorization"] = `Bearer ${token}`
-        }
-      }
+      setQueuedNotice(null)
 
       if (uploadMethod === "file") {
         if (!selectedFile) {
@@ -303,65 +376,38 @@ export function DashboardContent() {
           return
         }
 
-        const formData = new FormData()
-        formData.append("video", selectedFile)
-
-        if (analysisType === "couple") {
-          formData.append("dancers", `Man: ${maleDancerName}, Lady: ${femaleDancerName}`)
-        } else if (analysisType === "solo") {
-          formData.append("dancers", `Dancer: ${maleDancerName}`)
-        } else if (analysisType === "formation") {
-          formData.append("dancers", `Formation: ${maleDancerName}`)
-        } else {
-          formData.append("dancers", `Duo: ${maleDancerName}`)
-        }
-
-        formData.append("dance_type", selectedDanceType)
-        formData.append("analysis_type", analysisType)
-
-        const xhr = new XMLHttpRequest()
-
-        xhr.upload.onprogress = (event) => {
-          if (event.lengthComputable) {
-            const percentComplete = Math.round((event.loaded / event.total) * 100)
-            setUploadProgress(percentComplete)
-          }
+        const file = processedFile ?? selectedFile
+        const metadata = {
+          ...submittedDancers(),
+          dance_type: selectedDanceType,
+          analysis_type: analysisType,
+          studio_id: pool?.id,
         }
 
-        xhr.onload = async () => {
-          if (xhr.status === 200) {
-            resetForm()
-            await fetchAnalyses()
-          } else if (xhr.status === 400) {
-            try {
-              const response = JSON.parse(xhr.responseText)
-              if (response.error && response.error.includes("Insufficient credits")) {
-                setInsufficientCredits(true)
-              } else {
-                setError(response.error || "Upload failed")
-              }
-            } catch (e) {
-              setError("Upload failed")
-            }
-          } else {
-            setError("Upload failed")
-          }
-          setLoading(false)
+        if (connectivity.isOffline && offlineQueue.supported) {
+          await queueForLater(file, metadata, "You're offline. Your video was saved and will upload when you're back online.")
+          return
         }
 
-        xhr.onerror = () => {
-          setError("Upload failed")
+        const upload = createChunkedUpload({
+          api,
+          userId: currentUser.uid,
+          file,
+          metadata,
+          onProgress: setUploadProgress,
+          onStatusChange: setUploadStatus,
+        })
+        uploadRef.current = upload
+        uploadSourceRef.current = { file, metadata }
+        await runUpload(upload)
+        return
+      } else {
+        if (connectivity.isOffline) {
+          setError("You're offline. YouTube links can only be submitted with a connection.")
           setLoading(false)
+          return
         }
 
-        xhr.open("POST", `${API_BASE}/analyze`, true)
-
-        if (headers["Authorization"]) {
-          xhr.setRequestHeader("Authorization", headers["Authorization"])
-        }
-
-        xhr.send(formData)
-      } else {
         if (!youtubeLink.trim()) {
           setError("Please enter a YouTube URL")
           setLoading(false)
@@ -375,83 +421,58 @@ export function DashboardContent() {
           return
         }
 
-        const response = await fetch(`${API_BASE}/analyze-youtube`, {
-          method: "POST",
-          headers: {
-            "Content-Type": "application/json",
-            ...headers,
-          },
-          body: JSON.stringify({
-            youtube_url: youtubeLink,
-            dancers:
-              analysisType === "couple"
-                ? `Man: ${maleDancerName}, Lady: ${femaleDancerName}`
-                : `Dancer: ${maleDancerName}`,
-            dance_type: selectedDanceType,
-            analysis_type: analysisType,
-          }),
+        await api.analyze.youtube({
+          youtube_url: youtubeLink,
+          ...submittedDancers(),
+          dance_type: selectedDanceType,
+          analysis_type: analysisType,
+          studio_id: pool?.id,
         })
-
-        const data = await response.json()
-        if (!response.ok) {
-          if (data.error && data.error.includes("Insufficient credits")) {
-            setInsufficientCredits(true)
-          } else {
-            throw new Error(data.error || "YouTube download failed")
-          }
-        } else {
-          await fetchUserCredits()
-          resetForm()
-          await fetchAnalyses()
-        }
-        setLoading(false)
+        await fetchUserCredits()
+        resetForm()
+        await fetchAnalyses()
+      }
+      setLoading(false)
+    } catch (error) {
+      if (error instanceof ApiError && error.isInsufficientCredits) {
+        setInsufficientCredits(true)
+      } else if (uploadMethod === "file") {
+        setError(error instanceof ApiError && error.status === 400 ? error.message : "Upload failed")
+      } else {
+        setError(errorMessage(error) || "YouTube download failed")
       }
-    } catch (error: any) {
-      setError(error.message || "Upload failed")
       setLoading(false)
     }
   }
 
   const resetForm = () => {
-    setMaleDancerName("")
-    setFemaleDancerName("")
+    setDancers(emptyDancers(analysisType))
     setSelectedDanceType("")
     setSelectedFile(null)
+    setProcessedFile(null)
     setYoutubeLink("")
     setUploadProgress(0)
   }
 
-  const handleDelete = async (id: string) => {
-    if (!window.confirm("Delete this analysis?")) return
-
-    try {
-      let headers: any = {
-        Accept: "application/json",
-        "Content-Type": "application/json",
-      }
-
-      if (currentUser) {
-        const token = await getIdToken()
-        if (token) {
-          headers["Authorization"] = `Bearer ${token}`
-        }
-      }
-
-      const response = await fetch(`${API_BASE}/analyses/${id}`, {
-        method: "DELETE",
-        headers: headers,
-        mode: "cors",
-      })
-
-      if (!response.ok) {
-        const errorData = await response.json()
-        throw new Error(errorData.error || "Delete failed")
-      }
-
-      await fetchAnalyses()
-    } catch (error: any) {
-      setError("Delete failed: " + error.message)
-    }
+  // Hidden right away; the DELETE (a move to the trash) goes out once the undo window has passed
+  const handleDelete = (id: string) => {
+    const analysis = analyses.find((existing) => existing.id === id)
+    if (!analysis) return
+
+    pendingDeletesRef.current.add(id)
+    setAnalyses((current) => current.filter((existing) => existing.id !== id))
+    setCompareIds((ids) => ids.filter((existing) => existing !== id))
+    if (selectedAnalysisId === id) setSelectedAnalysisId(null)
+
+    undoable({
+      message: "Analysis moved to trash",
+      commit: ({ keepalive }) => api.analyses.remove(id, { keepalive }).finally(() => pendingDeletesRef.current.delete(id)),
+      revert: () => {
+        pendingDeletesRef.current.delete(id)
+        setAnalyses((current) => (current.some((existing) => existing.id === id) ? current : [...current, analysis]))
+      },
+      errorMessage: "Delete failed",
+    })
   }
 
   const formatDate = (timestamp: string) => {
@@ -470,7 +491,11 @@ export function DashboardContent() {
     return processed ? "bg-green-50 border-l-4 border-green-500" : ""
   }
 
+  const dancerOptions = collectDancers(analyses.map((analysis) => analysis.roster))
+  const filterDancer = dancerOptions.find((dancer) => dancerKey(dancer) === dancerFilter)
+
   const filteredAndSortedAnalyses = analyses
+    .filter((analysis) => !filterDancer || includesDancer(analysis.roster, filterDancer))
     .filter(
       (analysis) =>
         analysis.dance_type?.toLowerCase().includes(searchTerm.toLowerCase()) ||
@@ -480,29 +505,22 @@ export function DashboardContent() {
       return sortOrder === "desc" ? b.timestamp.localeCompare(a.timestamp) : a.timestamp.localeCompare(b.timestamp)
     })
 
+  const toggleCompare = (id: string) => {
+    setCompareIds((ids) =>
+      ids.includes(id) ? ids.filter((existing) => existing !== id) : ids.length < MAX_COMPARE ? [...ids, id] : ids,
+    )
+  }
+
   if (selectedAnalysis) {
     return (
       <AnalysisDetail
         analysis={selectedAnalysis}
-        onBack={() => setSelectedAnalysis(null)}
+        onBack={() => setSelectedAnalysisId(null)}
         onDelete={handleDelete}
       />
     )
   }
 
-  const extractScores = (text?: string) => {
-    if (!text) return null
-
-    const totalScoreRegex = /TOTAL\s+SCORE:?\s*(?:=\s*)?(\d+\.?\d*)/i
-    const totalMatch = text.match(totalScoreRegex)
-
-    if (totalMatch && totalMatch[1]) {
-      return <span className="font-medium text-green-600">Total Score: {parseFloat(totalMatch[1]).toFixed(1)}</span>
-    }
-
-    return null
-  }
-
   const getAnalysisStatus = (analysis: Analysis) => {
     if (analysis.processed) {
       return {
@@ -540,25 +558,21 @@ export function DashboardContent() {
 
   return (
     <div className="h-full">
-      {/* Server Connection Warning */}
-      {!serverConnected && (
-        <div className="bg-orange-100 border-l-4 border-orange-500 text-orange-700 px-4 py-3 rounded mb-6 flex items-center">
-          <svg className="w-5 h-5 mr-3 animate-pulse" fill="currentColor" viewBox="0 0 20 20">
-            <path fillRule="evenodd" d="M10 18a8 8 0 100-16 8 8 0 000 16zM8.707 7.293a1 1 0 00-1.414 1.414L8.586 10l-1.293 1.293a1 1 0 101.414 1.414L10 11.414l1.293 1.293a1 1 0 001.414-1.414L11.414 10l1.293-1.293a1 1 0 00-1.414-1.414L10 8.586 8.707 7.293z" clipRule="evenodd" />
-          </svg>
-          <div className="flex-1">
-            <p className="font-bold">Backend Server Disconnected</p>
-            <p className="text-sm">The backend server appears to be down or unreachable. Retrying automatically... Please check server logs.</p>
-          </div>
+      {error && <div className="bg-red-100 border border-red-400 text-red-700 px-4 py-3 rounded mb-6">{error}</div>}
+
+      {queuedNotice && (
+        <div className="bg-blue-50 border border-blue-300 text-blue-800 px-4 py-3 rounded mb-6 flex items-start justify-between">
+          <span>{queuedNotice}</span>
+          <button onClick={() => setQueuedNotice(null)} className="ml-2 text-blue-600 hover:text-blue-800">
+            <X className="w-4 h-4" />
+          </button>
         </div>
       )}
 
-      {error && <div className="bg-red-100 border border-red-400 text-red-700 px-4 py-3 rounded mb-6">{error}</div>}
-
       {insufficientCredits && (
         <div className="bg-yellow-100 border border-yellow-400 text-yellow-800 px-4 py-3 rounded mb-6">
           <div className="font-bold mb-1">Insufficient Credits</div>
-          <p>You don't have enough credits to perform this analysis. Please purchase more credits.</p>
+          <p>You don&apos;t have enough credits to perform this analysis. Please purchase more credits.</p>
           <div className="mt-2">
             <Link
               href="/credits"
@@ -570,12 +584,35 @@ export function DashboardContent() {
         </div>
       )}
 
+      {pendingUploads.length > 0 && !uploadInProgress && (
+        <div className="bg-blue-50 border border-blue-200 text-blue-800 px-4 py-3 rounded mb-6">
+          <div className="font-bold mb-1">Unfinished Uploads</div>
+          <p className="text-sm mb-2">Select the same video file again to continue where it stopped.</p>
+          <ul className="space-y-1">
+            {pendingUploads.map((pending) => (
+              <li key={pending.fingerprint} className="flex items-center justify-between text-sm">
+                <span className="truncate">
+                  {pending.fileName} &middot; {pending.metadata.dance_type} &middot;{" "}
+                  {Math.round((pending.offset / pending.size) * 100)}% uploaded
+                </span>
+                <button
+                  onClick={() => handleDiscardPendingUpload(pending)}
+                  className="ml-4 text-red-600 hover:text-red-800 whitespace-nowrap"
+                >
+                  Discard
+                </button>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
       <div className="bg-white rounded-lg shadow p-4 md:p-6 mb-6 md:mb-8">
         <div className="mb-6">
           <label className="block mb-2 text-sm font-medium text-gray-700">Select Analysis Type</label>
           <select
             value={analysisType}
-            onChange={(e) => setAnalysisType(e.target.value)}
+            onChange={(e) => changeAnalysisType(e.target.value as AnalysisType)}
             className="w-full p-2 border rounded-lg bg-white"
           >
             <option value="couple">Couple Analysis</option>
@@ -604,76 +641,10 @@ export function DashboardContent() {
                   ? "Analyze a formation dance focusing on Synchronization, Choreography, and Team Performance"
                   : "Analyze a duo performance focusing on Synchronization, Technique and Creativity"}
           </p>
-          <p className="text-sm text-blue-600 mt-1">Each analysis costs 5 credits.</p>
+          <p className="text-sm text-blue-600 mt-1">Each analysis costs {ANALYSIS_CREDIT_COST} credits.</p>
         </div>
 
-        {analysisType === "couple" ? (
-          <div className="grid grid-cols-1 md:grid-cols-2 gap-4 mt-4">
-            <div>
-              <label className="block mb-2 text-sm font-medium text-gray-700">Male Dancer Name *</label>
-              <input
-                type="text"
-                value={maleDancerName}
-                onChange={(e) => setMaleDancerName(e.target.value)}
-                className="w-full p-2 border rounded-lg"
-                placeholder="Enter male dancer's name"
-                required
-                disabled={loading}
-              />
-            </div>
-            <div>
-              <label className="block mb-2 text-sm font-medium text-gray-700">Female Dancer Name *</label>
-              <input
-                type="text"
-                value={femaleDancerName}
-                onChange={(e) => setFemaleDancerName(e.target.value)}
-                className="w-full p-2 border rounded-lg"
-                placeholder="Enter female dancer's name"
-                required
-                disabled={loading}
-              />
-            </div>
-          </div>
-        ) : analysisType === "solo" ? (
-          <div className="mt-4">
-            <label className="block mb-2 text-sm font-medium text-gray-700">Dancer Name *</label>
-            <input
-              type="text"
-              value={maleDancerName}
-              onChange={(e) => setMaleDancerName(e.target.value)}
-              className="w-full p-2 border rounded-lg"
-              placeholder="Enter dancer's name"
-              required
-              disabled={loading}
-            />
-          </div>
-        ) : analysisType === "formation" ? (
-          <div className="mt-4">
-            <label className="block mb-2 text-sm font-medium text-gray-700">Formation Name *</label>
-            <input
-              type="text"
-              value={maleDancerName}
-              onChange={(e) => setMaleDancerName(e.target.value)}
-              className="w-full p-2 border rounded-lg"
-              placeholder="Enter formation name"
-              required
-              disabled={loading}
-            />
-          </div>
-        ) : (
-          <div className="mt-4">
-            <label className="block mb-2 text-sm font-medium text-gray-700">Duo Name *</label>
-            <input
-              type="text"
-              value={maleDancerName}
-              onChange={(e) => setMaleDancerName(e.target.value)}
-              className="w-full p-2 border rounded-lg"
-              placeholder="Enter duo name"
-              required
-              disabled={loading}
-            />
-          </div>
-        )}
+        <DancersFields analysisType={analysisType} value={dancers} onChange={setDancers} disabled={loading} />
 
         <div className="grid grid-cols-1 md:grid-cols-2 gap-4 mt-4">
           <div>
@@ -732,9 +703,23 @@ export function DashboardContent() {
                 <div className="text-center">
                   <Upload className="w-6 h-6 mb-1 mx-auto text-gray-500" />
                   <span className="text-gray-600 text-sm">{selectedFile ? selectedFile.name : "Click to upload video"}</span>
-                  <p className="text-xs text-gray-500 mt-1">MP4 or MOV, max 100MB</p>
+                  <p className="text-xs text-gray-500 mt-1">MP4 or MOV, max 2GB</p>
                 </div>
               </label>
+              {resumableUpload && (
+                <p className="text-xs text-blue-600 mt-1">
+                  This file was partly uploaded before ({Math.round((resumableUpload.offset / resumableUpload.size) * 100)}%).
+                  Submitting resumes it with the dancers and dance type entered then.
+                </p>
+              )}
+              {selectedFile && !resumableUpload && (
+                <VideoPreprocessor
+                  file={selectedFile}
+                  processedFile={processedFile}
+                  onProcessed={setProcessedFile}
+                  disabled={loading}
+                />
+              )}
             </div>
           ) : (
             <div>
@@ -759,8 +744,42 @@ export function DashboardContent() {
               <div className="bg-blue-600 h-2.5 rounded-full" style={{ width: `${uploadProgress}%` }}></div>
             </div>
             <div className="text-center text-sm text-gray-600 mt-2">
-              {uploadMethod === "youtube" ? "Processing YouTube video..." : `${uploadProgress}% Uploaded`}
+              {uploadMethod === "youtube"
+                ? "Processing YouTube video..."
+                : uploadStatus === "paused"
+                  ? `Paused at ${uploadProgress}%`
+                  : uploadStatus === "completing"
+                    ? "Upload complete, starting analysis..."
+                    : `${uploadProgress}% Uploaded`}
             </div>
+            {uploadMethod === "file" && (uploadStatus === "uploading" || uploadStatus === "paused") && (
+              <div className="flex justify-center gap-2 mt-2">
+                {uploadStatus === "uploading" ? (
+                  <button
+                    onClick={handlePauseUpload}
+                    className="px-3 py-1 text-sm border rounded-lg hover:bg-gray-50 flex items-center gap-1"
+                  >
+                    <Pause className="w-4 h-4" />
+                    Pause
+                  </button>
+                ) : (
+                  <button
+                    onClick={handleResumeUpload}
+                    className="px-3 py-1 text-sm border rounded-lg hover:bg-gray-50 flex items-center gap-1"
+                  >
+                    <Play className="w-4 h-4" />
+                    Resume
+                  </button>
+                )}
+                <button
+                  onClick={handleCancelUpload}
+                  className="px-3 py-1 text-sm border border-red-200 text-red-600 rounded-lg hover:bg-red-50 flex items-center gap-1"
+                >
+                  <X className="w-4 h-4" />
+                  Cancel
+                </button>
+              </div>
+            )}
           </div>
         )}
 
@@ -775,6 +794,8 @@ export function DashboardContent() {
                 <Loader2 className="mr-2 h-4 w-4 animate-spin" />
                 {uploadMethod === "youtube" ? "Processing..." : "Uploading..."}
               </>
+            ) : resumableUpload ? (
+              "Resume Upload"
             ) : (
               "Submit Analysis"
             )}
@@ -782,6 +803,14 @@ export function DashboardContent() {
         </div>
       </div>
 
+      <BatchUploadQueue
+        defaultAnalysisType={analysisType}
+        onItemUploaded={() => {
+          fetchAnalyses()
+          fetchUserCredits()
+        }}
+      />
+
       <div className="bg-white rounded-lg shadow p-4 md:p-6 mb-6 md:mb-8">
         <div className="flex flex-col sm:flex-row items-center justify-between mb-6">
           <h2 className="text-2xl font-bold text-gray-800 mb-1">
@@ -806,6 +835,20 @@ export function DashboardContent() {
             />
             <Search className="absolute left-3 top-2.5 w-5 h-5 text-gray-400" />
           </div>
+          {dancerOptions.length > 0 && (
+            <select
+              value={dancerFilter}
+              onChange={(e) => setDancerFilter(e.target.value)}
+              className="w-full sm:w-56 p-2 border rounded-lg bg-white"
+            >
+              <option value="">All dancers</option>
+              {dancerOptions.map((dancer) => (
+                <option key={dancerKey(dancer)} value={dancerKey(dancer)}>
+                  {dancer.name}
+                </option>
+              ))}
+            </select>
+          )}
           <button
             onClick={() => setSortOrder((order) => (order === "desc" ? "asc" : "desc"))}
             className="px-4 py-2 border rounded-lg flex items-center gap-2 hover:bg-gray-50 whitespace-nowrap"
@@ -813,9 +856,37 @@ export function DashboardContent() {
             Date
             {sortOrder === "desc" ? <ChevronDown className="w-4 h-4" /> : <ChevronUp className="w-4 h-4" />}
           </button>
+          <ExportMenu
+            count={filteredAndSortedAnalyses.length}
+            onExport={(format) => downloadExport(filteredAndSortedAnalyses, format, `${analysisType}-analyses`)}
+          />
         </div>
       </div>
 
+      {compareIds.length > 0 && (
+        <div className="bg-blue-50 border border-blue-200 rounded-lg p-3 mb-4 flex flex-wrap items-center justify-between gap-2">
+          <span className="text-sm text-blue-800">
+            {compareIds.length} of up to {MAX_COMPARE} analyses selected for comparison
+          </span>
+          <div className="flex items-center gap-2">
+            <button onClick={() => setCompareIds([])} className="px-3 py-1 text-sm text-gray-600 hover:text-gray-800">
+              Clear
+            </button>
+            {compareIds.length >= MIN_COMPARE ? (
+              <Link
+                href={`/compare?ids=${compareIds.map(encodeURIComponent).join(",")}`}
+                className="flex items-center px-3 py-1.5 text-sm bg-blue-600 text-white rounded-lg hover:bg-blue-700"
+              >
+                <Columns2 className="w-4 h-4 mr-1" />
+                Compare
+              </Link>
+            ) : (
+              <span className="text-sm text-gray-500">Select at least {MIN_COMPARE}</span>
+            )}
+          </div>
+        </div>
+      )}
+
       <div className="bg-white rounded-lg shadow">
         <div className="grid grid-cols-1 p-4 font-semibold border-b">
           <div className="flex justify-between items-center">
@@ -828,38 +899,37 @@ export function DashboardContent() {
           filteredAndSortedAnalyses.map((analysis) => (
             <div
               key={analysis.id}
-              onClick={() => setSelectedAnalysis(analysis)}
+              onClick={() => setSelectedAnalysisId(analysis.id)}
               className={`${getStatusStyle(analysis.status, analysis.processed)} border-b hover:bg-gray-50 cursor-pointer`}
             >
               <div className="grid grid-cols-1 p-4 gap-2">
                 <div className="flex justify-between items-center">
-                  <div>{formatDate(analysis.timestamp)}</div>
+                  <div className="flex items-center gap-3">
+                    {analysis.processed && (
+                      <input
+                        type="checkbox"
+                        checked={compareIds.includes(analysis.id)}
+                        disabled={!compareIds.includes(analysis.id) && compareIds.length >= MAX_COMPARE}
+                        onClick={(e) => e.stopPropagation()}
+                        onChange={() => toggleCompare(analysis.id)}
+                        title="Select for comparison"
+                        aria-label="Select for comparison"
+                      />
+                    )}
+                    {formatDate(analysis.timestamp)}
+                  </div>
                   <div>{analysis.dance_type}</div>
                 </div>
                 <div className="flex flex-col">
-                  <div>
-                    {analysis.analysis_type === "solo"
-                      ? analysis.dancers && analysis.dancers.includes("Dancer:")
-                        ? analysis.dancers
-                        : `Dancer: ${analysis.dancers.replace(/Man: |Lady: |Unknown, /g, "")}`
-                      : analysis.analysis_type === "duo"
-                        ? analysis.dancers && analysis.dancers.includes("Duo:")
-                          ? analysis.dancers
-                          : `Duo: ${analysis.dancers.replace(/Man: |Lady: |Dancer: |Unknown, /g, "")}`
-                        : analysis.analysis_type === "formation"
-                          ? analysis.dancers && analysis.dancers.includes("Formation:")
-                            ? analysis.dancers
-                            : `Formation: ${analysis.dancers.replace(/Man: |Lady: |Dancer: |Duo: |Unknown, /g, "")}`
-                          : analysis.dancers}
-                  </div>
+                  <div>{analysis.dancers}</div>
 
                   {analysis.processed && (
                     <div className="text-sm text-gray-600 mt-1">
-                      {analysis.total_score && (
-                        <span className="font-medium text-green-600">Total Score: {analysis.total_score}</span>
+                      {analysis.scores.total !== undefined && (
+                        <span className="font-medium text-green-600">
+                          Total Score: {formatScore(analysis.scores.total, analysis.scores.maxTotal)}
+                        </span>
                       )}
-
-                      {!analysis.total_score && analysis.text && extractScores(analysis.text)}
                     </div>
                   )}
 
@@ -881,7 +951,8 @@ export function DashboardContent() {
                           e.stopPropagation()
                           handleRerunAnalysis(analysis.id)
                         }}
-                        className="px-3 py-1 text-blue-600 hover:text-blue-800 flex items-center gap-1"
+                        disabled={connectivity.isOffline}
+                        className="px-3 py-1 text-blue-600 hover:text-blue-800 flex items-center gap-1 disabled:opacity-50 disabled:cursor-not-allowed"
                         title={isAdmin ? "Rerun analysis (admin)" : "Rerun stuck analysis"}
                       >
                         <RefreshCw className="w-4 h-4" />
@@ -894,7 +965,9 @@ export function DashboardContent() {
                         e.stopPropagation()
                         handleDelete(analysis.id)
                       }}
-                      className="px-3 py-1 text-red-600 hover:text-red-800 flex items-center gap-1"
+                      disabled={connectivity.isOffline}
+                      className="px-3 py-1 text-red-600 hover:text-red-800 flex items-center gap-1 disabled:opacity-50 disabled:cursor-not-allowed"
+                      title="Move to trash"
                     >
                       <Trash2 className="w-4 h-4" />
                       Delete
@@ -0,0 +1,59 @@
+"use client"
+
+import { useEffect, useRef, useState } from "react"
+import { FileDown, ChevronDown } from "lucide-react"
+import { EXPORT_FORMATS, type ExportFormat } from "@/lib/export"
+
+interface ExportMenuProps {
+  // Number of analyses the export will contain
+  count: number
+  onExport: (format: ExportFormat) => void
+}
+
+export function ExportMenu({ count, onExport }: ExportMenuProps) {
+  const [open, setOpen] = useState(false)
+  const menuRef = useRef<HTMLDivElement>(null)
+
+  useEffect(() => {
+    if (!open) return
+    const handleClickOutside = (e: MouseEvent) => {
+      if (!menuRef.current?.contains(e.target as Node)) setOpen(false)
+    }
+    document.addEventListener("click", handleClickOutside)
+    return () => document.removeEventListener("click", handleClickOutside)
+  }, [open])
+
+  return (
+    <div ref={menuRef} className="relative">
+      <button
+        onClick={() => setOpen((current) => !current)}
+        disabled={count === 0}
+        className="px-4 py-2 border rounded-lg flex items-center gap-2 hover:bg-gray-50 whitespace-nowrap disabled:opacity-50 disabled:cursor-not-allowed"
+        title={`Export ${count} analyses`}
+      >
+        <FileDown className="w-4 h-4" />
+        Export
+        <ChevronDown className="w-4 h-4" />
+      </button>
+      {open && (
+        <div className="absolute right-0 mt-1 w-48 bg-white border rounded-lg shadow-lg z-20 py-1">
+          <p className="px-3 py-1 text-xs text-gray-500">
+            {count} {count === 1 ? "analysis" : "analyses"}
+          </p>
+          {EXPORT_FORMATS.map((format) => (
+            <button
+              key={format.value}
+              onClick={() => {
+                setOpen(false)
+                onExport(format.value)
+              }}
+              className="w-full text-left px-3 py-1.5 text-sm hover:bg-gray-50"
+            >
+              {format.label}
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,254 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import { Users, Link2, Lock, Eye, Copy, X, AlertCircle } from "lucide-react"
+import { SharePermissionsFields } from "./share-permissions-fields"
+import { useConfirm } from "@/contexts/confirm-context"
+import { useConnectivity } from "@/contexts/connectivity-context"
+import { useApi } from "@/hooks/use-api"
+import { notify } from "@/lib/notify"
+import { shareLinkPath } from "@/lib/session"
+import {
+  isShareLinkExpired,
+  type AnalysisShare,
+  type AnalysisShares,
+  type SharePermission,
+  type ShareLink,
+} from "@/lib/models"
+import { errorMessage } from "@/lib/api"
+
+interface ManageSharesProps {
+  analysisId: string
+  // Bumped by the parent after it shares again, to reload the list
+  refreshKey?: number
+}
+
+const formatDate = (iso?: string) => (iso ? new Date(iso).toLocaleDateString() : "")
+
+/**
+ * Owner's overview of who can open an analysis: the users it is shared with,
+ * with what they may do, and its public links. Each can be revoked.
+ */
+export function ManageShares({ analysisId, refreshKey }: ManageSharesProps) {
+  const api = useApi()
+  const confirm = useConfirm()
+  const { isOffline } = useConnectivity()
+  const [shares, setShares] = useState<AnalysisShares>({ users: [], links: [] })
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+  // Share whose permissions are being saved
+  const [savingId, setSavingId] = useState<string | null>(null)
+
+  useEffect(() => {
+    let cancelled = false
+    const fetchShares = async () => {
+      try {
+        const data = await api.analyses.shares.list(analysisId)
+        if (cancelled) return
+        setShares(data)
+        setError(null)
+      } catch (err) {
+        console.error("Failed to fetch shares:", err)
+        if (!cancelled) setError(errorMessage(err) || "Failed to load shares")
+      } finally {
+        if (!cancelled) setLoading(false)
+      }
+    }
+
+    fetchShares()
+    return () => {
+      cancelled = true
+    }
+  }, [api, analysisId, refreshKey])
+
+  const putShare = (share: AnalysisShare) =>
+    setShares((current) => ({
+      ...current,
+      users: current.users.map((existing) => (existing.share_id === share.share_id ? share : existing)),
+    }))
+
+  // Applied right away and put back if the save fails
+  const handlePermissionsChange = async (share: AnalysisShare, permissions: SharePermission[]) => {
+    putShare({ ...share, permissions, allow_export: permissions.includes("download") })
+    try {
+      setSavingId(share.share_id)
+      putShare(await api.analyses.shares.update(analysisId, share.share_id, permissions))
+    } catch (err) {
+      console.error("Failed to update share permissions:", err)
+      putShare(share)
+      notify.error("Failed to change permissions", errorMessage(err))
+    } finally {
+      setSavingId(null)
+    }
+  }
+
+  const handleRevokeUser = async (shareId: string, email: string) => {
+    const confirmed = await confirm({
+      title: `Stop sharing with ${email}?`,
+      description: "The analysis disappears from their shared analyses.",
+      confirmLabel: "Stop sharing",
+      destructive: true,
+    })
+    if (!confirmed) return
+
+    try {
+      await api.analyses.shares.revoke(analysisId, shareId)
+      setShares((current) => ({ ...current, users: current.users.filter((share) => share.share_id !== shareId) }))
+      notify.success(`No longer shared with ${email}`)
+    } catch (err) {
+      console.error("Failed to revoke share:", err)
+      notify.error("Failed to stop sharing", errorMessage(err))
+    }
+  }
+
+  const handleRevokeLink = async (link: ShareLink) => {
+    const confirmed = await confirm({
+      title: "Revoke this link?",
+      description: "Anyone opening it afterwards is told the link no longer works.",
+      confirmLabel: "Revoke",
+      destructive: true,
+    })
+    if (!confirmed) return
+
+    try {
+      await api.analyses.links.revoke(analysisId, link.id)
+      setShares((current) => ({ ...current, links: current.links.filter((existing) => existing.id !== link.id) }))
+      notify.success("Link revoked")
+    } catch (err) {
+      console.error("Failed to revoke link:", err)
+      notify.error("Failed to revoke the link", errorMessage(err))
+    }
+  }
+
+  const copyLink = async (link: ShareLink) => {
+    try {
+      await navigator.clipboard.writeText(`${window.location.origin}${shareLinkPath(link.token)}`)
+      notify.success("Link copied")
+    } catch (err) {
+      console.error("Clipboard error:", err)
+      notify.error("Couldn't copy the link")
+    }
+  }
+
+  return (
+    <div className="bg-white rounded-lg shadow p-4 md:p-6 mb-6">
+      <h2 className="text-lg font-semibold mb-4 text-gray-700">Manage shares</h2>
+
+      {error && (
+        <div className="bg-red-100 border border-red-400 text-red-700 px-4 py-3 rounded mb-4 flex items-start">
+          <AlertCircle className="w-5 h-5 mr-2 mt-0.5 flex-shrink-0" />
+          <div>{error}</div>
+        </div>
+      )}
+
+      {loading ? (
+        <div className="flex justify-center items-center h-24">
+          <div className="animate-spin rounded-full h-6 w-6 border-b-2 border-blue-600"></div>
+        </div>
+      ) : shares.users.length === 0 && shares.links.length === 0 ? (
+        <p className="text-sm text-gray-500">Only you can see this analysis.</p>
+      ) : (
+        <div className="space-y-4">
+          {shares.users.length > 0 && (
+            <div>
+              <h3 className="text-sm font-medium text-gray-600 flex items-center mb-2">
+                <Users className="w-4 h-4 mr-1" />
+                People ({shares.users.length})
+              </h3>
+              <div className="divide-y border rounded-lg">
+                {shares.users.map((share) => (
+                  <div key={share.share_id} className="flex items-start justify-between gap-2 p-3 text-sm">
+                    <div className="min-w-0">
+                      <div className="font-medium truncate">{share.recipient_displayName || share.recipient_email}</div>
+                      <div className="text-xs text-gray-500 mb-2">
+                        {share.recipient_displayName && `${share.recipient_email} · `}
+                        {share.shared_at && `Shared ${formatDate(share.shared_at)}`}
+                      </div>
+                      <SharePermissionsFields
+                        compact
+                        value={share.permissions}
+                        onChange={(permissions) => handlePermissionsChange(share, permissions)}
+                        disabled={isOffline || savingId === share.share_id}
+                      />
+                    </div>
+                    <button
+                      onClick={() => handleRevokeUser(share.share_id, share.recipient_email)}
+                      disabled={isOffline}
+                      className="p-1.5 text-gray-500 hover:text-red-600 hover:bg-red-50 rounded disabled:opacity-50"
+                      title="Stop sharing"
+                    >
+                      <X className="w-4 h-4" />
+                    </button>
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
+
+          {shares.links.length > 0 && (
+            <div>
+              <h3 className="text-sm font-medium text-gray-600 flex items-center mb-2">
+                <Link2 className="w-4 h-4 mr-1" />
+                Public links ({shares.links.length})
+              </h3>
+              <div className="divide-y border rounded-lg">
+                {shares.links.map((link) => {
+                  const expired = isShareLinkExpired(link)
+                  return (
+                    <div
+                      key={link.id}
+                      className={`flex items-center justify-between gap-2 p-3 text-sm ${expired ? "opacity-60" : ""}`}
+                    >
+                      <div className="min-w-0">
+                        <div className="font-mono text-xs truncate">{shareLinkPath(link.token)}</div>
+                        <div className="text-xs text-gray-500 flex flex-wrap items-center gap-x-2">
+                          {link.created_at && <span>Created {formatDate(link.created_at)}</span>}
+                          {expired ? (
+                            <span className="text-red-600">Expired {formatDate(link.expires_at)}</span>
+                          ) : (
+                            <span>{link.expires_at ? `Expires ${formatDate(link.expires_at)}` : "Never expires"}</span>
+                          )}
+                          {link.has_password && (
+                            <span className="flex items-center">
+                              <Lock className="w-3 h-3 mr-0.5" />
+                              Password
+                            </span>
+                          )}
+                          <span className="flex items-center">
+                            <Eye className="w-3 h-3 mr-0.5" />
+                            {link.view_count} {link.view_count === 1 ? "view" : "views"}
+                            {link.last_viewed_at && `, last ${formatDate(link.last_viewed_at)}`}
+                          </span>
+                          {link.allow_export && <span>can export</span>}
+                        </div>
+                      </div>
+                      <div className="flex items-center gap-1">
+                        {!expired && (
+                          <button
+                            onClick={() => copyLink(link)}
+                            className="p-1.5 text-gray-500 hover:text-blue-600 hover:bg-blue-50 rounded"
+                            title="Copy link"
+                          >
+                            <Copy className="w-4 h-4" />
+                          </button>
+                        )}
+                        <button
+                          onClick={() => handleRevokeLink(link)}
+                          disabled={isOffline}
+                          className="p-1.5 text-gray-500 hover:text-red-600 hover:bg-red-50 rounded disabled:opacity-50"
+                          title="Revoke link"
+                        >
+                          <X className="w-4 h-4" />
+                        </button>
+                      </div>
+                    </div>
+                  )
+                })}
+              </div>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,56 @@
+"use client"
+import { CloudOff, CloudUpload, AlertTriangle, RotateCcw, X, Loader2 } from "lucide-react"
+import { useConnectivity } from "@/contexts/connectivity-context"
+import { useOfflineQueue } from "@/contexts/offline-queue-context"
+
+export function OfflineQueueStatus() {
+  const { items, flushing, retry, remove } = useOfflineQueue()
+  const { isOffline } = useConnectivity()
+
+  if (!isOffline && items.length === 0) return null
+
+  const waiting = items.filter((item) => item.status !== "failed").length
+  const failed = items.filter((item) => item.status === "failed")
+
+  return (
+    <div className="mt-3 rounded-lg border border-gray-200 bg-white p-3 text-sm">
+      {isOffline && (
+        <div className="flex items-center text-gray-700">
+          <CloudOff className="w-4 h-4 mr-2 text-gray-500" />
+          <span>Offline</span>
+        </div>
+      )}
+
+      {waiting > 0 && (
+        <div className={`flex items-center text-blue-700 ${isOffline ? "mt-1" : ""}`}>
+          {flushing ? <Loader2 className="w-4 h-4 mr-2 animate-spin" /> : <CloudUpload className="w-4 h-4 mr-2" />}
+          <span>
+            {flushing
+              ? `Uploading ${waiting} queued ${waiting === 1 ? "video" : "videos"}...`
+              : `${waiting} ${waiting === 1 ? "video" : "videos"} waiting to upload`}
+          </span>
+        </div>
+      )}
+
+      {failed.map((item) => (
+        <div key={item.id} className="mt-2 rounded-md bg-yellow-50 p-2 text-yellow-800">
+          <div className="flex items-start">
+            <AlertTriangle className="w-4 h-4 mr-1 mt-0.5 flex-shrink-0" />
+            <div className="flex-1 min-w-0">
+              <p className="truncate font-medium" title={item.fileName}>
+                {item.fileName}
+              </p>
+              <p className="text-xs">{item.error}</p>
+            </div>
+            <button onClick={() => retry(item.id)} className="p-0.5 hover:text-yellow-900" title="Retry upload">
+              <RotateCcw className="w-4 h-4" />
+            </button>
+            <button onClick={() => remove(item.id)} className="p-0.5 hover:text-yellow-900" title="Remove from queue">
+              <X className="w-4 h-4" />
+            </button>
+          </div>
+        </div>
+      ))}
+    </div>
+  )
+}
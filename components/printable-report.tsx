@@ -0,0 +1,245 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import { createPortal } from "react-dom"
+import Image from "next/image"
+import { Bar, BarChart, CartesianGrid, XAxis, YAxis } from "recharts"
+import { Printer, X, Loader2 } from "lucide-react"
+import { formatVideoTime } from "./video-player"
+import { useApi } from "@/hooks/use-api"
+import type { ShareLinkAccess } from "@/lib/api"
+import type { Analysis, Annotation, Branding } from "@/lib/models"
+import { criterionLabel, formatScore } from "@/lib/scores"
+import { captureVideoFrame } from "@/lib/video-thumbnail"
+
+const DEFAULT_ACCENT = "#1e40af"
+
+interface PrintableReportProps {
+  analysis: Analysis
+  // Already sanitized report body
+  reportHtml: string
+  date: string
+  // Set on shared views: annotations come through the share, branding is the owner's
+  shareId?: string
+  // Likewise for public links
+  linkAccess?: ShareLinkAccess
+  ownerBranding?: Branding
+  onClose: () => void
+}
+
+/**
+ * Print preview of an analysis, laid out for paper. Printing goes through the
+ * browser's dialog, which also offers "Save as PDF"; the print stylesheet in
+ * globals.css hides everything but this preview.
+ */
+export function PrintableReport({ analysis, reportHtml, date, shareId, linkAccess, ownerBranding, onClose }: PrintableReportProps) {
+  const api = useApi()
+  const [branding, setBranding] = useState<Branding>(ownerBranding ?? {})
+  const [annotations, setAnnotations] = useState<Annotation[]>([])
+  const [thumbnail, setThumbnail] = useState<string | null>(null)
+  const [preparing, setPreparing] = useState(true)
+
+  // By value: callers pass a new linkAccess object on every render
+  const linkToken = linkAccess?.token
+  const linkPassword = linkAccess?.password
+
+  useEffect(() => {
+    let cancelled = false
+
+    const load = async () => {
+      const [ownBranding, notes, frame] = await Promise.all([
+        shareId || linkToken
+          ? Promise.resolve(null)
+          : api.user.branding().catch((err) => {
+              console.error("Error fetching report branding:", err)
+              return null
+            }),
+        (linkToken
+          ? api.publicLinks.annotations({ token: linkToken, password: linkPassword })
+          : shareId
+            ? api.sharedAnalyses.annotations.list(shareId)
+            : api.analyses.annotations.list(analysis.id)
+        ).catch(
+          (err) => {
+            console.error("Error fetching annotations for report:", err)
+            return []
+          },
+        ),
+        analysis.video_url ? captureVideoFrame(analysis.video_url) : Promise.resolve(null),
+      ])
+      if (cancelled) return
+
+      if (ownBranding) setBranding(ownBranding)
+      setAnnotations([...notes].sort((a, b) => a.time - b.time))
+      setThumbnail(frame)
+      setPreparing(false)
+    }
+
+    load()
+    return () => {
+      cancelled = true
+    }
+  }, [api, analysis.id, analysis.video_url, shareId, linkToken, linkPassword])
+
+  useEffect(() => {
+    const handleEsc = (e: KeyboardEvent) => {
+      if (e.key === "Escape") onClose()
+    }
+    document.addEventListener("keydown", handleEsc)
+    return () => document.removeEventListener("keydown", handleEsc)
+  }, [onClose])
+
+  // Browsers suggest the document title as the PDF file name
+  const handlePrint = () => {
+    const previousTitle = document.title
+    document.title = [branding.studio_name, "Dance Analysis", analysis.dance_type, date.split(" ")[0]]
+      .filter(Boolean)
+      .join(" - ")
+    window.addEventListener("afterprint", () => (document.title = previousTitle), { once: true })
+    window.print()
+  }
+
+  const accent = branding.accent_color || DEFAULT_ACCENT
+  const scores = analysis.scores
+  const chartData = scores.criteria.map((criterion) => ({
+    label: criterionLabel(criterion.key),
+    score: criterion.score,
+  }))
+
+  return createPortal(
+    <div className="print-report fixed inset-0 z-50 bg-gray-100 overflow-y-auto print:static print:overflow-visible print:bg-white">
+      <div className="sticky top-0 z-10 bg-white border-b shadow-sm print:hidden">
+        <div className="max-w-[210mm] mx-auto flex items-center justify-between px-4 py-3">
+          <h2 className="font-semibold text-gray-800">Report preview</h2>
+          <div className="flex gap-2">
+            <button
+              onClick={handlePrint}
+              disabled={preparing}
+              className="flex items-center px-3 py-1.5 text-sm bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:bg-gray-400"
+            >
+              {preparing ? <Loader2 className="w-4 h-4 mr-1 animate-spin" /> : <Printer className="w-4 h-4 mr-1" />}
+              {preparing ? "Preparing..." : "Print / Save as PDF"}
+            </button>
+            <button onClick={onClose} className="p-1.5 hover:bg-gray-100 rounded-full" title="Close preview">
+              <X className="w-5 h-5 text-gray-500" />
+            </button>
+          </div>
+        </div>
+      </div>
+
+      <article className="max-w-[210mm] mx-auto my-6 bg-white shadow-lg text-gray-900 print:my-0 print:shadow-none print:max-w-none">
+        <header className="flex items-center gap-4 p-6 text-white" style={{ backgroundColor: accent }}>
+          {branding.logo_url && (
+            <Image
+              src={branding.logo_url}
+              alt=""
+              width={160}
+              height={56}
+              loading="eager"
+              className="h-14 w-auto max-w-[160px] object-contain bg-white rounded p-1"
+            />
+          )}
+          <div className="flex-1">
+            {branding.studio_name && <p className="text-sm opacity-80">{branding.studio_name}</p>}
+            <h1 className="text-2xl font-bold">Dance Analysis Report</h1>
+          </div>
+          {scores.total !== undefined && (
+            <div className="text-right">
+              <p className="text-xs opacity-80">Total Score</p>
+              <p className="text-2xl font-bold">{formatScore(scores.total, scores.maxTotal)}</p>
+            </div>
+          )}
+        </header>
+
+        <section className="report-section grid grid-cols-2 gap-x-6 gap-y-2 p-6 text-sm border-b">
+          <div>
+            <span className="text-gray-500">Date: </span>
+            {date}
+          </div>
+          <div>
+            <span className="text-gray-500">Dance Type: </span>
+            {analysis.dance_type}
+          </div>
+          <div>
+            <span className="text-gray-500">Dancers: </span>
+            {analysis.dancers}
+          </div>
+          <div>
+            <span className="text-gray-500">Analysis Type: </span>
+            <span className="capitalize">{analysis.analysis_type}</span>
+          </div>
+        </section>
+
+        {thumbnail && (
+          <section className="report-section p-6 border-b">
+            <Image
+              src={thumbnail}
+              alt="Performance video frame"
+              width={1280}
+              height={720}
+              loading="eager"
+              className="w-full h-auto max-h-[90mm] object-contain rounded"
+            />
+          </section>
+        )}
+
+        {scores.criteria.length > 0 && (
+          <section className="report-section p-6 border-b">
+            <h2 className="text-lg font-semibold mb-4" style={{ color: accent }}>
+              Scores
+            </h2>
+            <div className="flex gap-6 items-start">
+              <table className="text-sm flex-1">
+                <tbody>
+                  {scores.criteria.map((criterion) => (
+                    <tr key={criterion.key} className="border-b">
+                      <td className="py-1.5">{criterionLabel(criterion.key)}</td>
+                      <td className="py-1.5 text-right font-medium">
+                        {formatScore(criterion.score, criterion.max ?? scores.scale)}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+              {/* Fixed size and no animation, so the printed chart is the finished one */}
+              <BarChart width={360} height={200} data={chartData} margin={{ top: 5, right: 5, bottom: 5, left: -20 }}>
+                <CartesianGrid strokeDasharray="3 3" vertical={false} />
+                <XAxis dataKey="label" tick={{ fontSize: 10 }} interval={0} />
+                <YAxis domain={[0, scores.scale ?? 10]} tick={{ fontSize: 10 }} />
+                <Bar dataKey="score" fill={accent} isAnimationActive={false} />
+              </BarChart>
+            </div>
+          </section>
+        )}
+
+        {annotations.length > 0 && (
+          <section className="report-section p-6 border-b">
+            <h2 className="text-lg font-semibold mb-3" style={{ color: accent }}>
+              Coach Notes
+            </h2>
+            <ul className="text-sm space-y-1.5">
+              {annotations.map((annotation) => (
+                <li key={annotation.id} className="flex gap-3">
+                  <span className="font-mono text-gray-500">{formatVideoTime(annotation.time)}</span>
+                  <span className="flex-1">{annotation.text}</span>
+                </li>
+              ))}
+            </ul>
+          </section>
+        )}
+
+        <section className="p-6">
+          <h2 className="text-lg font-semibold mb-4" style={{ color: accent }}>
+            Analysis
+          </h2>
+          <div className="prose prose-sm max-w-none" dangerouslySetInnerHTML={{ __html: reportHtml }} />
+        </section>
+
+        {branding.footer_text && (
+          <footer className="px-6 py-4 border-t text-xs text-gray-500 text-center">{branding.footer_text}</footer>
+        )}
+      </article>
+    </div>,
+    document.body,
+  )
+}
@@ -0,0 +1,45 @@
+"use client"
+
+import type React from "react"
+import { useEffect } from "react"
+import { useRouter } from "next/navigation"
+import { useAuth } from "@/contexts/auth-context"
+import { useRole } from "@/hooks/use-role"
+import type { Role } from "@/lib/roles"
+
+interface RequireRoleProps {
+  // Any one of these is enough
+  role: Role | Role[]
+  children: React.ReactNode
+  // Where users without the role are sent
+  redirectTo?: string
+}
+
+/**
+ * Renders its children only once the user's roles are known and include
+ * `role`; until then nothing of the guarded page is mounted.
+ */
+export function RequireRole({ role, children, redirectTo = "/" }: RequireRoleProps) {
+  const { currentUser } = useAuth()
+  const { loading, hasRole } = useRole()
+  const router = useRouter()
+
+  const allowed = !loading && !!currentUser && hasRole(role)
+
+  // Signed-out users are sent to /login by SessionGuard
+  useEffect(() => {
+    if (!loading && currentUser && !allowed) {
+      router.replace(redirectTo)
+    }
+  }, [loading, currentUser, allowed, redirectTo, router])
+
+  if (!allowed) {
+    return (
+      <div className="flex justify-center items-center h-screen">
+        <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
+      </div>
+    )
+  }
+
+  return <>{children}</>
+}
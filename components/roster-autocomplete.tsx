@@ -0,0 +1,107 @@
+"use client"
+
+import { useState } from "react"
+import { Check } from "lucide-react"
+import { normalizeName } from "@/lib/dancers"
+
+export interface RosterOption {
+  id: string
+  name: string
+  // Secondary text, e.g. a team's members
+  hint?: string
+}
+
+interface RosterAutocompleteProps {
+  value: string
+  // Id of the picked roster entry; free-typed text has none
+  selectedId?: string
+  options: RosterOption[]
+  onChange: (name: string, option?: RosterOption) => void
+  placeholder?: string
+  disabled?: boolean
+  className?: string
+}
+
+const MAX_SUGGESTIONS = 8
+
+export function RosterAutocomplete({
+  value,
+  selectedId,
+  options,
+  onChange,
+  placeholder,
+  disabled = false,
+  className = "",
+}: RosterAutocompleteProps) {
+  const [open, setOpen] = useState(false)
+  const [highlighted, setHighlighted] = useState(0)
+
+  const query = normalizeName(value)
+  const suggestions = options
+    .filter((option) => option.id !== selectedId && normalizeName(option.name).includes(query))
+    .slice(0, MAX_SUGGESTIONS)
+
+  const pick = (option: RosterOption) => {
+    onChange(option.name, option)
+    setOpen(false)
+  }
+
+  const handleKeyDown = (event: React.KeyboardEvent<HTMLInputElement>) => {
+    if (!open || suggestions.length === 0) return
+
+    if (event.key === "ArrowDown") {
+      event.preventDefault()
+      setHighlighted((index) => (index + 1) % suggestions.length)
+    } else if (event.key === "ArrowUp") {
+      event.preventDefault()
+      setHighlighted((index) => (index - 1 + suggestions.length) % suggestions.length)
+    } else if (event.key === "Enter") {
+      event.preventDefault()
+      pick(suggestions[Math.min(highlighted, suggestions.length - 1)])
+    } else if (event.key === "Escape") {
+      setOpen(false)
+    }
+  }
+
+  return (
+    <div className="relative">
+      <input
+        type="text"
+        value={value}
+        onChange={(e) => {
+          onChange(e.target.value)
+          setOpen(true)
+          setHighlighted(0)
+        }}
+        onFocus={() => setOpen(true)}
+        // Delay so a click on a suggestion lands before the list disappears
+        onBlur={() => setTimeout(() => setOpen(false), 150)}
+        onKeyDown={handleKeyDown}
+        className={`w-full p-2 border rounded-lg ${selectedId ? "pr-8" : ""} ${className}`}
+        placeholder={placeholder}
+        disabled={disabled}
+        autoComplete="off"
+      />
+      {selectedId && (
+        <Check className="absolute right-2.5 top-1/2 -translate-y-1/2 w-4 h-4 text-green-600" aria-label="From roster" />
+      )}
+      {open && suggestions.length > 0 && (
+        <ul className="absolute z-10 mt-1 w-full bg-white border rounded-lg shadow-lg max-h-60 overflow-y-auto">
+          {suggestions.map((option, index) => (
+            <li key={option.id}>
+              <button
+                type="button"
+                onMouseDown={(e) => e.preventDefault()}
+                onClick={() => pick(option)}
+                className={`w-full text-left px-3 py-2 text-sm ${index === highlighted ? "bg-blue-50" : "hover:bg-gray-50"}`}
+              >
+                <span className="text-gray-800">{option.name}</span>
+                {option.hint && <span className="block text-xs text-gray-500 truncate">{option.hint}</span>}
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,75 @@
+import { criterionLabel, formatScore, type ScoreCard } from "@/lib/scores"
+
+interface ScoreBreakdownProps {
+  scores: ScoreCard
+}
+
+export function ScoreBreakdown({ scores }: ScoreBreakdownProps) {
+  if (scores.criteria.length === 0) return null
+
+  const maxFor = (max?: number) => max ?? scores.scale ?? 10
+  const dancerKeys = scores.criteria.filter((criterion) =>
+    scores.dancers.some((dancer) => dancer.criteria.some((candidate) => candidate.key === criterion.key)),
+  )
+
+  return (
+    <div>
+      <div className="space-y-3">
+        {scores.criteria.map((criterion) => (
+          <div key={criterion.key}>
+            <div className="flex justify-between text-sm mb-1">
+              <span className="text-gray-700">{criterionLabel(criterion.key)}</span>
+              <span className="font-medium text-gray-900">{formatScore(criterion.score, criterion.max ?? scores.scale)}</span>
+            </div>
+            <div className="w-full bg-gray-200 rounded-full h-2">
+              <div
+                className="bg-blue-600 h-2 rounded-full"
+                style={{ width: `${Math.min(100, (criterion.score / maxFor(criterion.max)) * 100)}%` }}
+              ></div>
+            </div>
+          </div>
+        ))}
+      </div>
+
+      {scores.dancers.length > 0 && dancerKeys.length > 0 && (
+        <table className="w-full mt-6 text-sm">
+          <thead>
+            <tr className="text-left text-gray-500 border-b">
+              <th className="py-2">Criterion</th>
+              {scores.dancers.map((dancer) => (
+                <th key={dancer.name} className="py-2 text-right">
+                  {dancer.name}
+                </th>
+              ))}
+            </tr>
+          </thead>
+          <tbody>
+            {dancerKeys.map((criterion) => (
+              <tr key={criterion.key} className="border-b">
+                <td className="py-2">{criterionLabel(criterion.key)}</td>
+                {scores.dancers.map((dancer) => {
+                  const score = dancer.criteria.find((candidate) => candidate.key === criterion.key)
+                  return (
+                    <td key={dancer.name} className="py-2 text-right">
+                      {score ? formatScore(score.score) : "–"}
+                    </td>
+                  )
+                })}
+              </tr>
+            ))}
+            {scores.dancers.some((dancer) => dancer.total !== undefined) && (
+              <tr className="font-medium">
+                <td className="py-2">Total</td>
+                {scores.dancers.map((dancer) => (
+                  <td key={dancer.name} className="py-2 text-right">
+                    {dancer.total !== undefined ? formatScore(dancer.total) : "–"}
+                  </td>
+                ))}
+              </tr>
+            )}
+          </tbody>
+        </table>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,39 @@
+"use client"
+
+import type React from "react"
+import { useEffect } from "react"
+import { usePathname, useRouter } from "next/navigation"
+import { useAuth } from "@/contexts/auth-context"
+import { isPublicPath, loginUrl } from "@/lib/session"
+
+/**
+ * Client half of the route protection in proxy.ts: holds protected pages back
+ * until auth has loaded, and sends the user to /login (with a return URL) when
+ * they are signed out, including when Firebase ends the session mid-visit.
+ */
+export function SessionGuard({ children }: { children: React.ReactNode }) {
+  const { currentUser, loading } = useAuth()
+  const pathname = usePathname()
+  const router = useRouter()
+
+  const guarded = !isPublicPath(pathname)
+
+  useEffect(() => {
+    if (guarded && !loading && !currentUser) {
+      router.replace(loginUrl(pathname + window.location.search))
+    }
+  }, [guarded, loading, currentUser, pathname, router])
+
+  if (guarded && !currentUser) {
+    return (
+      <div className="flex items-center justify-center min-h-screen">
+        <div className="text-center">
+          <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600 mx-auto mb-2"></div>
+          <p className="text-gray-600">Loading...</p>
+        </div>
+      </div>
+    )
+  }
+
+  return <>{children}</>
+}
@@ -1,30 +1,40 @@
 "use client"
 import { useState, useEffect } from "react"
-import { X, Search, Send, AlertCircle, Loader2 } from "lucide-react"
-import { useAuth } from "@/contexts/auth-context"
-import { API_BASE } from "@/lib/constants"
+import { X, Search, Send, AlertCircle, Loader2, Link2, Copy } from "lucide-react"
+import { SharePermissionsFields } from "./share-permissions-fields"
+import { useApi } from "@/hooks/use-api"
+import { notify } from "@/lib/notify"
+import { shareLinkPath } from "@/lib/session"
+import type { SharePermission, ShareLink, UserSearchResult as User } from "@/lib/models"
+import { errorMessage } from "@/lib/api"
 
 interface ShareAnalysisDialogProps {
   analysisId: string
   onClose: () => void
   onSuccess: () => void
+  // The dialog stays open after creating a link so the owner can copy it
+  onLinkCreated?: (link: ShareLink) => void
 }
 
-interface User {
-  id: string
-  email: string
-  displayName?: string
-}
+type ShareMode = "user" | "link"
 
-export function ShareAnalysisDialog({ analysisId, onClose, onSuccess }: ShareAnalysisDialogProps) {
+export function ShareAnalysisDialog({ analysisId, onClose, onSuccess, onLinkCreated }: ShareAnalysisDialogProps) {
+  const [mode, setMode] = useState<ShareMode>("user")
   const [recipientEmail, setRecipientEmail] = useState("")
   const [loading, setLoading] = useState(false)
   const [error, setError] = useState<string | null>(null)
   const [searchTerm, setSearchTerm] = useState("")
   const [searchResults, setSearchResults] = useState<User[]>([])
   const [searching, setSearching] = useState(false)
+  const [permissions, setPermissions] = useState<SharePermission[]>([])
+  // Public links have no permission levels, only whether visitors may export
+  const [allowExport, setAllowExport] = useState(false)
+  // Public link options; the expiry is a yyyy-mm-dd date input value
+  const [expiresOn, setExpiresOn] = useState("")
+  const [password, setPassword] = useState("")
+  const [createdLink, setCreatedLink] = useState<ShareLink | null>(null)
 
-  const { getIdToken } = useAuth()
+  const api = useApi()
 
   useEffect(() => {
     const handleClickOutside = (e: MouseEvent) => {
@@ -49,6 +59,21 @@ export function ShareAnalysisDialog({ analysisId, onClose, onSuccess }: ShareAna
   }, [onClose])
 
   useEffect(() => {
+    const searchUsers = async () => {
+      try {
+        setSearching(true)
+        setError(null)
+
+        const data = await api.user.search(searchTerm)
+        setSearchResults(data)
+      } catch (err) {
+        console.error("User search error:", err)
+        setError(errorMessage(err) || "Failed to search for users")
+      } finally {
+        setSearching(false)
+      }
+    }
+
     const delaySearch = setTimeout(() => {
       if (searchTerm.length >= 3) {
         searchUsers()
@@ -58,42 +83,7 @@ export function ShareAnalysisDialog({ analysisId, onClose, onSuccess }: ShareAna
     }, 500)
 
     return () => clearTimeout(delaySearch)
-  }, [searchTerm])
-
-  const searchUsers = async () => {
-    if (searchTerm.length < 3) return
-
-    try {
-      setSearching(true)
-      setError(null)
-
-      const token = await getIdToken()
-
-      if (!token) {
-        throw new Error("Authentication required")
-      }
-
-      const response = await fetch(`${API_BASE}/user/search?email=${encodeURIComponent(searchTerm)}`, {
-        headers: {
-          Authorization: `Bearer ${token}`,
-          "Content-Type": "application/json",
-        },
-      })
-
-      if (!response.ok) {
-        const errorData = await response.json()
-        throw new Error(errorData.error || "Search failed")
-      }
-
-      const data = await response.json()
-      setSearchResults(data)
-    } catch (err: any) {
-      console.error("User search error:", err)
-      setError(err.message || "Failed to search for users")
-    } finally {
-      setSearching(false)
-    }
-  }
+  }, [api, searchTerm])
 
   const handleShare = async () => {
     if (!recipientEmail) {
@@ -105,39 +95,54 @@ export function ShareAnalysisDialog({ analysisId, onClose, onSuccess }: ShareAna
       setLoading(true)
       setError(null)
 
-      const token = await getIdToken()
-
-      if (!token) {
-        throw new Error("Authentication required")
-      }
-
-      const response = await fetch(`${API_BASE}/analyses/${analysisId}/share`, {
-        method: "POST",
-        headers: {
-          Authorization: `Bearer ${token}`,
-          "Content-Type": "application/json",
-        },
-        body: JSON.stringify({
-          recipient_email: recipientEmail,
-        }),
-      })
-
-      if (!response.ok) {
-        const errorData = await response.json()
-        throw new Error(errorData.error || "Sharing failed")
-      }
+      await api.analyses.share(analysisId, recipientEmail, permissions)
 
       if (onSuccess) {
         onSuccess()
       }
-    } catch (err: any) {
+    } catch (err) {
       console.error("Sharing error:", err)
-      setError(err.message || "Failed to share analysis")
+      setError(errorMessage(err) || "Failed to share analysis")
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const handleCreateLink = async () => {
+    try {
+      setLoading(true)
+      setError(null)
+
+      const link = await api.analyses.links.create(analysisId, {
+        allow_export: allowExport,
+        // The link works through the whole of the chosen day
+        expires_at: expiresOn ? new Date(`${expiresOn}T23:59:59`).toISOString() : undefined,
+        password: password || undefined,
+      })
+      setCreatedLink(link)
+      onLinkCreated?.(link)
+    } catch (err) {
+      console.error("Link creation error:", err)
+      setError(errorMessage(err) || "Failed to create link")
     } finally {
       setLoading(false)
     }
   }
 
+  const createdUrl = createdLink ? `${window.location.origin}${shareLinkPath(createdLink.token)}` : ""
+
+  const copyLink = async () => {
+    try {
+      await navigator.clipboard.writeText(createdUrl)
+      notify.success("Link copied")
+    } catch (err) {
+      console.error("Clipboard error:", err)
+      notify.error("Couldn't copy the link", "Select it and copy it manually.")
+    }
+  }
+
+  const today = new Date().toISOString().slice(0, 10)
+
   const selectUser = (user: User) => {
     setRecipientEmail(user.email)
     setSearchResults([])
@@ -154,6 +159,21 @@ export function ShareAnalysisDialog({ analysisId, onClose, onSuccess }: ShareAna
           </button>
         </div>
 
+        <div className="flex rounded-lg border overflow-hidden text-sm mb-4">
+          {(["user", "link"] as const).map((option) => (
+            <button
+              key={option}
+              onClick={() => {
+                setMode(option)
+                setError(null)
+              }}
+              className={`flex-1 px-3 py-1.5 ${mode === option ? "bg-blue-600 text-white" : "bg-white hover:bg-gray-50"}`}
+            >
+              {option === "user" ? "With a user" : "Public link"}
+            </button>
+          ))}
+        </div>
+
         {error && (
           <div className="bg-red-100 border border-red-400 text-red-700 px-4 py-3 rounded mb-4 flex items-center">
             <AlertCircle className="w-5 h-5 mr-2 flex-shrink-0" />
@@ -161,69 +181,167 @@ export function ShareAnalysisDialog({ analysisId, onClose, onSuccess }: ShareAna
           </div>
         )}
 
-        <div className="mb-4">
-          <label className="block text-sm font-medium text-gray-700 mb-2">Recipient Email</label>
+        {mode === "user" && (
+          <div className="mb-4">
+            <label className="block text-sm font-medium text-gray-700 mb-2">Recipient Email</label>
+
+            <div className="relative">
+              <input
+                type="text"
+                value={searchTerm}
+                onChange={(e) => setSearchTerm(e.target.value)}
+                placeholder="Search for a user by email"
+                className="w-full p-2 pl-10 border rounded-lg"
+              />
+              {searching ? (
+                <Loader2 className="absolute left-3 top-2.5 w-5 h-5 text-gray-400 animate-spin" />
+              ) : (
+                <Search className="absolute left-3 top-2.5 w-5 h-5 text-gray-400" />
+              )}
+            </div>
 
-          <div className="relative">
-            <input
-              type="text"
-              value={searchTerm}
-              onChange={(e) => setSearchTerm(e.target.value)}
-              placeholder="Search for a user by email"
-              className="w-full p-2 pl-10 border rounded-lg"
-            />
-            {searching ? (
-              <Loader2 className="absolute left-3 top-2.5 w-5 h-5 text-gray-400 animate-spin" />
-            ) : (
-              <Search className="absolute left-3 top-2.5 w-5 h-5 text-gray-400" />
+            {searchResults.length > 0 && (
+              <div className="mt-2 border rounded-lg max-h-40 overflow-y-auto">
+                {searchResults.map((user) => (
+                  <div
+                    key={user.id}
+                    onClick={() => selectUser(user)}
+                    className="p-2 hover:bg-gray-50 cursor-pointer border-b last:border-b-0"
+                  >
+                    <div className="font-medium">{user.displayName || user.email}</div>
+                    <div className="text-sm text-gray-600">{user.email}</div>
+                  </div>
+                ))}
+              </div>
+            )}
+
+            {searchTerm.length >= 3 && searchResults.length === 0 && !searching && (
+              <div className="mt-2 text-sm text-gray-500">No users found matching &quot;{searchTerm}&quot;</div>
             )}
           </div>
+        )}
 
-          {searchResults.length > 0 && (
-            <div className="mt-2 border rounded-lg max-h-40 overflow-y-auto">
-              {searchResults.map((user) => (
-                <div
-                  key={user.id}
-                  onClick={() => selectUser(user)}
-                  className="p-2 hover:bg-gray-50 cursor-pointer border-b last:border-b-0"
-                >
-                  <div className="font-medium">{user.displayName || user.email}</div>
-                  <div className="text-sm text-gray-600">{user.email}</div>
-                </div>
-              ))}
+        {mode === "link" && createdLink && (
+          <div className="mb-4">
+            <label className="block text-sm font-medium text-gray-700 mb-2">Anyone with this link can view the analysis</label>
+            <div className="flex gap-2">
+              <input
+                type="text"
+                readOnly
+                value={createdUrl}
+                onFocus={(e) => e.target.select()}
+                className="flex-1 p-2 border rounded-lg bg-gray-50 text-sm"
+              />
+              <button
+                onClick={copyLink}
+                className="flex items-center px-3 py-2 border rounded-lg hover:bg-gray-50"
+                title="Copy link"
+              >
+                <Copy className="w-4 h-4" />
+              </button>
             </div>
-          )}
+            {createdLink.has_password && (
+              <p className="mt-2 text-xs text-gray-500">Send the password separately from the link.</p>
+            )}
+          </div>
+        )}
 
-          {searchTerm.length >= 3 && searchResults.length === 0 && !searching && (
-            <div className="mt-2 text-sm text-gray-500">No users found matching "{searchTerm}"</div>
-          )}
-        </div>
+        {mode === "link" && !createdLink && (
+          <div className="mb-4 space-y-3">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Expires on (optional)</label>
+              <input
+                type="date"
+                min={today}
+                value={expiresOn}
+                onChange={(e) => setExpiresOn(e.target.value)}
+                className="w-full p-2 border rounded-lg"
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Password (optional)</label>
+              <input
+                type="password"
+                autoComplete="new-password"
+                value={password}
+                onChange={(e) => setPassword(e.target.value)}
+                placeholder="Leave empty for no password"
+                className="w-full p-2 border rounded-lg"
+              />
+            </div>
+          </div>
+        )}
+
+        {mode === "user" && (
+          <div className="mb-4">
+            <label className="block text-sm font-medium text-gray-700 mb-2">The recipient can view the analysis, and</label>
+            <SharePermissionsFields value={permissions} onChange={setPermissions} />
+            <p className="mt-2 text-xs text-gray-500">You can change this later under Manage shares.</p>
+          </div>
+        )}
+
+        {mode === "link" && !createdLink && (
+          <label className="flex items-start gap-2 mb-4 text-sm text-gray-700 cursor-pointer">
+            <input
+              type="checkbox"
+              checked={allowExport}
+              onChange={(e) => setAllowExport(e.target.checked)}
+              className="mt-0.5"
+            />
+            <span>
+              Allow visitors to print and export the report
+              <span className="block text-xs text-gray-500">Exports carry your report branding</span>
+            </span>
+          </label>
+        )}
 
         <div className="flex justify-end space-x-3">
           <button
             onClick={onClose}
             className="px-4 py-2 border border-gray-300 rounded-lg text-gray-700 hover:bg-gray-50"
           >
-            Cancel
+            {createdLink ? "Done" : "Cancel"}
           </button>
 
-          <button
-            onClick={handleShare}
-            disabled={loading || !recipientEmail}
-            className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition flex items-center disabled:bg-gray-400"
-          >
-            {loading ? (
-              <>
-                <Loader2 className="mr-2 h-4 w-4 animate-spin" />
-                Sharing...
-              </>
-            ) : (
-              <>
-                <Send className="w-4 h-4 mr-2" />
-                Share
-              </>
-            )}
-          </button>
+          {mode === "user" && (
+            <button
+              onClick={handleShare}
+              disabled={loading || !recipientEmail}
+              className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition flex items-center disabled:bg-gray-400"
+            >
+              {loading ? (
+                <>
+                  <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                  Sharing...
+                </>
+              ) : (
+                <>
+                  <Send className="w-4 h-4 mr-2" />
+                  Share
+                </>
+              )}
+            </button>
+          )}
+
+          {mode === "link" && !createdLink && (
+            <button
+              onClick={handleCreateLink}
+              disabled={loading}
+              className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition flex items-center disabled:bg-gray-400"
+            >
+              {loading ? (
+                <>
+                  <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                  Creating...
+                </>
+              ) : (
+                <>
+                  <Link2 className="w-4 h-4 mr-2" />
+                  Create link
+                </>
+              )}
+            </button>
+          )}
         </div>
       </div>
     </div>
@@ -0,0 +1,50 @@
+"use client"
+
+import { SHARE_PERMISSIONS, SHARE_PERMISSION_LABELS, type SharePermission } from "@/lib/models"
+
+const PERMISSION_HINTS: Record<SharePermission, string> = {
+  comment: "Add notes on the video; your notes stay read-only to them",
+  download: "Also print and export the report, with your branding",
+  rerun: "Start a fresh analysis of the video",
+}
+
+interface SharePermissionsFieldsProps {
+  value: SharePermission[]
+  onChange: (value: SharePermission[]) => void
+  disabled?: boolean
+  // Labels only, for rows in the Manage shares panel
+  compact?: boolean
+}
+
+// Viewing is always allowed; with nothing ticked the share is view only
+export function SharePermissionsFields({ value, onChange, disabled = false, compact = false }: SharePermissionsFieldsProps) {
+  const toggle = (permission: SharePermission) =>
+    onChange(
+      value.includes(permission)
+        ? value.filter((existing) => existing !== permission)
+        : SHARE_PERMISSIONS.filter((existing) => existing === permission || value.includes(existing)),
+    )
+
+  return (
+    <div className={compact ? "flex flex-wrap gap-x-4 gap-y-1" : "space-y-2"}>
+      {SHARE_PERMISSIONS.map((permission) => (
+        <label
+          key={permission}
+          className={`flex items-start gap-2 text-sm text-gray-700 ${disabled ? "opacity-50" : "cursor-pointer"}`}
+        >
+          <input
+            type="checkbox"
+            checked={value.includes(permission)}
+            onChange={() => toggle(permission)}
+            disabled={disabled}
+            className="mt-0.5"
+          />
+          <span>
+            {SHARE_PERMISSION_LABELS[permission]}
+            {!compact && <span className="block text-xs text-gray-500">{PERMISSION_HINTS[permission]}</span>}
+          </span>
+        </label>
+      ))}
+    </div>
+  )
+}
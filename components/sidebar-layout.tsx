@@ -4,10 +4,13 @@ import type React from "react"
 import { useState } from "react"
 import Link from "next/link"
 import { usePathname, useRouter } from "next/navigation"
-import { Menu, X, Home, LogOut, User, Settings, Shield, Coins, Share2, Trophy } from "lucide-react"
+import { Menu, X, Home, LogOut, User, Settings, Shield, Coins, Share2, Trophy, Users, TrendingUp, Trash2, Building2 } from "lucide-react"
 import { useAuth } from "@/contexts/auth-context"
 import { CreditStatus } from "@/components/credit-status"
-import { ADMIN_UIDS } from "@/lib/constants"
+import { StudioSwitcher } from "@/components/studio-switcher"
+import { OfflineQueueStatus } from "@/components/offline-queue-status"
+import { ConnectivityBanner } from "@/components/connectivity-banner"
+import { useRole } from "@/hooks/use-role"
 import Image from "next/image"
 
 export function SidebarLayout({ children }: { children: React.ReactNode }) {
@@ -16,7 +19,7 @@ export function SidebarLayout({ children }: { children: React.ReactNode }) {
   const router = useRouter()
   const pathname = usePathname()
 
-  const isAdmin = currentUser && ADMIN_UIDS.includes(currentUser.uid)
+  const { isAdmin } = useRole()
 
   const handleLogout = async () => {
     try {
@@ -69,7 +72,9 @@ export function SidebarLayout({ children }: { children: React.ReactNode }) {
               </div>
             </div>
 
+            <StudioSwitcher />
             <CreditStatus />
+            <OfflineQueueStatus />
           </div>
 
           <ul className="space-y-1.5">
@@ -86,6 +91,58 @@ export function SidebarLayout({ children }: { children: React.ReactNode }) {
               </Link>
             </li>
 
+            <li>
+              <Link
+                href="/progress"
+                className={`flex items-center px-3 py-2 rounded-md ${
+                  pathname === "/progress" ? "bg-blue-100 text-blue-700" : "text-gray-700 hover:bg-gray-100"
+                }`}
+                onClick={closeSidebar}
+              >
+                <TrendingUp className="w-5 h-5 mr-3" />
+                Progress
+              </Link>
+            </li>
+
+            <li>
+              <Link
+                href="/roster"
+                className={`flex items-center px-3 py-2 rounded-md ${
+                  pathname === "/roster" ? "bg-blue-100 text-blue-700" : "text-gray-700 hover:bg-gray-100"
+                }`}
+                onClick={closeSidebar}
+              >
+                <Users className="w-5 h-5 mr-3" />
+                Dancers & Teams
+              </Link>
+            </li>
+
+            <li>
+              <Link
+                href="/studio"
+                className={`flex items-center px-3 py-2 rounded-md ${
+                  pathname === "/studio" ? "bg-blue-100 text-blue-700" : "text-gray-700 hover:bg-gray-100"
+                }`}
+                onClick={closeSidebar}
+              >
+                <Building2 className="w-5 h-5 mr-3" />
+                Studio
+              </Link>
+            </li>
+
+            <li>
+              <Link
+                href="/trash"
+                className={`flex items-center px-3 py-2 rounded-md ${
+                  pathname === "/trash" ? "bg-blue-100 text-blue-700" : "text-gray-700 hover:bg-gray-100"
+                }`}
+                onClick={closeSidebar}
+              >
+                <Trash2 className="w-5 h-5 mr-3" />
+                Trash
+              </Link>
+            </li>
+
             <li>
               <Link
                 href="/credits"
@@ -184,6 +241,8 @@ export function SidebarLayout({ children }: { children: React.ReactNode }) {
           </div>
         </header>
 
+        <ConnectivityBanner />
+
         <main className="flex-1 overflow-auto p-4 lg:p-6">{children}</main>
       </div>
     </div>
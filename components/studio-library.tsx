@@ -0,0 +1,139 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import { Search, AlertCircle, Library } from "lucide-react"
+import { AnalysisDetail } from "./analysis-detail"
+import { useApi } from "@/hooks/use-api"
+import type { AdminAnalysis, Studio } from "@/lib/models"
+import { analysisDate } from "@/lib/progress"
+import { formatScore } from "@/lib/scores"
+import { errorMessage } from "@/lib/api"
+
+// Every member's analyses, for the studio's owner and coaches. Coaches open
+// them like their own, so they can annotate, but can't share or delete them.
+export function StudioLibrary({ studio }: { studio: Studio }) {
+  const api = useApi()
+  const [analyses, setAnalyses] = useState<AdminAnalysis[]>([])
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+  const [searchTerm, setSearchTerm] = useState("")
+  const [memberFilter, setMemberFilter] = useState("")
+  const [selectedId, setSelectedId] = useState<string | null>(null)
+
+  useEffect(() => {
+    let cancelled = false
+    const fetchLibrary = async () => {
+      try {
+        const data = await api.studios.library(studio.id)
+        if (cancelled) return
+        setAnalyses(data.sort((a, b) => b.timestamp.localeCompare(a.timestamp)))
+        setError(null)
+      } catch (err) {
+        console.error("Failed to fetch studio library:", err)
+        if (!cancelled) setError(errorMessage(err) || "Failed to load the studio library")
+      } finally {
+        if (!cancelled) setLoading(false)
+      }
+    }
+
+    fetchLibrary()
+    return () => {
+      cancelled = true
+    }
+  }, [api, studio.id])
+
+  const selected = analyses.find((analysis) => analysis.id === selectedId)
+  if (selected) {
+    return <AnalysisDetail analysis={selected} onBack={() => setSelectedId(null)} />
+  }
+
+  const uploaders = Array.from(new Map(analyses.map((analysis) => [analysis.user_id, analysis.user_email])).entries())
+
+  const searchLower = searchTerm.toLowerCase()
+  const filtered = analyses.filter(
+    (analysis) =>
+      (!memberFilter || analysis.user_id === memberFilter) &&
+      (analysis.dance_type.toLowerCase().includes(searchLower) ||
+        analysis.dancers.toLowerCase().includes(searchLower) ||
+        analysis.user_email.toLowerCase().includes(searchLower)),
+  )
+
+  return (
+    <div className="bg-white rounded-lg shadow p-4 md:p-6">
+      <h3 className="text-lg font-semibold text-gray-800 flex items-center mb-4">
+        <Library className="w-5 h-5 mr-2" />
+        Library ({filtered.length})
+      </h3>
+
+      <div className="flex flex-col sm:flex-row gap-3 mb-4">
+        <div className="relative flex-1">
+          <input
+            type="text"
+            placeholder="Search by dance type, dancers, or member..."
+            className="w-full p-2 pl-10 border rounded-lg"
+            value={searchTerm}
+            onChange={(e) => setSearchTerm(e.target.value)}
+          />
+          <Search className="absolute left-3 top-2.5 w-5 h-5 text-gray-400" />
+        </div>
+        <select
+          value={memberFilter}
+          onChange={(e) => setMemberFilter(e.target.value)}
+          className="w-full sm:w-56 p-2 border rounded-lg bg-white"
+        >
+          <option value="">All members</option>
+          {uploaders.map(([userId, email]) => (
+            <option key={userId} value={userId}>
+              {email || "Unknown"}
+            </option>
+          ))}
+        </select>
+      </div>
+
+      {error && (
+        <div className="bg-red-100 border border-red-400 text-red-700 px-4 py-3 rounded mb-4 flex items-start">
+          <AlertCircle className="w-5 h-5 mr-2 mt-0.5 flex-shrink-0" />
+          <div>{error}</div>
+        </div>
+      )}
+
+      {loading ? (
+        <div className="flex justify-center items-center h-32">
+          <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
+        </div>
+      ) : filtered.length === 0 ? (
+        <div className="p-8 text-center text-gray-500">
+          {analyses.length === 0 ? "Analyses your members upload will appear here." : "No analyses match your filters"}
+        </div>
+      ) : (
+        <div className="divide-y border rounded-lg">
+          {filtered.map((analysis) => (
+            <div
+              key={analysis.id}
+              onClick={() => setSelectedId(analysis.id)}
+              className="grid grid-cols-4 gap-2 p-3 hover:bg-gray-50 cursor-pointer text-sm"
+            >
+              <div className="col-span-2 min-w-0">
+                <div className="font-medium truncate">{analysis.dance_type || "Unknown"}</div>
+                <div className="text-gray-600 truncate">{analysis.dancers || "Unknown dancers"}</div>
+              </div>
+              <div className="min-w-0">
+                <div className="text-gray-700 truncate">{analysis.user_email || "Unknown"}</div>
+                <div className="text-xs text-gray-500">{analysisDate(analysis.timestamp).toLocaleDateString()}</div>
+              </div>
+              <div className="text-right">
+                {analysis.scores.total !== undefined ? (
+                  <span className="px-2 py-1 bg-green-100 text-green-800 rounded-full font-semibold">
+                    {formatScore(analysis.scores.total, analysis.scores.maxTotal)}
+                  </span>
+                ) : (
+                  <span className="text-gray-400">{analysis.processed ? "N/A" : "Processing"}</span>
+                )}
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,244 @@
+"use client"
+
+import type React from "react"
+import { useEffect, useState } from "react"
+import { Users, UserPlus, Trash2, Loader2, AlertCircle, Mail, X } from "lucide-react"
+import { useAuth } from "@/contexts/auth-context"
+import { useConfirm } from "@/contexts/confirm-context"
+import { useApi } from "@/hooks/use-api"
+import { notify } from "@/lib/notify"
+import { STUDIO_ROLE_LABELS, type Studio, type StudioInvite, type StudioMember, type StudioRole } from "@/lib/models"
+import { errorMessage } from "@/lib/api"
+
+// Roles an invite or a role change can hand out; there is one owner per studio
+const ASSIGNABLE_ROLES: StudioRole[] = ["coach", "dancer"]
+
+interface StudioMembersProps {
+  studio: Studio
+  // Called when the member count changes
+  onMembersChanged?: () => void
+}
+
+/**
+ * Members and pending invites. Owners and coaches invite; only the owner
+ * changes roles or removes members.
+ */
+export function StudioMembers({ studio, onMembersChanged }: StudioMembersProps) {
+  const { currentUser } = useAuth()
+  const api = useApi()
+  const confirm = useConfirm()
+
+  const [members, setMembers] = useState<StudioMember[]>([])
+  const [invites, setInvites] = useState<StudioInvite[]>([])
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+
+  const [inviteEmail, setInviteEmail] = useState("")
+  const [inviteRole, setInviteRole] = useState<StudioRole>("dancer")
+  const [inviting, setInviting] = useState(false)
+
+  const isOwner = studio.role === "owner"
+  const canInvite = isOwner || studio.role === "coach"
+
+  useEffect(() => {
+    let cancelled = false
+    const fetchMembers = async () => {
+      try {
+        const [memberList, inviteList] = await Promise.all([
+          api.studios.members.list(studio.id),
+          canInvite ? api.studios.invites.list(studio.id) : Promise.resolve([]),
+        ])
+        if (cancelled) return
+        setMembers(memberList)
+        setInvites(inviteList)
+        setError(null)
+      } catch (err) {
+        console.error("Failed to fetch studio members:", err)
+        if (!cancelled) setError(errorMessage(err) || "Failed to load members")
+      } finally {
+        if (!cancelled) setLoading(false)
+      }
+    }
+
+    fetchMembers()
+    return () => {
+      cancelled = true
+    }
+  }, [api, studio.id, canInvite])
+
+  const handleInvite = async (e: React.FormEvent) => {
+    e.preventDefault()
+    const email = inviteEmail.trim()
+    if (!email) return
+
+    try {
+      setInviting(true)
+      const invite = await api.studios.invites.create(studio.id, { email, role: inviteRole })
+      setInvites((current) => [...current, invite])
+      setInviteEmail("")
+      notify.success("Invite sent", `${email} can accept it from their Studio page.`)
+    } catch (err) {
+      console.error("Failed to invite:", err)
+      notify.error("Failed to send invite", errorMessage(err))
+    } finally {
+      setInviting(false)
+    }
+  }
+
+  const handleRevokeInvite = async (invite: StudioInvite) => {
+    try {
+      await api.studios.invites.revoke(studio.id, invite.id)
+      setInvites((current) => current.filter((existing) => existing.id !== invite.id))
+    } catch (err) {
+      console.error("Failed to revoke invite:", err)
+      notify.error("Failed to revoke invite", errorMessage(err))
+    }
+  }
+
+  const handleRoleChange = async (member: StudioMember, role: StudioRole) => {
+    try {
+      const updated = await api.studios.members.update(studio.id, member.user_id, role)
+      setMembers((current) => current.map((existing) => (existing.user_id === updated.user_id ? updated : existing)))
+    } catch (err) {
+      console.error("Failed to change role:", err)
+      notify.error("Failed to change role", errorMessage(err))
+    }
+  }
+
+  const handleRemove = async (member: StudioMember) => {
+    const confirmed = await confirm({
+      title: `Remove ${member.displayName || member.email}?`,
+      description: "Their analyses leave the studio library. Analyses they already uploaded stay in their own account.",
+      confirmLabel: "Remove",
+      destructive: true,
+    })
+    if (!confirmed) return
+
+    try {
+      await api.studios.members.remove(studio.id, member.user_id)
+      setMembers((current) => current.filter((existing) => existing.user_id !== member.user_id))
+      onMembersChanged?.()
+      notify.success("Member removed")
+    } catch (err) {
+      console.error("Failed to remove member:", err)
+      notify.error("Failed to remove member", errorMessage(err))
+    }
+  }
+
+  return (
+    <div className="bg-white rounded-lg shadow p-4 md:p-6">
+      <h3 className="text-lg font-semibold text-gray-800 flex items-center mb-4">
+        <Users className="w-5 h-5 mr-2" />
+        Members ({members.length})
+      </h3>
+
+      {error && (
+        <div className="bg-red-100 border border-red-400 text-red-700 px-4 py-3 rounded mb-4 flex items-start">
+          <AlertCircle className="w-5 h-5 mr-2 mt-0.5 flex-shrink-0" />
+          <div>{error}</div>
+        </div>
+      )}
+
+      {canInvite && (
+        <form onSubmit={handleInvite} className="flex flex-col sm:flex-row gap-2 mb-4">
+          <input
+            type="email"
+            required
+            placeholder="Dancer's email"
+            className="flex-1 p-2 border rounded-lg"
+            value={inviteEmail}
+            onChange={(e) => setInviteEmail(e.target.value)}
+          />
+          <select
+            value={inviteRole}
+            onChange={(e) => setInviteRole(e.target.value as StudioRole)}
+            className="p-2 border rounded-lg bg-white"
+          >
+            {ASSIGNABLE_ROLES.map((role) => (
+              <option key={role} value={role}>
+                {STUDIO_ROLE_LABELS[role]}
+              </option>
+            ))}
+          </select>
+          <button
+            type="submit"
+            disabled={inviting}
+            className="flex items-center justify-center px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:opacity-50"
+          >
+            {inviting ? <Loader2 className="w-4 h-4 mr-1 animate-spin" /> : <UserPlus className="w-4 h-4 mr-1" />}
+            Invite
+          </button>
+        </form>
+      )}
+
+      {loading ? (
+        <div className="flex justify-center items-center h-24">
+          <div className="animate-spin rounded-full h-6 w-6 border-b-2 border-blue-600"></div>
+        </div>
+      ) : (
+        <div className="divide-y border rounded-lg">
+          {members.map((member) => {
+            const isSelf = member.user_id === currentUser?.uid
+            return (
+              <div key={member.user_id} className="flex items-center justify-between gap-2 p-3 text-sm">
+                <div className="min-w-0">
+                  <div className="font-medium truncate">
+                    {member.displayName || member.email}
+                    {isSelf && <span className="ml-2 text-xs text-gray-500">(you)</span>}
+                  </div>
+                  {member.displayName && <div className="text-xs text-gray-500 truncate">{member.email}</div>}
+                </div>
+                <div className="flex items-center gap-2">
+                  {isOwner && member.role !== "owner" ? (
+                    <>
+                      <select
+                        value={member.role}
+                        onChange={(e) => handleRoleChange(member, e.target.value as StudioRole)}
+                        className="p-1 border rounded bg-white"
+                        aria-label={`Role of ${member.email}`}
+                      >
+                        {ASSIGNABLE_ROLES.map((role) => (
+                          <option key={role} value={role}>
+                            {STUDIO_ROLE_LABELS[role]}
+                          </option>
+                        ))}
+                      </select>
+                      <button
+                        onClick={() => handleRemove(member)}
+                        className="p-1.5 text-red-600 hover:text-red-800 hover:bg-red-50 rounded"
+                        title="Remove from studio"
+                      >
+                        <Trash2 className="w-4 h-4" />
+                      </button>
+                    </>
+                  ) : (
+                    <span className="px-2 py-0.5 bg-gray-100 text-gray-700 rounded-full text-xs">
+                      {STUDIO_ROLE_LABELS[member.role]}
+                    </span>
+                  )}
+                </div>
+              </div>
+            )
+          })}
+
+          {invites.map((invite) => (
+            <div key={invite.id} className="flex items-center justify-between gap-2 p-3 text-sm text-gray-500">
+              <div className="flex items-center min-w-0">
+                <Mail className="w-4 h-4 mr-2 flex-shrink-0" />
+                <span className="truncate">{invite.email}</span>
+                <span className="ml-2 text-xs">invited as {STUDIO_ROLE_LABELS[invite.role].toLowerCase()}</span>
+              </div>
+              <button
+                onClick={() => handleRevokeInvite(invite)}
+                className="p-1.5 hover:text-red-600 hover:bg-red-50 rounded"
+                title="Revoke invite"
+              >
+                <X className="w-4 h-4" />
+              </button>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  )
+}
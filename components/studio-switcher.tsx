@@ -0,0 +1,43 @@
+"use client"
+import Link from "next/link"
+import { Building2, Mail } from "lucide-react"
+import { useStudio } from "@/contexts/studio-context"
+import { STUDIO_ROLE_LABELS } from "@/lib/models"
+
+export function StudioSwitcher() {
+  const { studios, activeStudio, setActiveStudioId, invites } = useStudio()
+
+  if (studios.length === 0 && invites.length === 0) return null
+
+  return (
+    <div className="mb-3">
+      {studios.length > 0 && (
+        <label className="block">
+          <span className="flex items-center text-xs font-medium text-gray-500 mb-1">
+            <Building2 className="w-3.5 h-3.5 mr-1" />
+            Working in
+          </span>
+          <select
+            value={activeStudio?.id ?? ""}
+            onChange={(e) => setActiveStudioId(e.target.value || null)}
+            className="w-full p-1.5 text-sm border rounded-md bg-white"
+          >
+            <option value="">Personal</option>
+            {studios.map((studio) => (
+              <option key={studio.id} value={studio.id}>
+                {studio.name} ({STUDIO_ROLE_LABELS[studio.role]})
+              </option>
+            ))}
+          </select>
+        </label>
+      )}
+
+      {invites.length > 0 && (
+        <Link href="/studio" className="mt-2 flex items-center text-xs text-blue-700 hover:underline">
+          <Mail className="w-3.5 h-3.5 mr-1" />
+          {invites.length === 1 ? "1 studio invite" : `${invites.length} studio invites`} waiting
+        </Link>
+      )}
+    </div>
+  )
+}
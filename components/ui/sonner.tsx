@@ -0,0 +1,23 @@
+"use client"
+
+import type React from "react"
+import { Toaster as Sonner, type ToasterProps } from "sonner"
+
+const Toaster = (props: ToasterProps) => (
+  <Sonner
+    className="toaster group"
+    position="bottom-right"
+    richColors
+    closeButton
+    style={
+      {
+        "--normal-bg": "var(--popover)",
+        "--normal-text": "var(--popover-foreground)",
+        "--normal-border": "var(--border)",
+      } as React.CSSProperties
+    }
+    {...props}
+  />
+)
+
+export { Toaster }
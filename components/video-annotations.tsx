@@ -0,0 +1,355 @@
+"use client"
+
+import type React from "react"
+import { useEffect, useRef, useState } from "react"
+import { MessageSquarePlus, Pencil, Brush, Trash2, Undo2, Eraser, Loader2, AlertCircle } from "lucide-react"
+import { VideoPlayer, formatVideoTime, type VideoMarker } from "./video-player"
+import { AnnotationDrawing, DRAWING_COLORS } from "./annotation-drawing"
+import { useAuth } from "@/contexts/auth-context"
+import { useApi } from "@/hooks/use-api"
+import { errorMessage, type ShareLinkAccess } from "@/lib/api"
+import type { Annotation, DrawingStroke } from "@/lib/models"
+import { undoable } from "@/lib/notify"
+
+// How close to an annotation's time the paused video must be to show its drawing
+const DRAWING_WINDOW = 0.3
+
+interface VideoAnnotationsProps {
+  analysisId: string
+  videoUrl: string
+  // Shared viewers go through the share; unless readOnly they may add notes and edit their own
+  shareId?: string
+  // Visitors of a public link read them through the link instead
+  linkAccess?: ShareLinkAccess
+  readOnly?: boolean
+  className?: string
+  // For callers that also seek the video, e.g. from links in the report
+  videoRef?: React.RefObject<HTMLVideoElement | null>
+}
+
+interface AnnotationDraft {
+  // Set when editing an existing annotation
+  id?: string
+  time: number
+  text: string
+  drawing: DrawingStroke[]
+}
+
+export function VideoAnnotations({
+  analysisId,
+  videoUrl,
+  shareId,
+  linkAccess,
+  readOnly = false,
+  className,
+  videoRef: externalVideoRef,
+}: VideoAnnotationsProps) {
+  const { currentUser } = useAuth()
+  const api = useApi()
+  const ownVideoRef = useRef<HTMLVideoElement>(null)
+  const videoRef = externalVideoRef ?? ownVideoRef
+
+  const [annotations, setAnnotations] = useState<Annotation[]>([])
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+  const [currentTime, setCurrentTime] = useState(0)
+  const [playing, setPlaying] = useState(false)
+  const [selectedId, setSelectedId] = useState<string | null>(null)
+
+  const [draft, setDraft] = useState<AnnotationDraft | null>(null)
+  const [drawing, setDrawing] = useState(false)
+  const [color, setColor] = useState(DRAWING_COLORS[0])
+  const [saving, setSaving] = useState(false)
+
+  // By value: callers pass a new linkAccess object on every render
+  const linkToken = linkAccess?.token
+  const linkPassword = linkAccess?.password
+
+  useEffect(() => {
+    let cancelled = false
+    const fetchAnnotations = async () => {
+      try {
+        const data = linkToken
+          ? await api.publicLinks.annotations({ token: linkToken, password: linkPassword })
+          : shareId
+            ? await api.sharedAnalyses.annotations.list(shareId)
+            : await api.analyses.annotations.list(analysisId)
+        if (cancelled) return
+        setAnnotations(data)
+        setError(null)
+      } catch (err) {
+        console.error("Failed to load annotations:", err)
+        if (!cancelled) setError("Failed to load annotations")
+      } finally {
+        if (!cancelled) setLoading(false)
+      }
+    }
+
+    fetchAnnotations()
+    return () => {
+      cancelled = true
+    }
+  }, [api, analysisId, shareId, linkToken, linkPassword])
+
+  const sorted = [...annotations].sort((a, b) => a.time - b.time)
+
+  // Commenting on a share: the owner's notes stay theirs
+  const canModify = (annotation: Annotation) =>
+    !readOnly && (!shareId || (!!currentUser?.email && annotation.author_email === currentUser.email))
+
+  const seekTo = (time: number) => {
+    if (!videoRef.current) return
+    videoRef.current.pause()
+    videoRef.current.currentTime = time
+  }
+
+  const selectAnnotation = (annotation: Annotation) => {
+    setSelectedId(annotation.id)
+    seekTo(annotation.time)
+  }
+
+  const startDraft = () => {
+    videoRef.current?.pause()
+    setSelectedId(null)
+    setDraft({ time: videoRef.current?.currentTime ?? currentTime, text: "", drawing: [] })
+    setDrawing(false)
+  }
+
+  const editAnnotation = (annotation: Annotation) => {
+    selectAnnotation(annotation)
+    setDraft({ id: annotation.id, time: annotation.time, text: annotation.text, drawing: annotation.drawing })
+    setDrawing(false)
+  }
+
+  const cancelDraft = () => {
+    setDraft(null)
+    setDrawing(false)
+  }
+
+  const saveDraft = async () => {
+    if (!draft || (!draft.text.trim() && draft.drawing.length === 0)) return
+
+    const payload = { time: draft.time, text: draft.text.trim(), drawing: draft.drawing }
+    try {
+      setSaving(true)
+      const saved = shareId
+        ? draft.id
+          ? await api.sharedAnalyses.annotations.update(shareId, draft.id, payload)
+          : await api.sharedAnalyses.annotations.create(shareId, payload)
+        : draft.id
+          ? await api.analyses.annotations.update(analysisId, draft.id, payload)
+          : await api.analyses.annotations.create(analysisId, payload)
+      setAnnotations((current) => [...current.filter((annotation) => annotation.id !== saved.id), saved])
+      setSelectedId(saved.id)
+      setDraft(null)
+      setDrawing(false)
+      setError(null)
+    } catch (err) {
+      console.error("Failed to save annotation:", err)
+      setError(errorMessage(err) || "Failed to save annotation")
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  // Hidden right away; the DELETE goes out once the undo window has passed
+  const deleteAnnotation = (annotation: Annotation) => {
+    setAnnotations((current) => current.filter((existing) => existing.id !== annotation.id))
+    if (draft?.id === annotation.id) cancelDraft()
+
+    undoable({
+      message: `Note at ${formatVideoTime(annotation.time)} deleted`,
+      commit: ({ keepalive }) =>
+        shareId
+          ? api.sharedAnalyses.annotations.remove(shareId, annotation.id, { keepalive })
+          : api.analyses.annotations.remove(analysisId, annotation.id, { keepalive }),
+      revert: () => setAnnotations((current) => [...current, annotation]),
+      errorMessage: "Failed to delete note",
+    })
+  }
+
+  const markers: VideoMarker[] = sorted.map((annotation) => ({
+    id: annotation.id,
+    time: annotation.time,
+    label: annotation.text || "Drawing",
+    active: annotation.id === selectedId,
+  }))
+
+  // The note the paused video is sitting on: the selected one first, else any with a drawing
+  const pausedOn = playing
+    ? undefined
+    : sorted
+        .filter((annotation) => Math.abs(annotation.time - currentTime) <= DRAWING_WINDOW)
+        .sort((a, b) => Number(b.id === selectedId) - Number(a.id === selectedId))
+        .find((annotation) => annotation.drawing.length > 0)
+  const shownDrawing = draft ? draft.drawing : pausedOn?.drawing || []
+
+  const overlay =
+    draft && drawing ? (
+      <AnnotationDrawing
+        strokes={draft.drawing}
+        color={color}
+        onStrokesChange={(strokes) => setDraft({ ...draft, drawing: strokes })}
+      />
+    ) : shownDrawing.length > 0 ? (
+      <AnnotationDrawing strokes={shownDrawing} />
+    ) : undefined
+
+  return (
+    <div className={className}>
+      <VideoPlayer
+        ref={videoRef}
+        videoUrl={videoUrl}
+        className="shadow"
+        markers={markers}
+        onMarkerClick={(marker) => {
+          const annotation = sorted.find((candidate) => candidate.id === marker.id)
+          if (annotation) selectAnnotation(annotation)
+        }}
+        overlay={overlay}
+        onTimeUpdate={setCurrentTime}
+        onPlayingChange={(value) => {
+          setPlaying(value)
+          if (value) setDrawing(false)
+        }}
+      />
+
+      {error && (
+        <div className="mt-3 text-sm text-red-600 flex items-center">
+          <AlertCircle className="w-4 h-4 mr-1" />
+          {error}
+        </div>
+      )}
+
+      {!readOnly && !draft && (
+        <button
+          onClick={startDraft}
+          className="mt-3 flex items-center px-3 py-1.5 text-sm border rounded-lg hover:bg-gray-50"
+        >
+          <MessageSquarePlus className="w-4 h-4 mr-1" />
+          Add note at {formatVideoTime(currentTime)}
+        </button>
+      )}
+
+      {draft && (
+        <div className="mt-3 border rounded-lg p-3 bg-gray-50">
+          <p className="text-sm font-medium text-gray-700 mb-2">
+            {draft.id ? "Edit note" : "New note"} at {formatVideoTime(draft.time)}
+          </p>
+          <textarea
+            value={draft.text}
+            onChange={(e) => setDraft({ ...draft, text: e.target.value })}
+            placeholder="e.g. Heel lead late"
+            rows={2}
+            className="w-full p-2 border rounded-lg text-sm"
+            autoFocus
+          />
+          <div className="flex flex-wrap items-center gap-2 mt-2">
+            <button
+              onClick={() => {
+                videoRef.current?.pause()
+                setDrawing(!drawing)
+              }}
+              className={`flex items-center px-3 py-1 text-sm border rounded-lg ${
+                drawing ? "bg-blue-100 border-blue-300 text-blue-700" : "hover:bg-white"
+              }`}
+            >
+              <Brush className="w-4 h-4 mr-1" />
+              {drawing ? "Drawing on frame" : "Draw on frame"}
+            </button>
+            {drawing && (
+              <>
+                {DRAWING_COLORS.map((option) => (
+                  <button
+                    key={option}
+                    onClick={() => setColor(option)}
+                    className={`w-6 h-6 rounded-full border-2 ${option === color ? "border-gray-800" : "border-gray-300"}`}
+                    style={{ backgroundColor: option }}
+                    aria-label={`Draw in ${option}`}
+                  />
+                ))}
+                <button
+                  onClick={() => setDraft({ ...draft, drawing: draft.drawing.slice(0, -1) })}
+                  disabled={draft.drawing.length === 0}
+                  className="p-1 text-gray-600 hover:text-gray-800 disabled:opacity-40"
+                  title="Undo last stroke"
+                >
+                  <Undo2 className="w-4 h-4" />
+                </button>
+                <button
+                  onClick={() => setDraft({ ...draft, drawing: [] })}
+                  disabled={draft.drawing.length === 0}
+                  className="p-1 text-gray-600 hover:text-gray-800 disabled:opacity-40"
+                  title="Clear drawing"
+                >
+                  <Eraser className="w-4 h-4" />
+                </button>
+              </>
+            )}
+            <div className="ml-auto flex gap-2">
+              <button onClick={cancelDraft} className="px-3 py-1 text-sm text-gray-600 hover:text-gray-800">
+                Cancel
+              </button>
+              <button
+                onClick={saveDraft}
+                disabled={saving || (!draft.text.trim() && draft.drawing.length === 0)}
+                className="flex items-center px-3 py-1 text-sm bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:bg-gray-400"
+              >
+                {saving && <Loader2 className="w-4 h-4 mr-1 animate-spin" />}
+                Save note
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+
+      {loading ? (
+        <div className="mt-3 text-sm text-gray-500 flex items-center">
+          <Loader2 className="w-4 h-4 mr-1 animate-spin" />
+          Loading notes...
+        </div>
+      ) : sorted.length > 0 ? (
+        <ul className="mt-4 divide-y border rounded-lg">
+          {sorted.map((annotation) => (
+            <li
+              key={annotation.id}
+              className={`flex items-start gap-3 p-3 text-sm ${annotation.id === selectedId ? "bg-yellow-50" : ""}`}
+            >
+              <button
+                onClick={() => selectAnnotation(annotation)}
+                className="font-mono text-blue-600 hover:text-blue-800 whitespace-nowrap"
+              >
+                {formatVideoTime(annotation.time)}
+              </button>
+              <div className="flex-1">
+                <p className="text-gray-800 whitespace-pre-line">{annotation.text || <em>Drawing</em>}</p>
+                {annotation.author_email && <p className="text-xs text-gray-500 mt-0.5">{annotation.author_email}</p>}
+              </div>
+              {annotation.drawing.length > 0 && <Brush className="w-4 h-4 text-gray-400" aria-label="Has a drawing" />}
+              {canModify(annotation) && (
+                <div className="flex gap-1">
+                  <button
+                    onClick={() => editAnnotation(annotation)}
+                    className="p-1 text-gray-500 hover:text-blue-600"
+                    title="Edit note"
+                  >
+                    <Pencil className="w-4 h-4" />
+                  </button>
+                  <button
+                    onClick={() => deleteAnnotation(annotation)}
+                    className="p-1 text-gray-500 hover:text-red-600"
+                    title="Delete note"
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </button>
+                </div>
+              )}
+            </li>
+          ))}
+        </ul>
+      ) : (
+        readOnly && <p className="mt-3 text-sm text-gray-500">No notes on this video.</p>
+      )}
+    </div>
+  )
+}
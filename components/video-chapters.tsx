@@ -0,0 +1,64 @@
+"use client"
+
+import type React from "react"
+import { useEffect, useState } from "react"
+import { ListVideo } from "lucide-react"
+import { formatVideoTime } from "./video-player"
+import type { AnalysisSegment } from "@/lib/models"
+
+interface VideoChaptersProps {
+  segments: AnalysisSegment[]
+  videoRef: React.RefObject<HTMLVideoElement | null>
+  onSeek: (time: number) => void
+}
+
+export function VideoChapters({ segments, videoRef, onSeek }: VideoChaptersProps) {
+  const [currentTime, setCurrentTime] = useState(0)
+
+  useEffect(() => {
+    const video = videoRef.current
+    if (!video) return
+    const update = () => setCurrentTime(video.currentTime)
+    video.addEventListener("timeupdate", update)
+    video.addEventListener("seeked", update)
+    return () => {
+      video.removeEventListener("timeupdate", update)
+      video.removeEventListener("seeked", update)
+    }
+  }, [videoRef])
+
+  if (segments.length === 0) return null
+
+  // A segment without an end runs until the next one starts
+  const activeIndex = segments.findIndex(
+    (segment, index) =>
+      currentTime >= segment.start && currentTime < (segment.end ?? segments[index + 1]?.start ?? Infinity),
+  )
+
+  return (
+    <div className="mt-4">
+      <h3 className="text-sm font-semibold text-gray-700 mb-2 flex items-center">
+        <ListVideo className="w-4 h-4 mr-1" />
+        Chapters
+      </h3>
+      <ol className="border rounded-lg divide-y">
+        {segments.map((segment, index) => (
+          <li key={`${segment.start}-${index}`}>
+            <button
+              onClick={() => onSeek(segment.start)}
+              className={`w-full flex items-center gap-3 px-3 py-2 text-sm text-left hover:bg-gray-50 ${
+                index === activeIndex ? "bg-blue-50 text-blue-800" : "text-gray-800"
+              }`}
+            >
+              <span className="font-mono text-blue-600">{formatVideoTime(segment.start)}</span>
+              <span className="flex-1">{segment.title || `Chapter ${index + 1}`}</span>
+              {segment.end !== undefined && (
+                <span className="text-xs text-gray-500">{formatVideoTime(segment.end - segment.start)}</span>
+              )}
+            </button>
+          </li>
+        ))}
+      </ol>
+    </div>
+  )
+}
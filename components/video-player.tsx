@@ -1,27 +1,128 @@
 "use client"
 
 import type React from "react"
-import { useState, useRef } from "react"
-import { Loader2 } from "lucide-react"
+import { useState, useRef, useCallback, useEffect } from "react"
+import {
+  FlipHorizontal2,
+  Keyboard,
+  Loader2,
+  Maximize,
+  Pause,
+  Play,
+  Repeat,
+  StepBack,
+  StepForward,
+  Volume2,
+  VolumeX,
+  X,
+} from "lucide-react"
+
+// A clickable tick on the scrubber
+export interface VideoMarker {
+  id: string
+  // Seconds from the start of the video
+  time: number
+  label: string
+  active?: boolean
+}
 
 interface VideoPlayerProps {
   videoUrl: string
   className?: string
+  // The underlying <video>, for callers that drive playback themselves
+  ref?: React.Ref<HTMLVideoElement>
+  markers?: VideoMarker[]
+  onMarkerClick?: (marker: VideoMarker) => void
+  // Rendered over the frame, under the controls, e.g. an annotation drawing
+  overlay?: React.ReactNode
+  onTimeUpdate?: (time: number) => void
+  onPlayingChange?: (playing: boolean) => void
+  // Browsers don't expose it; uploads are mostly 30 fps phone video
+  frameRate?: number
+}
+
+export const PLAYBACK_RATES = [0.1, 0.25, 0.5, 0.75, 1, 1.25, 1.5, 2]
+
+// Shortcuts work while the player has focus (click it or tab to it)
+const SHORTCUTS = [
+  { keys: "Space / K", action: "Play or pause" },
+  { keys: "← / →", action: "Back or forward 5 seconds" },
+  { keys: ", / .", action: "Previous or next frame" },
+  { keys: "[ / ]", action: "Slower or faster" },
+  { keys: "A / B", action: "Set loop start or end" },
+  { keys: "C", action: "Clear loop" },
+  { keys: "R", action: "Mirror" },
+  { keys: "M", action: "Mute" },
+  { keys: "F", action: "Fullscreen" },
+  { keys: "?", action: "Show shortcuts" },
+]
+
+export const formatVideoTime = (seconds: number) => {
+  const whole = Math.max(0, Math.floor(seconds))
+  const minutes = Math.floor(whole / 60)
+  return `${minutes}:${String(whole % 60).padStart(2, "0")}`
 }
 
-export function VideoPlayer({ videoUrl, className }: VideoPlayerProps) {
+const formatRate = (rate: number) => `${rate}x`
+
+export function VideoPlayer({
+  videoUrl,
+  className,
+  ref,
+  markers = [],
+  onMarkerClick,
+  overlay,
+  onTimeUpdate,
+  onPlayingChange,
+  frameRate = 30,
+}: VideoPlayerProps) {
   const [isPlaying, setIsPlaying] = useState(false)
   const [isMuted, setIsMuted] = useState(false)
   const [isLoading, setIsLoading] = useState(true)
   const [error, setError] = useState<string | null>(null)
+  const [currentTime, setCurrentTime] = useState(0)
+  const [duration, setDuration] = useState(0)
+  const [playbackRate, setPlaybackRate] = useState(1)
+  const [mirrored, setMirrored] = useState(false)
+  const [loopStart, setLoopStart] = useState<number | null>(null)
+  const [loopEnd, setLoopEnd] = useState<number | null>(null)
+  const [showShortcuts, setShowShortcuts] = useState(false)
   const videoRef = useRef<HTMLVideoElement>(null)
+  const containerRef = useRef<HTMLDivElement>(null)
+  const scrubberRef = useRef<HTMLDivElement>(null)
+  const scrubbingRef = useRef(false)
+
+  const setVideo = useCallback(
+    (video: HTMLVideoElement | null) => {
+      videoRef.current = video
+      if (typeof ref === "function") ref(video)
+      else if (ref) ref.current = video
+    },
+    [ref],
+  )
+
+  const loop = loopStart !== null && loopEnd !== null && loopEnd > loopStart ? { start: loopStart, end: loopEnd } : null
+
+  // timeupdate only fires a few times a second, too coarse for short loops
+  useEffect(() => {
+    if (!isPlaying || loopStart === null || loopEnd === null) return
+    let frame = 0
+    const check = () => {
+      const video = videoRef.current
+      if (video && (video.currentTime >= loopEnd || video.currentTime < loopStart - 0.5)) {
+        video.currentTime = loopStart
+      }
+      frame = requestAnimationFrame(check)
+    }
+    frame = requestAnimationFrame(check)
+    return () => cancelAnimationFrame(frame)
+  }, [isPlaying, loopStart, loopEnd])
 
   const handleVideoClick = (e: React.MouseEvent) => {
     e.stopPropagation()
   }
 
-  const handlePlayPause = (e: React.MouseEvent) => {
-    e.stopPropagation()
+  const togglePlay = () => {
     if (videoRef.current) {
       if (isPlaying) {
         videoRef.current.pause()
@@ -32,23 +133,37 @@ export function VideoPlayer({ videoUrl, className }: VideoPlayerProps) {
     }
   }
 
-  const handleMute = (e: React.MouseEvent) => {
+  const handlePlayPause = (e: React.MouseEvent) => {
     e.stopPropagation()
+    togglePlay()
+  }
+
+  const toggleMute = () => {
     if (videoRef.current) {
       videoRef.current.muted = !isMuted
       setIsMuted(!isMuted)
     }
   }
 
-  const handleFullscreen = (e: React.MouseEvent) => {
+  const handleMute = (e: React.MouseEvent) => {
     e.stopPropagation()
-    if (videoRef.current) {
-      if (videoRef.current.requestFullscreen) {
-        videoRef.current.requestFullscreen()
-      }
+    toggleMute()
+  }
+
+  // The container goes fullscreen so the scrubber and overlay come along
+  const toggleFullscreen = () => {
+    if (document.fullscreenElement) {
+      document.exitFullscreen()
+    } else if (containerRef.current?.requestFullscreen) {
+      containerRef.current.requestFullscreen()
     }
   }
 
+  const handleFullscreen = (e: React.MouseEvent) => {
+    e.stopPropagation()
+    toggleFullscreen()
+  }
+
   const handleLoadStart = () => {
     setIsLoading(true)
     setError(null)
@@ -64,34 +179,301 @@ export function VideoPlayer({ videoUrl, className }: VideoPlayerProps) {
     setError("Error loading video. Please try again.")
   }
 
+  const handlePlayingChange = (playing: boolean) => {
+    setIsPlaying(playing)
+    onPlayingChange?.(playing)
+  }
+
+  const handleTimeUpdate = () => {
+    if (!videoRef.current) return
+    setCurrentTime(videoRef.current.currentTime)
+    onTimeUpdate?.(videoRef.current.currentTime)
+  }
+
+  const handleDurationChange = () => {
+    const value = videoRef.current?.duration
+    setDuration(value && Number.isFinite(value) ? value : 0)
+  }
+
+  const seekTo = (time: number) => {
+    if (!videoRef.current || !duration) return
+    videoRef.current.currentTime = Math.max(0, Math.min(time, duration))
+    handleTimeUpdate()
+  }
+
+  const stepFrame = (direction: 1 | -1) => {
+    if (!videoRef.current) return
+    videoRef.current.pause()
+    seekTo(videoRef.current.currentTime + direction / frameRate)
+  }
+
+  const changeRate = (rate: number) => {
+    if (videoRef.current) videoRef.current.playbackRate = rate
+    setPlaybackRate(rate)
+  }
+
+  const stepRate = (direction: 1 | -1) => {
+    const index = PLAYBACK_RATES.indexOf(playbackRate)
+    const from = index < 0 ? PLAYBACK_RATES.indexOf(1) : index
+    changeRate(PLAYBACK_RATES[Math.max(0, Math.min(PLAYBACK_RATES.length - 1, from + direction))])
+  }
+
+  const markLoopStart = () => {
+    const time = videoRef.current?.currentTime ?? currentTime
+    setLoopStart(time)
+    if (loopEnd !== null && loopEnd <= time) setLoopEnd(null)
+  }
+
+  const markLoopEnd = () => {
+    const time = videoRef.current?.currentTime ?? currentTime
+    if (loopStart === null || time <= loopStart) return
+    setLoopEnd(time)
+    seekTo(loopStart)
+  }
+
+  const clearLoop = () => {
+    setLoopStart(null)
+    setLoopEnd(null)
+  }
+
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    if (e.target instanceof HTMLInputElement || e.target instanceof HTMLSelectElement) return
+    if (e.metaKey || e.ctrlKey || e.altKey) return
+
+    const actions: Record<string, () => void> = {
+      " ": togglePlay,
+      k: togglePlay,
+      ArrowLeft: () => seekTo(currentTime - 5),
+      ArrowRight: () => seekTo(currentTime + 5),
+      ",": () => stepFrame(-1),
+      ".": () => stepFrame(1),
+      "[": () => stepRate(-1),
+      "]": () => stepRate(1),
+      a: markLoopStart,
+      b: markLoopEnd,
+      c: clearLoop,
+      r: () => setMirrored(!mirrored),
+      m: toggleMute,
+      f: toggleFullscreen,
+      "?": () => setShowShortcuts(!showShortcuts),
+      Escape: () => setShowShortcuts(false),
+    }
+    const action = actions[e.key.length === 1 ? e.key.toLowerCase() : e.key]
+    if (!action) return
+    e.preventDefault()
+    e.stopPropagation()
+    action()
+  }
+
+  const seekToPointer = (e: React.PointerEvent) => {
+    const bar = scrubberRef.current?.getBoundingClientRect()
+    if (!bar || bar.width === 0) return
+    seekTo(((e.clientX - bar.left) / bar.width) * duration)
+  }
+
+  const handleScrubStart = (e: React.PointerEvent<HTMLDivElement>) => {
+    e.stopPropagation()
+    scrubbingRef.current = true
+    e.currentTarget.setPointerCapture(e.pointerId)
+    seekToPointer(e)
+  }
+
+  const handleScrubMove = (e: React.PointerEvent) => {
+    if (scrubbingRef.current) seekToPointer(e)
+  }
+
+  const handleScrubEnd = () => {
+    scrubbingRef.current = false
+  }
+
+  const percentOf = (time: number) => (duration ? `${Math.min(100, (time / duration) * 100)}%` : "0%")
+
   if (!videoUrl) {
     return null
   }
 
   return (
     <div
-      className={`relative w-full aspect-video rounded-lg overflow-hidden bg-gray-900 ${className}`}
+      ref={containerRef}
+      tabIndex={0}
+      className={`relative w-full aspect-video rounded-lg overflow-hidden bg-gray-900 group focus:outline-none focus-visible:ring-2 focus-visible:ring-blue-500 ${className}`}
       onClick={handleVideoClick}
+      onKeyDown={handleKeyDown}
     >
-      <video
-        ref={videoRef}
-        className="w-full h-full object-contain"
-        onLoadStart={handleLoadStart}
-        onLoadedData={handleLoadedData}
-        onError={handleError}
-        onPlay={() => setIsPlaying(true)}
-        onPause={() => setIsPlaying(false)}
-        onClick={handleVideoClick}
-        controls
-        controlsList="nodownload"
-        playsInline
-      >
-        <source src={videoUrl} type="video/mp4" />
-        Your browser does not support the video tag.
-      </video>
+      {/* Mirroring flips the frame and any drawing on it together */}
+      <div className={`absolute inset-0 ${mirrored ? "-scale-x-100" : ""}`}>
+        <video
+          ref={setVideo}
+          className="w-full h-full object-contain"
+          onLoadStart={handleLoadStart}
+          onLoadedData={handleLoadedData}
+          onError={handleError}
+          onPlay={() => handlePlayingChange(true)}
+          onPause={() => handlePlayingChange(false)}
+          onTimeUpdate={handleTimeUpdate}
+          onSeeked={handleTimeUpdate}
+          onLoadedMetadata={handleDurationChange}
+          onDurationChange={handleDurationChange}
+          onRateChange={() => setPlaybackRate(videoRef.current?.playbackRate ?? 1)}
+          onClick={handlePlayPause}
+          controlsList="nodownload"
+          playsInline
+        >
+          <source src={videoUrl} type="video/mp4" />
+          Your browser does not support the video tag.
+        </video>
+
+        {overlay && <div className="absolute inset-0 bottom-12">{overlay}</div>}
+      </div>
+
+      <div className="absolute inset-x-0 bottom-0 px-3 pb-2 pt-6 bg-gradient-to-t from-black/70 to-transparent">
+        <div
+          ref={scrubberRef}
+          role="slider"
+          aria-label="Seek"
+          aria-valuemin={0}
+          aria-valuemax={Math.round(duration)}
+          aria-valuenow={Math.round(currentTime)}
+          aria-valuetext={formatVideoTime(currentTime)}
+          className="relative h-1.5 mb-2 rounded-full bg-white/30 cursor-pointer touch-none"
+          onPointerDown={handleScrubStart}
+          onPointerMove={handleScrubMove}
+          onPointerUp={handleScrubEnd}
+          onPointerCancel={handleScrubEnd}
+        >
+          {loopStart !== null && (
+            <div
+              className="absolute -inset-y-0.5 bg-green-400/50 border-l-2 border-green-400"
+              style={{
+                left: percentOf(loopStart),
+                width: loop ? `calc(${percentOf(loop.end)} - ${percentOf(loop.start)})` : 0,
+              }}
+            />
+          )}
+          <div className="absolute inset-y-0 left-0 rounded-full bg-blue-500" style={{ width: percentOf(currentTime) }} />
+          {duration > 0 &&
+            markers.map((marker) => (
+              <button
+                key={marker.id}
+                type="button"
+                title={`${formatVideoTime(marker.time)} ${marker.label}`}
+                aria-label={`Jump to ${formatVideoTime(marker.time)}: ${marker.label}`}
+                className={`absolute -top-1.5 h-4.5 w-1.5 -ml-0.75 rounded-sm ${
+                  marker.active ? "bg-yellow-300" : "bg-orange-400 hover:bg-yellow-300"
+                }`}
+                style={{ left: percentOf(marker.time) }}
+                onPointerDown={(e) => e.stopPropagation()}
+                onClick={(e) => {
+                  e.stopPropagation()
+                  seekTo(marker.time)
+                  onMarkerClick?.(marker)
+                }}
+              />
+            ))}
+        </div>
+
+        <div className="flex items-center gap-3 text-white text-sm">
+          <button type="button" onClick={handlePlayPause} aria-label={isPlaying ? "Pause" : "Play"}>
+            {isPlaying ? <Pause className="w-5 h-5" /> : <Play className="w-5 h-5" />}
+          </button>
+          <button type="button" onClick={() => stepFrame(-1)} aria-label="Previous frame" title="Previous frame (,)">
+            <StepBack className="w-4 h-4" />
+          </button>
+          <button type="button" onClick={() => stepFrame(1)} aria-label="Next frame" title="Next frame (.)">
+            <StepForward className="w-4 h-4" />
+          </button>
+          <button type="button" onClick={handleMute} aria-label={isMuted ? "Unmute" : "Mute"}>
+            {isMuted ? <VolumeX className="w-5 h-5" /> : <Volume2 className="w-5 h-5" />}
+          </button>
+          <span className="tabular-nums">
+            {formatVideoTime(currentTime)} / {formatVideoTime(duration)}
+          </span>
+
+          <div className="ml-auto flex items-center gap-3">
+            <div className="flex items-center gap-1" title="A–B loop (A, B, C)">
+              <Repeat className={`w-4 h-4 ${loop ? "text-green-400" : ""}`} />
+              <button
+                type="button"
+                onClick={markLoopStart}
+                className={`px-1 rounded ${loopStart !== null ? "bg-green-500/40" : "hover:bg-white/20"}`}
+                aria-label="Set loop start"
+              >
+                A
+              </button>
+              <button
+                type="button"
+                onClick={markLoopEnd}
+                disabled={loopStart === null}
+                className={`px-1 rounded disabled:opacity-40 ${loop ? "bg-green-500/40" : "hover:bg-white/20"}`}
+                aria-label="Set loop end"
+              >
+                B
+              </button>
+              {loopStart !== null && (
+                <button type="button" onClick={clearLoop} aria-label="Clear loop">
+                  <X className="w-4 h-4" />
+                </button>
+              )}
+            </div>
+            <select
+              value={playbackRate}
+              onChange={(e) => changeRate(Number(e.target.value))}
+              onClick={(e) => e.stopPropagation()}
+              className="bg-transparent text-white text-sm border border-white/40 rounded px-1"
+              aria-label="Playback speed"
+            >
+              {PLAYBACK_RATES.map((rate) => (
+                <option key={rate} value={rate} className="text-black">
+                  {formatRate(rate)}
+                </option>
+              ))}
+            </select>
+            <button
+              type="button"
+              onClick={() => setMirrored(!mirrored)}
+              className={mirrored ? "text-blue-300" : ""}
+              aria-label="Mirror"
+              aria-pressed={mirrored}
+              title="Mirror (R)"
+            >
+              <FlipHorizontal2 className="w-5 h-5" />
+            </button>
+            <button
+              type="button"
+              onClick={() => setShowShortcuts(!showShortcuts)}
+              aria-label="Keyboard shortcuts"
+              title="Keyboard shortcuts (?)"
+            >
+              <Keyboard className="w-5 h-5" />
+            </button>
+            <button type="button" onClick={handleFullscreen} aria-label="Fullscreen">
+              <Maximize className="w-5 h-5" />
+            </button>
+          </div>
+        </div>
+      </div>
+
+      {showShortcuts && (
+        <div className="absolute inset-x-4 top-4 bottom-16 overflow-auto rounded-lg bg-black/80 p-4 text-sm text-white">
+          <div className="flex justify-between items-center mb-2">
+            <p className="font-semibold">Keyboard shortcuts</p>
+            <button type="button" onClick={() => setShowShortcuts(false)} aria-label="Close shortcuts">
+              <X className="w-4 h-4" />
+            </button>
+          </div>
+          <dl className="grid grid-cols-[auto_1fr] gap-x-4 gap-y-1">
+            {SHORTCUTS.map((shortcut) => (
+              <div key={shortcut.keys} className="contents">
+                <dt className="font-mono text-blue-300">{shortcut.keys}</dt>
+                <dd>{shortcut.action}</dd>
+              </div>
+            ))}
+          </dl>
+        </div>
+      )}
 
       {isLoading && (
-        <div className="absolute inset-0 flex items-center justify-center bg-black bg-opacity-50">
+        <div className="absolute inset-0 flex items-center justify-center bg-black bg-opacity-50 pointer-events-none">
           <Loader2 className="w-8 h-8 text-white animate-spin" />
         </div>
       )}
@@ -0,0 +1,264 @@
+"use client"
+
+import { useState, useEffect, useRef, useCallback } from "react"
+import { Scissors, Loader2, Check, X } from "lucide-react"
+import {
+  TARGET_HEIGHTS,
+  bitrateForHeight,
+  estimateOutputBytes,
+  formatBytes,
+  isPreprocessingSupported,
+  preprocessVideo,
+} from "@/lib/video-preprocess"
+import { errorMessage } from "@/lib/api"
+
+interface VideoPreprocessorProps {
+  file: File
+  processedFile: File | null
+  onProcessed: (file: File | null) => void
+  disabled?: boolean
+}
+
+const formatTime = (seconds: number) => {
+  const minutes = Math.floor(seconds / 60)
+  const rest = Math.floor(seconds % 60)
+  return `${minutes}:${rest.toString().padStart(2, "0")}`
+}
+
+export function VideoPreprocessor({ file, processedFile, onProcessed, disabled = false }: VideoPreprocessorProps) {
+  const [duration, setDuration] = useState(0)
+  const [sourceHeight, setSourceHeight] = useState(0)
+  const [startTime, setStartTime] = useState(0)
+  const [endTime, setEndTime] = useState(0)
+  const [targetHeight, setTargetHeight] = useState<number | null>(720)
+  const [processing, setProcessing] = useState(false)
+  const [progress, setProgress] = useState(0)
+  const [error, setError] = useState<string | null>(null)
+  const [expanded, setExpanded] = useState(false)
+  const videoRef = useRef<HTMLVideoElement>(null)
+  const abortRef = useRef<AbortController | null>(null)
+
+  // A new file starts without the previous one's error
+  const [errorFile, setErrorFile] = useState(file)
+  if (errorFile !== file) {
+    setErrorFile(file)
+    setError(null)
+  }
+
+  useEffect(() => {
+    return () => abortRef.current?.abort()
+  }, [file])
+
+  // The preview only exists while expanded; its object URL lives exactly as long
+  const setPreview = useCallback(
+    (video: HTMLVideoElement | null) => {
+      videoRef.current = video
+      if (!video) return
+      const url = URL.createObjectURL(file)
+      video.src = url
+      return () => {
+        videoRef.current = null
+        URL.revokeObjectURL(url)
+      }
+    },
+    [file],
+  )
+
+  // Browsers that can't record MP4 (Firefox) upload the original file untouched
+  if (!isPreprocessingSupported()) {
+    return null
+  }
+
+  const handleLoadedMetadata = () => {
+    const video = videoRef.current
+    if (!video) return
+    setDuration(video.duration)
+    setSourceHeight(video.videoHeight)
+    setStartTime(0)
+    setEndTime(video.duration)
+  }
+
+  const markStart = () => {
+    const current = videoRef.current?.currentTime ?? 0
+    setStartTime(Math.min(current, endTime))
+    onProcessed(null)
+  }
+
+  const markEnd = () => {
+    const current = videoRef.current?.currentTime ?? duration
+    setEndTime(Math.max(current, startTime))
+    onProcessed(null)
+  }
+
+  const handleProcess = async () => {
+    setProcessing(true)
+    setProgress(0)
+    setError(null)
+    abortRef.current = new AbortController()
+
+    try {
+      const output = await preprocessVideo(file, {
+        startTime,
+        endTime,
+        targetHeight,
+        onProgress: setProgress,
+        signal: abortRef.current.signal,
+      })
+      onProcessed(output)
+    } catch (err) {
+      if (!(err instanceof Error && err.name === "AbortError")) {
+        console.error("Video processing error:", err)
+        setError(errorMessage(err) || "Failed to process video")
+      }
+    } finally {
+      setProcessing(false)
+      abortRef.current = null
+    }
+  }
+
+  const effectiveHeight = targetHeight && sourceHeight && targetHeight < sourceHeight ? targetHeight : null
+  const estimatedBytes = estimateOutputBytes(Math.max(0, endTime - startTime), bitrateForHeight(effectiveHeight))
+
+  if (!expanded) {
+    return (
+      <div className="mt-2 flex items-center justify-between text-sm">
+        <span className="text-gray-600">
+          {processedFile
+            ? `Processed: ${formatBytes(file.size)} → ${formatBytes(processedFile.size)}`
+            : `Original size: ${formatBytes(file.size)}`}
+        </span>
+        <button
+          onClick={() => setExpanded(true)}
+          className="flex items-center text-blue-600 hover:text-blue-800"
+          disabled={disabled}
+        >
+          <Scissors className="w-4 h-4 mr-1" />
+          Trim & compress
+        </button>
+      </div>
+    )
+  }
+
+  return (
+    <div className="mt-3 border rounded-lg p-4 bg-gray-50">
+      <div className="flex justify-between items-center mb-3">
+        <h3 className="font-medium text-gray-700 flex items-center">
+          <Scissors className="w-4 h-4 mr-2" />
+          Trim & compress before upload
+        </h3>
+        <button onClick={() => setExpanded(false)} className="p-1 hover:bg-gray-200 rounded-full" disabled={processing}>
+          <X className="w-4 h-4 text-gray-500" />
+        </button>
+      </div>
+
+      <video
+        ref={setPreview}
+        onLoadedMetadata={handleLoadedMetadata}
+        className="w-full max-h-64 bg-black rounded mb-3"
+        controls
+        playsInline
+      />
+
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-3 text-sm">
+        <div>
+          <label className="block mb-1 font-medium text-gray-700">Start: {formatTime(startTime)}</label>
+          <button
+            onClick={markStart}
+            className="w-full px-3 py-1.5 border rounded-lg bg-white hover:bg-gray-100"
+            disabled={processing || disabled}
+          >
+            Set to current position
+          </button>
+        </div>
+        <div>
+          <label className="block mb-1 font-medium text-gray-700">End: {formatTime(endTime)}</label>
+          <button
+            onClick={markEnd}
+            className="w-full px-3 py-1.5 border rounded-lg bg-white hover:bg-gray-100"
+            disabled={processing || disabled}
+          >
+            Set to current position
+          </button>
+        </div>
+        <div>
+          <label className="block mb-1 font-medium text-gray-700">Resolution</label>
+          <select
+            value={targetHeight ?? ""}
+            onChange={(e) => {
+              setTargetHeight(e.target.value ? Number(e.target.value) : null)
+              onProcessed(null)
+            }}
+            className="w-full p-1.5 border rounded-lg bg-white"
+            disabled={processing || disabled}
+          >
+            <option value="">Original{sourceHeight ? ` (${sourceHeight}p)` : ""}</option>
+            {TARGET_HEIGHTS.filter((height) => !sourceHeight || height < sourceHeight).map((height) => (
+              <option key={height} value={height}>
+                {height}p
+              </option>
+            ))}
+          </select>
+        </div>
+      </div>
+
+      <div className="mt-3 text-sm text-gray-600">
+        Clip length {formatTime(Math.max(0, endTime - startTime))} of {formatTime(duration)} &middot; Size{" "}
+        {formatBytes(file.size)} →{" "}
+        {processedFile ? (
+          <span className="font-medium text-green-700">{formatBytes(processedFile.size)}</span>
+        ) : (
+          <span>~{formatBytes(estimatedBytes)} (estimated)</span>
+        )}
+      </div>
+
+      {error && <div className="mt-2 text-sm text-red-600">{error}</div>}
+
+      {processing && (
+        <div className="mt-3">
+          <div className="w-full bg-gray-200 rounded-full h-2">
+            <div className="bg-blue-600 h-2 rounded-full" style={{ width: `${progress}%` }}></div>
+          </div>
+          <p className="text-xs text-gray-500 mt-1">Processing runs in real time - keep this tab open ({progress}%)</p>
+        </div>
+      )}
+
+      <div className="mt-3 flex justify-end gap-2">
+        {processing ? (
+          <button
+            onClick={() => abortRef.current?.abort()}
+            className="px-3 py-1.5 text-sm border rounded-lg bg-white hover:bg-gray-100"
+          >
+            Cancel
+          </button>
+        ) : processedFile ? (
+          <button
+            onClick={() => onProcessed(null)}
+            className="px-3 py-1.5 text-sm border rounded-lg bg-white hover:bg-gray-100"
+            disabled={disabled}
+          >
+            Use original instead
+          </button>
+        ) : null}
+        <button
+          onClick={handleProcess}
+          className="px-3 py-1.5 text-sm bg-blue-600 text-white rounded-lg hover:bg-blue-700 flex items-center disabled:bg-gray-400"
+          disabled={processing || disabled || endTime <= startTime}
+        >
+          {processing ? (
+            <>
+              <Loader2 className="w-4 h-4 mr-1 animate-spin" />
+              Processing...
+            </>
+          ) : processedFile ? (
+            <>
+              <Check className="w-4 h-4 mr-1" />
+              Process again
+            </>
+          ) : (
+            "Process video"
+          )}
+        </button>
+      </div>
+    </div>
+  )
+}
@@ -1,19 +1,28 @@
 "use client"
 
 import type React from "react"
-import { createContext, useContext, useState, useEffect } from "react"
-import type { User } from "firebase/auth"
+import { createContext, useContext, useState, useEffect, useCallback, useRef } from "react"
+import type { User, UserCredential } from "firebase/auth"
 import { getAuthInstance, getGoogleProvider } from "@/lib/firebase"
+import { rolesFromClaims, type Role } from "@/lib/roles"
+import { clearSessionCookie, writeSessionCookie } from "@/lib/session"
 
 interface AuthContextType {
   currentUser: User | null
-  signup: (email: string, password: string) => Promise<any>
-  login: (email: string, password: string) => Promise<any>
+  // From the ID token's custom claims; empty while signed out
+  roles: Role[]
+  // Forces a fresh ID token, e.g. after the backend changed the user's roles
+  refreshRoles: () => Promise<void>
+  signup: (email: string, password: string) => Promise<UserCredential>
+  login: (email: string, password: string) => Promise<UserCredential>
   logout: () => Promise<void>
   resetPassword: (email: string) => Promise<void>
-  signInWithGoogle: () => Promise<any>
-  signInWithFacebook: () => Promise<any>
-  getIdToken: () => Promise<string | null>
+  signInWithGoogle: () => Promise<UserCredential>
+  signInWithFacebook: () => Promise<UserCredential>
+  // forceRefresh skips the cached token, e.g. after the backend rejected it
+  getIdToken: (forceRefresh?: boolean) => Promise<string | null>
+  // The current ID token without waiting, for requests sent as the page unloads; null while signed out
+  peekIdToken: () => string | null
   updateUserProfile: (profileData: { displayName?: string; photoURL?: string }) => Promise<void>
   updateUserEmail: (newEmail: string) => Promise<void>
   updateUserPassword: (newPassword: string) => Promise<void>
@@ -23,6 +32,29 @@ interface AuthContextType {
 
 const AuthContext = createContext<AuthContextType | undefined>(undefined)
 
+// Keeps the session cookie (see proxy.ts) in step with the ID token and
+// returns the roles the token carries
+const syncSession = async (user: User | null, forceRefresh = false): Promise<Role[]> => {
+  if (!user) {
+    clearSessionCookie()
+    return []
+  }
+  try {
+    const { token, claims } = await user.getIdTokenResult(forceRefresh)
+    writeSessionCookie(token)
+    return rolesFromClaims(claims)
+  } catch (error) {
+    console.error("Failed to read the ID token:", error)
+    return rolesFromClaims({})
+  }
+}
+
+// Sign-in pages navigate right after this resolves, so the cookie must already be set
+const startSession = async (credential: UserCredential) => {
+  writeSessionCookie(await credential.user.getIdToken())
+  return credential
+}
+
 export const useAuth = () => {
   const context = useContext(AuthContext)
   if (!context) {
@@ -33,7 +65,9 @@ export const useAuth = () => {
 
 export const AuthProvider = ({ children }: { children: React.ReactNode }) => {
   const [currentUser, setCurrentUser] = useState<User | null>(null)
+  const [roles, setRoles] = useState<Role[]>([])
   const [loading, setLoading] = useState(true)
+  const idTokenRef = useRef<string | null>(null)
 
   useEffect(() => {
     let unsubscribe: (() => void) | undefined
@@ -41,9 +75,14 @@ export const AuthProvider = ({ children }: { children: React.ReactNode }) => {
     const initAuth = async () => {
       try {
         const auth = await getAuthInstance()
-        const { onAuthStateChanged } = await import("firebase/auth")
-
-        unsubscribe = onAuthStateChanged(auth, (user) => {
+        const { onIdTokenChanged } = await import("firebase/auth")
+
+        // Fires on sign-in, sign-out and every hourly token refresh. When a refresh
+        // fails for good (revoked or disabled account) Firebase signs the user out.
+        unsubscribe = onIdTokenChanged(auth, async (user) => {
+          idTokenRef.current = user ? await user.getIdToken().catch(() => null) : null
+          // Roles are resolved before loading ends, so guarded pages never render with the wrong ones
+          setRoles(await syncSession(user))
           setCurrentUser(user)
           setLoading(false)
         })
@@ -63,19 +102,22 @@ export const AuthProvider = ({ children }: { children: React.ReactNode }) => {
   const signup = async (email: string, password: string) => {
     const auth = await getAuthInstance()
     const { createUserWithEmailAndPassword } = await import("firebase/auth")
-    return await createUserWithEmailAndPassword(auth, email, password)
+    return await startSession(await createUserWithEmailAndPassword(auth, email, password))
   }
 
   const login = async (email: string, password: string) => {
     const auth = await getAuthInstance()
     const { signInWithEmailAndPassword } = await import("firebase/auth")
-    return await signInWithEmailAndPassword(auth, email, password)
+    return await startSession(await signInWithEmailAndPassword(auth, email, password))
   }
 
   const logout = async () => {
     const auth = await getAuthInstance()
     const { signOut } = await import("firebase/auth")
     await signOut(auth)
+    clearSessionCookie()
+    // Cached analyses belong to the user who just left; see public/sw.js
+    navigator.serviceWorker?.controller?.postMessage({ type: "clear-api-cache" })
   }
 
   const resetPassword = async (email: string) => {
@@ -88,17 +130,27 @@ export const AuthProvider = ({ children }: { children: React.ReactNode }) => {
     const auth = await getAuthInstance()
     const provider = await getGoogleProvider()
     const { signInWithPopup } = await import("firebase/auth")
-    return await signInWithPopup(auth, provider)
+    return await startSession(await signInWithPopup(auth, provider))
   }
 
-  const signInWithFacebook = async () => {
+  const signInWithFacebook = async (): Promise<UserCredential> => {
     throw new Error("Facebook sign-in not implemented yet")
   }
 
-  const getIdToken = async () => {
-    if (!currentUser) return null
-    return await currentUser.getIdToken()
-  }
+  const refreshRoles = useCallback(async () => {
+    if (!currentUser) return
+    setRoles(await syncSession(currentUser, true))
+  }, [currentUser])
+
+  const getIdToken = useCallback(
+    async (forceRefresh = false) => {
+      if (!currentUser) return null
+      return await currentUser.getIdToken(forceRefresh)
+    },
+    [currentUser],
+  )
+
+  const peekIdToken = useCallback(() => idTokenRef.current, [])
 
   const updateUserProfile = async (profileData: { displayName?: string; photoURL?: string }) => {
     if (!currentUser) {
@@ -126,6 +178,8 @@ export const AuthProvider = ({ children }: { children: React.ReactNode }) => {
 
   const value = {
     currentUser,
+    roles,
+    refreshRoles,
     signup,
     login,
     logout,
@@ -133,6 +187,7 @@ export const AuthProvider = ({ children }: { children: React.ReactNode }) => {
     signInWithGoogle,
     signInWithFacebook,
     getIdToken,
+    peekIdToken,
     updateUserProfile,
     updateUserEmail,
     updateUserPassword,
@@ -0,0 +1,80 @@
+"use client"
+
+import type React from "react"
+import { createContext, useContext, useState, useCallback, useRef } from "react"
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog"
+import { buttonVariants } from "@/components/ui/button"
+
+export interface ConfirmOptions {
+  title: string
+  description?: React.ReactNode
+  confirmLabel?: string
+  cancelLabel?: string
+  // Red confirm button, for actions that remove something
+  destructive?: boolean
+}
+
+type Confirm = (options: ConfirmOptions) => Promise<boolean>
+
+const ConfirmContext = createContext<Confirm | undefined>(undefined)
+
+/** Resolves true when the user confirms, false when they cancel or dismiss the dialog. */
+export const useConfirm = () => {
+  const context = useContext(ConfirmContext)
+  if (!context) {
+    throw new Error("useConfirm must be used within a ConfirmProvider")
+  }
+  return context
+}
+
+export const ConfirmProvider = ({ children }: { children: React.ReactNode }) => {
+  const [options, setOptions] = useState<ConfirmOptions | null>(null)
+  const resolveRef = useRef<((confirmed: boolean) => void) | null>(null)
+
+  const confirm = useCallback<Confirm>((next) => {
+    // A second request replaces the first, which counts as cancelled
+    resolveRef.current?.(false)
+    setOptions(next)
+    return new Promise<boolean>((resolve) => {
+      resolveRef.current = resolve
+    })
+  }, [])
+
+  const settle = (confirmed: boolean) => {
+    resolveRef.current?.(confirmed)
+    resolveRef.current = null
+    setOptions(null)
+  }
+
+  return (
+    <ConfirmContext.Provider value={confirm}>
+      {children}
+      <AlertDialog open={!!options} onOpenChange={(open) => !open && settle(false)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>{options?.title}</AlertDialogTitle>
+            {options?.description && <AlertDialogDescription>{options.description}</AlertDialogDescription>}
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>{options?.cancelLabel || "Cancel"}</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={() => settle(true)}
+              className={options?.destructive ? buttonVariants({ variant: "destructive" }) : undefined}
+            >
+              {options?.confirmLabel || "Confirm"}
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </ConfirmContext.Provider>
+  )
+}
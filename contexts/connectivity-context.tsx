@@ -0,0 +1,164 @@
+"use client"
+
+import type React from "react"
+import { createContext, useContext, useState, useEffect, useCallback, useMemo, useRef } from "react"
+import { useAuth } from "./auth-context"
+import { ApiError, createApiClient } from "@/lib/api"
+import { backoffDelay } from "@/lib/backoff"
+
+export type ConnectivityStatus = "online" | "degraded" | "offline"
+
+// How often a healthy backend is probed
+const HEALTHY_INTERVAL_MS = 30000
+const PROBE_TIMEOUT_MS = 8000
+// A health check slower than this counts as degraded
+const SLOW_RESPONSE_MS = 3000
+// One missed probe can be a blip; this many in a row means the backend is gone
+const FAILURES_BEFORE_OFFLINE = 2
+
+interface ConnectivityContextType {
+  status: ConnectivityStatus
+  isOffline: boolean
+  // For code that runs outside render (the API client, timers); always current
+  getStatus: () => ConnectivityStatus
+  checkNow: () => void
+  // Lets any failed request trigger an immediate probe instead of waiting for the next one
+  reportError: (error: unknown) => void
+}
+
+const ConnectivityContext = createContext<ConnectivityContextType | undefined>(undefined)
+
+export const useConnectivity = () => {
+  const context = useContext(ConnectivityContext)
+  if (!context) {
+    throw new Error("useConnectivity must be used within a ConnectivityProvider")
+  }
+  return context
+}
+
+// For hooks that also run outside the provider, such as useApi on pages rendered before it mounts
+export const useOptionalConnectivity = () => useContext(ConnectivityContext)
+
+/**
+ * Probes the backend's /health route: every 30s while healthy, and with
+ * exponential backoff while it isn't. Failure counts live in refs, so timers
+ * and listeners never act on a stale render's values.
+ */
+export const ConnectivityProvider = ({ children }: { children: React.ReactNode }) => {
+  const { getIdToken } = useAuth()
+  // Not useApi: that one asks this provider whether mutations are allowed
+  const api = useMemo(() => createApiClient(getIdToken), [getIdToken])
+  const [status, setStatus] = useState<ConnectivityStatus>("online")
+
+  const statusRef = useRef<ConnectivityStatus>("online")
+  const failuresRef = useRef(0)
+  const attemptRef = useRef(0)
+  const probingRef = useRef(false)
+  const timerRef = useRef<ReturnType<typeof setTimeout> | null>(null)
+  const probeRef = useRef<() => Promise<void>>(async () => {})
+
+  const updateStatus = (next: ConnectivityStatus) => {
+    statusRef.current = next
+    setStatus(next)
+  }
+
+  const schedule = (healthy: boolean) => {
+    if (timerRef.current) clearTimeout(timerRef.current)
+    const delay = healthy
+      ? HEALTHY_INTERVAL_MS
+      : backoffDelay(attemptRef.current++, { initialDelayMs: 2000, maxDelayMs: 60000 })
+    timerRef.current = setTimeout(() => probeRef.current(), delay)
+  }
+
+  const probe = async () => {
+    if (probingRef.current) return
+    if (!navigator.onLine) {
+      failuresRef.current = FAILURES_BEFORE_OFFLINE
+      updateStatus("offline")
+      schedule(false)
+      return
+    }
+
+    probingRef.current = true
+    const startedAt = Date.now()
+    try {
+      const health = await api.health(PROBE_TIMEOUT_MS)
+      const slow = Date.now() - startedAt > SLOW_RESPONSE_MS
+      const unhealthy = !!health?.status && health.status !== "ok"
+      failuresRef.current = 0
+      if (slow || unhealthy) {
+        updateStatus("degraded")
+        schedule(false)
+      } else {
+        attemptRef.current = 0
+        updateStatus("online")
+        schedule(true)
+      }
+    } catch (error) {
+      if (error instanceof ApiError && (error.isNetworkError || error.isTimeout)) {
+        failuresRef.current++
+        updateStatus(failuresRef.current >= FAILURES_BEFORE_OFFLINE ? "offline" : "degraded")
+        schedule(false)
+      } else if (error instanceof ApiError && error.isServerError) {
+        // Reachable, but not well
+        failuresRef.current = 0
+        updateStatus("degraded")
+        schedule(false)
+      } else {
+        // Any other answer (a backend without /health returns 404) still proves it is up
+        failuresRef.current = 0
+        attemptRef.current = 0
+        updateStatus("online")
+        schedule(true)
+      }
+    } finally {
+      probingRef.current = false
+    }
+  }
+
+  // Timers scheduled by an earlier render call the latest probe
+  useEffect(() => {
+    probeRef.current = probe
+  })
+
+  const checkNow = useCallback(() => {
+    attemptRef.current = 0
+    probeRef.current()
+  }, [])
+
+  const reportError = useCallback((error: unknown) => {
+    if (error instanceof ApiError && (error.isNetworkError || error.isTimeout || error.isServerError)) {
+      probeRef.current()
+    }
+  }, [])
+
+  const getStatus = useCallback(() => statusRef.current, [])
+
+  useEffect(() => {
+    const handleOnline = () => checkNow()
+    const handleOffline = () => {
+      failuresRef.current = FAILURES_BEFORE_OFFLINE
+      updateStatus("offline")
+    }
+
+    window.addEventListener("online", handleOnline)
+    window.addEventListener("offline", handleOffline)
+    probeRef.current()
+
+    return () => {
+      window.removeEventListener("online", handleOnline)
+      window.removeEventListener("offline", handleOffline)
+      if (timerRef.current) clearTimeout(timerRef.current)
+    }
+  }, [checkNow])
+
+  const value = {
+    status,
+    isOffline: status === "offline",
+    getStatus,
+    checkNow,
+    reportError,
+  }
+
+  return <ConnectivityContext.Provider value={value}>{children}</ConnectivityContext.Provider>
+}
@@ -3,18 +3,22 @@
 import type React from "react"
 import { createContext, useContext, useState, useEffect, useCallback } from "react"
 import { useAuth } from "./auth-context"
-
-const API_BASE = "https://chappie-demo.novosense.africa:5555"
+import { useStudio } from "./studio-context"
+import { useApi } from "@/hooks/use-api"
+import { ApiError, type CreditsResponse, type PaymentInitializeResponse, type PaymentVerifyResponse } from "@/lib/api"
+import type { Studio } from "@/lib/models"
 
 interface CreditsContextType {
+  // Set when the active studio pays for its members' analyses; the figures below are then the pool's
+  pool: Studio | null
   credits: number
   totalPurchased: number
   totalUsed: number
   loading: boolean
   error: string | null
   fetchUserCredits: () => Promise<void>
-  initializePayment: (amount: number, packageType: string, amountUSD?: number | null) => Promise<any>
-  verifyPayment: (reference: string) => Promise<any>
+  initializePayment: (amount: number, packageType: string, amountUSD?: number | null) => Promise<PaymentInitializeResponse>
+  verifyPayment: (reference: string) => Promise<PaymentVerifyResponse>
 }
 
 const CreditsContext = createContext<CreditsContextType | undefined>(undefined)
@@ -28,71 +32,49 @@ export const useCredits = () => {
 }
 
 export const CreditsProvider = ({ children }: { children: React.ReactNode }) => {
-  const { currentUser, getIdToken } = useAuth()
+  const { currentUser } = useAuth()
+  const { activeStudio } = useStudio()
+  const api = useApi()
+  const pool = activeStudio?.credit_pool ? activeStudio : null
+  const poolId = pool?.id
   const [credits, setCredits] = useState(0)
   const [totalPurchased, setTotalPurchased] = useState(0)
   const [totalUsed, setTotalUsed] = useState(0)
-  const [loading, setLoading] = useState(true)
   const [error, setError] = useState<string | null>(null)
-
-  const fetchUserCredits = useCallback(async () => {
-    if (!currentUser) {
-      setCredits(0)
-      setTotalPurchased(0)
-      setTotalUsed(0)
-      setLoading(false)
-      return
+  const userId = currentUser?.uid ?? null
+  // Whose figures the state holds; loading until they match the current user and pool
+  const loadKey = `${userId}:${poolId ?? ""}`
+  const [loadedFor, setLoadedFor] = useState<string | null>(null)
+  const loading = loadedFor !== loadKey
+
+  const fetchUserCredits = useCallback((): Promise<void> => {
+    const load = (): Promise<CreditsResponse> => {
+      // Signed out there is nothing to load and nothing of the last user's to keep
+      if (!userId) return Promise.resolve({ credits: 0, total_purchased: 0, total_used: 0 })
+      if (poolId) return api.studios.credits(poolId)
+
+      return api.user.credits().catch((error) => {
+        if (error instanceof ApiError && error.status === 404) {
+          return api.auth.createUserDoc({ initialCredits: 5 }).then(() => api.user.credits())
+        } else {
+          throw error
+        }
+      })
     }
 
-    try {
-      setLoading(true)
-      const token = await getIdToken()
-
-      if (!token) {
-        throw new Error("Authentication required")
-      }
-
-      const response = await fetch(`${API_BASE}/user/credits`, {
-        method: "GET",
-        headers: {
-          Authorization: `Bearer ${token}`,
-          "Content-Type": "application/json",
-        },
+    return load()
+      .then((data) => {
+        setCredits(data.credits || 0)
+        setTotalPurchased(data.total_purchased || 0)
+        setTotalUsed(data.total_used || 0)
+        setError(null)
       })
-
-      if (!response.ok) {
-        if (response.status === 404) {
-          const createResponse = await fetch(`${API_BASE}/auth/create-user-doc`, {
-            method: "POST",
-            headers: {
-              Authorization: `Bearer ${token}`,
-              "Content-Type": "application/json",
-            },
-            body: JSON.stringify({
-              initialCredits: 5,
-            }),
-          })
-
-          if (createResponse.ok) {
-            return fetchUserCredits()
-          }
-        }
-        throw new Error(`HTTP error! status: ${response.status}`)
-      }
-
-      const data = await response.json()
-
-      setCredits(data.credits || 0)
-      setTotalPurchased(data.total_purchased || 0)
-      setTotalUsed(data.total_used || 0)
-      setError(null)
-    } catch (error) {
-      console.error("Failed to fetch credits:", error)
-      setError("Failed to load credit information")
-    } finally {
-      setLoading(false)
-    }
-  }, [currentUser, getIdToken])
+      .catch((error) => {
+        console.error("Failed to fetch credits:", error)
+        setError("Failed to load credit information")
+      })
+      .finally(() => setLoadedFor(loadKey))
+  }, [userId, api, poolId, loadKey])
 
   useEffect(() => {
     fetchUserCredits()
@@ -104,30 +86,14 @@ export const CreditsProvider = ({ children }: { children: React.ReactNode }) =>
         throw new Error("Authentication required")
       }
 
-      const token = await getIdToken()
-
-      const response = await fetch(`${API_BASE}/payment/initialize`, {
-        method: "POST",
-        headers: {
-          Authorization: `Bearer ${token}`,
-          "Content-Type": "application/json",
-        },
-        body: JSON.stringify({
-          amount: amount,
-          amountUSD: amountUSD,
-          package: packageType,
-          callback_url: window.location.origin + "/credits",
-          currency: "ZAR",
-        }),
+      return await api.payment.initialize({
+        amount: amount,
+        amountUSD: amountUSD,
+        package: packageType,
+        callback_url: window.location.origin + "/credits",
+        currency: "ZAR",
+        studio_id: poolId,
       })
-
-      if (!response.ok) {
-        const errorData = await response.json()
-        throw new Error(errorData.error || "Payment initialization failed")
-      }
-
-      const data = await response.json()
-      return data
     } catch (error) {
       console.error("Payment initialization error:", error)
       throw error
@@ -140,22 +106,7 @@ export const CreditsProvider = ({ children }: { children: React.ReactNode }) =>
         throw new Error("Authentication required")
       }
 
-      const token = await getIdToken()
-
-      const response = await fetch(`${API_BASE}/payment/verify/${reference}`, {
-        method: "GET",
-        headers: {
-          Authorization: `Bearer ${token}`,
-          "Content-Type": "application/json",
-        },
-      })
-
-      if (!response.ok) {
-        const errorData = await response.json()
-        throw new Error(errorData.error || "Payment verification failed")
-      }
-
-      const data = await response.json()
+      const data = await api.payment.verify(reference)
 
       if (data.status === "success") {
         await fetchUserCredits()
@@ -169,6 +120,7 @@ export const CreditsProvider = ({ children }: { children: React.ReactNode }) =>
   }
 
   const value = {
+    pool,
     credits,
     totalPurchased,
     totalUsed,
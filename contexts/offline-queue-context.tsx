@@ -0,0 +1,184 @@
+"use client"
+
+import type React from "react"
+import { createContext, useContext, useState, useEffect, useCallback, useRef } from "react"
+import { useAuth } from "./auth-context"
+import { useConnectivity } from "./connectivity-context"
+import { useCredits } from "./credits-context"
+import { useApi } from "@/hooks/use-api"
+import { useIsClient } from "@/hooks/use-is-client"
+import { ApiError, errorMessage } from "@/lib/api"
+import { createChunkedUpload, type UploadMetadata } from "@/lib/chunked-upload"
+import { API_BASE } from "@/lib/constants"
+import {
+  isOfflineQueueSupported,
+  listQueuedSubmissions,
+  queueSubmission,
+  removeQueuedSubmission,
+  requestUploadSync,
+  saveQueuedSubmission,
+  submissionFile,
+  type QueuedSubmission,
+} from "@/lib/offline-queue"
+
+interface OfflineQueueContextType {
+  items: QueuedSubmission[]
+  flushing: boolean
+  supported: boolean
+  // Bumped after each queued submission reaches the server, for lists to refresh on
+  sentCount: number
+  enqueue: (file: File, metadata: UploadMetadata) => Promise<void>
+  flush: () => Promise<boolean>
+  retry: (id: string) => Promise<void>
+  remove: (id: string) => Promise<void>
+}
+
+const OfflineQueueContext = createContext<OfflineQueueContextType | undefined>(undefined)
+
+export const useOfflineQueue = () => {
+  const context = useContext(OfflineQueueContext)
+  if (!context) {
+    throw new Error("useOfflineQueue must be used within an OfflineQueueProvider")
+  }
+  return context
+}
+
+export const OfflineQueueProvider = ({ children }: { children: React.ReactNode }) => {
+  const { currentUser } = useAuth()
+  const { fetchUserCredits } = useCredits()
+  const { isOffline } = useConnectivity()
+  const api = useApi()
+  const [items, setItems] = useState<QueuedSubmission[]>([])
+  const [flushing, setFlushing] = useState(false)
+  const [sentCount, setSentCount] = useState(0)
+  // IndexedDB and friends only exist in the browser, so the server render says no
+  const supported = useIsClient() && isOfflineQueueSupported()
+
+  // flush() is called from event listeners; the ref keeps two runs from sending the same video
+  const flushingRef = useRef(false)
+
+  const userId = currentUser?.uid
+
+  const update = async (submission: QueuedSubmission) => {
+    await saveQueuedSubmission(submission)
+    setItems((current) => current.map((item) => (item.id === submission.id ? submission : item)))
+  }
+
+  /**
+   * Sends queued submissions oldest first. Resolves true when nothing is left
+   * waiting; a lost connection stops the run and leaves the rest queued.
+   */
+  const flush = useCallback((): Promise<boolean> => {
+    if (!userId || !isOfflineQueueSupported() || flushingRef.current) return Promise.resolve(false)
+
+    flushingRef.current = true
+    let sent = 0
+    return listQueuedSubmissions(userId)
+      .then(async (all) => {
+        setFlushing(true)
+        const queued = all.filter((item) => item.status !== "failed")
+        for (const item of queued) {
+          await update({ ...item, status: "uploading", error: undefined })
+          try {
+            await createChunkedUpload({ api, userId, file: submissionFile(item), metadata: item.metadata }).start()
+            await removeQueuedSubmission(item.id)
+            setItems((current) => current.filter((existing) => existing.id !== item.id))
+            setSentCount((count) => count + 1)
+            sent++
+          } catch (error) {
+            if (error instanceof ApiError && (error.isNetworkError || error.isTimeout)) {
+              await update({ ...item, status: "queued" })
+              return false
+            }
+            const message = error instanceof ApiError && error.isInsufficientCredits ? "Not enough credits" : errorMessage(error)
+            await update({ ...item, status: "failed", error: message || "Upload failed" })
+            // Without credits every following submission would fail the same way
+            if (error instanceof ApiError && error.isInsufficientCredits) return false
+          }
+        }
+        return true
+      })
+      .catch((error) => {
+        console.error("Failed to send the upload queue:", error)
+        return false
+      })
+      .finally(() => {
+        flushingRef.current = false
+        setFlushing(false)
+        if (sent > 0) fetchUserCredits()
+      })
+  }, [userId, api, fetchUserCredits])
+
+  const enqueue = async (file: File, metadata: UploadMetadata) => {
+    if (!userId) throw new Error("Please log in to queue uploads")
+    const submission = await queueSubmission(userId, file, metadata)
+    setItems((current) => [...current, submission])
+    await requestUploadSync()
+  }
+
+  const retry = async (id: string) => {
+    const item = items.find((existing) => existing.id === id)
+    if (!item) return
+    await update({ ...item, status: "queued", error: undefined })
+    if (!isOffline) flush()
+    else await requestUploadSync()
+  }
+
+  const remove = async (id: string) => {
+    await removeQueuedSubmission(id)
+    setItems((current) => current.filter((item) => item.id !== id))
+  }
+
+  useEffect(() => {
+    // Dev builds change on every save; a caching worker would serve stale code
+    if ("serviceWorker" in navigator && process.env.NODE_ENV === "production") {
+      navigator.serviceWorker
+        .register(`/sw.js?api=${encodeURIComponent(API_BASE)}`)
+        .catch((error) => console.error("Service worker registration failed:", error))
+    }
+  }, [])
+
+  useEffect(() => {
+    let cancelled = false
+    const load = userId && isOfflineQueueSupported() ? listQueuedSubmissions(userId) : Promise.resolve([])
+    load
+      .then((queued) => {
+        if (!cancelled) setItems(queued)
+      })
+      .catch((error) => console.error("Failed to read the upload queue:", error))
+    return () => {
+      cancelled = true
+    }
+  }, [userId])
+
+  // Send whatever is waiting on login and once the backend is reachable again
+  useEffect(() => {
+    if (userId && !isOffline) flush()
+  }, [userId, isOffline, flush])
+
+  // ...and when the worker's background sync asks
+  useEffect(() => {
+    if (!userId) return
+
+    const handleWorkerMessage = (event: MessageEvent) => {
+      if (event.data?.type !== "flush-upload-queue") return
+      flush().then((ok) => event.ports[0]?.postMessage({ ok }))
+    }
+
+    navigator.serviceWorker?.addEventListener("message", handleWorkerMessage)
+    return () => navigator.serviceWorker?.removeEventListener("message", handleWorkerMessage)
+  }, [userId, flush])
+
+  const value = {
+    items,
+    flushing,
+    supported,
+    sentCount,
+    enqueue,
+    flush,
+    retry,
+    remove,
+  }
+
+  return <OfflineQueueContext.Provider value={value}>{children}</OfflineQueueContext.Provider>
+}
@@ -0,0 +1,107 @@
+"use client"
+
+import type React from "react"
+import { createContext, useContext, useState, useEffect, useCallback } from "react"
+import { useAuth } from "./auth-context"
+import { useApi } from "@/hooks/use-api"
+import type { DancerPayload, TeamPayload } from "@/lib/api"
+import type { Dancer, Team } from "@/lib/models"
+
+interface RosterContextType {
+  dancers: Dancer[]
+  teams: Team[]
+  loading: boolean
+  error: string | null
+  fetchRoster: () => Promise<void>
+  saveDancer: (payload: DancerPayload, id?: string) => Promise<Dancer>
+  removeDancer: (id: string) => Promise<void>
+  saveTeam: (payload: TeamPayload, id?: string) => Promise<Team>
+  removeTeam: (id: string) => Promise<void>
+}
+
+const RosterContext = createContext<RosterContextType | undefined>(undefined)
+
+export const useRoster = () => {
+  const context = useContext(RosterContext)
+  if (!context) {
+    throw new Error("useRoster must be used within a RosterProvider")
+  }
+  return context
+}
+
+const byName = <T extends { name: string }>(a: T, b: T) => a.name.localeCompare(b.name)
+
+export const RosterProvider = ({ children }: { children: React.ReactNode }) => {
+  const { currentUser } = useAuth()
+  const api = useApi()
+  const [dancers, setDancers] = useState<Dancer[]>([])
+  const [teams, setTeams] = useState<Team[]>([])
+  // Whose roster the state holds; loading until it is the current user's
+  const [loadedFor, setLoadedFor] = useState<string | null | undefined>(undefined)
+  const [error, setError] = useState<string | null>(null)
+  const userId = currentUser?.uid ?? null
+  const loading = loadedFor !== userId
+
+  const fetchRoster = useCallback((): Promise<void> => {
+    // Signed out there is nothing to load and nothing of the last user's to keep
+    const load = userId
+      ? Promise.all([api.roster.dancers.list(), api.roster.teams.list()])
+      : Promise.resolve<[Dancer[], Team[]]>([[], []])
+
+    return load
+      .then(([dancerList, teamList]) => {
+        setDancers(dancerList.sort(byName))
+        setTeams(teamList.sort(byName))
+        setError(null)
+      })
+      .catch((error) => {
+        console.error("Failed to fetch roster:", error)
+        setError("Failed to load your dancers and teams")
+      })
+      .finally(() => setLoadedFor(userId))
+  }, [userId, api])
+
+  useEffect(() => {
+    fetchRoster()
+  }, [fetchRoster])
+
+  const saveDancer = async (payload: DancerPayload, id?: string) => {
+    const dancer = id ? await api.roster.dancers.update(id, payload) : await api.roster.dancers.create(payload)
+    setDancers((prev) => [...prev.filter((existing) => existing.id !== dancer.id), dancer].sort(byName))
+    // Teams store member names, so a rename shows up there after a refetch
+    if (id) {
+      setTeams((await api.roster.teams.list()).sort(byName))
+    }
+    return dancer
+  }
+
+  const removeDancer = async (id: string) => {
+    await api.roster.dancers.remove(id)
+    setDancers((prev) => prev.filter((dancer) => dancer.id !== id))
+  }
+
+  const saveTeam = async (payload: TeamPayload, id?: string) => {
+    const team = id ? await api.roster.teams.update(id, payload) : await api.roster.teams.create(payload)
+    setTeams((prev) => [...prev.filter((existing) => existing.id !== team.id), team].sort(byName))
+    return team
+  }
+
+  const removeTeam = async (id: string) => {
+    await api.roster.teams.remove(id)
+    setTeams((prev) => prev.filter((team) => team.id !== id))
+  }
+
+  const value = {
+    dancers,
+    teams,
+    loading,
+    error,
+    fetchRoster,
+    saveDancer,
+    removeDancer,
+    saveTeam,
+    removeTeam,
+  }
+
+  return <RosterContext.Provider value={value}>{children}</RosterContext.Provider>
+}
@@ -0,0 +1,143 @@
+"use client"
+
+import type React from "react"
+import { createContext, useContext, useState, useEffect, useCallback } from "react"
+import { useAuth } from "./auth-context"
+import { useApi } from "@/hooks/use-api"
+import type { StudioPayload } from "@/lib/api"
+import type { Studio, StudioInvite } from "@/lib/models"
+
+interface StudioContextType {
+  studios: Studio[]
+  // null while working in the personal space
+  activeStudio: Studio | null
+  setActiveStudioId: (id: string | null) => void
+  // Invites addressed to the current user
+  invites: StudioInvite[]
+  loading: boolean
+  error: string | null
+  fetchStudios: () => Promise<void>
+  createStudio: (payload: StudioPayload) => Promise<Studio>
+  updateStudio: (id: string, payload: StudioPayload) => Promise<Studio>
+  acceptInvite: (inviteId: string) => Promise<Studio>
+  declineInvite: (inviteId: string) => Promise<void>
+  leaveStudio: (id: string) => Promise<void>
+}
+
+const StudioContext = createContext<StudioContextType | undefined>(undefined)
+
+export const useStudio = () => {
+  const context = useContext(StudioContext)
+  if (!context) {
+    throw new Error("useStudio must be used within a StudioProvider")
+  }
+  return context
+}
+
+// Remembered per browser so the switcher keeps its choice across visits
+const ACTIVE_STUDIO_KEY = "flokraft.activeStudio"
+
+const byName = (a: Studio, b: Studio) => a.name.localeCompare(b.name)
+
+export const StudioProvider = ({ children }: { children: React.ReactNode }) => {
+  const { currentUser } = useAuth()
+  const api = useApi()
+  const [studios, setStudios] = useState<Studio[]>([])
+  const [activeStudioId, setActiveStudioIdState] = useState<string | null>(null)
+  const [invites, setInvites] = useState<StudioInvite[]>([])
+  // Whose studios the state holds; loading until they are the current user's
+  const [loadedFor, setLoadedFor] = useState<string | null | undefined>(undefined)
+  const [error, setError] = useState<string | null>(null)
+  const userId = currentUser?.uid ?? null
+  const loading = loadedFor !== userId
+
+  const setActiveStudioId = useCallback((id: string | null) => {
+    setActiveStudioIdState(id)
+    if (id) {
+      localStorage.setItem(ACTIVE_STUDIO_KEY, id)
+    } else {
+      localStorage.removeItem(ACTIVE_STUDIO_KEY)
+    }
+  }, [])
+
+  const fetchStudios = useCallback((): Promise<void> => {
+    // Signed out there is nothing to load and nothing of the last user's to keep
+    const load = userId
+      ? Promise.all([api.studios.list(), api.studios.invites.mine()])
+      : Promise.resolve<[Studio[], StudioInvite[]]>([[], []])
+
+    return load
+      .then(([studioList, inviteList]) => {
+        setStudios(studioList.sort(byName))
+        setInvites(inviteList)
+
+        // Falls back to the personal space if the remembered studio is gone
+        const remembered = localStorage.getItem(ACTIVE_STUDIO_KEY)
+        setActiveStudioIdState(studioList.some((studio) => studio.id === remembered) ? remembered : null)
+        setError(null)
+      })
+      .catch((error) => {
+        console.error("Failed to fetch studios:", error)
+        setError("Failed to load your studios")
+      })
+      .finally(() => setLoadedFor(userId))
+  }, [userId, api])
+
+  useEffect(() => {
+    fetchStudios()
+  }, [fetchStudios])
+
+  const putStudio = (studio: Studio) => {
+    setStudios((prev) => [...prev.filter((existing) => existing.id !== studio.id), studio].sort(byName))
+  }
+
+  const createStudio = async (payload: StudioPayload) => {
+    const studio = await api.studios.create(payload)
+    putStudio(studio)
+    setActiveStudioId(studio.id)
+    return studio
+  }
+
+  const updateStudio = async (id: string, payload: StudioPayload) => {
+    const studio = await api.studios.update(id, payload)
+    putStudio(studio)
+    return studio
+  }
+
+  const acceptInvite = async (inviteId: string) => {
+    const studio = await api.studios.invites.accept(inviteId)
+    setInvites((prev) => prev.filter((invite) => invite.id !== inviteId))
+    putStudio(studio)
+    setActiveStudioId(studio.id)
+    return studio
+  }
+
+  const declineInvite = async (inviteId: string) => {
+    await api.studios.invites.decline(inviteId)
+    setInvites((prev) => prev.filter((invite) => invite.id !== inviteId))
+  }
+
+  const leaveStudio = async (id: string) => {
+    if (!currentUser) return
+    await api.studios.members.remove(id, currentUser.uid)
+    setStudios((prev) => prev.filter((studio) => studio.id !== id))
+    if (activeStudioId === id) setActiveStudioId(null)
+  }
+
+  const value = {
+    studios,
+    activeStudio: studios.find((studio) => studio.id === activeStudioId) || null,
+    setActiveStudioId,
+    invites,
+    loading,
+    error,
+    fetchStudios,
+    createStudio,
+    updateStudio,
+    acceptInvite,
+    declineInvite,
+    leaveStudio,
+  }
+
+  return <StudioContext.Provider value={value}>{children}</StudioContext.Provider>
+}
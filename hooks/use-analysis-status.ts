@@ -0,0 +1,98 @@
+"use client"
+
+import { useEffect, useRef, useState } from "react"
+import { useApi } from "@/hooks/use-api"
+import { openStatusStream, isInFlight, type AnalysisStatusEvent } from "@/lib/analysis-status"
+import { backoffDelay, createBackoffTimer } from "@/lib/backoff"
+import type { Analysis } from "@/lib/models"
+
+interface UseAnalysisStatusOptions {
+  analyses: Analysis[]
+  onStatusEvent: (event: AnalysisStatusEvent) => void
+  // Refetches the analysis list; used as the polling fallback.
+  refresh: () => Promise<void>
+  enabled?: boolean
+}
+
+export type StatusChannel = "live" | "polling"
+
+/**
+ * Keeps analysis statuses current. Transitions are pushed over the status
+ * stream, which is reopened with backoff whenever the browser gives up on it.
+ * While it is down, the list is polled with exponential backoff, and only as
+ * long as some analysis is still processing.
+ */
+export function useAnalysisStatus({ analyses, onStatusEvent, refresh, enabled = true }: UseAnalysisStatusOptions) {
+  const api = useApi()
+  const [channel, setChannel] = useState<StatusChannel>("polling")
+
+  const onStatusEventRef = useRef(onStatusEvent)
+  const refreshRef = useRef(refresh)
+  useEffect(() => {
+    onStatusEventRef.current = onStatusEvent
+    refreshRef.current = refresh
+  })
+
+  useEffect(() => {
+    if (!enabled) return
+
+    let close: (() => void) | null = null
+    let retryId: ReturnType<typeof setTimeout> | null = null
+    let attempt = 0
+    let cancelled = false
+
+    // Every connection needs a fresh URL: its ticket only opens the stream once
+    const connect = () => {
+      api.analyses
+        .statusStreamUrl()
+        .then((url) => {
+          if (cancelled) return
+          close = openStatusStream(url, {
+            onEvent: (event) => onStatusEventRef.current(event),
+            onOpen: () => {
+              attempt = 0
+              setChannel("live")
+              // Catch up on transitions that happened while disconnected
+              refreshRef.current()
+            },
+            onDisconnect: () => setChannel("polling"),
+            onClosed: reconnect,
+          })
+        })
+        .catch((error) => {
+          console.error("Failed to open analysis status stream:", error)
+          setChannel("polling")
+          reconnect()
+        })
+    }
+
+    // Polling covers the gap until the stream is back
+    const reconnect = () => {
+      if (cancelled) return
+      retryId = setTimeout(connect, backoffDelay(attempt++, { initialDelayMs: 3000, maxDelayMs: 60000 }))
+    }
+
+    connect()
+
+    return () => {
+      cancelled = true
+      if (retryId) clearTimeout(retryId)
+      if (close) close()
+    }
+  }, [api, enabled])
+
+  // Restart the backoff whenever the set of in-flight jobs changes
+  const inFlightKey = analyses
+    .filter(isInFlight)
+    .map((analysis) => analysis.id)
+    .join(",")
+
+  useEffect(() => {
+    if (!enabled || channel === "live" || !inFlightKey) return
+
+    const timer = createBackoffTimer(() => refreshRef.current(), { initialDelayMs: 3000, maxDelayMs: 60000 })
+    return () => timer.stop()
+  }, [enabled, channel, inFlightKey])
+
+  return { channel }
+}
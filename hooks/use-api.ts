@@ -0,0 +1,15 @@
+"use client"
+
+import { useMemo } from "react"
+import { useAuth } from "@/contexts/auth-context"
+import { useOptionalConnectivity } from "@/contexts/connectivity-context"
+import { createApiClient } from "@/lib/api"
+
+export function useApi() {
+  const { getIdToken, peekIdToken } = useAuth()
+  const getStatus = useOptionalConnectivity()?.getStatus
+  return useMemo(
+    () => createApiClient(getIdToken, { isOffline: () => getStatus?.() === "offline", peekToken: peekIdToken }),
+    [getIdToken, peekIdToken, getStatus],
+  )
+}
@@ -0,0 +1,15 @@
+"use client"
+
+import { useSyncExternalStore } from "react"
+
+const subscribe = () => () => {}
+
+// False during server rendering and hydration, true once running in the browser.
+// For output that can only be built with browser APIs, so it doesn't mismatch on hydration.
+export function useIsClient() {
+  return useSyncExternalStore(
+    subscribe,
+    () => true,
+    () => false,
+  )
+}
@@ -0,0 +1,18 @@
+"use client"
+
+import { useCallback } from "react"
+import { useAuth } from "@/contexts/auth-context"
+import { hasRole, type Role } from "@/lib/roles"
+
+export function useRole() {
+  const { roles, loading } = useAuth()
+  const can = useCallback((required: Role | Role[]) => hasRole(roles, required), [roles])
+
+  return {
+    roles,
+    // False until the auth state and its claims have loaded
+    loading,
+    hasRole: can,
+    isAdmin: roles.includes("admin"),
+  }
+}
@@ -0,0 +1,170 @@
+"use client"
+
+import { useCallback, useEffect, useRef, useState } from "react"
+
+// Seconds a follower may drift from the leader before it is re-seeked
+const MAX_DRIFT = 0.25
+
+const MIRRORED_EVENTS = ["play", "pause", "seeked", "ratechange"] as const
+// Leader events that move the shared timeline
+const TIMELINE_EVENTS = ["play", "pause", "ended", "timeupdate", "loadedmetadata", "durationchange", "seeked"]
+
+/**
+ * Plays several videos in lockstep. The first registered video leads the
+ * shared timeline; play, pause, seeks and speed changes on any video are
+ * mirrored to the others while `synced` is on. Each video keeps an offset
+ * from the leader so performances that start at different points in their
+ * recordings can be lined up with alignHere.
+ */
+export function useSyncedVideos() {
+  const videosRef = useRef<(HTMLVideoElement | null)[]>([])
+  const detachRef = useRef<(() => void)[]>([])
+  const refCallbacksRef = useRef<((video: HTMLVideoElement | null) => void)[]>([])
+  // Seconds each video is ahead of the leader
+  const offsetsRef = useRef<number[]>([])
+  // Videos we just seeked ourselves, so their seeked event isn't mirrored back
+  const pendingSeeksRef = useRef(new Set<number>())
+  const syncedRef = useRef(true)
+
+  const [synced, setSyncedState] = useState(true)
+  const [playing, setPlaying] = useState(false)
+  const [currentTime, setCurrentTime] = useState(0)
+  const [duration, setDuration] = useState(0)
+  const [aligned, setAligned] = useState(false)
+
+  // Where video `to` should be when video `from` is at `time`
+  const mapTime = (time: number, from: number, to: number) =>
+    time - (offsetsRef.current[from] || 0) + (offsetsRef.current[to] || 0)
+
+  const seekVideo = (index: number, time: number) => {
+    const video = videosRef.current[index]
+    if (!video) return
+    const target = Math.max(0, Math.min(time, video.duration || time))
+    if (Math.abs(video.currentTime - target) < 0.05) return
+    pendingSeeksRef.current.add(index)
+    video.currentTime = target
+  }
+
+  const mirror = (index: number, type: (typeof MIRRORED_EVENTS)[number]) => {
+    const source = videosRef.current[index]
+    if (!source || !syncedRef.current) return
+
+    if (type === "seeked" && pendingSeeksRef.current.delete(index)) return
+
+    videosRef.current.forEach((video, other) => {
+      if (!video || other === index) return
+      const target = mapTime(source.currentTime, index, other)
+
+      if (type === "play" && video.paused && !video.ended) {
+        if (Math.abs(video.currentTime - target) > MAX_DRIFT) seekVideo(other, target)
+        video.play().catch(() => {})
+      } else if (type === "pause" && !video.paused) {
+        video.pause()
+        seekVideo(other, target)
+      } else if (type === "seeked") {
+        seekVideo(other, target)
+      } else if (type === "ratechange" && video.playbackRate !== source.playbackRate) {
+        video.playbackRate = source.playbackRate
+      }
+    })
+  }
+
+  // Followers slowly drift apart while playing; pull them back to the leader
+  const correctDrift = () => {
+    const leader = videosRef.current[0]
+    if (!leader || leader.paused || !syncedRef.current) return
+    videosRef.current.forEach((video, index) => {
+      if (!video || index === 0 || video.paused) return
+      const target = mapTime(leader.currentTime, 0, index)
+      if (target < (video.duration || Infinity) && Math.abs(video.currentTime - target) > MAX_DRIFT) {
+        seekVideo(index, target)
+      }
+    })
+  }
+
+  const attach = (index: number, video: HTMLVideoElement) => {
+    const listeners = MIRRORED_EVENTS.map((type) => [type, () => mirror(index, type)] as const)
+    if (index === 0) {
+      const updateState = () => {
+        setPlaying(!video.paused)
+        setCurrentTime(video.currentTime)
+        setDuration(Number.isFinite(video.duration) ? video.duration : 0)
+      }
+      TIMELINE_EVENTS.forEach((type) => video.addEventListener(type, updateState))
+      video.addEventListener("timeupdate", correctDrift)
+      detachRef.current[index] = () => {
+        TIMELINE_EVENTS.forEach((type) => video.removeEventListener(type, updateState))
+        video.removeEventListener("timeupdate", correctDrift)
+        listeners.forEach(([type, listener]) => video.removeEventListener(type, listener))
+      }
+    } else {
+      detachRef.current[index] = () =>
+        listeners.forEach(([type, listener]) => video.removeEventListener(type, listener))
+    }
+    listeners.forEach(([type, listener]) => video.addEventListener(type, listener))
+  }
+
+  // Stable ref callback for the video at `index`, to pass as VideoPlayer's ref
+  const register = (index: number) => {
+    if (!refCallbacksRef.current[index]) {
+      refCallbacksRef.current[index] = (video) => {
+        detachRef.current[index]?.()
+        videosRef.current[index] = video
+        if (video) attach(index, video)
+      }
+    }
+    return refCallbacksRef.current[index]
+  }
+
+  useEffect(() => () => detachRef.current.forEach((detach) => detach?.()), [])
+
+  const setSynced = useCallback((value: boolean) => {
+    syncedRef.current = value
+    setSyncedState(value)
+  }, [])
+
+  const play = useCallback(() => {
+    videosRef.current.forEach((video) => {
+      if (video && !video.ended) video.play().catch(() => {})
+    })
+  }, [])
+
+  const pause = useCallback(() => {
+    videosRef.current.forEach((video) => video?.pause())
+  }, [])
+
+  // Seeks every video to `time` on the leader's timeline
+  const seek = useCallback((time: number) => {
+    videosRef.current.forEach((_, index) => seekVideo(index, mapTime(time, 0, index)))
+  }, [])
+
+  // Treats the videos' current positions as the same moment from now on
+  const alignHere = useCallback(() => {
+    const leader = videosRef.current[0]
+    if (!leader) return
+    offsetsRef.current = videosRef.current.map((video) => (video ? video.currentTime - leader.currentTime : 0))
+    setAligned(offsetsRef.current.some((offset) => Math.abs(offset) > 0.05))
+  }, [])
+
+  const resetAlignment = useCallback(() => {
+    offsetsRef.current = []
+    setAligned(false)
+    const leader = videosRef.current[0]
+    if (leader) seek(leader.currentTime)
+  }, [seek])
+
+  return {
+    register,
+    synced,
+    setSynced,
+    playing,
+    currentTime,
+    duration,
+    aligned,
+    play,
+    pause,
+    seek,
+    alignHere,
+    resetAlignment,
+  }
+}
@@ -0,0 +1,235 @@
+"use client"
+
+import { useEffect, useRef, useState } from "react"
+import { useAuth } from "@/contexts/auth-context"
+import { useApi } from "@/hooks/use-api"
+import { ApiError } from "@/lib/api"
+import { createChunkedUpload, fileFingerprint, type ChunkedUpload } from "@/lib/chunked-upload"
+import { MAX_UPLOAD_BYTES } from "@/lib/constants"
+import { cleanDancers, dancersProblem, emptyDancers, formatDancers } from "@/lib/dancers"
+import type { AnalysisDancers, AnalysisType } from "@/lib/models"
+
+export type QueueItemStatus = "queued" | "uploading" | "completing" | "completed" | "failed"
+
+export interface QueueItem {
+  // File fingerprint, so dropping the same video twice doesn't queue it twice
+  id: string
+  file: File
+  analysisType: AnalysisType
+  danceType: string
+  dancers: AnalysisDancers
+  status: QueueItemStatus
+  progress: number
+  error?: string
+}
+
+export interface QueueDefaults {
+  analysisType: AnalysisType
+  danceType: string
+}
+
+interface UseUploadQueueOptions {
+  concurrency?: number
+  // Called after each video has been handed to the analyzer
+  onItemUploaded?: () => void
+  // Studio whose credit pool pays for the uploads
+  studioId?: string
+}
+
+// What still has to be filled in before the item can be uploaded
+export const queueItemProblem = (item: QueueItem): string | null =>
+  dancersProblem(item.analysisType, item.dancers) || (item.danceType ? null : "Please select a dance type")
+
+/**
+ * Uploads a list of videos, `concurrency` at a time, each through its own
+ * chunked upload. Items fail independently and can be retried one by one;
+ * running out of credits stops the rest of the queue.
+ */
+export function useUploadQueue({ concurrency = 2, onItemUploaded, studioId }: UseUploadQueueOptions = {}) {
+  const api = useApi()
+  const { currentUser } = useAuth()
+  const [items, setItems] = useState<QueueItem[]>([])
+  const [running, setRunning] = useState(false)
+
+  // The scheduler runs outside React's render cycle, so it reads these instead of state
+  const itemsRef = useRef<QueueItem[]>([])
+  const runningRef = useRef(false)
+  const activeRef = useRef(new Map<string, ChunkedUpload>())
+  const onItemUploadedRef = useRef(onItemUploaded)
+  const studioIdRef = useRef(studioId)
+  const userIdRef = useRef(currentUser?.uid)
+  useEffect(() => {
+    onItemUploadedRef.current = onItemUploaded
+    studioIdRef.current = studioId
+    userIdRef.current = currentUser?.uid
+  })
+
+  const commit = (next: (items: QueueItem[]) => QueueItem[]) => {
+    itemsRef.current = next(itemsRef.current)
+    setItems(itemsRef.current)
+  }
+
+  const updateItem = (id: string, patch: Partial<QueueItem>) => {
+    commit((current) => current.map((item) => (item.id === id ? { ...item, ...patch } : item)))
+  }
+
+  // Edits from the form; a running queue picks the item up once it is complete
+  const editItem = (id: string, patch: Partial<QueueItem>) => {
+    updateItem(id, patch)
+    pump()
+  }
+
+  const setRunningState = (value: boolean) => {
+    runningRef.current = value
+    setRunning(value)
+  }
+
+  const uploadItem = async (item: QueueItem) => {
+    const userId = userIdRef.current
+    if (!userId) {
+      updateItem(item.id, { status: "failed", error: "Please log in to upload" })
+      pump()
+      return
+    }
+    updateItem(item.id, { status: "uploading", progress: 0, error: undefined })
+
+    const dancers = cleanDancers(item.dancers)
+    const upload = createChunkedUpload({
+      api,
+      userId,
+      file: item.file,
+      metadata: {
+        dancers,
+        dancers_label: formatDancers(item.analysisType, dancers),
+        dance_type: item.danceType,
+        analysis_type: item.analysisType,
+        studio_id: studioIdRef.current,
+      },
+      onProgress: (progress) => updateItem(item.id, { progress }),
+      onStatusChange: (status) => {
+        if (status === "completing") updateItem(item.id, { status: "completing" })
+      },
+    })
+    activeRef.current.set(item.id, upload)
+
+    try {
+      const result = await upload.start()
+      // null: the upload was stopped because the item was removed
+      if (result) {
+        updateItem(item.id, { status: "completed", progress: 100 })
+        onItemUploadedRef.current?.()
+      }
+    } catch (error) {
+      if (error instanceof ApiError && error.isInsufficientCredits) {
+        updateItem(item.id, { status: "failed", error: "Not enough credits" })
+        setRunningState(false)
+      } else {
+        updateItem(item.id, {
+          status: "failed",
+          error: error instanceof ApiError && error.status === 400 ? error.message : "Upload failed",
+        })
+      }
+    } finally {
+      activeRef.current.delete(item.id)
+      pump()
+    }
+  }
+
+  const pump = () => {
+    if (!runningRef.current) return
+
+    // Items still missing details wait until they are filled in
+    const ready = itemsRef.current.filter(
+      (item) => item.status === "queued" && !activeRef.current.has(item.id) && !queueItemProblem(item),
+    )
+    const slots = concurrency - activeRef.current.size
+    ready.slice(0, Math.max(0, slots)).forEach((item) => uploadItem(item))
+
+    if (ready.length === 0 && activeRef.current.size === 0) {
+      setRunningState(false)
+    }
+  }
+
+  // Returns the names of files that were not added because they are too large
+  const addFiles = (files: File[], defaults: QueueDefaults) => {
+    const rejected: string[] = []
+    const known = new Set(itemsRef.current.map((item) => item.id))
+    const added: QueueItem[] = []
+
+    files.forEach((file) => {
+      if (file.size > MAX_UPLOAD_BYTES) {
+        rejected.push(file.name)
+        return
+      }
+      const id = fileFingerprint(file)
+      if (known.has(id)) return
+      known.add(id)
+      added.push({
+        id,
+        file,
+        analysisType: defaults.analysisType,
+        danceType: defaults.danceType,
+        dancers: emptyDancers(defaults.analysisType),
+        status: "queued",
+        progress: 0,
+      })
+    })
+
+    commit((current) => [...current, ...added])
+    if (added.length > 0) pump()
+    return rejected
+  }
+
+  // Applies the shared defaults to every item that hasn't started yet
+  const applyDefaults = (defaults: QueueDefaults) => {
+    commit((current) =>
+      current.map((item) =>
+        item.status === "queued" || item.status === "failed"
+          ? {
+              ...item,
+              analysisType: defaults.analysisType,
+              danceType: defaults.danceType,
+              dancers: item.analysisType === defaults.analysisType ? item.dancers : emptyDancers(defaults.analysisType),
+            }
+          : item,
+      ),
+    )
+  }
+
+  const removeItem = (id: string) => {
+    const upload = activeRef.current.get(id)
+    if (upload) upload.cancel()
+    commit((current) => current.filter((item) => item.id !== id))
+  }
+
+  const clearCompleted = () => {
+    commit((current) => current.filter((item) => item.status !== "completed"))
+  }
+
+  // Starts everything that is waiting, including items that failed earlier
+  const start = () => {
+    commit((current) =>
+      current.map((item) => (item.status === "failed" ? { ...item, status: "queued", error: undefined } : item)),
+    )
+    setRunningState(true)
+    pump()
+  }
+
+  const retry = (id: string) => {
+    // The stored session is picked up again, so the retry continues from the last confirmed chunk
+    updateItem(id, { status: "queued", error: undefined })
+    if (!runningRef.current) setRunningState(true)
+    pump()
+  }
+
+  // Leaving the page pauses active uploads; they show up as unfinished uploads next time
+  useEffect(() => {
+    const active = activeRef.current
+    return () => {
+      runningRef.current = false
+      active.forEach((upload) => upload.pause())
+    }
+  }, [])
+
+  return { items, running, addFiles, editItem, applyDefaults, removeItem, clearCompleted, start, retry }
+}
@@ -0,0 +1,165 @@
+import { spawn, type ChildProcess } from "node:child_process"
+import { once } from "node:events"
+import { join } from "node:path"
+import { afterAll, afterEach, beforeAll, describe, expect, it, vi } from "vitest"
+import { applyStatusEvent, openStatusStream, parseStatusEvent, type AnalysisStatusEvent } from "./analysis-status"
+import type { Analysis } from "./models"
+
+describe("parseStatusEvent", () => {
+  it("reads a transition", () => {
+    expect(parseStatusEvent('{"id":12,"status":"completed"}')).toEqual({ id: "12", status: "completed" })
+    expect(parseStatusEvent('{"id":"a","status":"failed","message":"No dancers found"}')).toEqual({
+      id: "a",
+      status: "failed",
+      message: "No dancers found",
+    })
+  })
+
+  it.each(["", "not json", '{"status":"completed"}', '{"id":"a","status":"queued"}'])("ignores %j", (data) => {
+    expect(parseStatusEvent(data)).toBeNull()
+  })
+
+  it("applies only to its own analysis", () => {
+    const analysis = { id: "a", processed: false, status: "processing" } as Analysis
+    expect(applyStatusEvent(analysis, { id: "a", status: "completed" })).toMatchObject({ processed: true, status: "completed" })
+    expect(applyStatusEvent(analysis, { id: "b", status: "completed" })).toBe(analysis)
+  })
+})
+
+// Just enough EventSource to drive the handlers
+class FakeEventSource {
+  static CONNECTING = 0
+  static OPEN = 1
+  static CLOSED = 2
+  static last: FakeEventSource
+
+  readyState = FakeEventSource.CONNECTING
+  onopen: (() => void) | null = null
+  onmessage: ((message: MessageEvent) => void) | null = null
+  onerror: (() => void) | null = null
+  close = vi.fn(() => {
+    this.readyState = FakeEventSource.CLOSED
+  })
+
+  constructor(public url: string) {
+    FakeEventSource.last = this
+  }
+
+  addEventListener() {}
+
+  fail(readyState: number) {
+    this.readyState = readyState
+    this.onerror?.()
+  }
+}
+
+describe("openStatusStream", () => {
+  afterEach(() => {
+    vi.unstubAllGlobals()
+  })
+
+  it("leaves reconnecting to the browser while it retries", () => {
+    vi.stubGlobal("EventSource", FakeEventSource)
+    const handlers = { onEvent: vi.fn(), onDisconnect: vi.fn(), onClosed: vi.fn() }
+    openStatusStream("http://stream.test/?ticket=a", handlers)
+
+    FakeEventSource.last.fail(FakeEventSource.CONNECTING)
+    expect(handlers.onDisconnect).toHaveBeenCalledTimes(1)
+    expect(handlers.onClosed).not.toHaveBeenCalled()
+  })
+
+  it("reports when the browser gives up on the URL", () => {
+    vi.stubGlobal("EventSource", FakeEventSource)
+    const handlers = { onEvent: vi.fn(), onDisconnect: vi.fn(), onClosed: vi.fn() }
+    openStatusStream("http://stream.test/?ticket=a", handlers)
+
+    FakeEventSource.last.fail(FakeEventSource.CLOSED)
+    expect(handlers.onDisconnect).toHaveBeenCalledTimes(1)
+    expect(handlers.onClosed).toHaveBeenCalledTimes(1)
+  })
+
+  it("passes on status messages", () => {
+    vi.stubGlobal("EventSource", FakeEventSource)
+    const handlers = { onEvent: vi.fn() }
+    openStatusStream("http://stream.test/?ticket=a", handlers)
+
+    FakeEventSource.last.onmessage?.({ data: '{"id":"a","status":"completed"}' } as MessageEvent)
+    expect(handlers.onEvent).toHaveBeenCalledWith({ id: "a", status: "completed" })
+  })
+})
+
+describe("status stream against the mock server", () => {
+  let server: ChildProcess
+  let streamUrl: string
+
+  beforeAll(async () => {
+    server = spawn(process.execPath, [join(__dirname, "..", "scripts", "mock-status-server.mjs"), "0"])
+    const [output] = await once(server.stdout!, "data")
+    streamUrl = String(output).match(/http:\/\/\S+/)![0]
+  })
+
+  afterAll(() => {
+    server.kill()
+  })
+
+  const statusStreamUrl = async () => {
+    vi.stubEnv("NEXT_PUBLIC_STATUS_STREAM_URL", streamUrl)
+    vi.resetModules()
+    const { createApiClient } = await import("./api")
+    return createApiClient(async () => "firebase-id-token").analyses.statusStreamUrl()
+  }
+
+  // Reads server-sent events until `count` status events have arrived
+  const readEvents = async (response: Response, count: number) => {
+    const reader = response.body!.pipeThrough(new TextDecoderStream()).getReader()
+    const events: AnalysisStatusEvent[] = []
+    let buffer = ""
+    while (events.length < count) {
+      const { value, done } = await reader.read()
+      if (done) break
+      buffer += value
+      const frames = buffer.split("\n\n")
+      buffer = frames.pop()!
+      frames.forEach((frame) => {
+        const data = frame.match(/^data: (.*)$/m)
+        const event = data && parseStatusEvent(data[1])
+        if (event) events.push(event)
+      })
+    }
+    await reader.cancel()
+    return events
+  }
+
+  afterEach(() => {
+    vi.unstubAllEnvs()
+  })
+
+  it("opens with a ticket instead of the ID token", async () => {
+    const url = await statusStreamUrl()
+    expect(url).not.toContain("firebase-id-token")
+    expect(new URL(url).searchParams.get("ticket")).toBeTruthy()
+
+    const response = await fetch(url)
+    expect(response.status).toBe(200)
+
+    const transition = fetch(streamUrl.replace("/analyses/status-stream", "/mock/transition"), {
+      method: "POST",
+      body: JSON.stringify({ id: "abc", status: "completed" }),
+    })
+    const [events] = await Promise.all([readEvents(response, 1), transition])
+    expect(events).toEqual([{ id: "abc", status: "completed" }])
+  })
+
+  it("refuses a ticket the second time, so a reconnect needs a new URL", async () => {
+    const url = await statusStreamUrl()
+    const first = await fetch(url)
+    await first.body!.cancel()
+
+    expect((await fetch(url)).status).toBe(401)
+    expect((await fetch(streamUrl)).status).toBe(401)
+
+    const fresh = await fetch(await statusStreamUrl())
+    expect(fresh.status).toBe(200)
+    await fresh.body!.cancel()
+  })
+})
@@ -0,0 +1,82 @@
+import type { Analysis } from "./models"
+
+export type AnalysisStatusValue = "processing" | "completed" | "failed"
+
+export interface AnalysisStatusEvent {
+  id: string
+  status: AnalysisStatusValue
+  message?: string
+}
+
+const STATUS_VALUES: AnalysisStatusValue[] = ["processing", "completed", "failed"]
+
+export const isFailed = (analysis: Analysis) => !!analysis.status && analysis.status.toLowerCase().includes("failed")
+
+// Jobs the backend is still working on: these are the only reason to keep polling.
+export const isInFlight = (analysis: Analysis) => !analysis.processed && !isFailed(analysis)
+
+export function parseStatusEvent(data: string): AnalysisStatusEvent | null {
+  try {
+    const raw = JSON.parse(data)
+    const id = typeof raw?.id === "number" ? String(raw.id) : raw?.id
+    if (typeof id !== "string" || !STATUS_VALUES.includes(raw.status)) {
+      return null
+    }
+    return { id, status: raw.status, message: typeof raw.message === "string" ? raw.message : undefined }
+  } catch {
+    return null
+  }
+}
+
+export function applyStatusEvent(analysis: Analysis, event: AnalysisStatusEvent): Analysis {
+  if (analysis.id !== event.id) return analysis
+
+  return {
+    ...analysis,
+    processed: event.status === "completed",
+    status: event.status,
+  }
+}
+
+interface StatusStreamHandlers {
+  onEvent: (event: AnalysisStatusEvent) => void
+  onOpen?: () => void
+  // Called whenever the connection drops. The browser keeps reconnecting by
+  // itself; onOpen fires again once it succeeds.
+  onDisconnect?: () => void
+  // Called after onDisconnect when the browser gives up instead, e.g. because
+  // the server refused the URL's ticket. Only a new URL can reconnect then.
+  onClosed?: () => void
+}
+
+/**
+ * Listens to the backend's server-sent status feed. Each message is a JSON
+ * `{ id, status }` transition, sent either as a default message or as a named
+ * `status` event. Returns a function that closes the connection.
+ */
+export function openStatusStream(url: string, handlers: StatusStreamHandlers) {
+  if (typeof EventSource === "undefined") {
+    handlers.onDisconnect?.()
+    return () => {}
+  }
+
+  const source = new EventSource(url)
+
+  const handleMessage = (message: MessageEvent) => {
+    const event = parseStatusEvent(message.data)
+    if (event) handlers.onEvent(event)
+  }
+
+  source.onopen = () => handlers.onOpen?.()
+  source.onmessage = handleMessage
+  source.addEventListener("status", handleMessage as EventListener)
+  source.onerror = () => {
+    handlers.onDisconnect?.()
+    if (source.readyState === EventSource.CLOSED) {
+      source.close()
+      handlers.onClosed?.()
+    }
+  }
+
+  return () => source.close()
+}
@@ -0,0 +1,743 @@
+import { API_BASE, STATUS_STREAM_URL } from "./constants"
+import {
+  ANALYSIS_TYPES,
+  parseAdminAnalysis,
+  parseAnnotation,
+  parseBranding,
+  parseAnalysis,
+  parseAnalysisShare,
+  parseAnalysisShares,
+  parseDancer,
+  parseEventEntry,
+  parseEventSummary,
+  parseList,
+  parseOne,
+  parseSharedAnalysis,
+  parseSharedAnalysisSummary,
+  parseShareLink,
+  parseStreamTicket,
+  parseStudio,
+  parseStudioInvite,
+  parseStudioMember,
+  parseTeam,
+  parseTrashedAnalysis,
+  parseUploadSession,
+  parseUserRoles,
+  parseUserSearchResult,
+  type Analysis,
+  type AnalysisDancers,
+  type Branding,
+  type DancerRef,
+  type DrawingStroke,
+  type EventEntry,
+  type SharePermission,
+  type StudioRole,
+  type TeamType,
+  type UploadSession,
+} from "./models"
+import type { Role } from "./roles"
+
+export interface CreditsResponse {
+  credits: number
+  total_purchased: number
+  total_used: number
+}
+
+export interface PaymentInitializeResponse {
+  authorization_url?: string
+  reference?: string
+  [key: string]: unknown
+}
+
+export interface PaymentVerifyResponse {
+  status: string
+  [key: string]: unknown
+}
+
+// Analyses are submitted with structured dancers; the label is what older
+// views and exports display.
+interface AnalysisSubmission {
+  dancers: AnalysisDancers
+  dancers_label: string
+  dance_type: string
+  analysis_type: string
+  // Charge this studio's credit pool instead of the member's own credits
+  studio_id?: string
+}
+
+export interface AnalyzeYoutubePayload extends AnalysisSubmission {
+  youtube_url: string
+}
+
+export interface UploadSessionPayload extends AnalysisSubmission {
+  filename: string
+  size: number
+  mime_type: string
+}
+
+export interface DancerPayload {
+  name: string
+  notes?: string
+}
+
+export interface AnnotationPayload {
+  time: number
+  text: string
+  drawing: DrawingStroke[]
+}
+
+export interface ShareLinkPayload {
+  allow_export: boolean
+  // ISO 8601; omit for a link that never expires
+  expires_at?: string
+  password?: string
+}
+
+// What a visitor needs to open a public link: its token, and the password if it has one
+export interface ShareLinkAccess {
+  token: string
+  password?: string
+}
+
+export interface StudioPayload {
+  name?: string
+  credit_pool?: boolean
+}
+
+export interface StudioInvitePayload {
+  email: string
+  role: StudioRole
+}
+
+export interface TeamPayload {
+  name: string
+  type: TeamType
+  members: DancerRef[]
+}
+
+export interface HealthResponse {
+  // "ok" when every dependency is up; anything else means degraded
+  status?: string
+}
+
+export interface VerifyTokenPayload {
+  idToken: string
+  sourcePage?: string
+  country?: string
+}
+
+/**
+ * Normalized error for every backend call. `status` is 0 when the request
+ * never reached the server (network failure, CORS) or was aborted by timeout.
+ */
+export class ApiError extends Error {
+  status: number
+  code?: string
+  data?: unknown
+
+  constructor(message: string, status: number, options: { code?: string; data?: unknown } = {}) {
+    super(message)
+    this.name = "ApiError"
+    this.status = status
+    this.code = options.code
+    this.data = options.data
+  }
+
+  // "offline": refused locally because the connectivity monitor says the backend is unreachable
+  get isNetworkError() {
+    return this.code === "network" || this.code === "offline"
+  }
+
+  get isTimeout() {
+    return this.code === "timeout"
+  }
+
+  get isUnauthorized() {
+    return this.status === 401
+  }
+
+  get isAborted() {
+    return this.code === "aborted"
+  }
+
+  // 410: the owner moved the analysis to the trash
+  get isRemoved() {
+    return this.status === 410 && !this.isLinkExpired
+  }
+
+  // Public share links
+  get isLinkExpired() {
+    return this.code === "link_expired"
+  }
+
+  get isPasswordRequired() {
+    return this.code === "password_required"
+  }
+
+  get isWrongPassword() {
+    return this.code === "invalid_password"
+  }
+
+  get isServerError() {
+    return this.status >= 500
+  }
+
+  // Older backends only say so in the message
+  get isInsufficientCredits() {
+    return this.status === 402 || this.code === "insufficient_credits" || /insufficient credits/i.test(this.message)
+  }
+}
+
+type AuthMode = "required" | "optional" | "none"
+
+interface RequestOptions {
+  method?: "GET" | "POST" | "PUT" | "PATCH" | "DELETE"
+  query?: Record<string, string | number | boolean | undefined | null>
+  body?: unknown
+  auth?: AuthMode
+  // Use this token instead of asking the provider, e.g. right after sign-in
+  // before the auth context has caught up with the new user.
+  token?: string
+  timeoutMs?: number
+  responseType?: "json" | "blob"
+  // Another server than the API, e.g. the status stream
+  base?: string
+  // Passed on to fetch(); "no-store" for answers that must come from the server
+  cache?: RequestCache
+  // Lets the request finish after the page is closed, e.g. a delete committed on the way out
+  keepalive?: boolean
+}
+
+interface UploadOptions {
+  onProgress?: (percent: number) => void
+  method?: "POST" | "PUT" | "PATCH"
+  headers?: Record<string, string>
+  signal?: AbortSignal
+}
+
+export type TokenProvider = (forceRefresh?: boolean) => Promise<string | null>
+
+export interface ApiClientOptions {
+  // While this returns true, anything but a GET fails fast instead of hanging on a dead connection
+  isOffline?: () => boolean
+  // The current token without waiting, so a keepalive request can start before the page unloads
+  peekToken?: () => string | null
+}
+
+const buildUrl = (path: string, query?: RequestOptions["query"], base = API_BASE) => {
+  const url = new URL(`${base}${path}`)
+  if (query) {
+    Object.entries(query).forEach(([key, value]) => {
+      if (value !== undefined && value !== null) {
+        url.searchParams.set(key, String(value))
+      }
+    })
+  }
+  return url.toString()
+}
+
+// A field of a JSON object body; undefined for anything else
+const field = (data: unknown, key: string) =>
+  data && typeof data === "object" && !Array.isArray(data) ? (data as Record<string, unknown>)[key] : undefined
+
+const asText = (value: unknown) => (typeof value === "string" && value ? value : undefined)
+
+const errorFromBody = (status: number, statusText: string, data: unknown) => {
+  const message =
+    asText(field(data, "error")) || asText(field(data, "message")) || asText(data) || statusText || `HTTP error! status: ${status}`
+  return new ApiError(message, status, { code: asText(field(data, "code")), data })
+}
+
+const readBody = async (response: Response) => {
+  const text = await response.text()
+  if (!text) return null
+  try {
+    return JSON.parse(text)
+  } catch {
+    return text
+  }
+}
+
+// The message of anything thrown, for showing to the user
+export const errorMessage = (error: unknown) =>
+  error instanceof Error ? error.message : typeof error === "string" ? error : undefined
+
+const offlineError = () =>
+  new ApiError("You're offline. Try again once the connection is back.", 0, { code: "offline" })
+
+export function createApiClient(getToken: TokenProvider, { isOffline, peekToken }: ApiClientOptions = {}) {
+  const resolveToken = async (auth: AuthMode, token?: string) => {
+    if (auth === "none") return null
+    const resolved = token ?? (await getToken())
+    if (!resolved && auth === "required") {
+      throw new ApiError("Authentication required", 401, { code: "unauthenticated" })
+    }
+    return resolved
+  }
+
+  const request = async <T>(path: string, options: RequestOptions = {}, retryUnauthorized = true): Promise<T> => {
+    const { method = "GET", query, body, auth = "required", timeoutMs, responseType = "json", base, cache, keepalive } =
+      options
+    if (method !== "GET" && isOffline?.()) throw offlineError()
+    // Nothing may be awaited before a keepalive fetch: the page can be gone by then
+    const peeked = keepalive && auth !== "none" && !options.token ? peekToken?.() : null
+    const token = peeked || (await resolveToken(auth, options.token))
+
+    const headers: Record<string, string> = {
+      Accept: "application/json",
+      "Content-Type": "application/json",
+    }
+    if (token) {
+      headers["Authorization"] = `Bearer ${token}`
+    }
+
+    const controller = new AbortController()
+    const timeoutId = timeoutMs ? setTimeout(() => controller.abort(), timeoutMs) : undefined
+
+    let response: Response
+    try {
+      response = await fetch(buildUrl(path, query, base), {
+        method,
+        headers,
+        body: body === undefined ? undefined : JSON.stringify(body),
+        mode: "cors",
+        cache,
+        keepalive,
+        signal: controller.signal,
+      })
+    } catch (error) {
+      if (error instanceof Error && error.name === "AbortError") {
+        throw new ApiError(`Request timed out after ${Math.round((timeoutMs || 0) / 1000)} seconds`, 0, {
+          code: "timeout",
+        })
+      }
+      throw new ApiError("Unable to connect to the backend server", 0, { code: "network", data: error })
+    } finally {
+      if (timeoutId) clearTimeout(timeoutId)
+    }
+
+    // The cached ID token may have expired or been revoked: retry once with a fresh one
+    if (response.status === 401 && retryUnauthorized && token && !options.token) {
+      const freshToken = await getToken(true)
+      if (freshToken && freshToken !== token) {
+        return request<T>(path, { ...options, token: freshToken }, false)
+      }
+    }
+
+    if (!response.ok) {
+      throw errorFromBody(response.status, response.statusText, await readBody(response))
+    }
+
+    if (responseType === "blob") {
+      return (await response.blob()) as T
+    }
+    return (await readBody(response)) as T
+  }
+
+  // fetch() has no upload progress events, so uploads go through XHR.
+  const upload = async <T>(path: string, body: FormData | Blob, options: UploadOptions = {}): Promise<T> => {
+    if (isOffline?.()) throw offlineError()
+    const token = await resolveToken("optional")
+
+    return new Promise<T>((resolve, reject) => {
+      const xhr = new XMLHttpRequest()
+
+      if (options.signal) {
+        if (options.signal.aborted) {
+          reject(new ApiError("Upload aborted", 0, { code: "aborted" }))
+          return
+        }
+        options.signal.addEventListener("abort", () => xhr.abort())
+      }
+
+      xhr.upload.onprogress = (event) => {
+        if (event.lengthComputable && options.onProgress) {
+          options.onProgress(Math.round((event.loaded / event.total) * 100))
+        }
+      }
+
+      xhr.onload = () => {
+        let data: unknown = null
+        try {
+          data = xhr.responseText ? JSON.parse(xhr.responseText) : null
+        } catch {
+          data = xhr.responseText
+        }
+
+        if (xhr.status >= 200 && xhr.status < 300) {
+          resolve(data as T)
+        } else {
+          reject(errorFromBody(xhr.status, xhr.statusText || "Upload failed", data))
+        }
+      }
+
+      xhr.onerror = () => {
+        reject(new ApiError("Upload failed", 0, { code: "network" }))
+      }
+
+      xhr.onabort = () => {
+        reject(new ApiError("Upload aborted", 0, { code: "aborted" }))
+      }
+
+      xhr.open(options.method || "POST", buildUrl(path), true)
+      if (token) {
+        xhr.setRequestHeader("Authorization", `Bearer ${token}`)
+      }
+      Object.entries(options.headers || {}).forEach(([name, value]) => xhr.setRequestHeader(name, value))
+      xhr.send(body)
+    })
+  }
+
+  const listAnalyses = async (params: { analysis_type: string; user_id?: string }) =>
+    parseList(await request<unknown>("/analyses", { query: params }), parseAnalysis)
+
+  return {
+    // Probes the backend itself, never an HTTP or service worker cache
+    health: (timeoutMs: number) =>
+      request<HealthResponse | null>("/health", { auth: "none", timeoutMs, cache: "no-store" }),
+
+    analyses: {
+      list: listAnalyses,
+      // The list endpoint is per analysis type; this merges every type
+      listAll: async (params: { user_id?: string } = {}) => {
+        const lists = await Promise.all(ANALYSIS_TYPES.map((type) => listAnalyses({ ...params, analysis_type: type })))
+        const unique = new Map<string, Analysis>()
+        lists.flat().forEach((analysis) => unique.set(analysis.id, analysis))
+        return Array.from(unique.values())
+      },
+      formatted: (id: string) => request<{ html?: string }>(`/analyses/${id}/formatted`),
+      pdf: (id: string) => request<Blob>(`/analyses/${id}/pdf`, { responseType: "blob" }),
+      rerun: (id: string, options: { timeoutMs?: number } = {}) =>
+        request<{ message?: string }>(`/analyses/${id}/rerun`, { method: "POST", timeoutMs: options.timeoutMs }),
+      // Moves the analysis to the trash; see `trash` to restore or purge it
+      remove: (id: string, options: { keepalive?: boolean } = {}) =>
+        request<{ message?: string }>(`/analyses/${id}`, { method: "DELETE", keepalive: options.keepalive }),
+      trash: {
+        list: async () => parseList(await request<unknown>("/analyses/trash"), parseTrashedAnalysis),
+        restore: (ids: string[]) =>
+          request<{ restored?: number }>("/analyses/trash/restore", { method: "POST", body: { ids } }),
+        // Deletes for good, skipping the retention period
+        purge: (ids: string[]) =>
+          request<{ purged?: number }>("/analyses/trash/purge", { method: "POST", body: { ids } }),
+        empty: () => request<{ purged?: number }>("/analyses/trash", { method: "DELETE" }),
+      },
+      // EventSource cannot send headers. Rather than the ID token, which would end up in proxy and
+      // access logs, the URL carries a short-lived ticket that opens the stream once; build a new URL
+      // for every connection.
+      statusStreamUrl: async () => {
+        const { ticket } = parseOne(
+          await request<unknown>("/ticket", { method: "POST", base: STATUS_STREAM_URL }),
+          parseStreamTicket,
+          "stream ticket",
+        )
+        return buildUrl("", { ticket }, STATUS_STREAM_URL)
+      },
+      // allow_export is still sent for backends that predate permissions
+      share: (id: string, recipientEmail: string, permissions: SharePermission[] = []) =>
+        request<{ share_id?: string }>(`/analyses/${id}/share`, {
+          method: "POST",
+          body: { recipient_email: recipientEmail, permissions, allow_export: permissions.includes("download") },
+        }),
+      // Everyone and every public link with access, for the owner
+      shares: {
+        list: async (id: string) => parseAnalysisShares(await request<unknown>(`/analyses/${id}/shares`)),
+        update: async (id: string, shareId: string, permissions: SharePermission[]) =>
+          parseOne(
+            await request<unknown>(`/analyses/${id}/shares/${shareId}`, {
+              method: "PATCH",
+              body: { permissions, allow_export: permissions.includes("download") },
+            }),
+            parseAnalysisShare,
+            "share",
+          ),
+        revoke: (id: string, shareId: string) =>
+          request<{ message?: string }>(`/analyses/${id}/shares/${shareId}`, { method: "DELETE" }),
+      },
+      links: {
+        create: async (id: string, payload: ShareLinkPayload) =>
+          parseOne(
+            await request<unknown>(`/analyses/${id}/links`, { method: "POST", body: payload }),
+            parseShareLink,
+            "share link",
+          ),
+        revoke: (id: string, linkId: string) =>
+          request<{ message?: string }>(`/analyses/${id}/links/${linkId}`, { method: "DELETE" }),
+      },
+      annotations: {
+        list: async (analysisId: string) =>
+          parseList(await request<unknown>(`/analyses/${analysisId}/annotations`), parseAnnotation),
+        create: async (analysisId: string, payload: AnnotationPayload) =>
+          parseOne(
+            await request<unknown>(`/analyses/${analysisId}/annotations`, { method: "POST", body: payload }),
+            parseAnnotation,
+            "annotation",
+          ),
+        update: async (analysisId: string, annotationId: string, payload: AnnotationPayload) =>
+          parseOne(
+            await request<unknown>(`/analyses/${analysisId}/annotations/${annotationId}`, {
+              method: "PUT",
+              body: payload,
+            }),
+            parseAnnotation,
+            "annotation",
+          ),
+        remove: (analysisId: string, annotationId: string, options: { keepalive?: boolean } = {}) =>
+          request<{ message?: string }>(`/analyses/${analysisId}/annotations/${annotationId}`, {
+            method: "DELETE",
+            keepalive: options.keepalive,
+          }),
+      },
+    },
+
+    analyze: {
+      upload: (formData: FormData, options: UploadOptions = {}) =>
+        upload<Partial<Analysis> & { message?: string }>("/analyze", formData, options),
+      youtube: (payload: AnalyzeYoutubePayload) =>
+        request<Partial<Analysis> & { message?: string }>("/analyze-youtube", {
+          method: "POST",
+          body: payload,
+          auth: "optional",
+        }),
+    },
+
+    // Resumable uploads: create a session, PUT chunks at the server's offset, then complete
+    // to start the analysis. GET on the session reports how many bytes have arrived.
+    uploads: {
+      create: async (payload: UploadSessionPayload) =>
+        parseOne(
+          await request<unknown>("/uploads", { method: "POST", body: payload, auth: "optional" }),
+          parseUploadSession,
+          "upload session",
+        ),
+      status: async (uploadId: string) =>
+        parseOne(await request<unknown>(`/uploads/${uploadId}`, { auth: "optional" }), parseUploadSession, "upload session"),
+      // Null when the server accepts the chunk without a body (204); ask `status` for the offset then
+      putChunk: async (
+        uploadId: string,
+        offset: number,
+        chunk: Blob,
+        options: { onProgress?: (percent: number) => void; signal?: AbortSignal } = {},
+      ): Promise<UploadSession | null> => {
+        const session = await upload<unknown>(`/uploads/${uploadId}`, chunk, {
+          ...options,
+          method: "PUT",
+          headers: {
+            "Content-Type": "application/offset+octet-stream",
+            "Upload-Offset": String(offset),
+          },
+        })
+        return session === null ? null : parseOne(session, parseUploadSession, "upload session")
+      },
+      complete: (uploadId: string) =>
+        request<Partial<Analysis> & { message?: string }>(`/uploads/${uploadId}/complete`, {
+          method: "POST",
+          auth: "optional",
+        }),
+      cancel: (uploadId: string) => request<unknown>(`/uploads/${uploadId}`, { method: "DELETE", auth: "optional" }),
+    },
+
+    events: {
+      list: async () => parseList(await request<unknown>("/events", { auth: "none" }), parseEventSummary),
+      entries: async (eventId: string) => {
+        // The API returns an object with an 'entries' array, older deployments a bare array
+        const data = await request<unknown>(`/events/${eventId}/entries`)
+        return parseList(Array.isArray(data) ? data : field(data, "entries") || [], parseEventEntry)
+      },
+      register: async (eventId: string, userId: string): Promise<EventEntry> => {
+        const data = await request<unknown>(`/events/${eventId}/entries`, {
+          method: "POST",
+          body: { event_id: eventId, user_id: userId },
+        })
+        return parseOne(field(data, "entry") || data, parseEventEntry, "event entry")
+      },
+    },
+
+    payment: {
+      initialize: (payload: {
+        amount: number
+        amountUSD: number | null
+        package: string
+        callback_url: string
+        currency: string
+        // Tops up this studio's credit pool instead of the buyer's credits
+        studio_id?: string
+      }) => request<PaymentInitializeResponse>("/payment/initialize", { method: "POST", body: payload }),
+      verify: (reference: string) => request<PaymentVerifyResponse>(`/payment/verify/${reference}`),
+    },
+
+    sharedAnalyses: {
+      list: async () => parseList(await request<unknown>("/shared-analyses"), parseSharedAnalysisSummary),
+      get: async (shareId: string) =>
+        parseOne(await request<unknown>(`/shared-analyses/${shareId}`), parseSharedAnalysis, "shared analysis"),
+      remove: (shareId: string, options: { keepalive?: boolean } = {}) =>
+        request<{ message?: string }>(`/shared-analyses/${shareId}`, { method: "DELETE", keepalive: options.keepalive }),
+      // The backend checks the share's permissions on each of these and answers 403 otherwise
+      pdf: (shareId: string) => request<Blob>(`/shared-analyses/${shareId}/pdf`, { responseType: "blob" }),
+      rerun: (shareId: string, options: { timeoutMs?: number } = {}) =>
+        request<{ message?: string }>(`/shared-analyses/${shareId}/rerun`, {
+          method: "POST",
+          timeoutMs: options.timeoutMs,
+        }),
+      // Everyone with access reads the notes; recipients who may comment add their own and edit only those
+      annotations: {
+        list: async (shareId: string) =>
+          parseList(await request<unknown>(`/shared-analyses/${shareId}/annotations`), parseAnnotation),
+        create: async (shareId: string, payload: AnnotationPayload) =>
+          parseOne(
+            await request<unknown>(`/shared-analyses/${shareId}/annotations`, { method: "POST", body: payload }),
+            parseAnnotation,
+            "annotation",
+          ),
+        update: async (shareId: string, annotationId: string, payload: AnnotationPayload) =>
+          parseOne(
+            await request<unknown>(`/shared-analyses/${shareId}/annotations/${annotationId}`, {
+              method: "PUT",
+              body: payload,
+            }),
+            parseAnnotation,
+            "annotation",
+          ),
+        remove: (shareId: string, annotationId: string, options: { keepalive?: boolean } = {}) =>
+          request<{ message?: string }>(`/shared-analyses/${shareId}/annotations/${annotationId}`, {
+            method: "DELETE",
+            keepalive: options.keepalive,
+          }),
+      },
+    },
+
+    // Opening a link counts a view. Both calls are POSTs so the password stays out of URLs and logs.
+    publicLinks: {
+      open: async ({ token, password }: ShareLinkAccess) =>
+        parseOne(
+          await request<unknown>(`/public/links/${encodeURIComponent(token)}`, {
+            method: "POST",
+            body: { password },
+            auth: "none",
+          }),
+          parseSharedAnalysis,
+          "shared analysis",
+        ),
+      annotations: async ({ token, password }: ShareLinkAccess) =>
+        parseList(
+          await request<unknown>(`/public/links/${encodeURIComponent(token)}/annotations`, {
+            method: "POST",
+            body: { password },
+            auth: "none",
+          }),
+          parseAnnotation,
+        ),
+    },
+
+    admin: {
+      analyses: async () => parseList(await request<unknown>("/admin/analyses"), parseAdminAnalysis),
+      // Every user's trash. Restore and purge go through `analyses.trash`, which admins may use on any id.
+      trash: async () => parseList(await request<unknown>("/admin/analyses/trash"), parseTrashedAnalysis),
+      emptyTrash: () => request<{ purged?: number }>("/admin/analyses/trash", { method: "DELETE" }),
+      // The backend writes these into the user's custom claims; they apply from the user's next ID token
+      roles: {
+        // Users holding any role beyond dancer
+        list: async () => parseList(await request<unknown>("/admin/roles"), parseUserRoles),
+        set: async (userId: string, roles: Role[]) =>
+          parseOne(
+            await request<unknown>(`/admin/users/${userId}/roles`, { method: "PUT", body: { roles } }),
+            parseUserRoles,
+            "user",
+          ),
+      },
+    },
+
+    // Saved dancer profiles and the couples, duos and formation teams built from them
+    roster: {
+      dancers: {
+        list: async () => parseList(await request<unknown>("/roster/dancers"), parseDancer),
+        create: async (payload: DancerPayload) =>
+          parseOne(await request<unknown>("/roster/dancers", { method: "POST", body: payload }), parseDancer, "dancer"),
+        update: async (id: string, payload: DancerPayload) =>
+          parseOne(
+            await request<unknown>(`/roster/dancers/${id}`, { method: "PUT", body: payload }),
+            parseDancer,
+            "dancer",
+          ),
+        remove: (id: string) => request<{ message?: string }>(`/roster/dancers/${id}`, { method: "DELETE" }),
+      },
+      teams: {
+        list: async () => parseList(await request<unknown>("/roster/teams"), parseTeam),
+        create: async (payload: TeamPayload) =>
+          parseOne(await request<unknown>("/roster/teams", { method: "POST", body: payload }), parseTeam, "team"),
+        update: async (id: string, payload: TeamPayload) =>
+          parseOne(await request<unknown>(`/roster/teams/${id}`, { method: "PUT", body: payload }), parseTeam, "team"),
+        remove: (id: string) => request<{ message?: string }>(`/roster/teams/${id}`, { method: "DELETE" }),
+      },
+    },
+
+    // Studios the user belongs to. Every member's analyses show up in the studio
+    // library for its owner and coaches.
+    studios: {
+      list: async () => parseList(await request<unknown>("/studios"), parseStudio),
+      create: async (payload: StudioPayload) =>
+        parseOne(await request<unknown>("/studios", { method: "POST", body: payload }), parseStudio, "studio"),
+      update: async (id: string, payload: StudioPayload) =>
+        parseOne(await request<unknown>(`/studios/${id}`, { method: "PATCH", body: payload }), parseStudio, "studio"),
+      remove: (id: string) => request<{ message?: string }>(`/studios/${id}`, { method: "DELETE" }),
+      credits: (id: string) => request<CreditsResponse>(`/studios/${id}/credits`),
+      // Library entries name the uploader, like the admin list
+      library: async (id: string) => parseList(await request<unknown>(`/studios/${id}/analyses`), parseAdminAnalysis),
+      members: {
+        list: async (studioId: string) =>
+          parseList(await request<unknown>(`/studios/${studioId}/members`), parseStudioMember),
+        update: async (studioId: string, userId: string, role: StudioRole) =>
+          parseOne(
+            await request<unknown>(`/studios/${studioId}/members/${userId}`, { method: "PATCH", body: { role } }),
+            parseStudioMember,
+            "studio member",
+          ),
+        // Also how a member leaves, with their own user id
+        remove: (studioId: string, userId: string) =>
+          request<{ message?: string }>(`/studios/${studioId}/members/${userId}`, { method: "DELETE" }),
+      },
+      invites: {
+        // Pending invites sent by a studio
+        list: async (studioId: string) =>
+          parseList(await request<unknown>(`/studios/${studioId}/invites`), parseStudioInvite),
+        create: async (studioId: string, payload: StudioInvitePayload) =>
+          parseOne(
+            await request<unknown>(`/studios/${studioId}/invites`, { method: "POST", body: payload }),
+            parseStudioInvite,
+            "studio invite",
+          ),
+        revoke: (studioId: string, inviteId: string) =>
+          request<{ message?: string }>(`/studios/${studioId}/invites/${inviteId}`, { method: "DELETE" }),
+        // Invites addressed to the current user
+        mine: async () => parseList(await request<unknown>("/studios/invites"), parseStudioInvite),
+        accept: async (inviteId: string) =>
+          parseOne(
+            await request<unknown>(`/studios/invites/${inviteId}/accept`, { method: "POST" }),
+            parseStudio,
+            "studio",
+          ),
+        decline: (inviteId: string) =>
+          request<{ message?: string }>(`/studios/invites/${inviteId}/decline`, { method: "POST" }),
+      },
+    },
+
+    user: {
+      credits: () => request<CreditsResponse>("/user/credits"),
+      search: async (email: string) =>
+        parseList(await request<unknown>("/user/search", { query: { email } }), parseUserSearchResult),
+      branding: async () => parseBranding(await request<unknown>("/user/branding")),
+      updateBranding: async (payload: Branding) =>
+        parseBranding(await request<unknown>("/user/branding", { method: "PUT", body: payload })),
+    },
+
+    auth: {
+      verifyToken: (payload: VerifyTokenPayload) =>
+        request<{ error?: string }>("/auth/verify-token", { method: "POST", body: payload, auth: "none" }),
+      register: (payload: Record<string, unknown>, token?: string) =>
+        request<unknown>("/auth/register", { method: "POST", body: payload, token }),
+      createUserDoc: (payload: Record<string, unknown>, token?: string) =>
+        request<unknown>("/auth/create-user-doc", { method: "POST", body: payload, token }),
+    },
+  }
+}
+
+export type ApiClient = ReturnType<typeof createApiClient>
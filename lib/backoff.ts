@@ -0,0 +1,54 @@
+export interface BackoffOptions {
+  initialDelayMs?: number
+  maxDelayMs?: number
+  factor?: number
+}
+
+// Delay before retry number `attempt` (0-based), with +/-20% jitter so that
+// many open tabs don't hit the backend in lockstep.
+export function backoffDelay(attempt: number, options: BackoffOptions = {}) {
+  const { initialDelayMs = 3000, maxDelayMs = 60000, factor = 2 } = options
+  const base = Math.min(initialDelayMs * Math.pow(factor, attempt), maxDelayMs)
+  const jitter = base * 0.2 * (Math.random() * 2 - 1)
+  return Math.round(Math.min(base + jitter, maxDelayMs))
+}
+
+/**
+ * Runs `task` repeatedly, waiting longer after each run. Call `reset()` to go
+ * back to the initial delay (e.g. after new work was submitted) and `stop()`
+ * to cancel the pending run.
+ */
+export function createBackoffTimer(task: () => Promise<void> | void, options: BackoffOptions = {}) {
+  let attempt = 0
+  let timeoutId: ReturnType<typeof setTimeout> | null = null
+  let stopped = false
+
+  const schedule = () => {
+    if (stopped) return
+    timeoutId = setTimeout(async () => {
+      try {
+        await task()
+      } finally {
+        attempt++
+        schedule()
+      }
+    }, backoffDelay(attempt, options))
+  }
+
+  const stop = () => {
+    stopped = true
+    if (timeoutId) clearTimeout(timeoutId)
+    timeoutId = null
+  }
+
+  const reset = () => {
+    if (timeoutId) clearTimeout(timeoutId)
+    attempt = 0
+    stopped = false
+    schedule()
+  }
+
+  schedule()
+
+  return { stop, reset }
+}
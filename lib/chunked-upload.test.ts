@@ -0,0 +1,108 @@
+// @vitest-environment jsdom
+import { beforeEach, describe, expect, it, vi } from "vitest"
+import type { ApiClient } from "./api"
+import { createChunkedUpload, listPendingUploads, type UploadMetadata } from "./chunked-upload"
+import { parseUploadSession, type UploadSession } from "./models"
+
+const CHUNK = 4
+
+const videoFile = (size: number) => new File([new Uint8Array(size)], "heat.mp4", { type: "video/mp4", lastModified: 1 })
+
+// A backend that stores chunks and answers each PUT with `answer(offset after the chunk)`
+const fakeApi = (answer: (offset: number) => UploadSession | null = (offset) => ({ upload_id: "u1", offset })) => {
+  let received = 0
+  const uploads = {
+    create: vi.fn(async () => ({ upload_id: "u1", offset: 0, chunk_size: CHUNK })),
+    status: vi.fn(async () => ({ upload_id: "u1", offset: received })),
+    putChunk: vi.fn(async (_id: string, offset: number, chunk: Blob) => {
+      received = offset + chunk.size
+      return answer(received)
+    }),
+    complete: vi.fn(async () => ({ id: "analysis-1" })),
+    cancel: vi.fn(async () => null),
+  }
+  return { api: { uploads } as unknown as ApiClient, uploads }
+}
+
+const metadata: UploadMetadata = {
+  dancers: { members: [{ name: "John Smith" }, { name: "Jane Doe" }] },
+  dancers_label: "John Smith & Jane Doe",
+  dance_type: "INTERNATIONAL WALTZ",
+  analysis_type: "couple",
+}
+
+describe("createChunkedUpload", () => {
+  beforeEach(() => {
+    localStorage.clear()
+  })
+
+  it("sends every chunk and then completes", async () => {
+    const { api, uploads } = fakeApi()
+    const result = await createChunkedUpload({ api, userId: "alice", file: videoFile(10), metadata }).start()
+
+    expect(result).toEqual({ id: "analysis-1" })
+    expect(uploads.putChunk.mock.calls.map((call) => call[1])).toEqual([0, 4, 8])
+    expect(uploads.complete).toHaveBeenCalledTimes(1)
+  })
+
+  it("asks for the offset when a chunk is accepted without a body", async () => {
+    const { api, uploads } = fakeApi(() => null)
+    await createChunkedUpload({ api, userId: "alice", file: videoFile(10), metadata }).start()
+
+    expect(uploads.status).toHaveBeenCalledTimes(3)
+    expect(uploads.complete).toHaveBeenCalledTimes(1)
+  })
+
+  it("stops instead of looping when the offset doesn't advance", async () => {
+    const { api, uploads } = fakeApi(() => ({ upload_id: "u1", offset: 0 }))
+    const upload = createChunkedUpload({ api, userId: "alice", file: videoFile(10), metadata })
+
+    await expect(upload.start()).rejects.toThrow(/can't continue/)
+    expect(uploads.putChunk).toHaveBeenCalledTimes(1)
+    expect(uploads.complete).not.toHaveBeenCalled()
+    expect(upload.getStatus()).toBe("failed")
+  })
+
+  it("doesn't complete when the server claims more bytes than the file has", async () => {
+    const { api, uploads } = fakeApi(() => ({ upload_id: "u1", offset: 99 }))
+
+    await expect(createChunkedUpload({ api, userId: "alice", file: videoFile(10), metadata }).start()).rejects.toThrow()
+    expect(uploads.complete).not.toHaveBeenCalled()
+  })
+
+  it("keeps resume records per user", async () => {
+    const { api } = fakeApi()
+    const upload = createChunkedUpload({ api, userId: "alice", file: videoFile(10), metadata })
+    vi.mocked(api.uploads.complete).mockRejectedValueOnce(new Error("Server error"))
+    await expect(upload.start()).rejects.toThrow()
+
+    expect(listPendingUploads("alice")).toHaveLength(1)
+    expect(listPendingUploads("bob")).toEqual([])
+  })
+
+  it("drops resume records from before they were kept per user", () => {
+    localStorage.setItem("flokraft.upload.heat.mp4:10:1", JSON.stringify({ fingerprint: "heat.mp4:10:1" }))
+
+    expect(listPendingUploads("alice")).toEqual([])
+    expect(localStorage.length).toBe(0)
+  })
+})
+
+describe("parseUploadSession", () => {
+  it("reads a session", () => {
+    expect(parseUploadSession({ upload_id: 7, offset: "1024", chunk_size: 512 })).toEqual({
+      upload_id: "7",
+      offset: 1024,
+      size: undefined,
+      chunk_size: 512,
+    })
+  })
+
+  it.each([null, "", {}, { upload_id: "u1" }, { upload_id: "u1", offset: -1 }, { upload_id: "u1", offset: 1.5 }])(
+    "rejects %j",
+    (raw) => {
+      vi.spyOn(console, "warn").mockImplementation(() => {})
+      expect(parseUploadSession(raw)).toBeNull()
+    },
+  )
+})
@@ -0,0 +1,237 @@
+import { ApiError, type ApiClient, type UploadSessionPayload } from "./api"
+import { backoffDelay } from "./backoff"
+
+// Followed by the user's uid, so a shared browser never offers one user another's upload
+const STORAGE_PREFIX = "flokraft.uploads."
+// Records from before they were kept per user; they can't be attributed, so they are dropped
+const LEGACY_STORAGE_PREFIX = "flokraft.upload."
+const DEFAULT_CHUNK_SIZE = 5 * 1024 * 1024
+const MAX_CHUNK_ATTEMPTS = 5
+
+export type UploadMetadata = Omit<UploadSessionPayload, "filename" | "size" | "mime_type">
+
+export type ChunkedUploadStatus = "idle" | "uploading" | "paused" | "completing" | "completed" | "failed"
+
+// What survives a page reload: enough to find the server session again once
+// the user picks the same file.
+export interface PendingUpload {
+  fingerprint: string
+  uploadId: string
+  fileName: string
+  size: number
+  offset: number
+  metadata: UploadMetadata
+  updatedAt: number
+}
+
+export const fileFingerprint = (file: File) => `${file.name}:${file.size}:${file.lastModified}`
+
+const userPrefix = (userId: string) => `${STORAGE_PREFIX}${userId}.`
+
+const storageKey = (userId: string, fingerprint: string) => `${userPrefix(userId)}${fingerprint}`
+
+const savePending = (userId: string, pending: PendingUpload) => {
+  try {
+    localStorage.setItem(storageKey(userId, pending.fingerprint), JSON.stringify(pending))
+  } catch (error) {
+    console.warn("Could not persist upload state:", error)
+  }
+}
+
+export const forgetPendingUpload = (userId: string, fingerprint: string) => {
+  localStorage.removeItem(storageKey(userId, fingerprint))
+}
+
+const loadPending = (userId: string, fingerprint: string): PendingUpload | null => {
+  try {
+    const raw = localStorage.getItem(storageKey(userId, fingerprint))
+    return raw ? (JSON.parse(raw) as PendingUpload) : null
+  } catch {
+    return null
+  }
+}
+
+export function listPendingUploads(userId: string): PendingUpload[] {
+  if (typeof localStorage === "undefined") return []
+
+  const prefix = userPrefix(userId)
+  const pending: PendingUpload[] = []
+  const legacy: string[] = []
+  for (let i = 0; i < localStorage.length; i++) {
+    const key = localStorage.key(i)
+    if (key?.startsWith(prefix)) {
+      const entry = loadPending(userId, key.slice(prefix.length))
+      if (entry) pending.push(entry)
+    } else if (key?.startsWith(LEGACY_STORAGE_PREFIX)) {
+      legacy.push(key)
+    }
+  }
+  legacy.forEach((key) => localStorage.removeItem(key))
+  return pending.sort((a, b) => b.updatedAt - a.updatedAt)
+}
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms))
+
+interface ChunkedUploadOptions {
+  api: ApiClient
+  // Whose upload this is; the resume record is kept under it
+  userId: string
+  file: File
+  metadata: UploadMetadata
+  onProgress?: (percent: number) => void
+  onStatusChange?: (status: ChunkedUploadStatus) => void
+}
+
+/**
+ * Uploads `file` in chunks against the /uploads session API. Each chunk is
+ * retried with backoff; progress is persisted in localStorage so a reload can
+ * resume from the server's offset. `start()` resolves with the /complete
+ * response, or with null if the upload was paused.
+ */
+export function createChunkedUpload({ api, userId, file, metadata, onProgress, onStatusChange }: ChunkedUploadOptions) {
+  const fingerprint = fileFingerprint(file)
+  let status: ChunkedUploadStatus = "idle"
+  let controller: AbortController | null = null
+
+  const setStatus = (next: ChunkedUploadStatus) => {
+    status = next
+    onStatusChange?.(next)
+  }
+
+  const reportProgress = (bytes: number) => {
+    onProgress?.(file.size > 0 ? Math.round((bytes / file.size) * 100) : 100)
+  }
+
+  // Reuse the stored session if the server still knows it, otherwise open a new one
+  const openSession = async () => {
+    const stored = loadPending(userId, fingerprint)
+    if (stored) {
+      try {
+        const session = await api.uploads.status(stored.uploadId)
+        return { uploadId: stored.uploadId, offset: session.offset, chunkSize: session.chunk_size }
+      } catch (error) {
+        if (!(error instanceof ApiError && (error.status === 404 || error.status === 410))) throw error
+        forgetPendingUpload(userId, fingerprint)
+      }
+    }
+
+    const session = await api.uploads.create({
+      filename: file.name,
+      size: file.size,
+      mime_type: file.type || "application/octet-stream",
+      ...metadata,
+    })
+    return { uploadId: session.upload_id, offset: session.offset, chunkSize: session.chunk_size }
+  }
+
+  // An offset that doesn't move forward would loop forever, one past the end would complete a partial file
+  const checkOffset = (next: number, previous: number) => {
+    if (next > previous && next <= file.size) return next
+    throw new Error(`The server reported ${next} of ${file.size} bytes received after ${previous}; the upload can't continue`)
+  }
+
+  const sendChunk = async (uploadId: string, offset: number, chunkSize: number, signal: AbortSignal) => {
+    const chunk = file.slice(offset, Math.min(offset + chunkSize, file.size))
+
+    for (let attempt = 0; ; attempt++) {
+      try {
+        const session = await api.uploads.putChunk(uploadId, offset, chunk, {
+          signal,
+          onProgress: (percent) => reportProgress(offset + (chunk.size * percent) / 100),
+        })
+        return checkOffset((session ?? (await api.uploads.status(uploadId))).offset, offset)
+      } catch (error) {
+        if (error instanceof ApiError && error.isAborted) throw error
+
+        // 409: our offset is stale (e.g. a previous chunk did land); ask the server where to continue
+        if (error instanceof ApiError && error.status === 409) {
+          return checkOffset((await api.uploads.status(uploadId)).offset, offset)
+        }
+
+        const retryable = error instanceof ApiError && (error.status === 0 || error.status >= 500)
+        if (!retryable || attempt + 1 >= MAX_CHUNK_ATTEMPTS) throw error
+
+        console.warn(`Chunk at ${offset} failed (attempt ${attempt + 1}), retrying`, error)
+        await sleep(backoffDelay(attempt, { initialDelayMs: 1000, maxDelayMs: 15000 }))
+        if (signal.aborted) throw new ApiError("Upload aborted", 0, { code: "aborted" })
+      }
+    }
+  }
+
+  const start = async () => {
+    if (status === "uploading" || status === "completing") return null
+
+    controller = new AbortController()
+    const { signal } = controller
+    setStatus("uploading")
+
+    try {
+      const session = await openSession()
+      if (session.offset > file.size) {
+        throw new Error(`The server reported ${session.offset} of ${file.size} bytes received; the upload can't continue`)
+      }
+      let offset = session.offset
+      const chunkSize = session.chunkSize || DEFAULT_CHUNK_SIZE
+
+      const persist = () =>
+        savePending(userId, {
+          fingerprint,
+          uploadId: session.uploadId,
+          fileName: file.name,
+          size: file.size,
+          offset,
+          metadata,
+          updatedAt: Date.now(),
+        })
+
+      persist()
+      reportProgress(offset)
+
+      while (offset < file.size) {
+        offset = await sendChunk(session.uploadId, offset, chunkSize, signal)
+        persist()
+        reportProgress(offset)
+      }
+
+      setStatus("completing")
+      const result = await api.uploads.complete(session.uploadId)
+      forgetPendingUpload(userId, fingerprint)
+      setStatus("completed")
+      return result
+    } catch (error) {
+      if (error instanceof ApiError && error.isAborted) {
+        setStatus("paused")
+        return null
+      }
+      setStatus("failed")
+      throw error
+    } finally {
+      controller = null
+    }
+  }
+
+  const pause = () => {
+    controller?.abort()
+  }
+
+  const cancel = async () => {
+    controller?.abort()
+    const stored = loadPending(userId, fingerprint)
+    forgetPendingUpload(userId, fingerprint)
+    if (stored) {
+      await api.uploads.cancel(stored.uploadId).catch(() => {})
+    }
+    setStatus("idle")
+  }
+
+  return {
+    start,
+    pause,
+    // Resuming is starting again: the session lookup picks up the server's offset
+    resume: start,
+    cancel,
+    getStatus: () => status,
+  }
+}
+
+export type ChunkedUpload = ReturnType<typeof createChunkedUpload>
@@ -0,0 +1,55 @@
+import { criterionLabel, type ScoreCard } from "./scores"
+
+// One criterion (or the total) across the compared analyses
+export interface ComparisonRow {
+  key: string
+  label: string
+  // One entry per analysis, undefined where it wasn't scored on this
+  scores: (number | undefined)[]
+  // Score minus the first analysis' score; undefined without both
+  deltas: (number | undefined)[]
+  // Index of the highest score, when it is unique
+  best?: number
+}
+
+const comparisonRow = (key: string, label: string, scores: (number | undefined)[]): ComparisonRow => {
+  const baseline = scores[0]
+  const scored = scores.filter((score): score is number => score !== undefined)
+  const top = Math.max(...scored)
+  const best = scored.length > 1 && scored.filter((score) => score === top).length === 1 ? scores.indexOf(top) : undefined
+
+  return {
+    key,
+    label,
+    scores,
+    deltas: scores.map((score, index) =>
+      index === 0 || score === undefined || baseline === undefined ? undefined : score - baseline,
+    ),
+    best,
+  }
+}
+
+// Aligns the criteria of several score cards, in the order they first appear
+export function compareCriteria(cards: ScoreCard[]): ComparisonRow[] {
+  const keys: string[] = []
+  cards.forEach((card) =>
+    card.criteria.forEach((criterion) => {
+      if (!keys.includes(criterion.key)) keys.push(criterion.key)
+    }),
+  )
+
+  return keys.map((key) =>
+    comparisonRow(
+      key,
+      criterionLabel(key),
+      cards.map((card) => card.criteria.find((criterion) => criterion.key === key)?.score),
+    ),
+  )
+}
+
+export const compareTotals = (cards: ScoreCard[]) =>
+  comparisonRow(
+    "total",
+    "Total",
+    cards.map((card) => card.total),
+  )
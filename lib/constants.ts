@@ -1,5 +1,9 @@
 export const API_BASE = "https://chappie-demo.novosense.africa:5555"
 
+// Server-sent events feed of analysis status transitions. Override with
+// NEXT_PUBLIC_STATUS_STREAM_URL to point at scripts/mock-status-server.mjs locally.
+export const STATUS_STREAM_URL = process.env.NEXT_PUBLIC_STATUS_STREAM_URL || `${API_BASE}/analyses/status-stream`
+
 export const DANCE_TYPES = [
   // Ballroom Dances
   "AMERICAN SMOOTH WALTZ",
@@ -40,7 +44,14 @@ export const DANCE_TYPES = [
   "FORMATION TRADITIONAL",
 ]
 
-export const ADMIN_UIDS = ["iMTsoOPrg6eR4rlJmaL1f0pA07Y2"]
+// Uploads are chunked and resumable, so full-length competition heats fit
+export const MAX_UPLOAD_BYTES = 2 * 1024 * 1024 * 1024
+
+// Credits charged by the backend per submitted analysis
+export const ANALYSIS_CREDIT_COST = 5
+
+// Days a deleted analysis stays in the trash before the backend purges it
+export const TRASH_RETENTION_DAYS = 30
 
 export const getDanceTypesByAnalysisType = (type: string) => {
   if (type === "couple") {
@@ -54,3 +65,7 @@ export const getDanceTypesByAnalysisType = (type: string) => {
     return DANCE_TYPES.slice(0, 24)
   }
 }
+
+// Analyses that fit side by side in the comparison view
+export const MIN_COMPARE = 2
+export const MAX_COMPARE = 4
@@ -0,0 +1,106 @@
+import type { AnalysisDancers, AnalysisType, DancerRef, DancerRole, Team } from "./models"
+
+export const normalizeName = (name: string) => name.trim().replace(/\s+/g, " ").toLowerCase()
+
+const memberWithRole = (dancers: AnalysisDancers, role: DancerRole, fallbackIndex: number) =>
+  dancers.members.find((member) => member.role === role) ?? dancers.members[fallbackIndex]
+
+// Blank form state for an analysis type
+export const emptyDancers = (analysisType: AnalysisType): AnalysisDancers => {
+  if (analysisType === "couple") {
+    return {
+      members: [
+        { name: "", role: "man" },
+        { name: "", role: "lady" },
+      ],
+    }
+  }
+  if (analysisType === "solo") return { members: [{ name: "" }] }
+  return { team_name: "", members: [] }
+}
+
+export const teamDancers = (team: Team): AnalysisDancers => ({
+  team_id: team.id,
+  team_name: team.name,
+  members: team.members,
+})
+
+// Display label in the format the backend has always stored
+export const formatDancers = (analysisType: AnalysisType, dancers: AnalysisDancers) => {
+  if (analysisType === "couple") {
+    return `Man: ${memberWithRole(dancers, "man", 0)?.name ?? ""}, Lady: ${memberWithRole(dancers, "lady", 1)?.name ?? ""}`
+  }
+  if (analysisType === "solo") return `Dancer: ${dancers.members.map((member) => member.name).join(", ")}`
+
+  const teamName = dancers.team_name || dancers.members.map((member) => member.name).join(" & ")
+  return analysisType === "formation" ? `Formation: ${teamName}` : `Duo: ${teamName}`
+}
+
+// Reads the legacy label strings. Older YouTube submissions sent "Dancer:" for
+// every non-couple type, so the prefix is ignored in favour of the analysis type.
+export const parseDancersLabel = (label: string, analysisType: AnalysisType): AnalysisDancers => {
+  const couple = label.match(/^Man:\s*(.*?),\s*Lady:\s*(.*)$/)
+  if (couple) {
+    const members: DancerRef[] = [
+      { name: couple[1].trim(), role: "man" },
+      { name: couple[2].trim(), role: "lady" },
+    ]
+    return { members: members.filter((member) => member.name && member.name !== "Unknown") }
+  }
+
+  const name = label.replace(/^(Dancer|Duo|Formation):\s*/, "").trim()
+  if (!name) return { members: [] }
+  if (analysisType === "couple" || analysisType === "solo") return { members: [{ name }] }
+  return { team_name: name, members: [] }
+}
+
+// What is missing before the dancers can be submitted, as a form error
+export const dancersProblem = (analysisType: AnalysisType, dancers: AnalysisDancers): string | null => {
+  if (analysisType === "couple") {
+    if (!memberWithRole(dancers, "man", 0)?.name.trim()) return "Please enter the male dancer's name"
+    if (!memberWithRole(dancers, "lady", 1)?.name.trim()) return "Please enter the female dancer's name"
+    return null
+  }
+  if (analysisType === "solo") {
+    return dancers.members[0]?.name.trim() ? null : "Please enter the dancer's name"
+  }
+  if (!dancers.team_name?.trim()) {
+    return analysisType === "formation" ? "Please enter the formation name" : "Please enter the duo name"
+  }
+  return null
+}
+
+// Trims names and drops empty members before the dancers are sent
+export const cleanDancers = (dancers: AnalysisDancers): AnalysisDancers => ({
+  ...dancers,
+  team_name: dancers.team_name?.trim() || undefined,
+  members: dancers.members
+    .map((member) => ({ ...member, name: member.name.trim() }))
+    .filter((member) => member.name),
+})
+
+const sameDancer = (a: DancerRef, b: DancerRef) =>
+  a.id && b.id ? a.id === b.id : normalizeName(a.name) === normalizeName(b.name)
+
+// Whether `dancer` danced in the analysis, as a member or as the named team
+export const includesDancer = (dancers: AnalysisDancers, dancer: DancerRef) =>
+  dancers.members.some((member) => sameDancer(member, dancer)) ||
+  (!!dancers.team_name && sameDancer({ id: dancers.team_id, name: dancers.team_name }, dancer))
+
+// Stable key for select options and URL params
+export const dancerKey = (dancer: DancerRef) => dancer.id ?? `name:${normalizeName(dancer.name)}`
+
+// Everyone who can be filtered on in a set of analyses, deduplicated by id or name
+export const collectDancers = (rosters: AnalysisDancers[]): DancerRef[] => {
+  const found: DancerRef[] = []
+  const add = (ref: DancerRef) => {
+    if (ref.name && !found.some((existing) => sameDancer(existing, ref))) {
+      found.push({ id: ref.id, name: ref.name })
+    }
+  }
+  rosters.forEach((roster) => {
+    roster.members.forEach(add)
+    if (roster.team_name) add({ id: roster.team_id, name: roster.team_name })
+  })
+  return found.sort((a, b) => a.name.localeCompare(b.name))
+}
@@ -0,0 +1,113 @@
+import type { AdminAnalysis, Analysis } from "./models"
+import { criterionLabel } from "./scores"
+
+// Bulk export of analyses for spreadsheets. Every format has one row per
+// analysis with the same columns: the basics, the total and one column per
+// criterion scored in any of the exported analyses.
+
+export type ExportFormat = "csv" | "xlsx" | "json"
+
+export const EXPORT_FORMATS: { value: ExportFormat; label: string }[] = [
+  { value: "csv", label: "CSV" },
+  { value: "xlsx", label: "CSV for Excel" },
+  { value: "json", label: "JSON" },
+]
+
+type Cell = string | number | boolean | undefined
+
+export interface ExportColumn<T> {
+  header: string
+  value: (analysis: T) => Cell
+}
+
+// YYYYMMDDHHmmss in server time, kept as written rather than shifted to the local zone
+const exportTimestamp = (timestamp: string) => {
+  const match = timestamp.match(/^(\d{4})(\d{2})(\d{2})(\d{2})?(\d{2})?(\d{2})?/)
+  if (!match) return timestamp
+  const [, year, month, day, hour = "00", minute = "00", second = "00"] = match
+  return `${year}-${month}-${day} ${hour}:${minute}:${second}`
+}
+
+const baseColumns: ExportColumn<Analysis>[] = [
+  { header: "id", value: (analysis) => analysis.id },
+  { header: "timestamp", value: (analysis) => exportTimestamp(analysis.timestamp) },
+  { header: "dance_type", value: (analysis) => analysis.dance_type },
+  { header: "analysis_type", value: (analysis) => analysis.analysis_type },
+  { header: "dancers", value: (analysis) => analysis.dancers },
+  { header: "status", value: (analysis) => analysis.status || (analysis.processed ? "processed" : "processing") },
+  { header: "total_score", value: (analysis) => analysis.scores.total },
+  { header: "max_total", value: (analysis) => analysis.scores.maxTotal },
+]
+
+export const ADMIN_EXPORT_COLUMNS: ExportColumn<AdminAnalysis>[] = [
+  { header: "user_email", value: (analysis) => analysis.user_email },
+  { header: "user_name", value: (analysis) => analysis.user_displayName },
+  { header: "user_country", value: (analysis) => analysis.user_country },
+]
+
+// Criteria in first-seen order, so columns follow the reports' own order
+const criterionColumns = (analyses: Analysis[]): ExportColumn<Analysis>[] => {
+  const keys = [...new Set(analyses.flatMap((analysis) => analysis.scores.criteria.map((criterion) => criterion.key)))]
+  return keys.map((key) => ({
+    header: criterionLabel(key),
+    value: (analysis) => analysis.scores.criteria.find((criterion) => criterion.key === key)?.score,
+  }))
+}
+
+// Spreadsheets run cells starting with these as formulas
+const FORMULA_PREFIX = /^[=+\-@\t\r]/
+
+const csvCell = (cell: Cell) => {
+  if (cell === undefined) return ""
+  if (typeof cell !== "string") return String(cell)
+  const text = FORMULA_PREFIX.test(cell) ? `'${cell}` : cell
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text
+}
+
+const toCsv = (headers: string[], rows: Cell[][], excel: boolean) => {
+  // Excel needs the byte order mark to read UTF-8 and expects CRLF line ends
+  const lines = [headers, ...rows].map((row) => row.map(csvCell).join(","))
+  return excel ? `\uFEFF${lines.join("\r\n")}\r\n` : `${lines.join("\n")}\n`
+}
+
+const toJson = (headers: string[], rows: Cell[][]) =>
+  JSON.stringify(
+    rows.map((row) => Object.fromEntries(headers.map((header, index) => [header, row[index] ?? null]))),
+    null,
+    2,
+  )
+
+export function buildExport<T extends Analysis>(
+  analyses: T[],
+  format: ExportFormat,
+  extraColumns: ExportColumn<T>[] = [],
+): Blob {
+  const columns = [...baseColumns, ...extraColumns, ...criterionColumns(analyses)] as ExportColumn<T>[]
+  const headers = columns.map((column) => column.header)
+  const rows = analyses.map((analysis) => columns.map((column) => column.value(analysis)))
+
+  return format === "json"
+    ? new Blob([toJson(headers, rows)], { type: "application/json" })
+    : new Blob([toCsv(headers, rows, format === "xlsx")], { type: "text/csv;charset=utf-8" })
+}
+
+/** Builds the export and saves it as `<name>-<date>.<ext>`. */
+export function downloadExport<T extends Analysis>(
+  analyses: T[],
+  format: ExportFormat,
+  name: string,
+  extraColumns: ExportColumn<T>[] = [],
+) {
+  const blob = buildExport(analyses, format, extraColumns)
+  const url = window.URL.createObjectURL(blob)
+
+  const link = document.createElement("a")
+  link.href = url
+  link.download = `${name}-${new Date().toISOString().slice(0, 10)}.${format === "json" ? "json" : "csv"}`
+
+  document.body.appendChild(link)
+  link.click()
+  document.body.removeChild(link)
+
+  window.URL.revokeObjectURL(url)
+}
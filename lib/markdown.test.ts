@@ -0,0 +1,57 @@
+// @vitest-environment jsdom
+import { describe, expect, it } from "vitest"
+import { markdownToHtml } from "./markdown"
+import { renderReportHtml } from "./report-html"
+
+const render = (text: string) => {
+  const container = document.createElement("div")
+  container.innerHTML = renderReportHtml(text)
+  return container
+}
+
+describe("markdownToHtml", () => {
+  it("renders report structure", () => {
+    expect(markdownToHtml("## Technique\n**Score:** 8/10\n\n- frame\n- posture")).toBe(
+      "<h2>Technique</h2>\n<p><strong>Score:</strong> 8/10</p>\n<ul><li>frame</li><li>posture</li></ul>",
+    )
+  })
+
+  it("links safe URLs", () => {
+    expect(markdownToHtml("[rules](https://example.com/rules)")).toBe('<p><a href="https://example.com/rules">rules</a></p>')
+  })
+
+  it("escapes markup in the text", () => {
+    expect(markdownToHtml('<img src=x onerror="alert(1)">')).toBe("<p>&lt;img src=x onerror=&quot;alert(1)&quot;&gt;</p>")
+  })
+})
+
+describe("markdown link injection", () => {
+  it.each([
+    "[x](javascript:alert(1))",
+    "[x](JavaScript:alert(1))",
+    "[x](javascript:alert`1`)",
+    "[x](data:text/html;base64,PHNjcmlwdD5hbGVydCgxKTwvc2NyaXB0Pg==)",
+    "[x](vbscript:msgbox(1))",
+    "[x](&#106;avascript:alert(1))",
+    "[x](java&#x09;script:alert(1))",
+    "[x](javascript&colon;alert(1))",
+    "[x](\u0001javascript:alert(1))",
+  ])("does not link %j", (text) => {
+    const container = render(text)
+    const hrefs = Array.from(container.querySelectorAll("a")).map((link) => link.getAttribute("href") ?? "")
+    hrefs.forEach((href) => expect(href.replace(/[\u0000- ]/g, "")).not.toMatch(/^(javascript|data|vbscript):/i))
+  })
+
+  it.each([
+    '[x](https://example.com" onmouseover="alert(1))',
+    "[x](https://example.com'onmouseover='alert(1))",
+    '[<img src=x onerror=alert(1)>](https://example.com)',
+    '[x](https://example.com)<script>alert(1)</script>',
+  ])("cannot break out of the link in %j", (text) => {
+    const container = render(text)
+    expect(container.querySelector("script")).toBeNull()
+    Array.from(container.querySelectorAll("*")).forEach((element) =>
+      expect(element.getAttributeNames().filter((name) => name.startsWith("on"))).toEqual([]),
+    )
+  })
+})
@@ -0,0 +1,68 @@
+import { escapeHtml, isSafeUrl } from "./sanitize"
+
+// Minimal markdown for plain-text reports: headings, emphasis, code, links,
+// lists, quotes and rules. Text is escaped before any markup is added, and
+// the result still goes through sanitizeHtml like every other report.
+
+const inline = (text: string) =>
+  escapeHtml(text)
+    .replace(/`([^`]+)`/g, "<code>$1</code>")
+    .replace(/\*\*([^*]+)\*\*|__([^_]+)__/g, (_, a, b) => `<strong>${a ?? b}</strong>`)
+    .replace(/(^|[^*\w])\*([^*\s][^*]*)\*(?!\w)|(^|[^_\w])_([^_\s][^_]*)_(?!\w)/g, (_, a, b, c, d) =>
+      a !== undefined ? `${a}<em>${b}</em>` : `${c}<em>${d}</em>`,
+    )
+    .replace(/\[([^\]]+)\]\(([^)\s]+)\)/g, (match, label, url) =>
+      isSafeUrl(url) ? `<a href="${url}">${label}</a>` : match,
+    )
+
+type Block = { kind: "p" | "ul" | "ol" | "blockquote"; lines: string[] }
+
+export function markdownToHtml(text: string): string {
+  const html: string[] = []
+  let block: Block | null = null
+
+  const flush = () => {
+    if (!block) return
+    if (block.kind === "p") html.push(`<p>${block.lines.map(inline).join("<br>")}</p>`)
+    else if (block.kind === "blockquote") html.push(`<blockquote><p>${block.lines.map(inline).join("<br>")}</p></blockquote>`)
+    else html.push(`<${block.kind}>${block.lines.map((line) => `<li>${inline(line)}</li>`).join("")}</${block.kind}>`)
+    block = null
+  }
+
+  const add = (kind: Block["kind"], line: string) => {
+    if (block?.kind !== kind) {
+      flush()
+      block = { kind, lines: [] }
+    }
+    block!.lines.push(line)
+  }
+
+  text.replace(/\r\n?/g, "\n").split("\n").forEach((raw) => {
+    const line = raw.trimEnd()
+    const heading = line.match(/^(#{1,6})\s+(.*)$/)
+    const bullet = line.match(/^\s*[-*+•]\s+(.*)$/)
+    const numbered = line.match(/^\s*\d+[.)]\s+(.*)$/)
+    const quote = line.match(/^>\s?(.*)$/)
+
+    if (!line.trim()) {
+      flush()
+    } else if (/^\s*([-*_])(\s*\1){2,}\s*$/.test(line)) {
+      flush()
+      html.push("<hr>")
+    } else if (heading) {
+      flush()
+      html.push(`<h${heading[1].length}>${inline(heading[2])}</h${heading[1].length}>`)
+    } else if (bullet) {
+      add("ul", bullet[1])
+    } else if (numbered) {
+      add("ol", numbered[1])
+    } else if (quote) {
+      add("blockquote", quote[1])
+    } else {
+      add("p", line.trim())
+    }
+  })
+  flush()
+
+  return html.join("\n")
+}
@@ -0,0 +1,785 @@
+import { formatDancers, parseDancersLabel } from "./dancers"
+import { parseScoreCard, parseScoreValue, type ScoreCard } from "./scores"
+import { toSeconds } from "./timestamps"
+import { TRASH_RETENTION_DAYS } from "./constants"
+import { toRoles, type Role } from "./roles"
+
+// Canonical domain model shared by every page. Backend payloads go through the
+// parse* functions below (the API client does this) so views can rely on the
+// declared types: malformed records are dropped, loose values are coerced.
+
+export type AnalysisType = "couple" | "solo" | "duo" | "formation"
+
+export const ANALYSIS_TYPES: AnalysisType[] = ["couple", "solo", "duo", "formation"]
+
+export type DancerRole = "man" | "lady"
+
+// A dancer as attached to an analysis or team. `id` is set when the dancer was
+// picked from the roster; free-typed names have none.
+export interface DancerRef {
+  id?: string
+  name: string
+  role?: DancerRole
+}
+
+// Who is dancing in an analysis. Couples and solos list their members; duos and
+// formations are named teams, with members when picked from the roster.
+export interface AnalysisDancers {
+  team_id?: string
+  team_name?: string
+  members: DancerRef[]
+}
+
+export interface Dancer {
+  id: string
+  name: string
+  notes?: string
+}
+
+export type TeamType = Exclude<AnalysisType, "solo">
+
+export interface Team {
+  id: string
+  name: string
+  type: TeamType
+  members: DancerRef[]
+}
+
+// A chapter of the analysis video, as detected by the backend
+export interface AnalysisSegment {
+  // Seconds from the start of the video
+  start: number
+  end?: number
+  title: string
+}
+
+export interface Analysis {
+  id: string
+  // Backend format: YYYYMMDDHHmmss
+  timestamp: string
+  dance_type: string
+  // Display label, e.g. "Man: X, Lady: Y"
+  dancers: string
+  roster: AnalysisDancers
+  analysis_type: AnalysisType
+  processed: boolean
+  status?: string
+  text?: string
+  video_url?: string
+  user_id?: string
+  // Parsed from the report and the backend's score fields; see lib/scores
+  scores: ScoreCard
+  // Ordered by start
+  segments: AnalysisSegment[]
+}
+
+export interface AdminAnalysis extends Analysis {
+  user_email: string
+  user_displayName: string
+  user_country: string
+  user_credits: string
+}
+
+// A deleted analysis waiting in the trash. The owner fields are only filled
+// in the admin's all-users view.
+export interface TrashedAnalysis extends AdminAnalysis {
+  // ISO 8601
+  deleted_at: string
+  // ISO 8601; the backend deletes it for good after this
+  purge_at: string
+}
+
+// What a share's recipient may do beyond viewing. "download" covers the PDF,
+// the video, and printing or exporting the report.
+export type SharePermission = "comment" | "download" | "rerun"
+
+export const SHARE_PERMISSIONS: SharePermission[] = ["comment", "download", "rerun"]
+
+export const SHARE_PERMISSION_LABELS: Record<SharePermission, string> = {
+  comment: "Can comment",
+  download: "Can download PDF and video",
+  rerun: "Can request a rerun",
+}
+
+// Short forms for the badges in the shared analyses list
+export const SHARE_PERMISSION_SHORT_LABELS: Record<SharePermission, string> = {
+  comment: "Comment",
+  download: "Download",
+  rerun: "Rerun",
+}
+
+export interface SharedAnalysisSummary {
+  share_id: string
+  dance_type: string
+  dancers: string
+  owner_email: string
+  analysis_type: AnalysisType
+  // ISO 8601
+  shared_at?: string
+  // The owner moved the analysis to the trash; the share stays but can't be opened
+  removed: boolean
+  permissions: SharePermission[]
+}
+
+export interface SharedAnalysis extends Analysis {
+  owner_email?: string
+  // ISO 8601
+  shared_at?: string
+  permissions: SharePermission[]
+  // Whether the owner lets the recipient print and export the report; same as the "download" permission
+  allow_export: boolean
+  // The owner's report branding, used when the recipient exports
+  branding?: Branding
+}
+
+// A registered user the analysis is shared with, as its owner sees it
+export interface AnalysisShare {
+  share_id: string
+  recipient_email: string
+  recipient_displayName?: string
+  permissions: SharePermission[]
+  allow_export: boolean
+  // ISO 8601
+  shared_at?: string
+}
+
+// A public link: anyone holding the URL can open the analysis without signing in
+export interface ShareLink {
+  id: string
+  // The secret part of the URL, see shareLinkPath in lib/session
+  token: string
+  allow_export: boolean
+  has_password: boolean
+  // ISO 8601; unset for links that never expire
+  expires_at?: string
+  view_count: number
+  // ISO 8601
+  last_viewed_at?: string
+  created_at?: string
+}
+
+// Everyone and every link with access to one analysis
+export interface AnalysisShares {
+  users: AnalysisShare[]
+  links: ShareLink[]
+}
+
+export const isShareLinkExpired = (link: ShareLink, now = Date.now()) =>
+  !!link.expires_at && new Date(link.expires_at).getTime() <= now
+
+// Header and footer of exported reports, set in the profile
+export interface Branding {
+  studio_name?: string
+  // http(s) URL or a data: URL of an uploaded image
+  logo_url?: string
+  // CSS hex color, e.g. "#1e40af"
+  accent_color?: string
+  footer_text?: string
+}
+
+export interface EventSummary {
+  id: string
+  name: string
+  description: string
+  start_date: string
+  end_date: string
+  entries_count: number
+  country_restriction: boolean
+  allowed_countries: string[]
+  entry_fee?: number
+  status?: string
+  max_entries?: number
+  created_by?: string
+  dance_type?: string
+  analysis_type?: string
+}
+
+export interface EventEntry {
+  id: string
+  user_id: string
+  event_id: string
+  entered_at: string
+  user_email: string
+  user_country?: string
+  analysis_id?: string
+  dance_type?: string
+  dancers?: string
+  total_score?: number
+  rank?: number
+  video_url?: string
+}
+
+export interface UserSearchResult {
+  id: string
+  email: string
+  displayName?: string
+}
+
+export interface UserRoles extends UserSearchResult {
+  // As held in the user's custom claims, without the implicit "dancer"
+  roles: Role[]
+}
+
+// Dance studios: a coach's team of dancers sharing one analysis library.
+// "owner" created the studio, coaches help run it, dancers upload.
+export type StudioRole = "owner" | "coach" | "dancer"
+
+export const STUDIO_ROLES: StudioRole[] = ["owner", "coach", "dancer"]
+
+export const STUDIO_ROLE_LABELS: Record<StudioRole, string> = {
+  owner: "Owner",
+  coach: "Coach",
+  dancer: "Dancer",
+}
+
+export interface Studio {
+  id: string
+  name: string
+  // The current user's role in this studio
+  role: StudioRole
+  member_count: number
+  // Members' analyses are paid from the studio's credits instead of their own
+  credit_pool: boolean
+  // Pool balance, when credit_pool is on
+  credits?: number
+}
+
+export interface StudioMember {
+  user_id: string
+  email: string
+  displayName?: string
+  role: StudioRole
+  // ISO 8601
+  joined_at?: string
+}
+
+export interface StudioInvite {
+  id: string
+  studio_id: string
+  studio_name: string
+  email: string
+  role: StudioRole
+  invited_by?: string
+  // ISO 8601
+  created_at?: string
+}
+
+// A point of a drawing as fractions of the frame's width and height, so it
+// lines up whatever size the player is
+export type DrawingPoint = [number, number]
+
+export interface DrawingStroke {
+  color: string
+  points: DrawingPoint[]
+}
+
+// A coach's comment pinned to a moment of the analysis video
+export interface Annotation {
+  id: string
+  // Seconds from the start of the video
+  time: number
+  text: string
+  author_email?: string
+  // ISO 8601
+  created_at?: string
+  // Drawn over the paused frame at `time`
+  drawing: DrawingStroke[]
+}
+
+// A resumable upload on the server; `offset` is how many bytes have arrived
+export interface UploadSession {
+  upload_id: string
+  offset: number
+  size?: number
+  // Preferred chunk size in bytes, if the server has one
+  chunk_size?: number
+}
+
+// Opens the analysis status stream once, in place of the ID token in its URL
+export interface StreamTicket {
+  ticket: string
+  // ISO 8601
+  expires_at?: string
+}
+
+type RawRecord = Record<string, unknown>
+
+const isRecord = (value: unknown): value is RawRecord =>
+  typeof value === "object" && value !== null && !Array.isArray(value)
+
+const toId = (value: unknown) => {
+  if (typeof value === "string" && value.trim()) return value
+  if (typeof value === "number" && Number.isFinite(value)) return String(value)
+  return undefined
+}
+
+const toText = (value: unknown) => {
+  if (typeof value === "string") return value
+  if (typeof value === "number" || typeof value === "boolean") return String(value)
+  return undefined
+}
+
+export const toNumber = (value: unknown) => {
+  if (typeof value === "number") return Number.isFinite(value) ? value : undefined
+  if (typeof value === "string") {
+    const match = value.match(/-?\d+(\.\d+)?/)
+    return match ? parseFloat(match[0]) : undefined
+  }
+  return undefined
+}
+
+const toBoolean = (value: unknown) => value === true || value === "true" || value === 1
+
+// Firestore timestamps arrive as { seconds, nanoseconds } or { _seconds }, everything else as a date string.
+export const toIsoDate = (value: unknown) => {
+  if (isRecord(value)) {
+    const seconds = toNumber(value.seconds ?? value._seconds)
+    return seconds === undefined ? undefined : new Date(seconds * 1000).toISOString()
+  }
+  if (typeof value === "string" || typeof value === "number") {
+    const date = new Date(value)
+    return isNaN(date.getTime()) ? undefined : date.toISOString()
+  }
+  return undefined
+}
+
+export const toAnalysisType = (value: unknown): AnalysisType =>
+  ANALYSIS_TYPES.includes(value as AnalysisType) ? (value as AnalysisType) : "couple"
+
+const reject = (kind: string, reason: string, raw: unknown) => {
+  console.warn(`Dropping malformed ${kind}: ${reason}`, raw)
+  return null
+}
+
+const toDancerRef = (value: unknown): DancerRef | null => {
+  if (typeof value === "string") return value.trim() ? { name: value.trim() } : null
+  if (!isRecord(value)) return null
+  const name = toText(value.name)?.trim()
+  if (!name) return null
+  const role = value.role === "man" || value.role === "lady" ? value.role : undefined
+  return { id: toId(value.id), name, role }
+}
+
+const toDancerRefs = (value: unknown) =>
+  Array.isArray(value) ? value.map(toDancerRef).filter((ref): ref is DancerRef => ref !== null) : []
+
+// Newer analyses carry the structured dancers; older ones only the label string
+const toAnalysisDancers = (value: unknown, analysisType: AnalysisType): AnalysisDancers => {
+  if (isRecord(value)) {
+    return {
+      team_id: toId(value.team_id),
+      team_name: toText(value.team_name),
+      members: toDancerRefs(value.members),
+    }
+  }
+  return parseDancersLabel(toText(value) || "", analysisType)
+}
+
+// Segments arrive as { start, end, title } with times in seconds or "1:23"
+const toSegments = (value: unknown): AnalysisSegment[] =>
+  Array.isArray(value)
+    ? value
+        .filter(isRecord)
+        .flatMap((segment) => {
+          const start = toSeconds(segment.start ?? segment.start_time ?? segment.time)
+          if (start === undefined) return []
+          return [
+            {
+              start,
+              end: toSeconds(segment.end ?? segment.end_time),
+              title: toText(segment.title ?? segment.label ?? segment.name) || "",
+            },
+          ]
+        })
+        .sort((a, b) => a.start - b.start)
+    : []
+
+export function parseAnalysis(raw: unknown): Analysis | null {
+  if (!isRecord(raw)) return reject("analysis", "not an object", raw)
+
+  const id = toId(raw.id)
+  if (!id) return reject("analysis", "missing id", raw)
+
+  const timestamp = toText(raw.timestamp)
+  if (!timestamp || !/^\d{8}/.test(timestamp)) return reject("analysis", "missing or invalid timestamp", raw)
+
+  const analysisType = toAnalysisType(raw.analysis_type)
+  const roster = toAnalysisDancers(raw.dancers, analysisType)
+  const label = toText(raw.dancers_label) || toText(raw.dancers)
+
+  return {
+    id,
+    timestamp,
+    dance_type: toText(raw.dance_type) || "",
+    // Only couple labels are kept as sent: older submissions used the wrong prefix for the other types
+    dancers: analysisType === "couple" && label ? label : formatDancers(analysisType, roster),
+    roster,
+    analysis_type: analysisType,
+    processed: toBoolean(raw.processed),
+    status: toText(raw.status),
+    text: toText(raw.text),
+    video_url: toText(raw.video_url),
+    user_id: toText(raw.user_id),
+    scores: parseScoreCard({
+      text: toText(raw.text),
+      total: raw.total_score,
+      scores: raw.scores,
+      dancerNames: roster.members.map((member) => member.name),
+    }),
+    segments: toSegments(raw.segments),
+  }
+}
+
+export function parseAdminAnalysis(raw: unknown): AdminAnalysis | null {
+  const analysis = parseAnalysis(raw)
+  if (!analysis || !isRecord(raw)) return null
+
+  return {
+    ...analysis,
+    user_email: toText(raw.user_email) || "",
+    user_displayName: toText(raw.user_displayName) || "",
+    user_country: toText(raw.user_country) || "",
+    user_credits: toText(raw.user_credits) || "",
+  }
+}
+
+export function parseTrashedAnalysis(raw: unknown): TrashedAnalysis | null {
+  const analysis = parseAdminAnalysis(raw)
+  if (!analysis || !isRecord(raw)) return null
+
+  const deletedAt = toIsoDate(raw.deleted_at)
+  if (!deletedAt) return reject("trashed analysis", "missing deleted_at", raw)
+
+  // Older backends don't say when; fall back to the default retention
+  const purgeAt =
+    toIsoDate(raw.purge_at) ||
+    new Date(new Date(deletedAt).getTime() + TRASH_RETENTION_DAYS * 24 * 60 * 60 * 1000).toISOString()
+
+  return { ...analysis, deleted_at: deletedAt, purge_at: purgeAt }
+}
+
+// Shares made before permissions existed only carry allow_export
+const toSharePermissions = (raw: RawRecord): SharePermission[] =>
+  Array.isArray(raw.permissions)
+    ? SHARE_PERMISSIONS.filter((permission) => (raw.permissions as unknown[]).includes(permission))
+    : toBoolean(raw.allow_export)
+      ? ["download"]
+      : []
+
+export function parseSharedAnalysis(raw: unknown): SharedAnalysis | null {
+  const analysis = parseAnalysis(raw)
+  if (!analysis || !isRecord(raw)) return null
+
+  const permissions = toSharePermissions(raw)
+  return {
+    ...analysis,
+    owner_email: toText(raw.owner_email),
+    shared_at: toIsoDate(raw.shared_at),
+    permissions,
+    allow_export: permissions.includes("download"),
+    branding: isRecord(raw.owner_branding) ? parseBranding(raw.owner_branding) : undefined,
+  }
+}
+
+export function parseSharedAnalysisSummary(raw: unknown): SharedAnalysisSummary | null {
+  if (!isRecord(raw)) return reject("shared analysis", "not an object", raw)
+
+  const shareId = toId(raw.share_id)
+  if (!shareId) return reject("shared analysis", "missing share_id", raw)
+
+  return {
+    share_id: shareId,
+    dance_type: toText(raw.dance_type) || "",
+    dancers: toText(raw.dancers) || "",
+    owner_email: toText(raw.owner_email) || "",
+    analysis_type: toAnalysisType(raw.analysis_type),
+    shared_at: toIsoDate(raw.shared_at),
+    removed: toBoolean(raw.removed),
+    permissions: toSharePermissions(raw),
+  }
+}
+
+export function parseAnalysisShare(raw: unknown): AnalysisShare | null {
+  if (!isRecord(raw)) return reject("share", "not an object", raw)
+
+  const shareId = toId(raw.share_id)
+  const email = toText(raw.recipient_email)
+  if (!shareId || !email) return reject("share", "missing share_id or recipient_email", raw)
+
+  const permissions = toSharePermissions(raw)
+  return {
+    share_id: shareId,
+    recipient_email: email,
+    recipient_displayName: toText(raw.recipient_displayName),
+    permissions,
+    allow_export: permissions.includes("download"),
+    shared_at: toIsoDate(raw.shared_at),
+  }
+}
+
+export function parseShareLink(raw: unknown): ShareLink | null {
+  if (!isRecord(raw)) return reject("share link", "not an object", raw)
+
+  const id = toId(raw.id)
+  const token = toText(raw.token)
+  if (!id || !token) return reject("share link", "missing id or token", raw)
+
+  return {
+    id,
+    token,
+    allow_export: toBoolean(raw.allow_export),
+    has_password: toBoolean(raw.has_password),
+    expires_at: toIsoDate(raw.expires_at),
+    view_count: toNumber(raw.view_count) || 0,
+    last_viewed_at: toIsoDate(raw.last_viewed_at),
+    created_at: toIsoDate(raw.created_at),
+  }
+}
+
+// Not a list endpoint: a missing half just means nothing shared that way
+export function parseAnalysisShares(raw: unknown): AnalysisShares {
+  if (!isRecord(raw)) return { users: [], links: [] }
+
+  return {
+    users: raw.users === undefined ? [] : parseList(raw.users, parseAnalysisShare),
+    links: raw.links === undefined ? [] : parseList(raw.links, parseShareLink),
+  }
+}
+
+export function parseEventSummary(raw: unknown): EventSummary | null {
+  if (!isRecord(raw)) return reject("event", "not an object", raw)
+
+  const id = toId(raw.id)
+  if (!id) return reject("event", "missing id", raw)
+
+  const startDate = toIsoDate(raw.start_date)
+  const endDate = toIsoDate(raw.end_date)
+  if (!startDate || !endDate) return reject("event", "missing start or end date", raw)
+
+  return {
+    id,
+    name: toText(raw.name) || "Untitled event",
+    description: toText(raw.description) || "",
+    start_date: startDate,
+    end_date: endDate,
+    entries_count: toNumber(raw.entries_count) || 0,
+    country_restriction: toBoolean(raw.country_restriction),
+    allowed_countries: Array.isArray(raw.allowed_countries)
+      ? raw.allowed_countries.filter((country): country is string => typeof country === "string")
+      : [],
+    entry_fee: toNumber(raw.entry_fee),
+    status: toText(raw.status),
+    max_entries: toNumber(raw.max_entries),
+    created_by: toText(raw.created_by),
+    dance_type: toText(raw.dance_type),
+    analysis_type: toText(raw.analysis_type),
+  }
+}
+
+export function parseEventEntry(raw: unknown): EventEntry | null {
+  if (!isRecord(raw)) return reject("event entry", "not an object", raw)
+
+  const id = toId(raw.id)
+  const userId = toId(raw.user_id)
+  if (!id || !userId) return reject("event entry", "missing id or user_id", raw)
+
+  return {
+    id,
+    user_id: userId,
+    event_id: toText(raw.event_id) || "",
+    entered_at: toIsoDate(raw.entered_at) || "",
+    user_email: toText(raw.user_email) || "",
+    user_country: toText(raw.user_country),
+    analysis_id: toText(raw.analysis_id),
+    dance_type: toText(raw.dance_type),
+    dancers: toText(raw.dancers),
+    total_score: parseScoreValue(raw.total_score)?.score,
+    rank: toNumber(raw.rank),
+    video_url: toText(raw.video_url),
+  }
+}
+
+export function parseUserSearchResult(raw: unknown): UserSearchResult | null {
+  if (!isRecord(raw)) return reject("user", "not an object", raw)
+
+  const id = toId(raw.id)
+  const email = toText(raw.email)
+  if (!id || !email) return reject("user", "missing id or email", raw)
+
+  return { id, email, displayName: toText(raw.displayName) }
+}
+
+export function parseUserRoles(raw: unknown): UserRoles | null {
+  const user = parseUserSearchResult(raw)
+  if (!user || !isRecord(raw)) return null
+
+  return { ...user, roles: toRoles(raw.roles).filter((role) => role !== "dancer") }
+}
+
+export function parseDancer(raw: unknown): Dancer | null {
+  if (!isRecord(raw)) return reject("dancer", "not an object", raw)
+
+  const id = toId(raw.id)
+  const name = toText(raw.name)
+  if (!id || !name) return reject("dancer", "missing id or name", raw)
+
+  return { id, name, notes: toText(raw.notes) }
+}
+
+export function parseTeam(raw: unknown): Team | null {
+  if (!isRecord(raw)) return reject("team", "not an object", raw)
+
+  const id = toId(raw.id)
+  const name = toText(raw.name)
+  if (!id || !name) return reject("team", "missing id or name", raw)
+
+  const type = toAnalysisType(raw.type)
+  if (type === "solo") return reject("team", "solo is not a team type", raw)
+
+  return { id, name, type, members: toDancerRefs(raw.members) }
+}
+
+const toDrawingPoint = (value: unknown): DrawingPoint | null => {
+  if (!Array.isArray(value) || value.length !== 2) return null
+  const [x, y] = value.map(toNumber)
+  return x === undefined || y === undefined ? null : [x, y]
+}
+
+const toDrawing = (value: unknown): DrawingStroke[] =>
+  Array.isArray(value)
+    ? value.filter(isRecord).map((stroke) => ({
+        color: toText(stroke.color) || "#ef4444",
+        points: Array.isArray(stroke.points)
+          ? stroke.points.map(toDrawingPoint).filter((point): point is DrawingPoint => point !== null)
+          : [],
+      }))
+    : []
+
+export function parseAnnotation(raw: unknown): Annotation | null {
+  if (!isRecord(raw)) return reject("annotation", "not an object", raw)
+
+  const id = toId(raw.id)
+  const time = toNumber(raw.time)
+  if (!id || time === undefined) return reject("annotation", "missing id or time", raw)
+
+  return {
+    id,
+    time: Math.max(0, time),
+    text: toText(raw.text) || "",
+    author_email: toText(raw.author_email),
+    created_at: toIsoDate(raw.created_at),
+    drawing: toDrawing(raw.drawing).filter((stroke) => stroke.points.length > 0),
+  }
+}
+
+const toStudioRole = (value: unknown): StudioRole =>
+  STUDIO_ROLES.includes(value as StudioRole) ? (value as StudioRole) : "dancer"
+
+export function parseStudio(raw: unknown): Studio | null {
+  if (!isRecord(raw)) return reject("studio", "not an object", raw)
+
+  const id = toId(raw.id)
+  const name = toText(raw.name)
+  if (!id || !name) return reject("studio", "missing id or name", raw)
+
+  return {
+    id,
+    name,
+    role: toStudioRole(raw.role),
+    member_count: toNumber(raw.member_count) || 0,
+    credit_pool: toBoolean(raw.credit_pool),
+    credits: toNumber(raw.credits),
+  }
+}
+
+export function parseStudioMember(raw: unknown): StudioMember | null {
+  if (!isRecord(raw)) return reject("studio member", "not an object", raw)
+
+  const userId = toId(raw.user_id)
+  const email = toText(raw.email)
+  if (!userId || !email) return reject("studio member", "missing user_id or email", raw)
+
+  return {
+    user_id: userId,
+    email,
+    displayName: toText(raw.displayName),
+    role: toStudioRole(raw.role),
+    joined_at: toIsoDate(raw.joined_at),
+  }
+}
+
+export function parseStudioInvite(raw: unknown): StudioInvite | null {
+  if (!isRecord(raw)) return reject("studio invite", "not an object", raw)
+
+  const id = toId(raw.id)
+  const studioId = toId(raw.studio_id)
+  const email = toText(raw.email)
+  if (!id || !studioId || !email) return reject("studio invite", "missing id, studio_id or email", raw)
+
+  return {
+    id,
+    studio_id: studioId,
+    studio_name: toText(raw.studio_name) || "",
+    email,
+    role: toStudioRole(raw.role),
+    invited_by: toText(raw.invited_by),
+    created_at: toIsoDate(raw.created_at),
+  }
+}
+
+// Missing or malformed branding is just no branding
+export function parseBranding(raw: unknown): Branding {
+  if (!isRecord(raw)) return {}
+
+  const logo = toText(raw.logo_url)
+  const color = toText(raw.accent_color)
+  return {
+    studio_name: toText(raw.studio_name),
+    logo_url: logo && /^(https?:|data:image\/)/i.test(logo) ? logo : undefined,
+    accent_color: color && /^#[0-9a-f]{3,8}$/i.test(color) ? color : undefined,
+    footer_text: toText(raw.footer_text),
+  }
+}
+
+export function parseUploadSession(raw: unknown): UploadSession | null {
+  if (!isRecord(raw)) return reject("upload session", "not an object", raw)
+  const uploadId = toId(raw.upload_id)
+  if (!uploadId) return reject("upload session", "missing upload_id", raw)
+  // The upload loop continues from here, so it must be an exact byte count
+  const offset = toNumber(raw.offset)
+  if (offset === undefined || !Number.isInteger(offset) || offset < 0) {
+    return reject("upload session", "missing or invalid offset", raw)
+  }
+  const chunkSize = toNumber(raw.chunk_size)
+
+  return {
+    upload_id: uploadId,
+    offset,
+    size: toNumber(raw.size),
+    chunk_size: chunkSize !== undefined && chunkSize > 0 ? chunkSize : undefined,
+  }
+}
+
+export function parseStreamTicket(raw: unknown): StreamTicket | null {
+  if (!isRecord(raw)) return reject("stream ticket", "not an object", raw)
+  const ticket = toText(raw.ticket)
+  if (!ticket) return reject("stream ticket", "missing ticket", raw)
+
+  return { ticket, expires_at: toIsoDate(raw.expires_at) }
+}
+
+export function parseList<T>(raw: unknown, parse: (item: unknown) => T | null): T[] {
+  if (!Array.isArray(raw)) {
+    console.warn("Expected a list from the backend, got:", raw)
+    return []
+  }
+  return raw.map(parse).filter((item): item is T => item !== null)
+}
+
+export function parseOne<T>(raw: unknown, parse: (item: unknown) => T | null, kind: string): T {
+  const parsed = parse(raw)
+  if (!parsed) {
+    throw new Error(`Received a malformed ${kind} from the server`)
+  }
+  return parsed
+}
@@ -0,0 +1,92 @@
+import { toast } from "sonner"
+
+// One place for user-facing feedback: short-lived toasts for results, and
+// undoable actions whose request is only sent once the undo window is over.
+
+export const notify = {
+  success: (message: string, description?: string) => toast.success(message, { description }),
+  info: (message: string, description?: string) => toast.info(message, { description }),
+  error: (message: string, description?: string) => toast.error(message, { description }),
+}
+
+const UNDO_WINDOW_MS = 6000
+
+interface UndoableOptions {
+  // e.g. "Analysis deleted"
+  message: string
+  // Sends the request; runs after the undo window unless undone. `keepalive` is
+  // set when the page is being left or hidden: pass it on so the request
+  // outlives the page, and start it without awaiting anything first.
+  commit: (options: { keepalive: boolean }) => Promise<unknown>
+  // Puts the UI back, after Undo or when `commit` fails
+  revert: () => void
+  // Shown when `commit` fails
+  errorMessage?: string
+  onCommitted?: () => void
+}
+
+// Commits still waiting for their undo window, run early if the page is left
+const pending = new Set<(keepalive: boolean) => Promise<void>>()
+
+// No preventDefault: that would ask "Leave site?" after every undoable action
+const flushPending = () => {
+  Array.from(pending).forEach((run) => run(true))
+}
+
+// Mobile Safari skips beforeunload, and a hidden tab may be discarded without any unload event
+const flushWhenHidden = () => {
+  if (document.visibilityState === "hidden") flushPending()
+}
+
+const watchPageExit = () => {
+  window.addEventListener("beforeunload", flushPending)
+  window.addEventListener("pagehide", flushPending)
+  document.addEventListener("visibilitychange", flushWhenHidden)
+}
+
+const unwatchPageExit = () => {
+  window.removeEventListener("beforeunload", flushPending)
+  window.removeEventListener("pagehide", flushPending)
+  document.removeEventListener("visibilitychange", flushWhenHidden)
+}
+
+/**
+ * Applies an action optimistically: the caller has already updated the UI,
+ * the toast offers Undo, and `commit` is only called when the window passes.
+ */
+export function undoable({ message, commit, revert, errorMessage = "Something went wrong", onCommitted }: UndoableOptions) {
+  let settled = false
+
+  const settle = () => {
+    if (settled) return false
+    settled = true
+    clearTimeout(timer)
+    pending.delete(run)
+    if (pending.size === 0) unwatchPageExit()
+    return true
+  }
+
+  const run = async (keepalive: boolean) => {
+    if (!settle()) return
+    try {
+      await commit({ keepalive })
+      onCommitted?.()
+    } catch (error) {
+      revert()
+      notify.error(errorMessage, error instanceof Error ? error.message : undefined)
+    }
+  }
+
+  const undo = () => {
+    if (settle()) revert()
+  }
+
+  const timer = setTimeout(() => run(false), UNDO_WINDOW_MS)
+  pending.add(run)
+  watchPageExit()
+
+  toast(message, {
+    duration: UNDO_WINDOW_MS,
+    action: { label: "Undo", onClick: undo },
+  })
+}
@@ -0,0 +1,107 @@
+import type { UploadMetadata } from "./chunked-upload"
+
+// Analysis submissions made while offline. The video and its metadata wait in
+// IndexedDB (localStorage can't hold blobs) until the OfflineQueueProvider
+// sends them, either when the browser comes back online or when the service
+// worker's background sync asks it to.
+
+const DB_NAME = "flokraft-offline"
+const DB_VERSION = 1
+const STORE = "submissions"
+
+export const UPLOAD_SYNC_TAG = "flokraft-upload-queue"
+
+export type QueuedSubmissionStatus = "queued" | "uploading" | "failed"
+
+export interface QueuedSubmission {
+  id: string
+  // Only the user who queued a submission sends it
+  userId: string
+  video: Blob
+  fileName: string
+  // Kept so the rebuilt File has the same fingerprint and resumes its upload session
+  lastModified: number
+  metadata: UploadMetadata
+  status: QueuedSubmissionStatus
+  error?: string
+  createdAt: number
+}
+
+export const isOfflineQueueSupported = () => typeof indexedDB !== "undefined"
+
+const openDb = () =>
+  new Promise<IDBDatabase>((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION)
+    request.onupgradeneeded = () => {
+      request.result.createObjectStore(STORE, { keyPath: "id" })
+    }
+    request.onsuccess = () => resolve(request.result)
+    request.onerror = () => reject(request.error)
+  })
+
+const withStore = async <T>(mode: IDBTransactionMode, run: (store: IDBObjectStore) => IDBRequest<T>) => {
+  const db = await openDb()
+  try {
+    return await new Promise<T>((resolve, reject) => {
+      const transaction = db.transaction(STORE, mode)
+      const request = run(transaction.objectStore(STORE))
+      transaction.oncomplete = () => resolve(request.result)
+      transaction.onerror = () => reject(transaction.error)
+      transaction.onabort = () => reject(transaction.error)
+    })
+  } finally {
+    db.close()
+  }
+}
+
+export async function listQueuedSubmissions(userId: string): Promise<QueuedSubmission[]> {
+  const all = await withStore<QueuedSubmission[]>("readonly", (store) => store.getAll())
+  return all.filter((submission) => submission.userId === userId).sort((a, b) => a.createdAt - b.createdAt)
+}
+
+export async function queueSubmission(userId: string, file: File, metadata: UploadMetadata): Promise<QueuedSubmission> {
+  const submission: QueuedSubmission = {
+    id: `${Date.now()}-${Math.random().toString(36).slice(2, 8)}`,
+    userId,
+    video: file,
+    fileName: file.name,
+    lastModified: file.lastModified,
+    metadata,
+    status: "queued",
+    createdAt: Date.now(),
+  }
+  await withStore("readwrite", (store) => store.put(submission))
+  return submission
+}
+
+export async function saveQueuedSubmission(submission: QueuedSubmission) {
+  await withStore("readwrite", (store) => store.put(submission))
+}
+
+export async function removeQueuedSubmission(id: string) {
+  await withStore("readwrite", (store) => store.delete(id))
+}
+
+export const submissionFile = (submission: QueuedSubmission) =>
+  new File([submission.video], submission.fileName, {
+    type: submission.video.type,
+    lastModified: submission.lastModified,
+  })
+
+/**
+ * Asks the service worker for a background sync, so the queue is sent when
+ * connectivity returns. Browsers without Background Sync rely on the
+ * provider's `online` listener instead.
+ */
+export async function requestUploadSync() {
+  if (typeof navigator === "undefined" || !("serviceWorker" in navigator)) return
+  try {
+    // getRegistration, not ready: ready never settles where no worker is registered (dev)
+    const registration = (await navigator.serviceWorker.getRegistration()) as
+      | (ServiceWorkerRegistration & { sync?: { register: (tag: string) => Promise<void> } })
+      | undefined
+    await registration?.sync?.register(UPLOAD_SYNC_TAG)
+  } catch (error) {
+    console.warn("Background sync unavailable:", error)
+  }
+}
@@ -0,0 +1,106 @@
+import { collectDancers, dancerKey, includesDancer } from "./dancers"
+import type { Analysis, AnalysisDancers } from "./models"
+import { criterionMap, hasScores } from "./scores"
+
+// Someone whose progress can be charted: a dancer, a saved team, or a couple
+// that was entered by name.
+export interface ProgressSubject {
+  key: string
+  label: string
+  matches: (roster: AnalysisDancers) => boolean
+}
+
+export interface ProgressPoint {
+  id: string
+  date: Date
+  danceType: string
+  total?: number
+  // Criterion scores by canonical key
+  scores: Record<string, number>
+}
+
+export interface CriterionSummary {
+  // Canonical criterion key, see criterionLabel
+  criterion: string
+  average: number
+  // Last score minus first score in the range; 0 with a single analysis
+  change: number
+  count: number
+}
+
+// Analysis timestamps are YYYYMMDDHHmmss in server time
+export const analysisDate = (timestamp: string) =>
+  new Date(
+    Number(timestamp.substring(0, 4)),
+    Number(timestamp.substring(4, 6)) - 1,
+    Number(timestamp.substring(6, 8)),
+    Number(timestamp.substring(8, 10) || 0),
+    Number(timestamp.substring(10, 12) || 0),
+  )
+
+export function progressSubjects(analyses: Analysis[]): ProgressSubject[] {
+  const subjects: ProgressSubject[] = collectDancers(analyses.map((analysis) => analysis.roster)).map((dancer) => ({
+    key: dancerKey(dancer),
+    label: dancer.name,
+    matches: (roster) => includesDancer(roster, dancer),
+  }))
+
+  // Couples without a saved team are identified by their two dancers
+  analyses.forEach((analysis) => {
+    const [man, lady] = analysis.roster.members
+    if (analysis.analysis_type !== "couple" || analysis.roster.team_name || !man || !lady) return
+
+    const key = `couple:${dancerKey(man)}+${dancerKey(lady)}`
+    if (subjects.some((subject) => subject.key === key)) return
+    subjects.push({
+      key,
+      label: `${man.name} & ${lady.name}`,
+      matches: (roster) => includesDancer(roster, man) && includesDancer(roster, lady),
+    })
+  })
+
+  return subjects.sort((a, b) => a.label.localeCompare(b.label))
+}
+
+interface ProgressFilter {
+  subject?: ProgressSubject
+  danceType?: string
+  from?: Date
+  to?: Date
+}
+
+// Scored analyses matching the filter, oldest first
+export function progressPoints(analyses: Analysis[], filter: ProgressFilter): ProgressPoint[] {
+  return analyses
+    .filter((analysis) => analysis.processed && hasScores(analysis.scores))
+    .filter((analysis) => !filter.subject || filter.subject.matches(analysis.roster))
+    .filter((analysis) => !filter.danceType || analysis.dance_type === filter.danceType)
+    .map((analysis) => ({
+      id: analysis.id,
+      date: analysisDate(analysis.timestamp),
+      danceType: analysis.dance_type,
+      total: analysis.scores.total,
+      scores: criterionMap(analysis.scores),
+    }))
+    .filter((point) => (!filter.from || point.date >= filter.from) && (!filter.to || point.date <= filter.to))
+    .sort((a, b) => a.date.getTime() - b.date.getTime())
+}
+
+// Per-criterion averages, best first
+export function summarizeCriteria(points: ProgressPoint[]): CriterionSummary[] {
+  const byCriterion = new Map<string, number[]>()
+  points.forEach((point) => {
+    Object.entries(point.scores).forEach(([criterion, score]) => {
+      byCriterion.set(criterion, [...(byCriterion.get(criterion) || []), score])
+    })
+  })
+
+  return Array.from(byCriterion.entries())
+    .map(([criterion, scores]) => ({
+      criterion,
+      average: scores.reduce((sum, score) => sum + score, 0) / scores.length,
+      change: scores[scores.length - 1] - scores[0],
+      count: scores.length,
+    }))
+    .sort((a, b) => b.average - a.average)
+}
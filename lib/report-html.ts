@@ -0,0 +1,15 @@
+import { markdownToHtml } from "./markdown"
+import { looksLikeHtml, sanitizeHtml } from "./sanitize"
+import { timestampLinker } from "./timestamps"
+
+interface ReportHtmlOptions {
+  // Turns video timestamps into seek links, for a report shown next to its video
+  linkTimestamps?: boolean
+}
+
+// Every report goes through here before it reaches dangerouslySetInnerHTML:
+// HTML is sanitized as is, plain text is rendered as markdown first.
+export const renderReportHtml = (content: string, { linkTimestamps = false }: ReportHtmlOptions = {}) =>
+  sanitizeHtml(looksLikeHtml(content) ? content : markdownToHtml(content), {
+    text: linkTimestamps ? timestampLinker() : undefined,
+  })
@@ -0,0 +1,31 @@
+// Roles come from Firebase custom claims on the ID token, set by the backend
+// (the Admin SDK is server-only). Every signed-in user is at least a dancer.
+
+export type Role = "admin" | "organizer" | "coach" | "judge" | "dancer"
+
+export const ROLES: Role[] = ["admin", "organizer", "coach", "judge", "dancer"]
+
+export const ROLE_LABELS: Record<Role, string> = {
+  admin: "Administrator",
+  organizer: "Event organizer",
+  coach: "Coach",
+  judge: "Judge",
+  dancer: "Dancer",
+}
+
+const isRole = (value: unknown): value is Role => ROLES.includes(value as Role)
+
+// Accepts `roles: [...]`, a single `role`, or the older `admin: true` claim
+export const rolesFromClaims = (claims: Record<string, unknown>): Role[] => {
+  const claimed = Array.isArray(claims.roles) ? claims.roles : [claims.role]
+  const roles = new Set<Role>(claimed.filter(isRole))
+  if (claims.admin === true) roles.add("admin")
+  roles.add("dancer")
+  return ROLES.filter((role) => roles.has(role))
+}
+
+export const toRoles = (value: unknown): Role[] => (Array.isArray(value) ? ROLES.filter((role) => value.includes(role)) : [])
+
+// True when the user has any of the required roles
+export const hasRole = (roles: Role[], required: Role | Role[]) =>
+  (Array.isArray(required) ? required : [required]).some((role) => roles.includes(role))
@@ -0,0 +1,192 @@
+// @vitest-environment jsdom
+import { describe, expect, it } from "vitest"
+import { renderReportHtml } from "./report-html"
+import { isSafeUrl, sanitizeHtml } from "./sanitize"
+
+// Parses the sanitized output the way the report view does, to look at what
+// would actually end up in the page
+const render = (html: string) => {
+  const container = document.createElement("div")
+  container.innerHTML = sanitizeHtml(html)
+  return container
+}
+
+// The report as the analysis page shows it next to its video, with timestamp links
+const renderLinked = (html: string) => {
+  const container = document.createElement("div")
+  container.innerHTML = renderReportHtml(html, { linkTimestamps: true })
+  return container
+}
+
+// URLs with a script or data scheme, however it is disguised
+const unsafeUrlsIn = (container: Element) =>
+  Array.from(container.querySelectorAll("[href], [src]"))
+    .flatMap((element) => [element.getAttribute("href"), element.getAttribute("src")])
+    .filter((value): value is string => value !== null)
+    .filter((value) => /^(javascript|data|vbscript):/i.test(value.replace(/[\u0000- \u007f-\u009f]/g, "")))
+
+const handlersIn = (container: Element) =>
+  Array.from(container.querySelectorAll("*")).flatMap((element) =>
+    element.getAttributeNames().filter((name) => name.toLowerCase().startsWith("on")),
+  )
+
+// Links and images pointing at a script or data URL
+const UNSAFE_URL_PAYLOADS = [
+  '<a href="javascript:alert(1)">x</a>',
+  '<a href="JAVASCRIPT:alert(1)">x</a>',
+  '<a href="&#106;avascript:alert(1)">x</a>',
+  '<a href="javascript&colon;alert(1)">x</a>',
+  '<a href="java&#x09;script:alert(1)">x</a>',
+  '<a href="java\nscript:alert(1)">x</a>',
+  '<a href="&#x01;javascript:alert(1)">x</a>',
+  '<a href="  javascript:alert(1)">x</a>',
+  '<a href="data:text/html,<script>alert(1)</script>">x</a>',
+  '<img src="javascript:alert(1)">',
+  '<img src="data:image/svg+xml;base64,PHN2ZyBvbmxvYWQ9YWxlcnQoMSk+">',
+]
+
+// Event handlers, however they are written
+const HANDLER_PAYLOADS = [
+  '<img src="x" onerror="alert(1)">',
+  '<p onclick="alert(1)">x</p>',
+  '<div ONMOUSEOVER="alert(1)">x</div>',
+  '<a href="#x" onfocus="alert(1)" autofocus>x</a>',
+  '<p/onclick="alert(1)">x</p>',
+  '<td onpointerenter=alert(1)>x</td>',
+]
+
+// Scripts and the containers that can smuggle them in
+const SCRIPT_PAYLOADS = [
+  "<script>alert(1)</script>",
+  "<script>alert(1)",
+  "<SCRIPT SRC=//evil.example/x.js></SCRIPT>",
+  "<scr<script>ipt>alert(1)</script>",
+  "<script><script>alert(1)</script></script>",
+  "<p>ok<script>alert(1)</p>",
+  "<div><script>alert(1)</div>",
+  "<iframe src=javascript:alert(1)></iframe>",
+  "<object data=javascript:alert(1)></object>",
+  '<noscript><p title="</noscript><img src=x onerror=alert(1)>"></noscript>',
+  "<template><script>alert(1)</script></template>",
+]
+
+describe("isSafeUrl", () => {
+  it.each(["https://example.com/a", "http://example.com", "mailto:coach@example.com", "/analysis/1", "#scores", "notes.html"])(
+    "allows %j",
+    (url) => {
+      expect(isSafeUrl(url)).toBe(true)
+    },
+  )
+
+  it.each([
+    "javascript:alert(1)",
+    "JaVaScRiPt:alert(1)",
+    "data:text/html;base64,PHNjcmlwdD5hbGVydCgxKTwvc2NyaXB0Pg==",
+    "vbscript:msgbox(1)",
+    " javascript:alert(1)",
+    "java\tscript:alert(1)",
+    "java\nscript:alert(1)",
+    "java\u0000script:alert(1)",
+    "\u0001javascript:alert(1)",
+    "javascript\u0085:alert(1)",
+  ])("rejects %j", (url) => {
+    expect(isSafeUrl(url)).toBe(false)
+  })
+
+  it("allows only http(s) for images", () => {
+    expect(isSafeUrl("mailto:coach@example.com", ["http:", "https:"])).toBe(false)
+  })
+})
+
+describe("sanitizeHtml", () => {
+  it("keeps report markup", () => {
+    const html = '<h2>Technique</h2><p><strong>8</strong>/10 <a href="https://example.com">details</a></p>'
+    expect(sanitizeHtml(html)).toBe(
+      '<h2>Technique</h2><p><strong>8</strong>/10 <a href="https://example.com" target="_blank" rel="noopener noreferrer nofollow">details</a></p>',
+    )
+  })
+
+  it.each(UNSAFE_URL_PAYLOADS)("drops the unsafe URL in %j", (html) => {
+    expect(unsafeUrlsIn(render(html))).toEqual([])
+  })
+
+  it.each(HANDLER_PAYLOADS)("drops event handlers in %j", (html) => {
+    expect(handlersIn(render(html))).toEqual([])
+  })
+
+  it("drops style and unknown attributes", () => {
+    expect(sanitizeHtml('<p style="background:url(javascript:alert(1))" data-x="1" id="a">x</p>')).toBe("<p>x</p>")
+  })
+
+  it("drops classes, so a report can't lay itself over the page", () => {
+    expect(sanitizeHtml('<div class="fixed inset-0 z-50 bg-white"><p class="text-sm">Sign in again</p></div>')).toBe(
+      "<div><p>Sign in again</p></div>",
+    )
+  })
+
+  it.each([
+    "<svg><script>alert(1)</script></svg>",
+    '<svg onload="alert(1)"><circle r="1"></circle></svg>',
+    '<svg><a href="javascript:alert(1)"><text>x</text></a></svg>',
+    '<svg><animate attributeName="href" values="javascript:alert(1)"></animate></svg>',
+    '<math><mi xlink:href="javascript:alert(1)">x</mi></math>',
+    '<math><mtext><table><mglyph><style><img src=x onerror=alert(1)></style></mglyph></table></mtext></math>',
+    '<svg></p><style><a id="</style><img src=1 onerror=alert(1)>">',
+  ])("removes svg and math content in %j", (html) => {
+    const container = render(html)
+    expect(container.querySelector("svg, math, script, style")).toBeNull()
+    expect(unsafeUrlsIn(container)).toEqual([])
+    expect(handlersIn(container)).toEqual([])
+  })
+
+  it.each(SCRIPT_PAYLOADS)("leaves no script behind for %j", (html) => {
+    const container = render(html)
+    expect(container.querySelector("script, iframe, object, noscript, template")).toBeNull()
+    expect(handlersIn(container)).toEqual([])
+    expect(unsafeUrlsIn(container)).toEqual([])
+  })
+
+  it("keeps the text of unknown wrappers and escapes stray markup", () => {
+    expect(sanitizeHtml("<font color=red>8/10</font> a &lt;b&gt; <center>c</center>")).toBe("8/10 a &lt;b&gt; c")
+  })
+
+  it("opens outside links in a new tab without the opener", () => {
+    const link = render('<a href="https://example.com" target="_self">x</a>').querySelector("a")!
+    expect(link.getAttribute("target")).toBe("_blank")
+    expect(link.getAttribute("rel")).toBe("noopener noreferrer nofollow")
+  })
+})
+
+describe("renderReportHtml with timestamp links", () => {
+  it("keeps markup hidden in an attribute inert", () => {
+    const container = renderLinked('<p><span title="x>1:23 <img src=x onerror=alert(1)>">hi</span></p>')
+    expect(container.querySelector("img")).toBeNull()
+    expect(handlersIn(container)).toEqual([])
+    expect(container.querySelector("span")!.getAttribute("title")).toBe("x>1:23 <img src=x onerror=alert(1)>")
+  })
+
+  it("links timestamps in the text only", () => {
+    const container = renderLinked('<p title="at 1:23">Check 1:23 and <a href="#notes">2:05</a></p>')
+    const links = Array.from(container.querySelectorAll("a[data-seek]"))
+    expect(links.map((link) => [link.textContent, link.getAttribute("data-seek")])).toEqual([["1:23", "83"]])
+    expect(container.querySelector("p")!.getAttribute("title")).toBe("at 1:23")
+  })
+
+  it("escapes text next to the links", () => {
+    const container = renderLinked("<p>&lt;img src=x onerror=alert(1)&gt; at 0:42</p>")
+    expect(container.querySelector("img")).toBeNull()
+    expect(container.querySelector("a[data-seek]")!.getAttribute("data-seek")).toBe("42")
+  })
+
+  it.each([...UNSAFE_URL_PAYLOADS, ...HANDLER_PAYLOADS, ...SCRIPT_PAYLOADS])(
+    "keeps %j inert next to timestamp links",
+    (html) => {
+      // Ahead of the payload: an unclosed script swallows whatever follows it
+      const container = renderLinked(`<p>From 0:42 to 1:23</p>${html}`)
+      expect(container.querySelectorAll("a[data-seek]")).toHaveLength(2)
+      expect(container.querySelector("script, iframe, object, noscript, template")).toBeNull()
+      expect(handlersIn(container)).toEqual([])
+      expect(unsafeUrlsIn(container)).toEqual([])
+    },
+  )
+})
@@ -0,0 +1,115 @@
+// Allowlist HTML sanitizer for analysis reports. Reports come from the
+// backend's formatter, and on shared analyses from another user's account, so
+// nothing in them is trusted: only the tags, attributes and URL schemes listed
+// here survive, everything else is unwrapped or dropped.
+
+const ALLOWED_TAGS = new Set([
+  "a", "b", "blockquote", "br", "caption", "code", "col", "colgroup", "dd", "del", "div", "dl", "dt", "em",
+  "figcaption", "figure", "h1", "h2", "h3", "h4", "h5", "h6", "hr", "i", "img", "ins", "li", "mark", "ol", "p",
+  "pre", "s", "section", "small", "span", "strong", "sub", "sup", "table", "tbody", "td", "tfoot", "th", "thead",
+  "tr", "u", "ul",
+])
+
+// Removed together with everything inside them
+const DROPPED_TAGS = new Set([
+  "script", "style", "iframe", "frame", "frameset", "object", "embed", "applet", "template", "noscript",
+  "svg", "math", "form", "input", "button", "select", "textarea", "link", "meta", "base", "title", "head",
+])
+
+// No class: the app's utility classes would let a report restyle the page around it
+const GLOBAL_ATTRIBUTES = new Set(["title", "lang", "dir"])
+
+const TAG_ATTRIBUTES: Record<string, Set<string>> = {
+  a: new Set(["href"]),
+  img: new Set(["src", "alt", "width", "height"]),
+  td: new Set(["colspan", "rowspan"]),
+  th: new Set(["colspan", "rowspan", "scope"]),
+  col: new Set(["span"]),
+  colgroup: new Set(["span"]),
+  ol: new Set(["start", "type"]),
+}
+
+const URL_ATTRIBUTES = new Set(["href", "src"])
+
+const LINK_SCHEMES = ["http:", "https:", "mailto:"]
+const IMAGE_SCHEMES = ["http:", "https:"]
+
+const ESCAPES: Record<string, string> = { "&": "&amp;", "<": "&lt;", ">": "&gt;", '"': "&quot;", "'": "&#39;" }
+
+export const escapeHtml = (text: string) => text.replace(/[&<>"']/g, (char) => ESCAPES[char])
+
+// Relative and fragment URLs are fine; absolute ones need an allowed scheme
+export const isSafeUrl = (value: string, schemes = LINK_SCHEMES) => {
+  // Browsers ignore control characters and whitespace inside a scheme ("java\tscript:")
+  const url = value.replace(/[\u0000- \u007f-\u009f]/g, "")
+  const scheme = url.match(/^([a-z][a-z0-9+.-]*):/i)
+  return !scheme || schemes.includes(`${scheme[1].toLowerCase()}:`)
+}
+
+const cleanAttributes = (source: Element, target: Element) => {
+  const tag = target.tagName.toLowerCase()
+  Array.from(source.attributes).forEach(({ name, value }) => {
+    const attribute = name.toLowerCase()
+    if (!GLOBAL_ATTRIBUTES.has(attribute) && !TAG_ATTRIBUTES[tag]?.has(attribute)) return
+    if (URL_ATTRIBUTES.has(attribute) && !isSafeUrl(value, tag === "img" ? IMAGE_SCHEMES : LINK_SCHEMES)) return
+    target.setAttribute(attribute, value)
+  })
+
+  if (tag === "a" && target.hasAttribute("href") && !target.getAttribute("href")!.startsWith("#")) {
+    target.setAttribute("target", "_blank")
+    target.setAttribute("rel", "noopener noreferrer nofollow")
+  }
+}
+
+export interface SanitizeOptions {
+  // Builds what a text node of the input becomes, e.g. the text with links added.
+  // `parent` is the cleaned element it goes into, already in place in the output.
+  text?: (text: string, parent: Element, doc: Document) => Node
+}
+
+const cleanChildren = (source: Node, target: Element, doc: Document, options: SanitizeOptions) => {
+  source.childNodes.forEach((node) => {
+    if (node.nodeType === Node.TEXT_NODE) {
+      const text = node.textContent || ""
+      target.appendChild(options.text ? options.text(text, target, doc) : doc.createTextNode(text))
+      return
+    }
+    if (node.nodeType !== Node.ELEMENT_NODE) return
+
+    const element = node as Element
+    const tag = element.tagName.toLowerCase()
+    if (DROPPED_TAGS.has(tag)) return
+
+    if (!ALLOWED_TAGS.has(tag)) {
+      // Unknown wrappers (font, center, ...) go; their text stays
+      cleanChildren(element, target, doc, options)
+      return
+    }
+
+    const clean = doc.createElement(tag)
+    cleanAttributes(element, clean)
+    target.appendChild(clean)
+    cleanChildren(element, clean, doc, options)
+  })
+}
+
+/**
+ * Returns `html` with only allowlisted markup. Parsing happens in an inert
+ * document, so nothing in the input runs or loads while it is cleaned. Where
+ * there is no DOM (server rendering) the input is escaped instead.
+ *
+ * Anything added to the report, like timestamp links, has to go in through
+ * `options.text` as DOM nodes: rewriting the returned string can turn text the
+ * sanitizer left inert back into markup.
+ */
+export function sanitizeHtml(html: string, options: SanitizeOptions = {}): string {
+  if (typeof DOMParser === "undefined") return escapeHtml(html)
+
+  const source = new DOMParser().parseFromString(`<body>${html}</body>`, "text/html")
+  const doc = document.implementation.createHTMLDocument("")
+  const container = doc.createElement("div")
+  cleanChildren(source.body, container, doc, options)
+  return container.innerHTML
+}
+
+export const looksLikeHtml = (text: string) => /<\/?[a-z][a-z0-9]*(\s[^>]*)?\/?>/i.test(text)
@@ -0,0 +1,107 @@
+import { readFileSync } from "node:fs"
+import { join } from "node:path"
+import { describe, expect, it } from "vitest"
+import { criterionKey, criterionLabel, criterionMap, formatScore, parseScoreCard, parseScoreValue } from "./scores"
+
+const fixture = (name: string) => readFileSync(join(__dirname, "__fixtures__", "reports", name), "utf8")
+
+describe("parseScoreCard on backend reports", () => {
+  it("reads per-dancer sub-scores, the scale and the total from an HTML couple report", () => {
+    const card = parseScoreCard({ text: fixture("couple-html.html"), dancerNames: ["John Smith", "Jane Doe"] })
+
+    expect(card.total).toBe(34.5)
+    expect(card.maxTotal).toBe(40)
+    expect(card.scale).toBe(10)
+    expect(card.dancers.map((dancer) => dancer.name)).toEqual(["John Smith", "Jane Doe"])
+    expect(criterionMap({ ...card, criteria: card.dancers[0].criteria })).toEqual({ technique: 8, posture: 7.5, timing: 9 })
+    expect(criterionMap(card)).toEqual({ partnering: 8, musicality: 7, technique: 7.5, posture: 8, timing: 8.5 })
+  })
+
+  it("reads a markdown solo report without a stated scale", () => {
+    const card = parseScoreCard({ text: fixture("solo-markdown.md") })
+
+    expect(card.total).toBe(28.5)
+    expect(card.maxTotal).toBeUndefined()
+    expect(criterionMap(card)).toEqual({ technique: 7, timing: 8, footwork: 6.5, musicality: 7 })
+  })
+
+  it("takes scores from the line under a criterion heading and keeps compound criteria apart", () => {
+    const card = parseScoreCard({ text: fixture("formation-headings.md") })
+
+    expect(card.total).toBe(32)
+    expect(card.maxTotal).toBe(40)
+    expect(card.scale).toBe(10)
+    expect(criterionMap(card)).toEqual({
+      synchronization: 8,
+      choreography_and_presentation: 9,
+      team_performance: 7,
+      choreography: 8,
+    })
+  })
+})
+
+describe("total line", () => {
+  it.each([
+    ["TOTAL SCORE: 34.5", 34.5],
+    ["Total Score = 34", 34],
+    ["Total score 31/40", 31],
+    ["Total (out of 40): 29", 29],
+    ["Overall: 27", 27],
+    ["The overall score is 33.5", 33.5],
+  ])("reads %j", (text, total) => {
+    expect(parseScoreCard({ text }).total).toBe(total)
+  })
+
+  it.each(["They repeated the figure overall 2 times", "Overall 3 dancers lost timing", "Total of 4 spins"])(
+    "ignores %j",
+    (text) => {
+      expect(parseScoreCard({ text }).total).toBeUndefined()
+    },
+  )
+})
+
+describe("criterionKey", () => {
+  it("maps synonyms to one canonical key", () => {
+    expect(criterionKey("Technical Execution")).toBe("technique")
+    expect(criterionKey("Posture & Frame")).toBe("posture")
+    expect(criterionKey("Timing and Rhythm")).toBe("timing")
+  })
+
+  it("gives a compound criterion its own key and label", () => {
+    expect(criterionKey("Choreography & Presentation")).toBe("choreography_and_presentation")
+    expect(criterionLabel("choreography_and_presentation")).toBe("Choreography & Presentation")
+  })
+
+  it("slugs unknown criteria", () => {
+    expect(criterionKey("Floor Craft")).toBe("floor_craft")
+    expect(criterionLabel("floor_craft")).toBe("Floor Craft")
+  })
+})
+
+describe("structured backend fields", () => {
+  it("prefer the backend's scores and total over the report", () => {
+    const card = parseScoreCard({
+      text: "Technique: 5/10\nTOTAL SCORE: 20",
+      total: "36/40",
+      scores: { technique: "9/10", timing: 9, posture: 9, musicality: 9 },
+    })
+
+    expect(card.total).toBe(36)
+    expect(card.maxTotal).toBe(40)
+    expect(criterionMap(card)).toEqual({ technique: 9, timing: 9, posture: 9, musicality: 9 })
+  })
+
+  it("parse loose score values", () => {
+    expect(parseScoreValue("34.5 out of 40")).toEqual({ score: 34.5, max: 40 })
+    expect(parseScoreValue(12)).toEqual({ score: 12 })
+    expect(parseScoreValue("n/a")).toBeUndefined()
+    expect(parseScoreValue(Number.NaN)).toBeUndefined()
+  })
+})
+
+describe("formatScore", () => {
+  it("shows one decimal and the maximum when known", () => {
+    expect(formatScore(34.5, 40)).toBe("34.5 / 40")
+    expect(formatScore(34)).toBe("34")
+  })
+})
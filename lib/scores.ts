@@ -0,0 +1,269 @@
+// Typed scores for an analysis. The backend sends a free-form report and, on
+// newer deployments, `total_score` / `scores` fields; parseScoreCard merges
+// both into one ScoreCard so views never scrape the report themselves.
+
+export interface CriterionScore {
+  // Canonical key, e.g. "technique", so criteria line up across reports
+  key: string
+  label: string
+  score: number
+  // Maximum for this criterion when the report states one ("8/10")
+  max?: number
+}
+
+export interface DancerScores {
+  name: string
+  criteria: CriterionScore[]
+  total?: number
+}
+
+export interface ScoreCard {
+  total?: number
+  // Maximum of the total, e.g. 40 for four criteria scored out of 10
+  maxTotal?: number
+  // Maximum of a single criterion, e.g. 10
+  scale?: number
+  criteria: CriterionScore[]
+  // Sub-scores when the report scores each dancer separately
+  dancers: DancerScores[]
+}
+
+interface ScoreSources {
+  text?: string
+  total?: unknown
+  scores?: unknown
+  // Names to recognise per-dancer sections by, besides Man/Lady/Leader/Follower
+  dancerNames?: string[]
+}
+
+const CRITERIA: { key: string; label: string; pattern: RegExp }[] = [
+  { key: "technique", label: "Technique", pattern: /techni(que|cal)/i },
+  { key: "musicality", label: "Musicality", pattern: /musicality|movement to music|interpretation/i },
+  { key: "timing", label: "Timing", pattern: /timing|rhythm/i },
+  { key: "posture", label: "Posture", pattern: /posture|frame|poise|alignment/i },
+  { key: "partnering", label: "Partnering", pattern: /partner/i },
+  { key: "synchronization", label: "Synchronization", pattern: /synchron/i },
+  { key: "choreography", label: "Choreography", pattern: /choreograph/i },
+  { key: "creativity", label: "Creativity", pattern: /creativ|originality/i },
+  { key: "footwork", label: "Footwork", pattern: /footwork/i },
+  { key: "team_performance", label: "Team Performance", pattern: /team\s*(performance|work)/i },
+  { key: "presentation", label: "Presentation", pattern: /presentation|performance|expression|showmanship/i },
+]
+
+const ROLE_NAMES = ["man", "lady", "leader", "follower", "lead", "follow", "male dancer", "female dancer"]
+
+const NUMBER = String.raw`(\d+(?:\.\d+)?)`
+const OUT_OF = String.raw`(?:\s*(?:\/|out of)\s*${NUMBER})?`
+
+// "Total Score 34", "Overall: 34/40", "The total score is 34"; but not "overall 2 times"
+const TOTAL_LINE = new RegExp(
+  String.raw`\b(?:total|overall)(?:\s+score\b\s*(?:\([^)]*\))?\s*(?:[:=\-–]|is\b)?|\s*(?:\([^)]*\))?\s*(?:[:=\-–]|is\b))\s*=?\s*${NUMBER}${OUT_OF}`,
+  "i",
+)
+const CRITERION_LINE = new RegExp(
+  String.raw`^([A-Za-z][A-Za-z &/'-]{2,60}?)\s*(?:\([^)]*\))?\s*[:=\-–]\s*${NUMBER}${OUT_OF}`,
+)
+const SCALE_LINE = /\bscale\b[^\d]{0,20}(\d+)\s*(?:-|–|to)\s*(\d+)/i
+// "Score: 8/10" under a criterion heading
+const BARE_SCORE_LABEL = /^(?:score|rating|mark)s?$/i
+
+// Joins the keys of a compound criterion such as "Choreography & Presentation"
+const COMPOUND_SEPARATOR = "_and_"
+
+const knownCriterion = (label: string) => CRITERIA.find((criterion) => criterion.pattern.test(label))
+
+export const criterionKey = (label: string) => {
+  // A compound label is its own criterion rather than the first of its parts
+  const parts = label.split(/\s*(?:&|\+|\/|\band\b)\s*/i).filter(Boolean)
+  const partKeys = [...new Set(parts.map((part) => knownCriterion(part)?.key))]
+  if (parts.length > 1 && partKeys.length > 1 && partKeys.every(Boolean)) return partKeys.join(COMPOUND_SEPARATOR)
+
+  const known = knownCriterion(label)
+  return known ? known.key : label.trim().toLowerCase().replace(/[^a-z0-9]+/g, "_").replace(/^_|_$/g, "")
+}
+
+// Display label for a canonical key
+export const criterionLabel = (key: string): string =>
+  key.includes(COMPOUND_SEPARATOR)
+    ? key.split(COMPOUND_SEPARATOR).map(criterionLabel).join(" & ")
+    : (CRITERIA.find((criterion) => criterion.key === key)?.label ??
+      key.replace(/_/g, " ").replace(/\b\w/g, (letter) => letter.toUpperCase()))
+
+// Reads "34.5", "34.5/40", "34.5 out of 40" or a number
+export const parseScoreValue = (value: unknown): { score: number; max?: number } | undefined => {
+  if (typeof value === "number") return Number.isFinite(value) ? { score: value } : undefined
+  if (typeof value !== "string") return undefined
+
+  const match = value.match(new RegExp(`${NUMBER}${OUT_OF}`))
+  if (!match) return undefined
+  return { score: parseFloat(match[1]), max: match[2] ? parseFloat(match[2]) : undefined }
+}
+
+// "34.5 / 40", or just the score when the scale is unknown
+export const formatScore = (score: number, max?: number) => {
+  const value = Number.isInteger(score) ? String(score) : score.toFixed(1)
+  return max ? `${value} / ${max}` : value
+}
+
+// Reports arrive as HTML or markdown; reduce them to one statement per line
+const toPlainLines = (text: string) =>
+  text
+    .replace(/<\s*br\s*\/?>/gi, "\n")
+    .replace(/<\/(p|li|h[1-6]|div|tr)>/gi, "\n")
+    .replace(/<[^>]+>/g, " ")
+    .replace(/&nbsp;/g, " ")
+    .replace(/&amp;/g, "&")
+    .split("\n")
+    .map((line) =>
+      line
+        .replace(/[*_`]+/g, "")
+        .replace(/^\s*(?:#+|[-•]|\d+\.)\s*/, "")
+        .replace(/\s+/g, " ")
+        .trim(),
+    )
+    .filter(Boolean)
+
+const addCriterion = (criteria: CriterionScore[], label: string, score: number, max?: number) => {
+  const key = criterionKey(label)
+  if (!key || criteria.some((criterion) => criterion.key === key)) return
+  criteria.push({ key, label: label.trim(), score, max })
+}
+
+const escapeRegExp = (value: string) => value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&")
+
+// A line that only names one of the dancers ("Man (John):", "Lady's scores", "### Jane Doe")
+const dancerHeading = (line: string, names: string[]) => {
+  if (line.length > 60 || /\d/.test(line)) return undefined
+  const lower = line.toLowerCase()
+  return names.find((name) =>
+    new RegExp(
+      `^(?:scores? for |the )?${escapeRegExp(name)}(?:\\s*\\([^)]*\\))?(?:'s)?(?:\\s+(?:scores?|evaluation|assessment))?\\s*:?$`,
+    ).test(lower),
+  )
+}
+
+// Headings that close a per-dancer section
+const isSectionHeading = (line: string) => line.length <= 60 && !/\d/.test(line) && (/:$/.test(line) || line === line.toUpperCase())
+
+function parseText(text: string, dancerNames: string[]): ScoreCard {
+  const card: ScoreCard = { criteria: [], dancers: [] }
+  const names = [...dancerNames.map((name) => name.toLowerCase()).filter(Boolean), ...ROLE_NAMES]
+  let current: DancerScores | undefined
+  // The last heading-like line, for scores given on the line below it
+  let lastHeading: string | undefined
+
+  toPlainLines(text).forEach((line) => {
+    const heading = dancerHeading(line, names)
+    if (heading) {
+      // "Man (John Smith):" is filed under John Smith
+      const name = line.match(/\(([^)]+)\)/)?.[1].trim() || line.replace(/[:(].*$/, "").trim()
+      current = card.dancers.find((dancer) => dancer.name === name)
+      if (!current) {
+        current = { name, criteria: [] }
+        card.dancers.push(current)
+      }
+      return
+    }
+
+    const scale = line.match(SCALE_LINE)
+    if (scale && card.scale === undefined) {
+      card.scale = parseFloat(scale[2])
+      return
+    }
+
+    const total = line.match(TOTAL_LINE)
+    if (total) {
+      const isOverall = /total\s+score/i.test(line) || !current
+      if (isOverall && card.total === undefined) {
+        card.total = parseFloat(total[1])
+        card.maxTotal = total[2] ? parseFloat(total[2]) : undefined
+        current = undefined
+      } else if (current && current.total === undefined) {
+        current.total = parseFloat(total[1])
+      }
+      return
+    }
+
+    const criterion = line.match(CRITERION_LINE)
+    if (criterion) {
+      const score = parseFloat(criterion[2])
+      const max = criterion[3] ? parseFloat(criterion[3]) : undefined
+      const label = BARE_SCORE_LABEL.test(criterion[1].trim()) ? lastHeading : criterion[1]
+      // Anything above the scale (or 100) is a date, a year or a count, not a score
+      if (label && score <= (max ?? 100)) {
+        addCriterion(current ? current.criteria : card.criteria, label, score, max)
+        lastHeading = undefined
+        return
+      }
+    }
+
+    if (line.length <= 60 && !/\d/.test(line)) {
+      lastHeading = line.replace(/:$/, "")
+    }
+
+    if (current && isSectionHeading(line)) {
+      current = undefined
+    }
+  })
+
+  return card
+}
+
+// One entry per criterion that any dancer was scored on, averaged over the dancers
+const averageDancerCriteria = (dancers: DancerScores[]) => {
+  const criteria: CriterionScore[] = []
+  dancers
+    .flatMap((dancer) => dancer.criteria)
+    .forEach((criterion) => {
+      if (criteria.some((existing) => existing.key === criterion.key)) return
+      const scores = dancers
+        .map((dancer) => dancer.criteria.find((candidate) => candidate.key === criterion.key)?.score)
+        .filter((score): score is number => score !== undefined)
+      criteria.push({ ...criterion, score: scores.reduce((sum, score) => sum + score, 0) / scores.length })
+    })
+  return criteria
+}
+
+export function parseScoreCard({ text, total, scores, dancerNames = [] }: ScoreSources): ScoreCard {
+  const card = text ? parseText(text, dancerNames) : { criteria: [], dancers: [] }
+
+  // Structured fields from the backend win over what the report says
+  if (scores && typeof scores === "object" && !Array.isArray(scores)) {
+    const structured: CriterionScore[] = []
+    Object.entries(scores).forEach(([label, raw]) => {
+      const value = parseScoreValue(raw)
+      if (value) addCriterion(structured, label, value.score, value.max)
+    })
+    if (structured.length > 0) card.criteria = structured
+  }
+
+  const totalValue = parseScoreValue(total)
+  if (totalValue) {
+    card.total = totalValue.score
+    card.maxTotal = totalValue.max ?? card.maxTotal
+  }
+
+  // Criteria only scored per dancer count towards the overall card as their average
+  averageDancerCriteria(card.dancers).forEach((criterion) => {
+    if (!card.criteria.some((existing) => existing.key === criterion.key)) card.criteria.push(criterion)
+  })
+
+  if (card.scale === undefined) {
+    const maxima = card.criteria.map((criterion) => criterion.max).filter((max): max is number => max !== undefined)
+    if (maxima.length > 0 && maxima.every((max) => max === maxima[0])) card.scale = maxima[0]
+  }
+
+  if (card.maxTotal === undefined && card.scale !== undefined && card.total !== undefined && card.criteria.length > 0) {
+    const maxTotal = card.scale * card.criteria.length
+    // Only trust the derived maximum if the total actually fits on it
+    if (card.total <= maxTotal) card.maxTotal = maxTotal
+  }
+
+  return card
+}
+
+export const hasScores = (card: ScoreCard) => card.total !== undefined || card.criteria.length > 0
+
+// Criterion scores by canonical key, for charts and comparisons
+export const criterionMap = (card: ScoreCard) =>
+  Object.fromEntries(card.criteria.map((criterion) => [criterion.key, criterion.score])) as Record<string, number>
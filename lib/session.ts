@@ -0,0 +1,64 @@
+import type { Role } from "./roles"
+
+// The session cookie carries the current Firebase ID token so proxy.ts can
+// turn signed-out visitors away before a protected page renders. It is only a
+// routing hint: the backend verifies the token on every API call.
+
+export const SESSION_COOKIE = "flokraft_session"
+
+// Public share links live under here, see shareLinkPath
+const SHARE_LINK_PREFIX = "/s"
+
+// Pages anyone can open; everything else needs a session
+export const PUBLIC_PATHS = ["/login", "/signup", "/forgot-password", SHARE_LINK_PREFIX]
+
+const isUnder = (pathname: string, path: string) => pathname === path || pathname.startsWith(`${path}/`)
+
+export const isPublicPath = (pathname: string) => PUBLIC_PATHS.some((path) => isUnder(pathname, path))
+
+// Pages that also need a role, checked against the token's claims
+export const ROLE_PATHS: { path: string; role: Role }[] = [{ path: "/admin", role: "admin" }]
+
+export const requiredRole = (pathname: string) => ROLE_PATHS.find(({ path }) => isUnder(pathname, path))?.role
+
+export const shareLinkPath = (token: string) => `${SHARE_LINK_PREFIX}/${encodeURIComponent(token)}`
+
+export const loginUrl = (returnTo?: string) =>
+  returnTo && returnTo !== "/" ? `/login?next=${encodeURIComponent(returnTo)}` : "/login"
+
+// Only same-site paths, so ?next= can't be used to send users elsewhere
+export const safeReturnUrl = (value: string | null | undefined) =>
+  value && value.startsWith("/") && !value.startsWith("//") && !value.startsWith("/\\") ? value : "/"
+
+// The JWT payload, read without verifying the signature
+export const tokenClaims = (token: string): Record<string, unknown> | undefined => {
+  try {
+    const payload = token.split(".")[1].replace(/-/g, "+").replace(/_/g, "/")
+    const claims = JSON.parse(atob(payload.padEnd(payload.length + ((4 - (payload.length % 4)) % 4), "=")))
+    return claims && typeof claims === "object" && !Array.isArray(claims) ? claims : undefined
+  } catch {
+    return undefined
+  }
+}
+
+// Seconds since the epoch
+export const tokenExpiry = (token: string) => {
+  const exp = tokenClaims(token)?.exp
+  return typeof exp === "number" ? exp : undefined
+}
+
+export const isTokenExpired = (token: string, now = Date.now()) => {
+  const exp = tokenExpiry(token)
+  return exp === undefined || exp * 1000 <= now
+}
+
+export const writeSessionCookie = (token: string) => {
+  const exp = tokenExpiry(token)
+  const maxAge = exp ? Math.max(0, Math.floor(exp - Date.now() / 1000)) : 0
+  const secure = location.protocol === "https:" ? "; Secure" : ""
+  document.cookie = `${SESSION_COOKIE}=${token}; Path=/; Max-Age=${maxAge}; SameSite=Lax${secure}`
+}
+
+export const clearSessionCookie = () => {
+  document.cookie = `${SESSION_COOKIE}=; Path=/; Max-Age=0; SameSite=Lax`
+}
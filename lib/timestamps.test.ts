@@ -0,0 +1,101 @@
+// @vitest-environment jsdom
+import { describe, expect, it } from "vitest"
+import { sanitizeHtml } from "./sanitize"
+import { parseTimestamp, timestampLinker, toSeconds } from "./timestamps"
+
+// The report with seek links, parsed the way the analysis page shows it
+const render = (html: string, duration?: number) => {
+  const container = document.createElement("div")
+  container.innerHTML = sanitizeHtml(html, { text: timestampLinker(duration) })
+  return container
+}
+
+// [label, data-seek] of every seek link
+const seekLinksIn = (container: Element) =>
+  Array.from(container.querySelectorAll("a[data-seek]")).map((link) => [link.textContent, link.getAttribute("data-seek")])
+
+describe("parseTimestamp", () => {
+  it.each([
+    ["0:05", 5],
+    ["1:23", 83],
+    ["12:34", 754],
+    ["1:02:03", 3723],
+    [" 2:00 ", 120],
+  ])("reads %j as %d seconds", (value, seconds) => {
+    expect(parseTimestamp(value)).toBe(seconds)
+  })
+
+  it.each(["", "123", "1:2", "1:60", "1:75:00", "123:00", "1:23 am", "a1:23"])("rejects %j", (value) => {
+    expect(parseTimestamp(value)).toBeUndefined()
+  })
+})
+
+describe("toSeconds", () => {
+  it("takes finite, non-negative numbers as they are", () => {
+    expect(toSeconds(0)).toBe(0)
+    expect(toSeconds(12.5)).toBe(12.5)
+    expect(toSeconds(-1)).toBeUndefined()
+    expect(toSeconds(Number.NaN)).toBeUndefined()
+    expect(toSeconds(Number.POSITIVE_INFINITY)).toBeUndefined()
+  })
+
+  it("reads numeric and m:ss strings", () => {
+    expect(toSeconds("42")).toBe(42)
+    expect(toSeconds(" 7.5 ")).toBe(7.5)
+    expect(toSeconds("1:23")).toBe(83)
+    expect(toSeconds("soon")).toBeUndefined()
+  })
+
+  it("ignores anything else", () => {
+    expect(toSeconds(null)).toBeUndefined()
+    expect(toSeconds(undefined)).toBeUndefined()
+    expect(toSeconds({ seconds: 3 })).toBeUndefined()
+  })
+})
+
+describe("timestampLinker", () => {
+  it("links m:ss and h:mm:ss timestamps, including both ends of a range", () => {
+    const container = render("<p>Spin at 1:23, the lift from 0:42-0:55 and the finale at 1:02:03.</p>")
+    expect(seekLinksIn(container)).toEqual([
+      ["1:23", "83"],
+      ["0:42", "42"],
+      ["0:55", "55"],
+      ["1:02:03", "3723"],
+    ])
+    expect(container.querySelector("a[data-seek]")!.getAttribute("href")).toBe("#t=83")
+    expect(container.textContent).toBe("Spin at 1:23, the lift from 0:42-0:55 and the finale at 1:02:03.")
+  })
+
+  it("leaves times of day alone", () => {
+    const container = render("<p>Rehearsal 10:30 am, 10:30am, 7:15 p.m. and 9:45 PM.</p>")
+    expect(seekLinksIn(container)).toEqual([])
+  })
+
+  it("still links a timestamp before a word that starts like am or pm", () => {
+    expect(seekLinksIn(render("<p>1:23 amazing footwork, 2:10 posture</p>"))).toEqual([
+      ["1:23", "83"],
+      ["2:10", "130"],
+    ])
+  })
+
+  it("skips text inside links, code and pre, and picks up again after them", () => {
+    const container = render(
+      '<p><a href="#notes">see 0:10</a> <code>0:20</code> then 0:30</p><pre><b>0:40</b></pre><p>and 0:50</p>',
+    )
+    expect(seekLinksIn(container)).toEqual([
+      ["0:30", "30"],
+      ["0:50", "50"],
+    ])
+  })
+
+  it("doesn't link times past the end of the video", () => {
+    expect(seekLinksIn(render("<p>0:42 and 1:23</p>", 60))).toEqual([["0:42", "42"]])
+  })
+
+  it("leaves attributes as they are, even with a timestamp and markup inside", () => {
+    const container = render('<p><span title="x>1:23 <img src=x onerror=alert(1)>">hi 0:05</span></p>')
+    expect(container.querySelector("img")).toBeNull()
+    expect(container.querySelector("span")!.getAttribute("title")).toBe("x>1:23 <img src=x onerror=alert(1)>")
+    expect(seekLinksIn(container)).toEqual([["0:05", "5"]])
+  })
+})
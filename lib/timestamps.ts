@@ -0,0 +1,58 @@
+// Video timestamps in report text ("at 1:23", "0:42-0:55", "1:02:03"), turned
+// into links the analysis page can seek the video with.
+
+// m:ss or h:mm:ss, but not a time of day like "10:30 am"
+const TIMESTAMP = /\b(?:(\d{1,2}):)?(\d{1,2}):([0-5]\d)\b(?!\s*(?:[ap]\.?m\b|[ap]\.m\.))/gi
+
+// Elements whose text must not be turned into links
+const SKIPPED_ELEMENTS = ["a", "code", "pre"]
+
+// "1:23" or "1:02:03" in seconds
+export const parseTimestamp = (value: string): number | undefined => {
+  const match = value.trim().match(/^(?:(\d{1,2}):)?(\d{1,2}):([0-5]\d)$/)
+  if (!match) return undefined
+  const [, hours, minutes, seconds] = match
+  if (hours && Number(minutes) > 59) return undefined
+  return Number(hours || 0) * 3600 + Number(minutes) * 60 + Number(seconds)
+}
+
+// Seconds as a number, or a "1:23" string
+export const toSeconds = (value: unknown): number | undefined => {
+  if (typeof value === "number") return Number.isFinite(value) && value >= 0 ? value : undefined
+  if (typeof value !== "string") return undefined
+  if (/^\d+(\.\d+)?$/.test(value.trim())) return parseFloat(value)
+  return parseTimestamp(value)
+}
+
+/**
+ * A `text` option for sanitizeHtml that wraps every timestamp in a link
+ * carrying its time in `data-seek`. Text already inside links, code and pre is
+ * left alone; with a known duration, times past the end of the video aren't
+ * linked.
+ */
+export const timestampLinker =
+  (duration?: number) =>
+  (text: string, parent: Element, doc: Document): Node => {
+    const fragment = doc.createDocumentFragment()
+    if (parent.closest(SKIPPED_ELEMENTS.join(","))) {
+      fragment.append(text)
+      return fragment
+    }
+
+    let rest = 0
+    for (const match of text.matchAll(TIMESTAMP)) {
+      const seconds = parseTimestamp(match[0])
+      if (seconds === undefined || (duration && seconds > duration)) continue
+
+      const link = doc.createElement("a")
+      link.setAttribute("href", `#t=${seconds}`)
+      link.setAttribute("data-seek", String(seconds))
+      link.setAttribute("class", "text-blue-600 underline hover:text-blue-800")
+      link.textContent = match[0]
+      const start = match.index ?? 0
+      fragment.append(text.slice(rest, start), link)
+      rest = start + match[0].length
+    }
+    fragment.append(text.slice(rest))
+    return fragment
+  }
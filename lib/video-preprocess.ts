@@ -0,0 +1,162 @@
+// In-browser trim/downscale/transcode. The source plays through a hidden
+// <video>, frames are drawn onto a canvas at the target size, and the canvas
+// stream (plus the source audio) is re-encoded with MediaRecorder. That runs
+// in real time: processing takes as long as the trimmed clip.
+
+export interface PreprocessOptions {
+  startTime: number
+  endTime: number
+  // Output height in pixels; null keeps the source resolution
+  targetHeight: number | null
+  videoBitsPerSecond?: number
+  onProgress?: (percent: number) => void
+  signal?: AbortSignal
+}
+
+export const TARGET_HEIGHTS = [1080, 720, 480] as const
+
+// MP4 only: the upload form and the backend accept MP4/MOV and nothing else.
+// Chrome and Safari can record it; where the browser can't (Firefox records
+// WebM), processing is unavailable and the original file is uploaded.
+const OUTPUT_TYPES = ["video/mp4;codecs=avc1.42E01E,mp4a.40.2", "video/mp4"]
+
+const pickOutputType = () => OUTPUT_TYPES.find((type) => MediaRecorder.isTypeSupported(type))
+
+export const isPreprocessingSupported = () =>
+  typeof window !== "undefined" &&
+  typeof MediaRecorder !== "undefined" &&
+  typeof HTMLCanvasElement.prototype.captureStream === "function" &&
+  pickOutputType() !== undefined
+
+const loadVideo = (file: File) =>
+  new Promise<HTMLVideoElement>((resolve, reject) => {
+    const video = document.createElement("video")
+    video.preload = "auto"
+    video.playsInline = true
+    video.src = URL.createObjectURL(file)
+    video.onloadedmetadata = () => resolve(video)
+    video.onerror = () => {
+      URL.revokeObjectURL(video.src)
+      reject(new Error("This video format cannot be read by the browser"))
+    }
+  })
+
+const seekTo = (video: HTMLVideoElement, time: number) =>
+  new Promise<void>((resolve) => {
+    video.onseeked = () => resolve()
+    video.currentTime = time
+  })
+
+// Rough output size from bitrate, shown before processing starts
+export const estimateOutputBytes = (durationSeconds: number, videoBitsPerSecond: number) =>
+  Math.round((durationSeconds * (videoBitsPerSecond + 128000)) / 8)
+
+export const bitrateForHeight = (height: number | null) => {
+  if (height === null || height >= 1080) return 5000000
+  if (height >= 720) return 2500000
+  return 1200000
+}
+
+export const formatBytes = (bytes: number) => {
+  if (bytes >= 1024 * 1024 * 1024) return `${(bytes / (1024 * 1024 * 1024)).toFixed(2)} GB`
+  if (bytes >= 1024 * 1024) return `${(bytes / (1024 * 1024)).toFixed(1)} MB`
+  return `${Math.round(bytes / 1024)} KB`
+}
+
+export async function preprocessVideo(file: File, options: PreprocessOptions): Promise<File> {
+  const mimeType = isPreprocessingSupported() ? pickOutputType() : undefined
+  if (!mimeType) {
+    throw new Error("Video processing is not supported in this browser")
+  }
+
+  const video = await loadVideo(file)
+  const startTime = Math.max(0, options.startTime)
+  const endTime = Math.min(video.duration, options.endTime)
+  if (endTime <= startTime) {
+    URL.revokeObjectURL(video.src)
+    throw new Error("The end of the trim range must be after its start")
+  }
+
+  const scale = options.targetHeight && options.targetHeight < video.videoHeight ? options.targetHeight / video.videoHeight : 1
+  const canvas = document.createElement("canvas")
+  // Encoders want even dimensions
+  canvas.width = Math.round((video.videoWidth * scale) / 2) * 2
+  canvas.height = Math.round((video.videoHeight * scale) / 2) * 2
+  const context = canvas.getContext("2d")!
+
+  const stream = canvas.captureStream(30)
+  // Route the soundtrack into the recording without playing it through the speakers
+  const audioContext = new AudioContext()
+  const audioDestination = audioContext.createMediaStreamDestination()
+  audioContext.createMediaElementSource(video).connect(audioDestination)
+  audioDestination.stream.getAudioTracks().forEach((track) => stream.addTrack(track))
+
+  const recorder = new MediaRecorder(stream, {
+    mimeType,
+    videoBitsPerSecond: options.videoBitsPerSecond ?? bitrateForHeight(options.targetHeight),
+  })
+  const chunks: Blob[] = []
+  recorder.ondataavailable = (event) => {
+    if (event.data.size > 0) chunks.push(event.data)
+  }
+
+  await seekTo(video, startTime)
+
+  return new Promise<File>((resolve, reject) => {
+    let frameHandle = 0
+    let finished = false
+
+    const cleanup = () => {
+      finished = true
+      cancelAnimationFrame(frameHandle)
+      video.pause()
+      stream.getTracks().forEach((track) => track.stop())
+      audioContext.close()
+      URL.revokeObjectURL(video.src)
+    }
+
+    const drawFrame = () => {
+      if (finished) return
+      context.drawImage(video, 0, 0, canvas.width, canvas.height)
+      options.onProgress?.(Math.min(100, Math.round(((video.currentTime - startTime) / (endTime - startTime)) * 100)))
+
+      if (video.currentTime >= endTime || video.ended) {
+        recorder.stop()
+        return
+      }
+      frameHandle = requestAnimationFrame(drawFrame)
+    }
+
+    recorder.onstop = () => {
+      const aborted = options.signal?.aborted
+      cleanup()
+      if (aborted) {
+        reject(new DOMException("Video processing cancelled", "AbortError"))
+        return
+      }
+      const baseName = file.name.replace(/\.[^.]+$/, "")
+      options.onProgress?.(100)
+      resolve(new File(chunks, `${baseName}-processed.mp4`, { type: "video/mp4" }))
+    }
+
+    recorder.onerror = () => {
+      cleanup()
+      reject(new Error("Video encoding failed"))
+    }
+
+    options.signal?.addEventListener("abort", () => {
+      if (recorder.state !== "inactive") recorder.stop()
+    })
+
+    recorder.start(1000)
+    video
+      .play()
+      .then(() => {
+        frameHandle = requestAnimationFrame(drawFrame)
+      })
+      .catch((error) => {
+        cleanup()
+        reject(error)
+      })
+  })
+}
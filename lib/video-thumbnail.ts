@@ -0,0 +1,48 @@
+// Still frame of an analysis video for printed reports. The video is loaded
+// with CORS so the canvas stays readable; storage that doesn't send CORS
+// headers taints it, and the report simply goes without a thumbnail.
+
+const THUMBNAIL_WIDTH = 640
+const LOAD_TIMEOUT_MS = 15000
+
+/**
+ * Resolves to a JPEG data URL of the frame at `time` (clamped into the video),
+ * or null when the video can't be loaded or read back.
+ */
+export function captureVideoFrame(url: string, time = 1): Promise<string | null> {
+  if (typeof document === "undefined") return Promise.resolve(null)
+
+  return new Promise((resolve) => {
+    const video = document.createElement("video")
+    const finish = (result: string | null) => {
+      clearTimeout(timeout)
+      video.removeAttribute("src")
+      video.load()
+      resolve(result)
+    }
+    const timeout = setTimeout(() => finish(null), LOAD_TIMEOUT_MS)
+
+    video.crossOrigin = "anonymous"
+    video.muted = true
+    video.playsInline = true
+    video.preload = "auto"
+    video.onerror = () => finish(null)
+    video.onloadedmetadata = () => {
+      video.currentTime = Math.min(time, video.duration / 2 || 0)
+    }
+    video.onseeked = () => {
+      try {
+        const canvas = document.createElement("canvas")
+        const scale = Math.min(1, THUMBNAIL_WIDTH / video.videoWidth)
+        canvas.width = Math.round(video.videoWidth * scale)
+        canvas.height = Math.round(video.videoHeight * scale)
+        canvas.getContext("2d")!.drawImage(video, 0, 0, canvas.width, canvas.height)
+        finish(canvas.toDataURL("image/jpeg", 0.85))
+      } catch {
+        // Tainted canvas: the video host doesn't allow cross-origin reads
+        finish(null)
+      }
+    }
+    video.src = url
+  })
+}
@@ -0,0 +1,50 @@
+import { NextRequest } from "next/server"
+import { describe, expect, it } from "vitest"
+import { proxy } from "./proxy"
+import { SESSION_COOKIE } from "./lib/session"
+
+const HOUR = 3600
+
+// Unsigned, like the proxy reads it
+const token = (claims: Record<string, unknown>) => {
+  const encode = (value: object) => Buffer.from(JSON.stringify(value)).toString("base64url")
+  return `${encode({ alg: "RS256" })}.${encode({ exp: Math.floor(Date.now() / 1000) + HOUR, ...claims })}.signature`
+}
+
+const visit = (path: string, session?: string) =>
+  proxy(
+    new NextRequest(`https://app.test${path}`, {
+      headers: session ? { cookie: `${SESSION_COOKIE}=${session}` } : {},
+    }),
+  )
+
+const redirectedTo = (response: Response) => response.headers.get("location")
+
+describe("proxy", () => {
+  it("lets anyone open public pages", () => {
+    expect(redirectedTo(visit("/login"))).toBeNull()
+    expect(redirectedTo(visit("/s/abc123"))).toBeNull()
+  })
+
+  it("sends visitors without a live session to login, keeping the return URL", () => {
+    expect(redirectedTo(visit("/analysis/1?tab=notes"))).toBe("https://app.test/login?next=%2Fanalysis%2F1%3Ftab%3Dnotes")
+    expect(redirectedTo(visit("/admin", token({ exp: Math.floor(Date.now() / 1000) - HOUR, admin: true })))).toBe(
+      "https://app.test/login?next=%2Fadmin",
+    )
+  })
+
+  it("lets signed-in users open their pages", () => {
+    expect(redirectedTo(visit("/studio", token({})))).toBeNull()
+  })
+
+  it("sends users without the admin claim home from /admin", () => {
+    expect(redirectedTo(visit("/admin", token({})))).toBe("https://app.test/")
+    expect(redirectedTo(visit("/admin/roles", token({ roles: ["coach"] })))).toBe("https://app.test/")
+    expect(redirectedTo(visit("/administrator", token({})))).toBeNull()
+  })
+
+  it("lets admins into /admin", () => {
+    expect(redirectedTo(visit("/admin/roles", token({ roles: ["admin"] })))).toBeNull()
+    expect(redirectedTo(visit("/admin", token({ admin: true })))).toBeNull()
+  })
+})
@@ -0,0 +1,30 @@
+import { NextResponse, type NextRequest } from "next/server"
+import { hasRole, rolesFromClaims } from "@/lib/roles"
+import { SESSION_COOKIE, isPublicPath, isTokenExpired, loginUrl, requiredRole, tokenClaims } from "@/lib/session"
+
+// Sends visitors without a live session to /login before a protected page is
+// rendered. An expired token also lands there: if Firebase still has the user
+// signed in, the login page forwards them straight back to `next`.
+// Pages that need a role (/admin) send users whose token lacks it home, so
+// none of their markup is served; RequireRole repeats the check on the client.
+export function proxy(request: NextRequest) {
+  const { pathname, search } = request.nextUrl
+  if (isPublicPath(pathname)) return NextResponse.next()
+
+  const token = request.cookies.get(SESSION_COOKIE)?.value
+  if (!token || isTokenExpired(token)) {
+    return NextResponse.redirect(new URL(loginUrl(pathname + search), request.url))
+  }
+
+  const role = requiredRole(pathname)
+  if (role && !hasRole(rolesFromClaims(tokenClaims(token) ?? {}), role)) {
+    return NextResponse.redirect(new URL("/", request.url))
+  }
+
+  return NextResponse.next()
+}
+
+export const config = {
+  // Pages only: skip Next internals, the service worker, the manifest and files in public/
+  matcher: ["/((?!_next/|sw\\.js|manifest\\.webmanifest|.*\\.[\\w]+$).*)"],
+}
@@ -0,0 +1,119 @@
+// Service worker: keeps the app shell and already-loaded analyses available
+// offline, and wakes the page to send queued submissions on background sync.
+// Registered by contexts/offline-queue-context.tsx with the API origin in the
+// `api` query parameter. Bump VERSION to drop every cache on the next deploy.
+
+const VERSION = "v2"
+const SHELL_CACHE = `flokraft-shell-${VERSION}`
+const STATIC_CACHE = `flokraft-static-${VERSION}`
+const API_CACHE = `flokraft-api-${VERSION}`
+
+const SHELL_URLS = ["/", "/manifest.webmanifest", "/logo192.png", "/logo512.png", "/favicon.ico"]
+
+// Must match UPLOAD_SYNC_TAG in lib/offline-queue.ts
+const UPLOAD_SYNC_TAG = "flokraft-upload-queue"
+
+const API_ORIGIN = (() => {
+  try {
+    return new URL(new URL(self.location.href).searchParams.get("api") || "").origin
+  } catch {
+    return null
+  }
+})()
+
+// Streams and uploads make no sense from a cache, and a cached /health would
+// tell the connectivity monitor the backend is up while it is down
+const isCacheableApiPath = (pathname) =>
+  !pathname.startsWith("/uploads") && !pathname.endsWith("/status-stream") && pathname !== "/health"
+
+self.addEventListener("install", (event) => {
+  event.waitUntil(
+    caches
+      .open(SHELL_CACHE)
+      .then((cache) => cache.addAll(SHELL_URLS))
+      .then(() => self.skipWaiting()),
+  )
+})
+
+self.addEventListener("activate", (event) => {
+  const current = [SHELL_CACHE, STATIC_CACHE, API_CACHE]
+  event.waitUntil(
+    caches
+      .keys()
+      .then((keys) => Promise.all(keys.filter((key) => !current.includes(key)).map((key) => caches.delete(key))))
+      .then(() => self.clients.claim()),
+  )
+})
+
+// Fresh when online, the last good copy when not
+const networkFirst = async (request, cacheName, fallbackUrl) => {
+  const cache = await caches.open(cacheName)
+  try {
+    const response = await fetch(request)
+    if (response.ok) cache.put(request, response.clone())
+    return response
+  } catch (error) {
+    const cached = (await cache.match(request)) || (fallbackUrl && (await cache.match(fallbackUrl)))
+    if (cached) return cached
+    throw error
+  }
+}
+
+// Build output under /_next/static is content-hashed, so a cached copy never goes stale
+const cacheFirst = async (request) => {
+  const cache = await caches.open(STATIC_CACHE)
+  const cached = await cache.match(request)
+  if (cached) return cached
+  const response = await fetch(request)
+  if (response.ok) cache.put(request, response.clone())
+  return response
+}
+
+self.addEventListener("fetch", (event) => {
+  const { request } = event
+  if (request.method !== "GET") return
+
+  const url = new URL(request.url)
+
+  if (url.origin === self.location.origin) {
+    if (request.mode === "navigate") {
+      // Any page falls back to the cached dashboard shell, which routes client-side
+      event.respondWith(networkFirst(request, SHELL_CACHE, "/"))
+    } else if (url.pathname.startsWith("/_next/static/") || SHELL_URLS.includes(url.pathname)) {
+      event.respondWith(cacheFirst(request))
+    }
+    return
+  }
+
+  if (API_ORIGIN && url.origin === API_ORIGIN && isCacheableApiPath(url.pathname)) {
+    event.respondWith(networkFirst(request, API_CACHE))
+  }
+})
+
+self.addEventListener("message", (event) => {
+  // Sent on logout so the next user of the device can't read the previous one's analyses
+  if (event.data?.type === "clear-api-cache") {
+    event.waitUntil(caches.delete(API_CACHE))
+  }
+})
+
+// The queue needs the user's auth token, which only the page has, so the
+// worker asks an open page to send it and waits for the answer. A rejection
+// makes the browser retry the sync later.
+const flushThroughClient = async () => {
+  const clients = await self.clients.matchAll({ type: "window" })
+  if (clients.length === 0) throw new Error("No open page to send the upload queue")
+
+  const reply = await new Promise((resolve) => {
+    const channel = new MessageChannel()
+    channel.port1.onmessage = (event) => resolve(event.data)
+    clients[0].postMessage({ type: "flush-upload-queue" }, [channel.port2])
+  })
+  if (!reply?.ok) throw new Error("Upload queue not sent yet")
+}
+
+self.addEventListener("sync", (event) => {
+  if (event.tag === UPLOAD_SYNC_TAG) {
+    event.waitUntil(flushThroughClient())
+  }
+})
@@ -0,0 +1,99 @@
+// Local stand-in for the backend's analysis status stream.
+//
+//   node scripts/mock-status-server.mjs [port]
+//   NEXT_PUBLIC_STATUS_STREAM_URL=http://localhost:5556/analyses/status-stream pnpm dev
+//
+// Push a transition to every connected client:
+//   curl -X POST localhost:5556/mock/transition -d '{"id":"abc","status":"completed"}'
+//
+// With --auto, every id posted as "processing" completes by itself after a few seconds.
+//
+// Like the backend, the stream only opens with a ticket from POST /analyses/status-stream/ticket,
+// which works once and for a minute. Port 0 picks a free port; the first line printed has the URL.
+// lib/analysis-status.test.ts runs against this server.
+
+import { randomUUID } from "node:crypto"
+import http from "node:http"
+
+const TICKET_TTL_MS = 60_000
+
+const port = Number(process.argv.find((arg) => /^\d+$/.test(arg)) ?? 5556)
+const auto = process.argv.includes("--auto")
+const clients = new Set()
+// Issued and not yet used: ticket -> expiry
+const tickets = new Map()
+
+const broadcast = (event) => {
+  const payload = `event: status\ndata: ${JSON.stringify(event)}\n\n`
+  clients.forEach((res) => res.write(payload))
+  console.log(`-> ${clients.size} client(s):`, event)
+}
+
+const server = http.createServer((req, res) => {
+  res.setHeader("Access-Control-Allow-Origin", "*")
+  res.setHeader("Access-Control-Allow-Headers", "Content-Type, Authorization")
+
+  if (req.method === "OPTIONS") {
+    res.writeHead(204).end()
+    return
+  }
+
+  if (req.method === "POST" && req.url === "/analyses/status-stream/ticket") {
+    const ticket = randomUUID()
+    const expiresAt = Date.now() + TICKET_TTL_MS
+    tickets.set(ticket, expiresAt)
+    res.writeHead(200, { "Content-Type": "application/json" })
+    res.end(JSON.stringify({ ticket, expires_at: new Date(expiresAt).toISOString() }))
+    return
+  }
+
+  if (req.method === "GET" && req.url.startsWith("/analyses/status-stream")) {
+    const ticket = new URL(req.url, "http://localhost").searchParams.get("ticket")
+    const expiresAt = tickets.get(ticket)
+    tickets.delete(ticket)
+    if (!expiresAt || expiresAt < Date.now()) {
+      res.writeHead(401).end("Missing, used or expired ticket")
+      return
+    }
+
+    res.writeHead(200, {
+      "Content-Type": "text/event-stream",
+      "Cache-Control": "no-cache",
+      Connection: "keep-alive",
+    })
+    res.write("retry: 2000\n\n")
+    clients.add(res)
+
+    const keepAlive = setInterval(() => res.write(": ping\n\n"), 15000)
+    req.on("close", () => {
+      clearInterval(keepAlive)
+      clients.delete(res)
+    })
+    return
+  }
+
+  if (req.method === "POST" && req.url === "/mock/transition") {
+    let body = ""
+    req.on("data", (chunk) => (body += chunk))
+    req.on("end", () => {
+      try {
+        const event = JSON.parse(body)
+        broadcast(event)
+        if (auto && event.status === "processing") {
+          setTimeout(() => broadcast({ id: event.id, status: "completed" }), 5000)
+        }
+        res.writeHead(202).end()
+      } catch {
+        res.writeHead(400).end("Expected JSON body { id, status }")
+      }
+    })
+    return
+  }
+
+  res.writeHead(404).end()
+})
+
+server.listen(port, () => {
+  const url = `http://localhost:${server.address().port}/analyses/status-stream`
+  console.log(`Mock status stream on ${url}${auto ? " (auto-complete on)" : ""}`)
+})